@@ -40,6 +40,139 @@ export const config = {
     credentials: true,
   },
 
+  // Listing lifecycle
+  listing: {
+    // ระยะเวลาที่ประกาศแสดงผลได้ (วัน) ตาม listingType
+    validityDays: {
+      sell: parseInt(process.env.LISTING_VALIDITY_DAYS_SELL || "90"),
+      rent: parseInt(process.env.LISTING_VALIDITY_DAYS_RENT || "60"),
+      lease: parseInt(process.env.LISTING_VALIDITY_DAYS_LEASE || "90"),
+    },
+    expiryWarningDays: parseInt(process.env.LISTING_EXPIRY_WARNING_DAYS || "5"),
+    archiveGraceDays: parseInt(process.env.LISTING_ARCHIVE_GRACE_DAYS || "30"),
+    schedulerIntervalMs: parseInt(
+      process.env.LISTING_SCHEDULER_INTERVAL_MS || "3600000"
+    ), // 1 hour
+  },
+
+  // ตรวจจับประกาศซ้ำตอนสร้างโพสต์
+  duplicateDetection: {
+    radiusMeters: parseInt(process.env.DUPLICATE_RADIUS_METERS || "200"),
+    flagScore: parseFloat(process.env.DUPLICATE_FLAG_SCORE || "0.7"),
+    blockScore: parseFloat(process.env.DUPLICATE_BLOCK_SCORE || "0.9"),
+  },
+
+  // ประกาศที่คล้ายกัน (หน้ารายละเอียดโพสต์)
+  similarListings: {
+    cacheTtlSeconds: parseInt(process.env.SIMILAR_CACHE_TTL_SECONDS || "3600"),
+    maxDistanceKm: parseFloat(process.env.SIMILAR_MAX_DISTANCE_KM || "30"),
+    candidateLimit: parseInt(process.env.SIMILAR_CANDIDATE_LIMIT || "300"),
+  },
+
+  // ระบบแนะนำประกาศ (/posts/user/recommended)
+  recommendations: {
+    lookbackDays: parseInt(process.env.RECOMMENDATION_LOOKBACK_DAYS || "90"),
+    candidateLimit: parseInt(
+      process.env.RECOMMENDATION_CANDIDATE_LIMIT || "200"
+    ),
+  },
+
+  // Boost ประกาศแบบเสียเงิน: ราคาต่อวัน (กีบ)
+  boosts: {
+    dailyPrice: {
+      featured: parseInt(process.env.BOOST_DAILY_PRICE_FEATURED || "50000"),
+      urgent: parseInt(process.env.BOOST_DAILY_PRICE_URGENT || "30000"),
+      top_search: parseInt(process.env.BOOST_DAILY_PRICE_TOP_SEARCH || "80000"),
+    },
+    maxDurationDays: parseInt(process.env.BOOST_MAX_DURATION_DAYS || "90"),
+    schedulerIntervalMs: parseInt(
+      process.env.BOOST_SCHEDULER_INTERVAL_MS || "60000"
+    ), // 1 minute
+    // เวลาที่กันช่วง boost ไว้ให้ระหว่างรอชำระเงิน
+    paymentHoldHours: parseInt(process.env.BOOST_PAYMENT_HOLD_HOURS || "24"),
+    // secret ที่ผู้ให้บริการชำระเงินส่งมาใน header X-Payment-Secret (ว่าง = ปิด callback)
+    paymentCallbackSecret: process.env.BOOST_PAYMENT_CALLBACK_SECRET || "",
+  },
+
+  // นัดชมทรัพย์: ช่วงเวลาที่ผู้ขายเปิดให้จอง และการแจ้งเตือนก่อนนัด
+  viewings: {
+    maxSlotsPerRequest: parseInt(
+      process.env.VIEWING_MAX_SLOTS_PER_REQUEST || "20"
+    ),
+    maxSlotDurationMinutes: parseInt(
+      process.env.VIEWING_MAX_SLOT_DURATION_MINUTES || "240"
+    ),
+    maxAdvanceDays: parseInt(process.env.VIEWING_MAX_ADVANCE_DAYS || "60"),
+    reminderHoursBefore: (process.env.VIEWING_REMINDER_HOURS_BEFORE || "24,1")
+      .split(",")
+      .map((hours) => parseFloat(hours))
+      .filter((hours) => hours > 0)
+      .sort((a, b) => b - a),
+    schedulerIntervalMs: parseInt(
+      process.env.VIEWING_SCHEDULER_INTERVAL_MS || "300000"
+    ), // 5 minutes
+  },
+
+  // นำเข้าประกาศจำนวนมากจากไฟล์ CSV/XLSX
+  imports: {
+    maxFileSizeMb: parseInt(process.env.IMPORT_MAX_FILE_SIZE_MB || "5"),
+    maxRows: parseInt(process.env.IMPORT_MAX_ROWS || "1000"),
+    maxImagesPerRow: parseInt(process.env.IMPORT_MAX_IMAGES_PER_ROW || "20"),
+    imageFetchTimeoutMs: parseInt(
+      process.env.IMPORT_IMAGE_FETCH_TIMEOUT_MS || "10000"
+    ),
+    maxImageSizeMb: parseInt(process.env.IMPORT_MAX_IMAGE_SIZE_MB || "10"),
+  },
+
+  // Partner feed สำหรับพอร์ทัล/Facebook catalog
+  feeds: {
+    title: process.env.FEED_TITLE || "Real Estate Listings",
+    defaultPageSize: parseInt(process.env.FEED_DEFAULT_PAGE_SIZE || "500"),
+    maxPageSize: parseInt(process.env.FEED_MAX_PAGE_SIZE || "2000"),
+  },
+
+  // SEO: URL ของหน้าเว็บ (ใช้สร้าง canonical URL, ลิงก์ใน feed และ sitemap)
+  seo: {
+    siteUrl: process.env.SITE_URL || "http://localhost:3000",
+    slugMaxLength: parseInt(process.env.SLUG_MAX_LENGTH || "80"),
+    sitemapMaxUrls: parseInt(process.env.SITEMAP_MAX_URLS || "45000"), // จำกัดของ sitemap คือ 50,000 URL ต่อไฟล์
+    sitemapIntervalMs: parseInt(process.env.SITEMAP_INTERVAL_MS || "900000"), // 15 minutes
+    slugBackfillBatchSize: parseInt(
+      process.env.SLUG_BACKFILL_BATCH_SIZE || "500"
+    ),
+  },
+
+  // สกุลเงิน: อัตราแลกเปลี่ยนเริ่มต้น (กีบต่อ 1 หน่วย) ใช้จนกว่า admin จะตั้งค่าในระบบ
+  currency: {
+    defaultRates: {
+      THB: parseFloat(process.env.CURRENCY_DEFAULT_RATE_THB || "620"),
+      USD: parseFloat(process.env.CURRENCY_DEFAULT_RATE_USD || "21500"),
+    },
+    refreshIntervalMs: parseInt(
+      process.env.CURRENCY_REFRESH_INTERVAL_MS || "300000"
+    ), // 5 minutes
+  },
+
+  // เครื่องคำนวณสินเชื่อ/ค่าเช่า: ค่าเริ่มต้นเมื่อผู้ใช้ไม่ได้ระบุ
+  calculator: {
+    defaultAnnualRate: parseFloat(
+      process.env.CALCULATOR_DEFAULT_ANNUAL_RATE || "8"
+    ), // percent
+    defaultTermYears: parseInt(
+      process.env.CALCULATOR_DEFAULT_TERM_YEARS || "20"
+    ),
+    maxTermYears: parseInt(process.env.CALCULATOR_MAX_TERM_YEARS || "40"),
+    defaultDownPaymentPercent: parseFloat(
+      process.env.CALCULATOR_DEFAULT_DOWN_PAYMENT_PERCENT || "20"
+    ),
+    rentalDepositMonths: parseInt(
+      process.env.CALCULATOR_RENTAL_DEPOSIT_MONTHS || "2"
+    ),
+    rentalAdvanceMonths: parseInt(
+      process.env.CALCULATOR_RENTAL_ADVANCE_MONTHS || "1"
+    ),
+  },
+
   // Facebook
   facebook: {
     appId: process.env.FACEBOOK_APP_ID || "",
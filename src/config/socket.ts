@@ -26,6 +26,18 @@ interface TypingData {
   isTyping: boolean;
 }
 
+let ioInstance: SocketIOServer | null = null;
+
+// ส่ง event ไปยัง personal room ของ user (ใช้จาก service layer)
+export const emitToUser = (
+  userId: string,
+  event: string,
+  payload: unknown
+): void => {
+  if (!ioInstance) return;
+  ioInstance.to(`user:${userId}`).emit(event, payload);
+};
+
 export const initializeSocket = (server: HttpServer): SocketIOServer => {
   const io = new SocketIOServer(server, {
     cors: {
@@ -35,6 +47,7 @@ export const initializeSocket = (server: HttpServer): SocketIOServer => {
     },
     transports: ["websocket", "polling"],
   });
+  ioInstance = io;
 
   // Authentication middleware
   io.use(async (socket: AuthenticatedSocket, next) => {
@@ -26,6 +26,11 @@ const options = {
           type: 'http',
           scheme: 'bearer',
           bearerFormat: 'JWT'
+        },
+        feedKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Feed-Key'
         }
       },
       schemas: {
@@ -89,13 +94,65 @@ const options = {
               type: 'string',
               description: 'Property description'
             },
+            language: {
+              type: 'string',
+              enum: ['lo', 'th', 'en'],
+              description: 'Language of the returned title/description (from ?lang= or Accept-Language, else primaryLanguage)'
+            },
+            primaryLanguage: {
+              type: 'string',
+              enum: ['lo', 'th', 'en'],
+              default: 'lo',
+              description: 'Language the post was written in'
+            },
+            availableLanguages: {
+              type: 'array',
+              items: { type: 'string', enum: ['lo', 'th', 'en'] },
+              description: 'Languages with a title (primary language first)'
+            },
+            translations: {
+              type: 'object',
+              description: 'Title/description in other languages, keyed by lo, th or en',
+              additionalProperties: {
+                type: 'object',
+                properties: {
+                  title: { type: 'string', maxLength: 200 },
+                  description: { type: 'string', maxLength: 3000 }
+                }
+              }
+            },
             price: {
               type: 'number',
               description: 'Property price'
             },
+            currency: {
+              type: 'string',
+              enum: ['LAK', 'THB', 'USD'],
+              default: 'LAK',
+              description: 'Currency the price is quoted in'
+            },
+            convertedPrice: {
+              type: 'object',
+              description: 'Price in the requested display currency (only when ?currency= is sent)',
+              properties: {
+                amount: { type: 'number' },
+                currency: { type: 'string', enum: ['LAK', 'THB', 'USD'] },
+                rate: { type: 'number' }
+              }
+            },
             pricePerUnit: {
               type: 'number',
-              description: 'Price per square meter'
+              description: 'Price per square meter, computed from price / area'
+            },
+            lastPriceDrop: {
+              type: 'object',
+              description: 'Most recent price reduction (absent if the price has not dropped)',
+              properties: {
+                previousPrice: { type: 'number' },
+                dropAmount: { type: 'number' },
+                dropPercent: { type: 'number' },
+                droppedAt: { type: 'string', format: 'date-time' }
+              }
             },
             propertyType: {
               type: 'string',
@@ -115,6 +172,22 @@ const options = {
               type: 'number',
               description: 'Usable area in square meters'
             },
+            areaUnit: {
+              type: 'string',
+              enum: ['sqm', 'rai', 'hectare'],
+              default: 'sqm',
+              description: 'Unit the author entered the area in (area itself is always square meters)'
+            },
+            convertedArea: {
+              type: 'object',
+              description: 'Area and price per unit in the requested unit (only when ?areaUnit= is sent)',
+              properties: {
+                unit: { type: 'string', enum: ['sqm', 'rai', 'hectare'] },
+                area: { type: 'number' },
+                usableArea: { type: 'number' },
+                pricePerUnit: { type: 'number' }
+              }
+            },
             location: {
               type: 'object',
               properties: {
@@ -134,9 +207,22 @@ const options = {
                     latitude: { type: 'number', minimum: -90, maximum: 90 },
                     longitude: { type: 'number', minimum: -180, maximum: 180 }
                   }
+                },
+                boundary: {
+                  type: 'array',
+                  items: {
+                    type: 'array',
+                    items: { type: 'number' },
+                    minItems: 2,
+                    maxItems: 2
+                  },
+                  description: 'Land plot polygon [[lng, lat], ...]: at least 4 points, closed (last point = first point), not self-intersecting and inside Laos'
                 }
               }
             },
+            boundaryFeature: {
+              $ref: '#/components/schemas/BoundaryFeature'
+            },
             media: {
               type: 'object',
               properties: {
@@ -189,9 +275,22 @@ const options = {
             },
             status: {
               type: 'string',
-              enum: ['pending', 'approved', 'rejected', 'sold', 'rented'],
+              enum: ['draft', 'pending', 'approved', 'rejected', 'sold', 'rented', 'expired', 'archived'],
               description: 'Post status'
             },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When an approved post expires unless renewed'
+            },
+            renewCount: {
+              type: 'number',
+              description: 'Number of times the post has been renewed'
+            },
+            pendingRevisionId: {
+              type: 'string',
+              description: 'Edit to price, media, legal documents or location awaiting admin review'
+            },
             featured: {
               type: 'boolean',
               description: 'Whether post is featured'
@@ -216,6 +315,20 @@ const options = {
               type: 'string',
               description: 'Author user ID'
             },
+            slug: {
+              type: 'string',
+              description: 'SEO slug from title, property type and province; GET /api/posts/{slug} resolves it'
+            },
+            canonicalUrl: {
+              type: 'string',
+              description: 'Canonical listing URL on the website (post detail only)'
+            },
+            qualityScore: {
+              type: 'number',
+              minimum: 0,
+              maximum: 100,
+              description: 'Listing quality/completeness score (media, description, details, coordinates, boundary, legal documents)'
+            },
             createdAt: {
               type: 'string',
               format: 'date-time'
@@ -280,6 +393,85 @@ const options = {
             }
           }
         },
+        BoundaryFeature: {
+          type: 'object',
+          description: 'location.boundary as a GeoJSON Feature (omitted when the post has no boundary)',
+          properties: {
+            type: { type: 'string', enum: ['Feature'] },
+            id: { type: 'string' },
+            geometry: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['Polygon'] },
+                coordinates: {
+                  type: 'array',
+                  items: {
+                    type: 'array',
+                    items: { type: 'array', items: { type: 'number' } }
+                  }
+                }
+              }
+            },
+            properties: {
+              type: 'object',
+              properties: {
+                postId: { type: 'string' },
+                title: { type: 'string' },
+                declaredArea: { type: 'number', description: 'Area entered by the author (sqm)' },
+                area: { type: 'number', description: 'Geodesic area of the boundary (sqm)' },
+                perimeter: { type: 'number', description: 'Geodesic perimeter of the boundary (m)' },
+                areaMismatch: {
+                  type: 'object',
+                  description: 'Present when the boundary area differs from the declared area by more than 2x',
+                  properties: {
+                    declaredArea: { type: 'number' },
+                    boundaryArea: { type: 'number' },
+                    ratio: { type: 'number' }
+                  }
+                }
+              }
+            }
+          }
+        },
+        ListingQuality: {
+          type: 'object',
+          properties: {
+            score: {
+              type: 'number',
+              minimum: 0,
+              maximum: 100
+            },
+            breakdown: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  criterion: {
+                    type: 'string',
+                    enum: ['media', 'description', 'details', 'coordinates', 'boundary', 'legalDocuments']
+                  },
+                  score: { type: 'number' },
+                  maxScore: { type: 'number' }
+                }
+              }
+            },
+            tips: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  criterion: { type: 'string' },
+                  message: { type: 'string' },
+                  fields: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Missing detail fields'
+                  }
+                }
+              }
+            }
+          }
+        },
         ApiResponse: {
           type: 'object',
           properties: {
@@ -307,9 +499,24 @@ const options = {
                 total: { type: 'number' },
                 totalPages: { type: 'number' }
               }
+            },
+            cursor: {
+              $ref: '#/components/schemas/CursorInfo'
             }
           }
         },
+        CursorInfo: {
+          type: 'object',
+          properties: {
+            limit: { type: 'number' },
+            nextCursor: {
+              type: 'string',
+              nullable: true,
+              description: 'Pass as ?cursor= to fetch the next page (null when there are no more items)'
+            },
+            hasMore: { type: 'boolean' }
+          }
+        },
         Error: {
           type: 'object',
           properties: {
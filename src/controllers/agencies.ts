@@ -0,0 +1,348 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import {
+  AgencyService,
+  AgencyProfileInput,
+  AgencyPostFilters,
+} from "@/services/AgencyService";
+import { ResponseHelper } from "@/utils/response";
+import { AuthRequest } from "@/middlewares/auth";
+import { postHelper } from "./helpers/postHelper";
+
+// แปลงข้อผิดพลาดจาก AgencyService เป็น HTTP response
+const handleAgencyError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+): void => {
+  if (error instanceof Error) {
+    if (error.message.endsWith("not found")) {
+      ResponseHelper.notFound(res, error.message);
+      return;
+    }
+    if (error.message.startsWith("Only agency owners")) {
+      ResponseHelper.forbidden(res, error.message);
+      return;
+    }
+    if (error.message.includes("already belong")) {
+      ResponseHelper.conflict(res, error.message);
+      return;
+    }
+    if (
+      error.message === "An agency must have at least one owner" ||
+      error.message === "Assigned agent is not a member of this agency"
+    ) {
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+  }
+  ResponseHelper.internalError(res, fallback);
+};
+
+// ฟิลด์โปรไฟล์ที่แก้ไขได้
+const pickProfile = (body: Record<string, unknown>): AgencyProfileInput => {
+  const profile: Record<string, unknown> = {};
+  (
+    [
+      "name",
+      "description",
+      "logo",
+      "phone",
+      "email",
+      "licenseNumber",
+      "address",
+    ] as const
+  ).forEach((field) => {
+    if (body[field] !== undefined) profile[field] = body[field];
+  });
+  return profile as AgencyProfileInput;
+};
+
+// สร้างเอเจนซี่
+export const createAgency = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const agency = await AgencyService.createAgency(
+      pickProfile(req.body),
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(res, agency, "Agency created successfully", 201);
+  } catch (error) {
+    console.error("Create agency error:", error);
+    handleAgencyError(res, error, "Error creating agency");
+  }
+};
+
+// เอเจนซี่ของผู้ใช้
+export const getMyAgency = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const agency = await AgencyService.getMyAgency(req.user._id.toString());
+    if (!agency) {
+      ResponseHelper.notFound(res, "You do not belong to an agency");
+      return;
+    }
+
+    ResponseHelper.success(res, agency, "Agency retrieved successfully");
+  } catch (error) {
+    console.error("Get my agency error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// โปรไฟล์สาธารณะของเอเจนซี่
+export const getAgency = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const { agency, activeListings } = await AgencyService.getAgency(
+      req.params.id
+    );
+
+    ResponseHelper.success(
+      res,
+      {
+        _id: agency._id,
+        name: agency.name,
+        description: agency.description,
+        logo: agency.logo,
+        phone: agency.phone,
+        email: agency.email,
+        licenseNumber: agency.licenseNumber,
+        address: agency.address,
+        agents: agency.members.map((member) => ({
+          user: member.user,
+          role: member.role,
+        })),
+        activeListings,
+        createdAt: agency.createdAt,
+      },
+      "Agency retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get agency error:", error);
+    handleAgencyError(res, error, "Error retrieving agency");
+  }
+};
+
+// แก้ไขโปรไฟล์เอเจนซี่
+export const updateAgency = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const agency = await AgencyService.updateAgency(
+      req.params.id,
+      pickProfile(req.body),
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, agency, "Agency updated successfully");
+  } catch (error) {
+    console.error("Update agency error:", error);
+    handleAgencyError(res, error, "Error updating agency");
+  }
+};
+
+// เพิ่มสมาชิก
+export const addAgencyMember = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const agency = await AgencyService.addMember(
+      req.params.id,
+      req.body.userId,
+      req.body.role || "agent",
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, agency, "Member added successfully", 201);
+  } catch (error) {
+    console.error("Add agency member error:", error);
+    handleAgencyError(res, error, "Error adding agency member");
+  }
+};
+
+// เปลี่ยนบทบาทสมาชิก
+export const updateAgencyMember = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const agency = await AgencyService.updateMemberRole(
+      req.params.id,
+      req.params.userId,
+      req.body.role,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, agency, "Member updated successfully");
+  } catch (error) {
+    console.error("Update agency member error:", error);
+    handleAgencyError(res, error, "Error updating agency member");
+  }
+};
+
+// นำสมาชิกออก / ออกจากเอเจนซี่
+export const removeAgencyMember = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const agency = await AgencyService.removeMember(
+      req.params.id,
+      req.params.userId,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, agency, "Member removed successfully");
+  } catch (error) {
+    console.error("Remove agency member error:", error);
+    handleAgencyError(res, error, "Error removing agency member");
+  }
+};
+
+// ประกาศของเอเจนซี่
+export const getAgencyPosts = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { posts, total } = await AgencyService.getAgencyPosts(
+      req.params.id,
+      req.user?._id?.toString(),
+      {
+        status: req.query.status as AgencyPostFilters["status"],
+        agentId: req.query.agentId as string | undefined,
+      },
+      page,
+      limit
+    );
+
+    ResponseHelper.successWithPagination(
+      res,
+      posts.map((post) => postHelper.formatPostResponse(post)),
+      { page, limit, total, totalPages: Math.ceil(total / limit) },
+      "Agency posts retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get agency posts error:", error);
+    handleAgencyError(res, error, "Error retrieving agency posts");
+  }
+};
+
+// มอบหมายประกาศให้ตัวแทน
+export const assignAgencyPost = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const post = await AgencyService.assignPost(
+      req.params.id,
+      req.params.postId,
+      req.body.agentId,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(
+      res,
+      postHelper.formatPostResponse(post),
+      "Post assigned successfully"
+    );
+  } catch (error) {
+    console.error("Assign agency post error:", error);
+    handleAgencyError(res, error, "Error assigning post");
+  }
+};
+
+// ผลงานของเอเจนซี่แยกตามตัวแทน
+export const getAgencyPerformance = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const days = parseInt(req.query.days as string) || 30;
+
+    const performance = await AgencyService.getPerformance(
+      req.params.id,
+      req.user._id.toString(),
+      req.user.role,
+      days
+    );
+
+    ResponseHelper.success(
+      res,
+      performance,
+      "Agency performance retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get agency performance error:", error);
+    handleAgencyError(res, error, "Error retrieving agency performance");
+  }
+};
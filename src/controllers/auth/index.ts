@@ -4,7 +4,6 @@ import { ResponseHelper } from '@/utils/response'
 import { authHelper } from './helper'
 import { AuthService } from '@/services/AuthService'
 import { OTPService } from '@/services/otpService'
-import { FacebookAuthService } from '@/services/FacebookService'
 import { LoginRequest, RegisterRequest, FacebookLoginRequest, PhoneVerificationRequest, VerifyOTPRequest } from '@/types'
 
 const authService = new AuthService()
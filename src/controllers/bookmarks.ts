@@ -2,7 +2,9 @@ import { Response } from 'express'
 import { validationResult } from 'express-validator'
 import BookmarkService from '@/services/BookmarkService'
 import { ResponseHelper } from '@/utils/response'
+import { CursorPagination } from '@/utils/cursor'
 import { AuthRequest } from '@/middlewares/auth'
+import { CurrencyService } from '@/services/CurrencyService'
 
 // เพิ่ม bookmark
 export const addBookmark = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -107,9 +109,27 @@ export const getUserBookmarks = async (req: AuthRequest, res: Response): Promise
     if (listingType) filter.listingType = listingType
     if (minPrice) filter.minPrice = parseFloat(minPrice as string)
     if (maxPrice) filter.maxPrice = parseFloat(maxPrice as string)
+    if (req.query.currency) filter.currency = CurrencyService.parseCurrency(req.query.currency)
     if (province) filter.province = province
     if (district) filter.district = district
 
+    if (req.query.cursor !== undefined) {
+      const result = await BookmarkService.getUserBookmarksByCursor(
+        userId,
+        CursorPagination.normalizeLimit(limit),
+        req.query.cursor as string,
+        Object.keys(filter).length > 0 ? filter : undefined
+      )
+
+      ResponseHelper.successWithCursor(
+        res,
+        result.items,
+        result.cursor,
+        'User bookmarks retrieved successfully'
+      )
+      return
+    }
+
     const result = await BookmarkService.getUserBookmarks(
       userId,
       parseInt(page as string),
@@ -125,6 +145,10 @@ export const getUserBookmarks = async (req: AuthRequest, res: Response): Promise
     )
   } catch (error) {
     console.error('Get user bookmarks error:', error)
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      ResponseHelper.badRequest(res, 'Invalid cursor')
+      return
+    }
     ResponseHelper.internalError(res)
   }
 }
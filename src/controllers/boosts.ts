@@ -0,0 +1,250 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { BoostService } from "@/services/BoostService";
+import { ResponseHelper } from "@/utils/response";
+import { AuthRequest } from "@/middlewares/auth";
+
+// แปลงข้อผิดพลาดจาก BoostService เป็น HTTP response
+const handleBoostError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+): void => {
+  if (error instanceof Error) {
+    if (
+      error.message === "Post not found" ||
+      error.message === "Boost not found"
+    ) {
+      ResponseHelper.notFound(res, error.message);
+      return;
+    }
+    if (
+      error.message.startsWith("You do not have permission") ||
+      error.message.startsWith("Only admins") ||
+      error.message.startsWith("Active boosts can only")
+    ) {
+      ResponseHelper.forbidden(res, error.message);
+      return;
+    }
+    if (error.message.startsWith("Post already has")) {
+      ResponseHelper.conflict(res, error.message);
+      return;
+    }
+    if (
+      error.message === "Invalid boost type" ||
+      error.message.startsWith("Duration must") ||
+      error.message === "Only approved posts can be boosted" ||
+      error.message === "Boost has already ended" ||
+      error.message === "Boost is not awaiting payment" ||
+      error.message === "Paid amount is less than the boost price"
+    ) {
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+  }
+  ResponseHelper.internalError(res, fallback);
+};
+
+// ราคา boost ต่อวัน (สาธารณะ)
+export const getBoostPricing = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  ResponseHelper.success(
+    res,
+    BoostService.getPricing(),
+    "Boost pricing retrieved successfully"
+  );
+};
+
+// ซื้อ boost ให้โพสต์
+export const purchaseBoost = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const boost = await BoostService.purchaseBoost(
+      {
+        postId: req.body.postId,
+        type: req.body.type,
+        durationDays: req.body.durationDays,
+        startsAt: req.body.startsAt,
+        paymentMethod: req.body.paymentMethod,
+        paymentReference: req.body.paymentReference,
+      },
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(
+      res,
+      boost,
+      boost.status === "pending_payment"
+        ? "Boost created and awaiting payment confirmation"
+        : "Boost purchased successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Purchase boost error:", error);
+    handleBoostError(res, error, "Error purchasing boost");
+  }
+};
+
+// ยืนยันการชำระเงินของ boost (Admin)
+export const confirmBoostPayment = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const boost = await BoostService.confirmPayment(
+      req.params.id,
+      { paymentReference: req.body.paymentReference },
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(res, boost, "Boost payment confirmed successfully");
+  } catch (error) {
+    console.error("Confirm boost payment error:", error);
+    handleBoostError(res, error, "Error confirming boost payment");
+  }
+};
+
+// callback จากผู้ให้บริการชำระเงิน
+export const boostPaymentCallback = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const boost = await BoostService.confirmPayment(req.body.boostId, {
+      paymentReference: req.body.paymentReference,
+      amount: req.body.amount,
+    });
+
+    ResponseHelper.success(res, boost, "Boost payment confirmed successfully");
+  } catch (error) {
+    console.error("Boost payment callback error:", error);
+    handleBoostError(res, error, "Error confirming boost payment");
+  }
+};
+
+// boost ของผู้ใช้ พร้อม impressions และยอดเข้าชมระหว่าง boost
+export const getMyBoosts = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { boosts, total } = await BoostService.getUserBoosts(
+      req.user._id.toString(),
+      page,
+      limit
+    );
+
+    ResponseHelper.successWithPagination(
+      res,
+      boosts,
+      { page, limit, total, totalPages: Math.ceil(total / limit) },
+      "Boosts retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get my boosts error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// boost ทั้งหมดของโพสต์
+export const getPostBoosts = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const boosts = await BoostService.getPostBoosts(
+      req.params.postId,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, boosts, "Post boosts retrieved successfully");
+  } catch (error) {
+    console.error("Get post boosts error:", error);
+    handleBoostError(res, error, "Error retrieving post boosts");
+  }
+};
+
+// ยกเลิก boost
+export const cancelBoost = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const boost = await BoostService.cancelBoost(
+      req.params.id,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, boost, "Boost cancelled successfully");
+  } catch (error) {
+    console.error("Cancel boost error:", error);
+    handleBoostError(res, error, "Error cancelling boost");
+  }
+};
+
+// รายการ boost ทั้งหมด (Admin)
+export const getAllBoosts = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { boosts, total } = await BoostService.getAllBoosts(
+      page,
+      limit,
+      req.query.status as string | undefined
+    );
+
+    ResponseHelper.successWithPagination(
+      res,
+      boosts,
+      { page, limit, total, totalPages: Math.ceil(total / limit) },
+      "Boosts retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get all boosts error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
@@ -0,0 +1,191 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { CalculatorService } from "@/services/CalculatorService";
+import { ResponseHelper } from "@/utils/response";
+import { AuthRequest } from "@/middlewares/auth";
+
+const NOT_FOUND_ERRORS = ["Post not found", "Bank rate preset not found"];
+
+// ข้อผิดพลาดจากข้อมูลที่ผู้ใช้ส่งมา (ตอบ 400)
+const isInputError = (message: string): boolean =>
+  message.startsWith("Invalid ") ||
+  message.endsWith(" is required") ||
+  message.includes(" is only available for ") ||
+  message.startsWith("Interest rate must") ||
+  message.startsWith("Term must") ||
+  message.startsWith("Down payment must") ||
+  message.includes("cannot be negative") ||
+  message === "Unsupported currency";
+
+const handleCalculatorError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+): void => {
+  if (error instanceof Error) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      ResponseHelper.notFound(res, error.message);
+      return;
+    }
+    if (isInputError(error.message)) {
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+  }
+  ResponseHelper.internalError(res, fallback);
+};
+
+// คำนวณค่างวดสินเชื่อ + ตารางผ่อนชำระ
+export const calculateMortgage = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const result = await CalculatorService.calculateMortgage(
+      req.body,
+      req.user?._id?.toString()
+    );
+
+    ResponseHelper.success(res, result, "Mortgage calculated successfully");
+  } catch (error) {
+    console.error("Calculate mortgage error:", error);
+    handleCalculatorError(res, error, "Error calculating mortgage");
+  }
+};
+
+// คำนวณค่าใช้จ่ายวันย้ายเข้า (ค่าเช่า)
+export const calculateMoveInCost = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const result = await CalculatorService.calculateMoveInCost(
+      req.body,
+      req.user?._id?.toString()
+    );
+
+    ResponseHelper.success(res, result, "Move-in cost calculated successfully");
+  } catch (error) {
+    console.error("Calculate move-in cost error:", error);
+    handleCalculatorError(res, error, "Error calculating move-in cost");
+  }
+};
+
+// อัตราดอกเบี้ยธนาคารที่เปิดใช้งาน (สาธารณะ)
+export const getBankRatePresets = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const presets = await CalculatorService.getPresets();
+    ResponseHelper.success(res, presets, "Bank rates retrieved successfully");
+  } catch (error) {
+    console.error("Get bank rates error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// อัตราดอกเบี้ยทั้งหมดรวมที่ปิดใช้งาน (Admin)
+export const getAllBankRatePresets = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const presets = await CalculatorService.getPresets(true);
+    ResponseHelper.success(res, presets, "Bank rates retrieved successfully");
+  } catch (error) {
+    console.error("Get all bank rates error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// เพิ่มอัตราดอกเบี้ยธนาคาร (Admin)
+export const createBankRatePreset = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const preset = await CalculatorService.createPreset(
+      req.body,
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(
+      res,
+      preset,
+      "Bank rate preset created successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Create bank rate preset error:", error);
+    handleCalculatorError(res, error, "Error creating bank rate preset");
+  }
+};
+
+// แก้ไขอัตราดอกเบี้ยธนาคาร (Admin)
+export const updateBankRatePreset = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const preset = await CalculatorService.updatePreset(
+      req.params.id,
+      req.body,
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(
+      res,
+      preset,
+      "Bank rate preset updated successfully"
+    );
+  } catch (error) {
+    console.error("Update bank rate preset error:", error);
+    handleCalculatorError(res, error, "Error updating bank rate preset");
+  }
+};
+
+// ลบอัตราดอกเบี้ยธนาคาร (Admin)
+export const deleteBankRatePreset = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    await CalculatorService.deletePreset(req.params.id);
+
+    ResponseHelper.success(res, null, "Bank rate preset deleted successfully");
+  } catch (error) {
+    console.error("Delete bank rate preset error:", error);
+    handleCalculatorError(res, error, "Error deleting bank rate preset");
+  }
+};
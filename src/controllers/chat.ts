@@ -1,9 +1,11 @@
 import { Request, Response } from 'express'
 import { Types } from 'mongoose'
-import { Chat, IChat } from '@/models/Chat'
+import { Chat } from '@/models/Chat'
 import { Post } from '@/models/Post'
-import { User } from '@/models/User'
 import { ResponseHelper } from '@/utils/ResponseHelper'
+import { ChatService } from '@/services/ChatService'
+import { AgencyService } from '@/services/AgencyService'
+import { CursorPagination } from '@/utils/cursor'
 
 interface AuthRequest extends Request {
   user?: {
@@ -135,7 +137,8 @@ export const createOrGetChat = async (req: AuthRequest, res: Response) => {
       return ResponseHelper.notFound(res, 'Post not found')
     }
 
-    const posterId = post.authorId.toString()
+    // ประกาศของเอเจนซี่ส่งแชทไปยังตัวแทนที่ดูแล
+    const posterId = AgencyService.getContactUserId(post)
 
     // Check if chat already exists between user and post owner
     let chat = await Chat.findOne({
@@ -195,9 +198,16 @@ export const createOrGetChat = async (req: AuthRequest, res: Response) => {
  *           type: integer
  *           default: 20
  *         description: Items per page
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Cursor from the previous response (send empty for the first page). Switches to cursor pagination
  *     responses:
  *       200:
  *         description: Chat list retrieved successfully
+ *       400:
+ *         description: Invalid cursor
  */
 export const getUserChats = async (req: AuthRequest, res: Response) => {
   try {
@@ -208,6 +218,19 @@ export const getUserChats = async (req: AuthRequest, res: Response) => {
       return ResponseHelper.unauthorized(res, 'User not authenticated')
     }
 
+    if (req.query.cursor !== undefined) {
+      const result = await ChatService.getUserChatsByCursor(userId, {
+        status: status as string,
+        limit: CursorPagination.normalizeLimit(limit),
+        cursor: req.query.cursor as string
+      })
+
+      return ResponseHelper.success(res, {
+        chats: result.items,
+        cursor: result.cursor
+      }, 'Chats retrieved successfully')
+    }
+
     const skip = (Number(page) - 1) * Number(limit)
 
     const filter: any = {
@@ -246,6 +269,9 @@ export const getUserChats = async (req: AuthRequest, res: Response) => {
     }, 'Chats retrieved successfully')
   } catch (error) {
     console.error('Get User Chats Error:', error)
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      return ResponseHelper.badRequest(res, 'Invalid cursor')
+    }
     ResponseHelper.error(res, 'Failed to retrieve chats')
   }
 }
@@ -0,0 +1,62 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { CurrencyService } from "@/services/CurrencyService";
+import { ResponseHelper } from "@/utils/response";
+import { AuthRequest } from "@/middlewares/auth";
+
+// ดึงอัตราแลกเปลี่ยนทั้งหมด (สาธารณะ สำหรับตัวเลือกสกุลเงินของ client)
+export const getExchangeRates = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const rates = await CurrencyService.getRates();
+
+    ResponseHelper.success(
+      res,
+      { baseCurrency: "LAK", rates },
+      "Exchange rates retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get exchange rates error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// ตั้งอัตราแลกเปลี่ยน (Admin)
+export const updateExchangeRate = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const result = await CurrencyService.updateRate(
+      req.params.currency.toUpperCase(),
+      Number(req.body.rate),
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(
+      res,
+      result,
+      `Exchange rate updated; ${result.updatedPosts} posts repriced`
+    );
+  } catch (error) {
+    console.error("Update exchange rate error:", error);
+    if (
+      error instanceof Error &&
+      (error.message === "Unsupported currency" ||
+        error.message === "Base currency rate cannot be changed" ||
+        error.message === "Rate must be greater than 0")
+    ) {
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+    ResponseHelper.internalError(res);
+  }
+};
@@ -0,0 +1,168 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { config } from "@/config";
+import { FeedService } from "@/services/FeedService";
+import { SeoService } from "@/services/SeoService";
+import { FeedDocument, FeedUtils } from "@/utils/feed";
+import { ResponseHelper } from "@/utils/response";
+import { AuthRequest, FeedPartnerRequest } from "@/middlewares/auth";
+
+type FeedFormat = "xml" | "jsonl" | "rss" | "atom";
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  xml: "application/xml; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+};
+
+const renderFeed = (format: FeedFormat, feed: FeedDocument): string => {
+  switch (format) {
+    case "jsonl":
+      return FeedUtils.buildJsonLines(feed);
+    case "rss":
+      return FeedUtils.buildRss(feed);
+    case "atom":
+      return FeedUtils.buildAtom(feed);
+    default:
+      return FeedUtils.buildXml(feed);
+  }
+};
+
+// ส่ง feed ตามรูปแบบ (ลิงก์หน้าถัดไปอยู่ใน Link header และในตัว feed)
+const sendFeed =
+  (format: FeedFormat) =>
+  async (req: FeedPartnerRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        ResponseHelper.validationError(res, errors.array());
+        return;
+      }
+
+      const page = await FeedService.getFeed({
+        since: req.query.since
+          ? new Date(req.query.since as string)
+          : undefined,
+        cursor: req.query.cursor as string | undefined,
+        limit: parseInt(req.query.limit as string) || undefined,
+      });
+
+      const selfUrl = `${req.protocol}://${req.get("host")}${req.originalUrl}`;
+      let nextUrl: string | undefined;
+      if (page.nextCursor) {
+        const next = new URL(selfUrl);
+        next.searchParams.set("cursor", page.nextCursor);
+        nextUrl = next.toString();
+        res.setHeader("Link", `<${nextUrl}>; rel="next"`);
+        res.setHeader("X-Feed-Next-Cursor", page.nextCursor);
+      }
+      res.setHeader("X-Feed-Generated-At", page.generatedAt.toISOString());
+      res.setHeader("Content-Type", FEED_CONTENT_TYPES[format]);
+
+      res.send(
+        renderFeed(format, {
+          title: config.feeds.title,
+          siteUrl: SeoService.siteUrl(),
+          selfUrl,
+          nextUrl,
+          generatedAt: page.generatedAt,
+          entries: page.entries,
+        })
+      );
+    } catch (error) {
+      console.error("Listing feed error:", error);
+      if (error instanceof Error && error.message === "Invalid cursor") {
+        ResponseHelper.badRequest(res, error.message);
+        return;
+      }
+      ResponseHelper.internalError(res, "Error generating feed");
+    }
+  };
+
+// feed ประกาศในรูปแบบต่างๆ
+export const getXmlFeed = sendFeed("xml");
+export const getJsonLinesFeed = sendFeed("jsonl");
+export const getRssFeed = sendFeed("rss");
+export const getAtomFeed = sendFeed("atom");
+
+// สร้าง partner และ API key (admin)
+export const createFeedPartner = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const { partner, apiKey } = await FeedService.createPartner(
+      { name: req.body.name, contactEmail: req.body.contactEmail },
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(
+      res,
+      {
+        partner: {
+          _id: partner._id,
+          name: partner.name,
+          contactEmail: partner.contactEmail,
+          keyPrefix: partner.keyPrefix,
+          isActive: partner.isActive,
+          createdAt: partner.createdAt,
+        },
+        apiKey,
+      },
+      "Feed partner created. Store the API key now; it will not be shown again",
+      201
+    );
+  } catch (error) {
+    console.error("Create feed partner error:", error);
+    ResponseHelper.internalError(res, "Error creating feed partner");
+  }
+};
+
+// รายชื่อ partner (admin)
+export const getFeedPartners = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const partners = await FeedService.getPartners();
+    ResponseHelper.success(
+      res,
+      partners,
+      "Feed partners retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get feed partners error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// ยกเลิก API key ของ partner (admin)
+export const revokeFeedPartner = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const partner = await FeedService.revokePartner(req.params.id);
+    ResponseHelper.success(res, partner, "Feed partner revoked successfully");
+  } catch (error) {
+    console.error("Revoke feed partner error:", error);
+    if (error instanceof Error && error.message.endsWith("not found")) {
+      ResponseHelper.notFound(res, error.message);
+      return;
+    }
+    ResponseHelper.internalError(res, "Error revoking feed partner");
+  }
+};
@@ -1,19 +1,157 @@
+import { Request } from "express";
 import { Post, IPost } from "@/models/Post";
 import { body } from "express-validator";
+import {
+  CurrencyService,
+  CurrencyCode,
+  BASE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+} from "@/services/CurrencyService";
+import {
+  AreaUtils,
+  AreaUnit,
+  AREA_UNITS,
+  DEFAULT_AREA_UNIT,
+} from "@/utils/area";
+import { BoundaryUtils } from "@/utils/boundary";
+import {
+  LanguageUtils,
+  ListingLanguage,
+  LISTING_LANGUAGES,
+  DEFAULT_LANGUAGE,
+} from "@/utils/language";
+
+// สกุลเงิน/หน่วยพื้นที่/ภาษาที่ผู้ใช้เลือกแสดงผล (PostFilter ใช้แทนได้)
+export interface DisplayOptions {
+  currency?: CurrencyCode;
+  areaUnit?: AreaUnit;
+  language?: ListingLanguage;
+}
 
 export const postHelper = {
-  formatPostResponse: (post: IPost) => {
+  // อ่าน ?currency= ?areaUnit= และ ?lang= จาก query (ไม่มี lang ใช้ Accept-Language)
+  getDisplayOptions: (
+    raw: Record<string, unknown> = {},
+    acceptLanguage?: string
+  ): DisplayOptions => ({
+    currency: CurrencyService.parseCurrency(raw.currency),
+    areaUnit: AreaUtils.parseUnit(raw.areaUnit),
+    language: LanguageUtils.resolve(raw.lang, acceptLanguage),
+  }),
+
+  // ชื่อ/รายละเอียดในภาษาที่เลือก (ไม่มีคำแปล = ใช้ภาษาหลักของประกาศ)
+  getLocalizedContent: (
+    post: IPost,
+    language?: ListingLanguage
+  ): { title: string; description: string; language: ListingLanguage } => {
+    const primaryLanguage = post.primaryLanguage || DEFAULT_LANGUAGE;
+    const translation =
+      language && language !== primaryLanguage
+        ? post.translations?.[language]
+        : undefined;
+
+    return translation?.title && language
+      ? {
+          title: translation.title,
+          description: translation.description || post.description,
+          language,
+        }
+      : {
+          title: post.title,
+          description: post.description,
+          language: primaryLanguage,
+        };
+  },
+
+  // ภาษาที่ประกาศมีเนื้อหา (ภาษาหลักก่อน)
+  getAvailableLanguages: (post: IPost): ListingLanguage[] => {
+    const primaryLanguage = post.primaryLanguage || DEFAULT_LANGUAGE;
+    return [
+      primaryLanguage,
+      ...LISTING_LANGUAGES.filter(
+        (language) =>
+          language !== primaryLanguage && post.translations?.[language]?.title
+      ),
+    ];
+  },
+
+  // คำเตือนที่ไม่ขัดขวางการบันทึก (เช่น พื้นที่จาก boundary ไม่ตรงกับที่กรอก)
+  getWarnings: (post: IPost): string[] => {
+    const mismatch = BoundaryUtils.toFeature(post)?.properties.areaMismatch;
+    return mismatch ? [BoundaryUtils.describeAreaMismatch(mismatch)] : [];
+  },
+
+  // ราคา/พื้นที่ที่แปลงตามที่ผู้ใช้เลือกแสดง (ไม่มี = undefined)
+  getConvertedFields: (post: IPost, display: DisplayOptions = {}) => {
+    const { currency, areaUnit } = display;
+
+    return {
+      convertedPrice:
+        currency && post.price !== undefined
+          ? CurrencyService.convertPrice(
+              post.price,
+              post.currency || BASE_CURRENCY,
+              currency
+            )
+          : undefined,
+      convertedArea: areaUnit
+        ? {
+            unit: areaUnit,
+            area:
+              post.area !== undefined
+                ? AreaUtils.fromSquareMeters(post.area, areaUnit)
+                : undefined,
+            usableArea:
+              post.usableArea !== undefined
+                ? AreaUtils.fromSquareMeters(post.usableArea, areaUnit)
+                : undefined,
+            pricePerUnit: AreaUtils.pricePerUnit(
+              post.price,
+              post.area,
+              areaUnit
+            ),
+          }
+        : undefined,
+    };
+  },
+
+  formatPostResponse: (post: IPost, display: DisplayOptions = {}) => {
+    const { convertedPrice, convertedArea } = postHelper.getConvertedFields(
+      post,
+      display
+    );
+    const { title, description, language } = postHelper.getLocalizedContent(
+      post,
+      display.language
+    );
+
     return {
       _id: post._id,
-      title: post.title,
-      description: post.description,
+      title,
+      description,
+      // ภาษาของ title/description ที่ส่งกลับ และคำแปลทั้งหมด (สำหรับแก้ไข)
+      language,
+      primaryLanguage: post.primaryLanguage || DEFAULT_LANGUAGE,
+      availableLanguages: postHelper.getAvailableLanguages(post),
+      translations: post.translations,
       price: post.price,
+      currency: post.currency || BASE_CURRENCY,
+      // ราคาในสกุลเงินที่ผู้ใช้เลือกแสดง (มีเมื่อส่ง currency มา)
+      convertedPrice,
       pricePerUnit: post.pricePerUnit,
+      lastPriceDrop: post.lastPriceDrop?.droppedAt
+        ? post.lastPriceDrop
+        : undefined,
       propertyType: post.propertyType,
       listingType: post.listingType,
       area: post.area,
       usableArea: post.usableArea,
+      areaUnit: post.areaUnit || DEFAULT_AREA_UNIT,
+      // พื้นที่/ราคาต่อหน่วยในหน่วยที่ผู้ใช้เลือกแสดง (มีเมื่อส่ง areaUnit มา)
+      convertedArea,
       location: post.location,
+      // แนวเขตที่ดินเป็น GeoJSON Feature พร้อมพื้นที่/เส้นรอบรูปที่คำนวณได้
+      boundaryFeature: BoundaryUtils.toFeature(post),
       houseDetails: post.houseDetails,
       landDetails: post.landDetails,
       condoDetails: post.condoDetails,
@@ -23,11 +161,18 @@ export const postHelper = {
       yearBuilt: post.yearBuilt,
       lastRenovated: post.lastRenovated,
       status: post.status,
+      expiresAt: post.expiresAt,
+      renewCount: post.renewCount,
+      pendingRevisionId: post.pendingRevisionId,
       featured: post.featured,
       urgent: post.urgent,
       authorId: post.authorId,
+      agencyId: post.agencyId,
+      assignedAgentId: post.assignedAgentId,
       tags: post.tags,
       keywords: post.keywords,
+      slug: post.slug,
+      qualityScore: post.qualityScore,
       viewCount: post.viewCount,
       uniqueViewCount: post.uniqueViewCount,
       bookmarkCount: post.bookmarkCount,
@@ -36,16 +181,62 @@ export const postHelper = {
     };
   },
 
+  // อัปโหลดไฟล์จาก multer (images/videos) ไปยัง S3
+  async uploadMediaFiles(
+    files?: Request["files"]
+  ): Promise<{ images: string[]; videos: string[] }> {
+    const uploaded = { images: [] as string[], videos: [] as string[] };
+    // upload.fields() ส่งไฟล์มาเป็น object ตามชื่อ field
+    if (!files || Array.isArray(files)) return uploaded;
+
+    const { uploadFileToS3 } = await import("@/helpers/s3Helper");
+
+    if (files["images"]) {
+      uploaded.images = await Promise.all(
+        files["images"].map((file) => uploadFileToS3(file, "images"))
+      );
+    }
+
+    if (files["videos"]) {
+      uploaded.videos = await Promise.all(
+        files["videos"].map((file) => uploadFileToS3(file, "videos"))
+      );
+    }
+
+    return uploaded;
+  },
+
   async getPostsByStatus(status: string, page: number = 1, limit: number = 10) {
     const skip = (page - 1) * limit;
+    const query: any = { status };
+
+    // ตัดโพสต์ที่เลยวันหมดอายุออกจากรายการที่แสดงผล
+    if (status === "approved") {
+      query.expiresAt = { $not: { $lte: new Date() } };
+    }
+
+    // ฟีดโพสต์ที่อนุมัติ: โพสต์ที่มี boost ขึ้นก่อน
+    let postsQuery = Post.find(query)
+      .populate("authorId", "name email avatar")
+      .sort(
+        status === "approved"
+          ? { "boostRanks.feed": -1, createdAt: -1 }
+          : { createdAt: -1 }
+      )
+      .skip(skip)
+      .limit(limit);
+
+    // โพสต์รออนุมัติ: แนบประกาศเดิมที่น่าจะซ้ำ
+    if (status === "pending") {
+      postsQuery = postsQuery.populate(
+        "duplicateOf",
+        "title price area location media status authorId createdAt"
+      );
+    }
 
     const [posts, total] = await Promise.all([
-      Post.find({ status })
-        .populate("authorId", "name email avatar")
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(limit),
-      Post.countDocuments({ status }),
+      postsQuery,
+      Post.countDocuments(query),
     ]);
 
     return {
@@ -78,7 +269,41 @@ export const postValidation = {
   create: [
     body("title").notEmpty().withMessage("Title is required"),
     body("description").notEmpty().withMessage("Description is required"),
+    body("primaryLanguage")
+      .optional()
+      .isIn(LISTING_LANGUAGES)
+      .withMessage(
+        `Primary language must be one of ${LISTING_LANGUAGES.join(", ")}`
+      ),
+    body("translations")
+      .optional()
+      .isObject()
+      .withMessage("Translations must be an object"),
+    body(LISTING_LANGUAGES.map((language) => `translations.${language}.title`))
+      .optional()
+      .isString()
+      .isLength({ max: 200 })
+      .withMessage("Translated title must be at most 200 characters"),
+    body(
+      LISTING_LANGUAGES.map(
+        (language) => `translations.${language}.description`
+      )
+    )
+      .optional()
+      .isString()
+      .isLength({ max: 3000 })
+      .withMessage("Translated description must be at most 3000 characters"),
     body("price").isNumeric().withMessage("Price must be a number"),
+    body("areaUnit")
+      .optional()
+      .isIn(AREA_UNITS)
+      .withMessage(`Area unit must be one of ${AREA_UNITS.join(", ")}`),
+    body("currency")
+      .optional()
+      .isIn(SUPPORTED_CURRENCIES)
+      .withMessage(
+        `Currency must be one of ${SUPPORTED_CURRENCIES.join(", ")}`
+      ),
     body("propertyType")
       .isIn(["house", "land", "condo", "apartment", "villa", "townhouse"])
       .withMessage("Invalid property type"),
@@ -100,6 +325,20 @@ export const postValidation = {
       .withMessage("Province is required"),
     // Coordinate validation (optional strictly speaking, but good to have)
     body("location.coordinates.coordinates").optional().isArray(),
+    // แนวเขตที่ดิน: ปิด ring ไม่ตัดกันเอง และอยู่ในลาว
+    body("location.boundary")
+      .optional()
+      .custom((boundary) => {
+        if (Array.isArray(boundary) && boundary.length === 0) return true;
+        const error = BoundaryUtils.getError(boundary);
+        if (error) throw new Error(error);
+        return true;
+      }),
+    body("agencyId").optional().isMongoId().withMessage("Invalid agency ID"),
+    body("assignedAgentId")
+      .optional()
+      .isMongoId()
+      .withMessage("Invalid agent ID"),
 
     // Media validation based on new structure
     // We check either media.images or images (legacy)
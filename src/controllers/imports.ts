@@ -0,0 +1,195 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { ImportService, IMPORT_COLUMNS } from "@/services/ImportService";
+import { IImportJob } from "@/models/ImportJob";
+import { ResponseHelper } from "@/utils/response";
+import { AuthRequest } from "@/middlewares/auth";
+
+// แปลงข้อผิดพลาดจาก ImportService เป็น HTTP response
+const handleImportError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+): void => {
+  if (error instanceof Error) {
+    if (error.message.endsWith("not found")) {
+      ResponseHelper.notFound(res, error.message);
+      return;
+    }
+    if (
+      error.message.startsWith("You do not have permission") ||
+      error.message === "You are not a member of this agency"
+    ) {
+      ResponseHelper.forbidden(res, error.message);
+      return;
+    }
+    if (
+      error.message.startsWith("Unsupported file type") ||
+      error.message.startsWith("Could not read the file") ||
+      error.message.startsWith("Missing required columns") ||
+      error.message.startsWith("The file has")
+    ) {
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+  }
+  ResponseHelper.internalError(res, fallback);
+};
+
+// สรุปความคืบหน้าของงาน (รายงานแถวที่ผิดพลาดแสดงเฉพาะเมื่อขอรายละเอียด)
+const formatJob = (job: IImportJob, includeReport: boolean = false) => ({
+  _id: job._id,
+  fileName: job.fileName,
+  format: job.format,
+  imageMode: job.imageMode,
+  agencyId: job.agencyId,
+  status: job.status,
+  totalRows: job.totalRows,
+  processedRows: job.processedRows,
+  createdCount: job.createdCount,
+  failedCount: job.failedCount,
+  progress:
+    job.totalRows > 0
+      ? Math.round((job.processedRows / job.totalRows) * 100)
+      : 0,
+  unmappedColumns: job.unmappedColumns,
+  failureReason: job.failureReason,
+  startedAt: job.startedAt,
+  completedAt: job.completedAt,
+  createdAt: job.createdAt,
+  ...(includeReport && {
+    rowErrors: job.rowErrors,
+    rowWarnings: job.rowWarnings,
+    createdPostIds: job.createdPostIds,
+  }),
+});
+
+// อัปโหลดไฟล์ CSV/XLSX เพื่อนำเข้าประกาศ
+export const importPosts = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    if (!req.file) {
+      ResponseHelper.badRequest(res, "File is required");
+      return;
+    }
+
+    let mapping: Record<string, string> | undefined;
+    if (req.body.mapping) {
+      try {
+        mapping =
+          typeof req.body.mapping === "string"
+            ? JSON.parse(req.body.mapping)
+            : req.body.mapping;
+      } catch {
+        ResponseHelper.badRequest(res, "Mapping must be a JSON object");
+        return;
+      }
+    }
+
+    const job = await ImportService.createJob(
+      {
+        buffer: req.file.buffer,
+        fileName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        imageMode: req.body.imageMode,
+        agencyId: req.body.agencyId,
+        mapping,
+      },
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(res, formatJob(job), "Import started", 202);
+  } catch (error) {
+    console.error("Import posts error:", error);
+    handleImportError(res, error, "Error starting import");
+  }
+};
+
+// คอลัมน์ที่รองรับ
+export const getImportColumns = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  ResponseHelper.success(
+    res,
+    IMPORT_COLUMNS,
+    "Import columns retrieved successfully"
+  );
+};
+
+// ดาวน์โหลดไฟล์ CSV ตัวอย่าง
+export const getImportTemplate = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader(
+    "Content-Disposition",
+    'attachment; filename="listings-import-template.csv"'
+  );
+  res.send(ImportService.buildTemplate());
+};
+
+// งานนำเข้าของฉัน
+export const getMyImports = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { jobs, total } = await ImportService.getUserJobs(
+      req.user._id.toString(),
+      page,
+      limit
+    );
+
+    ResponseHelper.successWithPagination(
+      res,
+      jobs.map((job) => formatJob(job)),
+      { page, limit, total, totalPages: Math.ceil(total / limit) },
+      "Import jobs retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get my imports error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// ความคืบหน้าและรายงานของงานนำเข้า
+export const getImport = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const job = await ImportService.getJob(
+      req.params.id,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(
+      res,
+      formatJob(job, true),
+      "Import job retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get import error:", error);
+    handleImportError(res, error, "Error retrieving import job");
+  }
+};
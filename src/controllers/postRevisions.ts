@@ -0,0 +1,171 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { PostRevisionService } from "@/services/PostRevisionService";
+import { postHelper } from "./helpers/postHelper";
+import { ResponseHelper } from "@/utils/response";
+import { AuthRequest } from "@/middlewares/auth";
+
+const handleRevisionError = (res: Response, error: unknown): void => {
+  if (error instanceof Error) {
+    if (
+      error.message === "Revision not found" ||
+      error.message === "Post not found"
+    ) {
+      ResponseHelper.notFound(res, error.message);
+      return;
+    }
+    if (error.message.startsWith("Only ")) {
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+  }
+  ResponseHelper.internalError(res);
+};
+
+// ดึงประวัติการแก้ไขของโพสต์ (Admin)
+export const getPostRevisions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await PostRevisionService.getPostRevisions(
+      req.params.id,
+      page,
+      limit
+    );
+
+    ResponseHelper.successWithPagination(
+      res,
+      result.revisions,
+      {
+        page,
+        limit,
+        total: result.total,
+        totalPages: Math.ceil(result.total / limit),
+      },
+      "Post revisions retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get post revisions error:", error);
+    handleRevisionError(res, error);
+  }
+};
+
+// ดึง revision ที่รอตรวจสอบ (Admin)
+export const getPendingRevisions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await PostRevisionService.getPendingRevisions(page, limit);
+
+    ResponseHelper.successWithPagination(
+      res,
+      result.revisions,
+      {
+        page,
+        limit,
+        total: result.total,
+        totalPages: Math.ceil(result.total / limit),
+      },
+      "Pending revisions retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get pending revisions error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// อนุมัติ revision (Admin)
+export const approveRevision = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const { revision, post } = await PostRevisionService.approveRevision(
+      req.params.revisionId,
+      req.user._id.toString(),
+      req.body.note
+    );
+
+    ResponseHelper.success(
+      res,
+      { revision, post: postHelper.formatPostResponse(post) },
+      "Revision approved successfully"
+    );
+  } catch (error) {
+    console.error("Approve revision error:", error);
+    handleRevisionError(res, error);
+  }
+};
+
+// ปฏิเสธ revision (Admin)
+export const rejectRevision = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const revision = await PostRevisionService.rejectRevision(
+      req.params.revisionId,
+      req.user._id.toString(),
+      req.body.note
+    );
+
+    ResponseHelper.success(res, revision, "Revision rejected successfully");
+  } catch (error) {
+    console.error("Reject revision error:", error);
+    handleRevisionError(res, error);
+  }
+};
+
+// ย้อนกลับ revision (Admin)
+export const rollbackRevision = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const { revision, post } = await PostRevisionService.rollbackRevision(
+      req.params.revisionId,
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(
+      res,
+      { revision, post: postHelper.formatPostResponse(post) },
+      "Revision rolled back successfully"
+    );
+  } catch (error) {
+    console.error("Rollback revision error:", error);
+    handleRevisionError(res, error);
+  }
+};
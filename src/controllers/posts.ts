@@ -4,9 +4,34 @@ import ViewTrackingService from "@/services/ViewTrackingService";
 import { ResponseHelper } from "@/utils/response";
 import { AuthRequest } from "@/middlewares/auth";
 import { Post } from "@/models/Post";
-import { postHelper, postValidation } from "./helpers/postHelper";
-import { PostService, UpdatePostData } from "@/services/PostService";
+import { postHelper } from "./helpers/postHelper";
+import {
+  PostService,
+  UpdatePostData,
+  PostFilter,
+} from "@/services/PostService";
 import { CreatePostRequest } from "@/types";
+import { PriceHistoryService } from "@/services/PriceHistoryService";
+import { ListingLifecycleService } from "@/services/ListingLifecycleService";
+import { SavedSearchService } from "@/services/SavedSearchService";
+import { PostComparisonService } from "@/services/PostComparisonService";
+import {
+  SimilarListingService,
+  DEFAULT_SIMILAR_POSTS,
+  MAX_SIMILAR_POSTS,
+} from "@/services/SimilarListingService";
+import {
+  RecommendationService,
+  DEFAULT_RECOMMENDATIONS,
+  MAX_RECOMMENDATIONS,
+} from "@/services/RecommendationService";
+import { BoostService, BoostPlacement } from "@/services/BoostService";
+import { SeoService } from "@/services/SeoService";
+import { ListingQualityService } from "@/services/ListingQualityService";
+import { CoordinateUtils, MapBounds } from "@/utils/coordinates";
+import { CursorPagination } from "@/utils/cursor";
+import { LanguageUtils, ListingLanguage } from "@/utils/language";
+import { BoundaryUtils } from "@/utils/boundary";
 
 const postService = new PostService();
 
@@ -30,6 +55,11 @@ export const getAdminPosts = async (
     if (req.query.status) filter.status = req.query.status;
     if (req.query.propertyType) filter.propertyType = req.query.propertyType;
     if (req.query.listingType) filter.listingType = req.query.listingType;
+    // คะแนนคุณภาพ เช่น ?maxQuality=40 หาประกาศที่ข้อมูลน้อย
+    const minQuality = parseInt(req.query.minQuality as string);
+    const maxQuality = parseInt(req.query.maxQuality as string);
+    if (!isNaN(minQuality)) filter.minQuality = minQuality;
+    if (!isNaN(maxQuality)) filter.maxQuality = maxQuality;
     if (req.query.search) {
       // Simple search for admin (can use the advanced search logic or just regex on title)
       // For admin list, usually simple filters are enough, but we can repurpose the filter logic
@@ -62,23 +92,42 @@ export const getAdminPosts = async (
 // ดึงโพสต์เดี่ยว (พร้อมติดตาม view)
 export const getPost = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
     const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
     const userAgent = req.get("User-Agent");
     const userId = (req as any).user?._id?.toString();
     const sessionId = (req as any).sessionID || req.get("x-session-id");
 
-    // ดึงโพสต์
-    const post = await Post.findById(id).populate(
-      "authorId",
-      "name email avatar"
-    );
-
-    if (!post) {
+    // ดึงโพสต์จาก _id หรือ slug
+    const resolved = await SeoService.resolvePost(req.params.id);
+    if (!resolved) {
       ResponseHelper.notFound(res, "Post not found");
       return;
     }
 
+    // slug เดิม (เปลี่ยนชื่อประกาศแล้ว) -> redirect ถาวรไป slug ปัจจุบัน
+    if (resolved.redirectTo) {
+      const queryIndex = req.originalUrl.indexOf("?");
+      res.redirect(
+        301,
+        `${req.baseUrl}/${encodeURIComponent(resolved.redirectTo)}` +
+          (queryIndex >= 0 ? req.originalUrl.slice(queryIndex) : "")
+      );
+      return;
+    }
+
+    const { post } = resolved;
+    const id = String(post._id);
+
+    // ร่างประกาศเห็นได้เฉพาะผู้เขียนและ admin (คนอื่นเหมือนไม่มีโพสต์นี้)
+    if (post.status === "draft") {
+      const author = post.authorId as { _id?: unknown } | undefined;
+      const authorId = String(author?._id || post.authorId);
+      if (userId !== authorId && (req as AuthRequest).user?.role !== "admin") {
+        ResponseHelper.notFound(res, "Post not found");
+        return;
+      }
+    }
+
     // if (post.status !== "approved") {
     //   ResponseHelper.forbidden(res, "Post not available");
     //   return;
@@ -93,7 +142,27 @@ export const getPost = async (req: Request, res: Response): Promise<void> => {
       sessionId
     ).catch((error) => console.error("View tracking error:", error));
 
-    ResponseHelper.success(res, post, "Post retrieved successfully");
+    // ?currency= / ?areaUnit= แสดงค่าที่แปลงแล้วคู่กับค่าเดิม
+    // ?lang= / Accept-Language เลือกภาษาของชื่อและรายละเอียด
+    const display = postHelper.getDisplayOptions(
+      req.query,
+      req.get("Accept-Language")
+    );
+    res.vary("Accept-Language");
+    ResponseHelper.success(
+      res,
+      {
+        ...post.toObject(),
+        ...(display.currency || display.areaUnit
+          ? postHelper.getConvertedFields(post, display)
+          : {}),
+        ...postHelper.getLocalizedContent(post, display.language),
+        availableLanguages: postHelper.getAvailableLanguages(post),
+        boundaryFeature: BoundaryUtils.toFeature(post),
+        canonicalUrl: SeoService.canonicalUrl(post),
+      },
+      "Post retrieved successfully"
+    );
   } catch (error) {
     console.error("Get post error:", error);
     ResponseHelper.internalError(res);
@@ -142,6 +211,23 @@ export const getUserViewHistory = async (
 ): Promise<void> => {
   try {
     const userId = req.user._id.toString();
+
+    if (req.query.cursor !== undefined) {
+      const result = await ViewTrackingService.getUserViewHistoryByCursor(
+        userId,
+        CursorPagination.normalizeLimit(req.query.limit),
+        req.query.cursor as string
+      );
+
+      ResponseHelper.successWithCursor(
+        res,
+        result.items,
+        result.cursor,
+        "User view history retrieved successfully"
+      );
+      return;
+    }
+
     const { page = 1, limit = 20 } = req.query;
 
     const result = await ViewTrackingService.getUserViewHistory(
@@ -158,6 +244,10 @@ export const getUserViewHistory = async (
     );
   } catch (error) {
     console.error("Get user view history error:", error);
+    if (error instanceof Error && error.message === "Invalid cursor") {
+      ResponseHelper.badRequest(res, "Invalid cursor");
+      return;
+    }
     ResponseHelper.internalError(res);
   }
 };
@@ -257,65 +347,37 @@ export const getTrendingPosts = async (
   }
 };
 
-// ดึงโพสต์แนะนำสำหรับ user (based on view history)
+// ดึงโพสต์แนะนำ (ผู้ใช้ที่ login ตาม userId, ผู้เยี่ยมชมตาม sessionId)
 export const getRecommendedPosts = async (
   req: AuthRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const userId = req.user._id.toString();
-    const { limit = 10 } = req.query;
-
-    // Simple recommendation: โพสต์ที่คล้ายกับที่ user เคยดู
-    // TODO: Implement more sophisticated recommendation algorithm
+    const userId = req.user?._id?.toString();
+    const sessionId =
+      (req as any).sessionID ||
+      req.get("x-session-id") ||
+      (req.query.sessionId as string | undefined);
+    const limit = Math.min(
+      parseInt(req.query.limit as string) || DEFAULT_RECOMMENDATIONS,
+      MAX_RECOMMENDATIONS
+    );
 
-    // ดึงโพสต์ที่ user เคยดูล่าสุด
-    const recentViews = await ViewTrackingService.getUserViewHistory(
-      userId,
-      1,
-      5
-    );
-
-    let recommendedPosts: any[] = [];
-
-    if (recentViews.views.length > 0) {
-      // หา property types และ provinces ที่ user สนใจ
-      const interestedTypes = [
-        ...new Set(recentViews.views.map((v) => v.post.propertyType)),
-      ];
-      const interestedProvinces = [
-        ...new Set(
-          recentViews.views.map((v) => v.post.location.address.province)
-        ),
-      ];
-
-      recommendedPosts = await Post.find({
-        status: "approved",
-        $or: [
-          { propertyType: { $in: interestedTypes } },
-          { "location.address.province": { $in: interestedProvinces } },
-        ],
-      })
-        .sort({ viewCount: -1, bookmarkCount: -1, createdAt: -1 })
-        .limit(parseInt(limit as string))
-        .populate("authorId", "name email avatar")
-        .select(
-          "title description price propertyType listingType area location media viewCount uniqueViewCount bookmarkCount featured urgent createdAt"
-        );
-    } else {
-      // ถ้าไม่มี history ให้แนะนำโพสต์ยอดนิยม
-      recommendedPosts = await Post.find({ status: "approved" })
-        .sort({ featured: -1, viewCount: -1, bookmarkCount: -1, createdAt: -1 })
-        .limit(parseInt(limit as string))
-        .populate("authorId", "name email avatar")
-        .select(
-          "title description price propertyType listingType area location media viewCount uniqueViewCount bookmarkCount featured urgent createdAt"
-        );
-    }
+    const recommendations = await RecommendationService.getRecommendations(
+      { userId, sessionId: userId ? undefined : sessionId },
+      limit
+    );
 
+    const display = postHelper.getDisplayOptions(
+      req.query,
+      req.get("Accept-Language")
+    );
     ResponseHelper.success(
       res,
-      recommendedPosts,
+      recommendations.map(({ post, score, reason }) => ({
+        ...postHelper.formatPostResponse(post, display),
+        recommendation: { score, reason },
+      })),
       "Recommended posts retrieved successfully"
     );
   } catch (error) {
@@ -326,6 +388,40 @@ export const getRecommendedPosts = async (
 
 // ===== CRUD Operations =====
 
+// ตอบกลับกรณีผู้ใช้โพสต์ประกาศซ้ำของตัวเอง (409 พร้อม ID ประกาศเดิม)
+const respondDuplicatePost = (res: Response, error: unknown): boolean => {
+  if (!(error instanceof Error)) return false;
+
+  const match = error.message.match(/โพสต์ซ้ำกับประกาศเดิม ([a-f0-9]{24})/);
+  if (!match) return false;
+
+  ResponseHelper.error(
+    res,
+    "This listing duplicates one of your existing posts. Update or renew the existing post instead",
+    [{ field: "duplicateOf", value: match[1] }],
+    409
+  );
+  return true;
+};
+
+// ตอบกลับกรณีลงประกาศในนามเอเจนซี่ไม่ได้ (ไม่ใช่สมาชิก/มอบหมายตัวแทนไม่ได้)
+const respondAgencyListingError = (res: Response, error: unknown): boolean => {
+  if (!(error instanceof Error)) return false;
+
+  if (error.message.includes("Agency not found")) {
+    ResponseHelper.notFound(res, "Agency not found");
+    return true;
+  }
+
+  const match = error.message.match(
+    /(You are not a member of this agency|Only agency owners can assign listings to other agents|Assigned agent is not a member of this agency)/
+  );
+  if (!match) return false;
+
+  ResponseHelper.forbidden(res, match[1]);
+  return true;
+};
+
 // สร้างโพสต์ใหม่
 export const createPost = async (
   req: AuthRequest,
@@ -339,7 +435,7 @@ export const createPost = async (
     }
 
     const postData: CreatePostRequest = req.body;
-    let media = postData.media || { images: [], videos: [], documents: [] };
+    const media = postData.media || { images: [], videos: [], documents: [] };
 
     // Handle file uploads
     if (req.files) {
@@ -396,16 +492,169 @@ export const createPost = async (
 
     ResponseHelper.success(
       res,
-      postHelper.formatPostResponse(post),
+      {
+        ...postHelper.formatPostResponse(post),
+        warnings: postHelper.getWarnings(post),
+      },
       "Post created successfully",
       201
     );
   } catch (error) {
     console.error("Create post error:", error);
+    if (respondDuplicatePost(res, error)) return;
+    if (respondAgencyListingError(res, error)) return;
     ResponseHelper.internalError(res);
   }
 };
 
+// ===== Drafts =====
+
+// แปลง error ของ draft เป็น response
+const handleDraftError = (res: Response, error: unknown): void => {
+  if (respondDuplicatePost(res, error)) return;
+  if (error instanceof Error) {
+    if (error.message.includes("ไม่พบ")) {
+      ResponseHelper.notFound(res, "Draft not found");
+      return;
+    }
+    if (error.message.includes("ไม่มีสิทธิ์")) {
+      ResponseHelper.forbidden(
+        res,
+        "You do not have permission to edit this draft"
+      );
+      return;
+    }
+    if (error.message.includes("ValidationError")) {
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+  }
+  ResponseHelper.internalError(res);
+};
+
+// สร้าง draft (ไม่ต้องกรอกข้อมูลครบ)
+export const createDraft = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const data = { ...req.body };
+
+    try {
+      const uploaded = await postHelper.uploadMediaFiles(req.files);
+      if (uploaded.images.length || uploaded.videos.length) {
+        data.media = {
+          ...(data.media || {}),
+          images: [...(data.media?.images || []), ...uploaded.images],
+          videos: [...(data.media?.videos || []), ...uploaded.videos],
+        };
+      }
+    } catch (uploadError) {
+      console.error("File upload error:", uploadError);
+      ResponseHelper.error(res, "Failed to upload media files", undefined, 500);
+      return;
+    }
+
+    const post = await postService.createDraft(req.user._id.toString(), data);
+
+    ResponseHelper.success(
+      res,
+      {
+        ...postHelper.formatPostResponse(post),
+        missingFields: postService.getDraftMissingFields(post),
+      },
+      "Draft saved successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Create draft error:", error);
+    handleDraftError(res, error);
+  }
+};
+
+// บันทึกขั้นตอนถัดไปของ draft (รูปใหม่จะถูกต่อท้ายรูปเดิม)
+export const updateDraft = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const data = { ...req.body };
+
+    // ตรวจสิทธิ์และสถานะ draft ก่อนอัปโหลดไฟล์
+    const draft = await postService.getOwnDraft(id, req.user._id.toString());
+
+    try {
+      const uploaded = await postHelper.uploadMediaFiles(req.files);
+      if (uploaded.images.length || uploaded.videos.length) {
+        const baseImages = data.media?.images || draft.media?.images || [];
+        const baseVideos = data.media?.videos || draft.media?.videos || [];
+        data.media = {
+          ...(data.media || {}),
+          images: [...baseImages, ...uploaded.images],
+          videos: [...baseVideos, ...uploaded.videos],
+        };
+      }
+    } catch (uploadError) {
+      console.error("File upload error:", uploadError);
+      ResponseHelper.error(res, "Failed to upload media files", undefined, 500);
+      return;
+    }
+
+    const post = await postService.updateDraft(
+      id,
+      req.user._id.toString(),
+      data
+    );
+
+    ResponseHelper.success(
+      res,
+      {
+        ...postHelper.formatPostResponse(post),
+        missingFields: postService.getDraftMissingFields(post),
+      },
+      "Draft saved successfully"
+    );
+  } catch (error) {
+    console.error("Update draft error:", error);
+    handleDraftError(res, error);
+  }
+};
+
+// ส่ง draft เข้าคิวรออนุมัติ
+export const submitDraft = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const result = await postService.submitDraft(id, req.user._id.toString());
+
+    if (!result.post) {
+      ResponseHelper.error(
+        res,
+        "Draft is incomplete",
+        result.missingFields.map((field) => ({
+          field,
+          message: `${field} is required`,
+        })),
+        400
+      );
+      return;
+    }
+
+    ResponseHelper.success(
+      res,
+      postHelper.formatPostResponse(result.post),
+      "Draft submitted for review"
+    );
+  } catch (error) {
+    console.error("Submit draft error:", error);
+    handleDraftError(res, error);
+  }
+};
+
 // ดึงโพสต์ของ user
 export const getUserPosts = async (
   req: AuthRequest,
@@ -415,15 +664,24 @@ export const getUserPosts = async (
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
 
+    const status = req.query.status as string | undefined;
+
     const result = await postService.getUserPosts(
       req.user._id.toString(),
       page,
-      limit
+      limit,
+      status
     );
 
-    const formattedPosts = result.posts.map((post: any) =>
-      postHelper.formatPostResponse(post)
-    );
+    const formattedPosts = result.posts.map((post: any) => ({
+      ...postHelper.formatPostResponse(post),
+      // คะแนนคุณภาพพร้อมคำแนะนำให้ผู้ลงประกาศปรับปรุง
+      quality: ListingQualityService.evaluate(post),
+      // แสดงฟิลด์ที่ยังขาดสำหรับ draft เพื่อให้ wizard ทำต่อได้
+      ...(post.status === "draft" && {
+        missingFields: postService.getDraftMissingFields(post),
+      }),
+    }));
 
     ResponseHelper.successWithPagination(
       res,
@@ -442,19 +700,85 @@ export const getUserPosts = async (
   }
 };
 
+// นับ impression ของโพสต์ที่มี boost ในผลลัพธ์ (ไม่รอผล)
+const trackBoostImpressions = (
+  posts: any[],
+  placement: BoostPlacement
+): void => {
+  BoostService.recordImpressions(posts, placement).catch((error) =>
+    console.error("Boost impression error:", error)
+  );
+};
+
+// ตอบกลับโพสต์แบบ cursor (ใช้เมื่อ client ส่ง ?cursor= มา, ค่าว่าง = หน้าแรก)
+const respondPostsByCursor = async (
+  req: Request,
+  res: Response,
+  filter: PostFilter,
+  message: string
+): Promise<void> => {
+  try {
+    const limit = CursorPagination.normalizeLimit(req.query.limit);
+    const result = await postService.getPostsByCursor(
+      filter,
+      limit,
+      req.query.cursor as string
+    );
+
+    ResponseHelper.successWithCursor(
+      res,
+      result.items.map((post: any) =>
+        postHelper.formatPostResponse(post, {
+          ...filter,
+          language: LanguageUtils.resolve(
+            req.query.lang,
+            req.get("Accept-Language")
+          ),
+        })
+      ),
+      result.cursor,
+      message
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Invalid cursor")) {
+      ResponseHelper.badRequest(res, "Invalid cursor");
+      return;
+    }
+    throw error;
+  }
+};
+
 // ดึงโพสต์ที่อนุมัติแล้ว
 export const getApprovedPosts = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
+    if (req.query.cursor !== undefined) {
+      await respondPostsByCursor(
+        req,
+        res,
+        {
+          ...SavedSearchService.sanitizeFilter(req.query),
+          sortBy: req.query.sortBy as PostFilter["sortBy"],
+        },
+        "Approved posts retrieved successfully"
+      );
+      return;
+    }
+
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
 
     const result = await postHelper.getPostsByStatus("approved", page, limit);
+    trackBoostImpressions(result.posts, "feed");
+    const display = postHelper.getDisplayOptions(
+      req.query,
+      req.get("Accept-Language")
+    );
 
     const formattedPosts = result.posts.map((post: any) =>
-      postHelper.formatPostResponse(post)
+      postHelper.formatPostResponse(post, display)
     );
 
     ResponseHelper.successWithPagination(
@@ -480,9 +804,12 @@ export const getPendingPosts = async (
 
     const result = await postHelper.getPostsByStatus("pending", page, limit);
 
-    const formattedPosts = result.posts.map((post: any) =>
-      postHelper.formatPostResponse(post)
-    );
+    // แสดงประกาศเดิมที่น่าจะซ้ำให้ admin ตรวจสอบ
+    const formattedPosts = result.posts.map((post: any) => ({
+      ...postHelper.formatPostResponse(post),
+      duplicateOf: post.duplicateOf,
+      duplicateScore: post.duplicateScore,
+    }));
 
     ResponseHelper.successWithPagination(
       res,
@@ -505,7 +832,7 @@ export const approvePost = async (
     const { id } = req.params;
 
     try {
-      const updatedPost = await postHelper.updatePostStatus(id, "approved");
+      const updatedPost = await postService.approvePost(id);
       ResponseHelper.success(
         res,
         postHelper.formatPostResponse(updatedPost),
@@ -513,10 +840,17 @@ export const approvePost = async (
       );
     } catch (error) {
       if (error instanceof Error) {
-        if (error.message === "Post not found") {
+        if (error.message.includes("ไม่พบโพสต์")) {
           ResponseHelper.notFound(res, "Post not found");
           return;
         }
+        if (error.message.includes("อนุมัติได้เฉพาะโพสต์")) {
+          ResponseHelper.badRequest(
+            res,
+            "Only pending or expired posts can be approved"
+          );
+          return;
+        }
         ResponseHelper.error(res, error.message, undefined, 400);
         return;
       }
@@ -589,6 +923,11 @@ export const searchPosts = async (
       filter.minPrice = parseFloat(req.query.minPrice as string);
     if (req.query.maxPrice)
       filter.maxPrice = parseFloat(req.query.maxPrice as string);
+    // สกุลเงิน/หน่วยพื้นที่ที่ใช้ทั้ง filter และแสดงผล
+    Object.assign(
+      filter,
+      postHelper.getDisplayOptions(req.query, req.get("Accept-Language"))
+    );
     if (req.query.minArea)
       filter.minArea = parseFloat(req.query.minArea as string);
     if (req.query.maxArea)
@@ -624,12 +963,14 @@ export const searchPosts = async (
       ...filter,
       page,
       limit,
+      includeFacets: req.query.facets === "true",
     };
 
     const result = await postService.advancedSearch(searchParams);
+    trackBoostImpressions(result.posts, "search");
 
     const formattedPosts = result.posts.map((post: any) => {
-      const formatted = postHelper.formatPostResponse(post);
+      const formatted = postHelper.formatPostResponse(post, filter);
       // เพิ่มข้อมูลระยะทางถ้ามี
       if (post.distance !== undefined) {
         (formatted as any).distance = post.distance;
@@ -650,7 +991,10 @@ export const searchPosts = async (
         total: result.pagination.totalCount,
         totalPages: result.pagination.total,
       },
-      "Posts search completed successfully"
+      "Posts search completed successfully",
+      200,
+      // facets=true: facet counts สำหรับ filter sidebar แยกจาก data
+      result.facets ? { facets: result.facets } : {}
     );
   } catch (error) {
     console.error("Search posts error:", error);
@@ -699,6 +1043,10 @@ export const getNearbyPosts = async (
       filter.minPrice = parseFloat(req.query.minPrice as string);
     if (req.query.maxPrice)
       filter.maxPrice = parseFloat(req.query.maxPrice as string);
+    Object.assign(
+      filter,
+      postHelper.getDisplayOptions(req.query, req.get("Accept-Language"))
+    );
     if (req.query.minArea)
       filter.minArea = parseFloat(req.query.minArea as string);
     if (req.query.maxArea)
@@ -714,7 +1062,7 @@ export const getNearbyPosts = async (
     );
 
     const formattedPosts = result.posts.map((post: any) => ({
-      ...postHelper.formatPostResponse(post),
+      ...postHelper.formatPostResponse(post, filter),
       distance: post.distance, // เพิ่มข้อมูลระยะทาง
     }));
 
@@ -735,6 +1083,192 @@ export const getNearbyPosts = async (
   }
 };
 
+// ค้นหาโพสต์ภายในพื้นที่บนแผนที่ (ใช้ร่วมกันระหว่าง viewport และ polygon)
+const respondPostsWithinArea = async (
+  res: Response,
+  polygon: [number, number][],
+  raw: Record<string, unknown>,
+  language?: ListingLanguage
+): Promise<void> => {
+  const page = parseInt(raw.page as string) || 1;
+  const limit = parseInt(raw.limit as string) || 20;
+  const filter: PostFilter = {
+    ...SavedSearchService.sanitizeFilter(raw),
+    sortBy: raw.sortBy as PostFilter["sortBy"],
+  };
+
+  const result = await postService.getPostsWithinArea(
+    polygon,
+    page,
+    limit,
+    filter
+  );
+
+  const formattedPosts = result.posts.map((post: any) => ({
+    ...postHelper.formatPostResponse(post, { ...filter, language }),
+    matchedBy: post.matchedBy, // location หรือ boundary
+  }));
+
+  ResponseHelper.successWithPagination(
+    res,
+    formattedPosts,
+    {
+      page: result.pagination.current,
+      limit: result.pagination.limit,
+      total: result.pagination.totalCount,
+      totalPages: result.pagination.total,
+    },
+    `Found ${result.pagination.totalCount} posts in the selected area`
+  );
+};
+
+// อ่าน bounding box จาก query (คืน null ถ้าขอบเขตไม่ถูกต้อง)
+const parseMapBounds = (query: Record<string, unknown>): MapBounds | null => {
+  const bounds = {
+    north: parseFloat(query.north as string),
+    south: parseFloat(query.south as string),
+    east: parseFloat(query.east as string),
+    west: parseFloat(query.west as string),
+  };
+
+  if (bounds.south >= bounds.north || bounds.west >= bounds.east) {
+    return null;
+  }
+  return bounds;
+};
+
+const INVALID_BOUNDS_MESSAGE =
+  "Invalid bounds: south must be less than north and west less than east";
+
+// ค้นหาโพสต์ภายใน viewport ของแผนที่
+export const getPostsWithinBounds = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const bounds = parseMapBounds(req.query);
+    if (!bounds) {
+      ResponseHelper.badRequest(res, INVALID_BOUNDS_MESSAGE);
+      return;
+    }
+
+    await respondPostsWithinArea(
+      res,
+      CoordinateUtils.boundsToPolygon(bounds),
+      req.query,
+      LanguageUtils.resolve(req.query.lang, req.get("Accept-Language"))
+    );
+  } catch (error) {
+    console.error("Get posts within bounds error:", error);
+    ResponseHelper.internalError(res, "Error searching posts within bounds");
+  }
+};
+
+// จัดกลุ่มโพสต์ใน viewport ตามระดับ zoom (แทนการแสดง pin ทีละโพสต์)
+export const getMapClusters = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const bounds = parseMapBounds(req.query);
+    if (!bounds) {
+      ResponseHelper.badRequest(res, INVALID_BOUNDS_MESSAGE);
+      return;
+    }
+
+    const zoom = parseInt(req.query.zoom as string);
+    const filter = SavedSearchService.sanitizeFilter(req.query);
+
+    const result = await postService.getMapClusters(bounds, zoom, filter);
+
+    ResponseHelper.success(
+      res,
+      result,
+      `Found ${result.totalCount} posts in ${result.clusters.length} clusters`
+    );
+  } catch (error) {
+    console.error("Get map clusters error:", error);
+    ResponseHelper.internalError(res, "Error getting map clusters");
+  }
+};
+
+// ค้นหาโพสต์ภายใน polygon ที่ผู้ใช้วาดบนแผนที่
+export const getPostsWithinPolygon = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const polygon = (req.body.polygon as [unknown, unknown][]).map(
+      ([lng, lat]) => [Number(lng), Number(lat)] as [number, number]
+    );
+
+    await respondPostsWithinArea(
+      res,
+      polygon,
+      req.body,
+      LanguageUtils.resolve(req.query.lang, req.get("Accept-Language"))
+    );
+  } catch (error) {
+    console.error("Get posts within polygon error:", error);
+    ResponseHelper.internalError(res, "Error searching posts within polygon");
+  }
+};
+
+// เปรียบเทียบโพสต์ 2-4 รายการ (guest หรือผู้ใช้ที่ login)
+export const comparePosts = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const comparison = await PostComparisonService.compare(
+      req.body.postIds,
+      req.user?._id?.toString()
+    );
+
+    ResponseHelper.success(res, comparison, "Posts compared successfully");
+  } catch (error) {
+    console.error("Compare posts error:", error);
+    if (error instanceof Error) {
+      if (error.message.startsWith("Post not found")) {
+        ResponseHelper.notFound(res, error.message);
+        return;
+      }
+      if (
+        error.message.startsWith("Between ") ||
+        error.message === "Invalid post ID"
+      ) {
+        ResponseHelper.badRequest(res, error.message);
+        return;
+      }
+    }
+    ResponseHelper.internalError(res, "Error comparing posts");
+  }
+};
+
 // ดึงโพสต์ตามจังหวัด
 export const getPostsByProvince = async (
   req: Request,
@@ -755,13 +1289,25 @@ export const getPostsByProvince = async (
       maxPrice: req.query.maxPrice
         ? parseFloat(req.query.maxPrice as string)
         : undefined,
+      ...postHelper.getDisplayOptions(req.query, req.get("Accept-Language")),
       sortBy: (req.query.sortBy as any) || "newest",
     };
 
+    if (req.query.cursor !== undefined) {
+      await respondPostsByCursor(
+        req,
+        res,
+        filter,
+        `Posts in ${province} retrieved successfully`
+      );
+      return;
+    }
+
     const result = await postService.filterPosts(filter, page, limit);
+    trackBoostImpressions(result.posts, "feed");
 
     const formattedPosts = result.posts.map((post: any) =>
-      postHelper.formatPostResponse(post)
+      postHelper.formatPostResponse(post, filter)
     );
 
     ResponseHelper.successWithPagination(
@@ -853,6 +1399,162 @@ export const getSearchStats = async (
   }
 };
 
+// ต่ออายุประกาศ
+export const renewPost = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const post = await ListingLifecycleService.renewPost(
+      id,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(
+      res,
+      postHelper.formatPostResponse(post),
+      "Post renewed successfully"
+    );
+  } catch (error) {
+    console.error("Renew post error:", error);
+    if (error instanceof Error) {
+      if (error.message === "Post not found") {
+        ResponseHelper.notFound(res, "Post not found");
+        return;
+      }
+      if (error.message.includes("permission")) {
+        ResponseHelper.forbidden(res, error.message);
+        return;
+      }
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+    ResponseHelper.internalError(res);
+  }
+};
+
+// ===== Price History =====
+
+// ดึงประวัติราคาของโพสต์
+export const getPostPriceHistory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const result = await PriceHistoryService.getPostPriceHistory(id);
+
+    ResponseHelper.success(
+      res,
+      result,
+      "Post price history retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get post price history error:", error);
+    if (error instanceof Error && error.message === "Post not found") {
+      ResponseHelper.notFound(res, "Post not found");
+      return;
+    }
+    ResponseHelper.internalError(res);
+  }
+};
+
+// ประกาศที่คล้ายกัน (หน้ารายละเอียดโพสต์)
+export const getSimilarPosts = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const limit = Math.min(
+      parseInt(req.query.limit as string) || DEFAULT_SIMILAR_POSTS,
+      MAX_SIMILAR_POSTS
+    );
+    const display = postHelper.getDisplayOptions(
+      req.query,
+      req.get("Accept-Language")
+    );
+    const similar = await SimilarListingService.getSimilarPosts(
+      req.params.id,
+      limit
+    );
+
+    ResponseHelper.success(
+      res,
+      similar.map(({ post, similarity }) => ({
+        ...postHelper.formatPostResponse(post, display),
+        similarity,
+      })),
+      "Similar posts retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get similar posts error:", error);
+    if (error instanceof Error && error.message === "Post not found") {
+      ResponseHelper.notFound(res, "Post not found");
+      return;
+    }
+    ResponseHelper.internalError(res);
+  }
+};
+
+// ดึงโพสต์ที่ลดราคาล่าสุด
+export const getRecentPriceDrops = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+
+    const filter = {
+      province: req.query.province as string | undefined,
+      propertyType: req.query.propertyType as string | undefined,
+      listingType: req.query.listingType as string | undefined,
+      days: parseInt(req.query.days as string) || undefined,
+      minDropPercent: req.query.minDropPercent
+        ? parseFloat(req.query.minDropPercent as string)
+        : undefined,
+    };
+
+    const { posts, total } = await PriceHistoryService.getRecentPriceDrops(
+      filter,
+      page,
+      limit
+    );
+
+    const display = postHelper.getDisplayOptions(
+      req.query,
+      req.get("Accept-Language")
+    );
+    const formattedPosts = posts.map((post: any) =>
+      postHelper.formatPostResponse(post, display)
+    );
+
+    ResponseHelper.successWithPagination(
+      res,
+      formattedPosts,
+      {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+      "Recent price drops retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get recent price drops error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
 // Export validation rules
 export { postValidation } from "./helpers/postHelper";
 // อัปเดตโพสต์
@@ -863,7 +1565,7 @@ export const updatePost = async (
   try {
     const { id } = req.params;
     const postData: UpdatePostData = req.body;
-    let media: { images: string[]; videos: string[]; documents: string[] } = {
+    const media: { images: string[]; videos: string[]; documents: string[] } = {
       images: [],
       videos: [],
       documents: [],
@@ -946,7 +1648,7 @@ export const updatePost = async (
     // Let's add `media` to the data passed to service.
     (updatePostData as any).media = media;
 
-    const post = await postService.updatePost(
+    const { post, pendingRevision } = await postService.updatePost(
       id,
       req.user._id.toString(),
       updatePostData,
@@ -955,12 +1657,38 @@ export const updatePost = async (
 
     ResponseHelper.success(
       res,
-      postHelper.formatPostResponse(post),
-      "Post updated successfully"
+      {
+        ...postHelper.formatPostResponse(post),
+        warnings: postHelper.getWarnings(post),
+      },
+      pendingRevision
+        ? "Post updated. Changes to price, media, legal documents or location are pending admin review"
+        : "Post updated successfully"
     );
   } catch (error) {
     console.error("Update post error:", error);
     if (error instanceof Error) {
+      if (error.message.includes("ไม่สามารถเปลี่ยนสถานะ draft")) {
+        ResponseHelper.badRequest(
+          res,
+          "Draft status cannot be changed here. Submit the draft for review instead"
+        );
+        return;
+      }
+      if (error.message.includes("ไม่สามารถเปลี่ยนสถานะ")) {
+        ResponseHelper.badRequest(
+          res,
+          "Only approved posts can be marked as sold or rented"
+        );
+        return;
+      }
+      if (error.message.includes("Invalid boundary")) {
+        ResponseHelper.badRequest(
+          res,
+          error.message.slice(error.message.indexOf("Invalid boundary"))
+        );
+        return;
+      }
       if (
         error.message.includes("ไม่พบโพสต์") ||
         error.message.includes("Post not found")
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express'
 import { Types } from 'mongoose'
-import { Report, IReport } from '@/models/Report'
+import { Report } from '@/models/Report'
 import { Post } from '@/models/Post'
 import { User } from '@/models/User'
 import { Chat } from '@/models/Chat'
@@ -0,0 +1,257 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { SavedSearchService } from "@/services/SavedSearchService";
+import { PostService } from "@/services/PostService";
+import { postHelper } from "./helpers/postHelper";
+import { ResponseHelper } from "@/utils/response";
+import { AuthRequest } from "@/middlewares/auth";
+
+const postService = new PostService();
+
+const handleSavedSearchError = (res: Response, error: unknown): void => {
+  if (error instanceof Error) {
+    if (
+      error.message === "Saved search not found" ||
+      error.message === "Alert not found"
+    ) {
+      ResponseHelper.notFound(res, error.message);
+      return;
+    }
+    if (error.message.startsWith("Saved search limit reached")) {
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+  }
+  ResponseHelper.internalError(res);
+};
+
+// สร้าง saved search
+export const createSavedSearch = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const { name, filter, alertsEnabled } = req.body;
+    const savedSearch = await SavedSearchService.createSavedSearch(
+      req.user._id.toString(),
+      { name, filter, alertsEnabled }
+    );
+
+    ResponseHelper.success(
+      res,
+      savedSearch,
+      "Saved search created successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Create saved search error:", error);
+    handleSavedSearchError(res, error);
+  }
+};
+
+// ดึง saved searches ของ user
+export const getUserSavedSearches = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const savedSearches = await SavedSearchService.getUserSavedSearches(
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(
+      res,
+      savedSearches,
+      "Saved searches retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get saved searches error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// ดึง saved search เดี่ยว
+export const getSavedSearch = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const savedSearch = await SavedSearchService.getSavedSearchById(
+      req.params.id,
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(
+      res,
+      savedSearch,
+      "Saved search retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get saved search error:", error);
+    handleSavedSearchError(res, error);
+  }
+};
+
+// อัปเดต saved search
+export const updateSavedSearch = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const { name, filter, alertsEnabled } = req.body;
+    const savedSearch = await SavedSearchService.updateSavedSearch(
+      req.params.id,
+      req.user._id.toString(),
+      { name, filter, alertsEnabled }
+    );
+
+    ResponseHelper.success(
+      res,
+      savedSearch,
+      "Saved search updated successfully"
+    );
+  } catch (error) {
+    console.error("Update saved search error:", error);
+    handleSavedSearchError(res, error);
+  }
+};
+
+// ลบ saved search
+export const deleteSavedSearch = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    await SavedSearchService.deleteSavedSearch(
+      req.params.id,
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(res, null, "Saved search deleted successfully");
+  } catch (error) {
+    console.error("Delete saved search error:", error);
+    handleSavedSearchError(res, error);
+  }
+};
+
+// รัน saved search (ผลลัพธ์เหมือน PostService.filterPosts)
+export const runSavedSearch = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+
+    const savedSearch = await SavedSearchService.getSavedSearchById(
+      req.params.id,
+      req.user._id.toString()
+    );
+
+    const result = await postService.filterPosts(
+      savedSearch.filter,
+      page,
+      limit
+    );
+
+    const formattedPosts = result.posts.map((post: any) =>
+      postHelper.formatPostResponse(post, savedSearch.filter)
+    );
+
+    ResponseHelper.successWithPagination(
+      res,
+      formattedPosts,
+      {
+        page: result.pagination.current,
+        limit: result.pagination.limit,
+        total: result.pagination.totalCount,
+        totalPages: result.pagination.total,
+      },
+      "Saved search results retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Run saved search error:", error);
+    handleSavedSearchError(res, error);
+  }
+};
+
+// ดึง alerts ของ user
+export const getSavedSearchAlerts = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const unreadOnly = req.query.unreadOnly === "true";
+
+    const result = await SavedSearchService.getUserAlerts(
+      req.user._id.toString(),
+      page,
+      limit,
+      unreadOnly
+    );
+
+    ResponseHelper.successWithPagination(
+      res,
+      { alerts: result.alerts, unread: result.unread },
+      {
+        page,
+        limit,
+        total: result.total,
+        totalPages: Math.ceil(result.total / limit),
+      },
+      "Saved search alerts retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get saved search alerts error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// ทำเครื่องหมาย alert ว่าอ่านแล้ว
+export const markAlertAsRead = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    await SavedSearchService.markAlertAsRead(
+      req.params.alertId,
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(res, null, "Alert marked as read");
+  } catch (error) {
+    console.error("Mark alert as read error:", error);
+    handleSavedSearchError(res, error);
+  }
+};
+
+// ทำเครื่องหมาย alerts ทั้งหมดว่าอ่านแล้ว
+export const markAllAlertsAsRead = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const updated = await SavedSearchService.markAllAlertsAsRead(
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(res, { updated }, "All alerts marked as read");
+  } catch (error) {
+    console.error("Mark all alerts as read error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
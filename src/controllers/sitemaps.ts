@@ -0,0 +1,42 @@
+import { Request, Response } from "express";
+import { SitemapService } from "@/services/SitemapService";
+
+const XML_CONTENT_TYPE = "application/xml; charset=utf-8";
+
+// sitemap index
+export const getSitemapIndex = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const xml = await SitemapService.getIndex();
+    res.setHeader("Content-Type", XML_CONTENT_TYPE);
+    res.setHeader("Cache-Control", "public, max-age=900");
+    res.send(xml);
+  } catch (error) {
+    console.error("Get sitemap index error:", error);
+    res.status(500).type("text/plain").send("Error generating sitemap");
+  }
+};
+
+// ไฟล์ sitemap ย่อย (สร้างไว้ล่วงหน้าโดย scheduler)
+export const getSitemapFile = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const sitemap = await SitemapService.getSitemap(req.params.name);
+    if (!sitemap) {
+      res.status(404).type("text/plain").send("Sitemap not found");
+      return;
+    }
+
+    res.setHeader("Content-Type", XML_CONTENT_TYPE);
+    res.setHeader("Last-Modified", sitemap.lastModified.toUTCString());
+    res.setHeader("Cache-Control", "public, max-age=900");
+    res.send(sitemap.xml);
+  } catch (error) {
+    console.error("Get sitemap error:", error);
+    res.status(500).type("text/plain").send("Error generating sitemap");
+  }
+};
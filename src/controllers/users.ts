@@ -1,5 +1,5 @@
-import { Request, Response, RequestHandler } from "express";
-import { User, IUser } from "../models/User";
+import { RequestHandler } from "express";
+import { User } from "../models/User";
 
 // @desc    Get current logged in user
 // @route   GET /api/v1/users/me
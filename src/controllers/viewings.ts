@@ -0,0 +1,338 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { ViewingService, ViewingSide } from "@/services/ViewingService";
+import { ViewingStatus } from "@/models/ViewingAppointment";
+import { ResponseHelper } from "@/utils/response";
+import { AuthRequest } from "@/middlewares/auth";
+
+// แปลงข้อผิดพลาดจาก ViewingService เป็น HTTP response
+const handleViewingError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+): void => {
+  if (error instanceof Error) {
+    if (
+      error.message === "Post not found" ||
+      error.message === "Slot not found" ||
+      error.message === "Viewing not found"
+    ) {
+      ResponseHelper.notFound(res, error.message);
+      return;
+    }
+    if (error.message.startsWith("You do not have permission")) {
+      ResponseHelper.forbidden(res, error.message);
+      return;
+    }
+    if (
+      error.message === "Slot is no longer available" ||
+      error.message === "You have already requested this slot" ||
+      error.message.startsWith("Slots must not overlap")
+    ) {
+      ResponseHelper.conflict(res, error.message);
+      return;
+    }
+    if (
+      error.message.startsWith("Slots ") ||
+      error.message.startsWith("Slot ") ||
+      error.message.startsWith("Between ") ||
+      error.message.startsWith("Only ") ||
+      error.message.startsWith("Viewings can only") ||
+      error.message === "Cannot request a viewing of your own post"
+    ) {
+      ResponseHelper.badRequest(res, error.message);
+      return;
+    }
+  }
+  ResponseHelper.internalError(res, fallback);
+};
+
+// ผู้ขายเปิดช่วงเวลาให้จองชม
+export const createSlots = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const slots = await ViewingService.createSlots(
+      req.params.postId,
+      req.body.slots,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(
+      res,
+      slots,
+      "Viewing slots created successfully",
+      201
+    );
+  } catch (error) {
+    console.error("Create viewing slots error:", error);
+    handleViewingError(res, error, "Error creating viewing slots");
+  }
+};
+
+// ช่วงเวลาที่ยังว่างของโพสต์ (สาธารณะ)
+export const getAvailableSlots = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const slots = await ViewingService.getAvailableSlots(req.params.postId);
+
+    ResponseHelper.success(res, slots, "Viewing slots retrieved successfully");
+  } catch (error) {
+    console.error("Get viewing slots error:", error);
+    handleViewingError(res, error, "Error retrieving viewing slots");
+  }
+};
+
+// ช่วงเวลาทั้งหมดของโพสต์ พร้อมจำนวนคำขอที่รอ (เจ้าของโพสต์)
+export const getPostSlots = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const slots = await ViewingService.getPostSlots(
+      req.params.postId,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, slots, "Viewing slots retrieved successfully");
+  } catch (error) {
+    console.error("Get post viewing slots error:", error);
+    handleViewingError(res, error, "Error retrieving viewing slots");
+  }
+};
+
+// ยกเลิกช่วงเวลา
+export const cancelSlot = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const slot = await ViewingService.cancelSlot(
+      req.params.id,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, slot, "Viewing slot cancelled successfully");
+  } catch (error) {
+    console.error("Cancel viewing slot error:", error);
+    handleViewingError(res, error, "Error cancelling viewing slot");
+  }
+};
+
+// ผู้ซื้อขอนัดชม
+export const requestViewing = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const viewing = await ViewingService.requestViewing(
+      req.params.id,
+      req.user._id.toString(),
+      req.body.message
+    );
+
+    ResponseHelper.success(res, viewing, "Viewing requested successfully", 201);
+  } catch (error) {
+    console.error("Request viewing error:", error);
+    handleViewingError(res, error, "Error requesting viewing");
+  }
+};
+
+// นัดของผู้ใช้ (side=buyer คือที่ขอไว้, side=seller คือที่ได้รับ)
+export const getMyViewings = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const side = (req.query.side as ViewingSide) || "buyer";
+
+    const { viewings, total } = await ViewingService.getUserViewings(
+      req.user._id.toString(),
+      side,
+      page,
+      limit,
+      req.query.status as ViewingStatus | undefined
+    );
+
+    ResponseHelper.successWithPagination(
+      res,
+      viewings,
+      { page, limit, total, totalPages: Math.ceil(total / limit) },
+      "Viewings retrieved successfully"
+    );
+  } catch (error) {
+    console.error("Get my viewings error:", error);
+    ResponseHelper.internalError(res);
+  }
+};
+
+// รายละเอียดนัด
+export const getViewing = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const viewing = await ViewingService.getViewing(
+      req.params.id,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, viewing, "Viewing retrieved successfully");
+  } catch (error) {
+    console.error("Get viewing error:", error);
+    handleViewingError(res, error, "Error retrieving viewing");
+  }
+};
+
+// ผู้ขายยืนยันนัด
+export const confirmViewing = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const viewing = await ViewingService.confirmViewing(
+      req.params.id,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    ResponseHelper.success(res, viewing, "Viewing confirmed successfully");
+  } catch (error) {
+    console.error("Confirm viewing error:", error);
+    handleViewingError(res, error, "Error confirming viewing");
+  }
+};
+
+// ผู้ขายปฏิเสธนัด
+export const declineViewing = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const viewing = await ViewingService.declineViewing(
+      req.params.id,
+      req.user._id.toString(),
+      req.user.role,
+      req.body.reason
+    );
+
+    ResponseHelper.success(res, viewing, "Viewing declined successfully");
+  } catch (error) {
+    console.error("Decline viewing error:", error);
+    handleViewingError(res, error, "Error declining viewing");
+  }
+};
+
+// ผู้ซื้อหรือผู้ขายยกเลิกนัด
+export const cancelViewing = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const viewing = await ViewingService.cancelViewing(
+      req.params.id,
+      req.user._id.toString()
+    );
+
+    ResponseHelper.success(res, viewing, "Viewing cancelled successfully");
+  } catch (error) {
+    console.error("Cancel viewing error:", error);
+    handleViewingError(res, error, "Error cancelling viewing");
+  }
+};
+
+// ดาวน์โหลดนัดที่ยืนยันแล้วเป็นไฟล์ปฏิทิน (.ics)
+export const downloadViewingCalendar = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      ResponseHelper.validationError(res, errors.array());
+      return;
+    }
+
+    const { filename, content } = await ViewingService.buildCalendarFile(
+      req.params.id,
+      req.user._id.toString(),
+      req.user.role
+    );
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(content);
+  } catch (error) {
+    console.error("Download viewing calendar error:", error);
+    handleViewingError(res, error, "Error generating calendar file");
+  }
+};
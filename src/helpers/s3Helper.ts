@@ -14,14 +14,29 @@ export const uploadFileToS3 = async (
   file: Express.Multer.File,
   folder: string
 ): Promise<string> => {
-  const fileExtension = path.extname(file.originalname);
+  return uploadBufferToS3(
+    file.buffer,
+    file.originalname,
+    file.mimetype,
+    folder
+  );
+};
+
+// อัปโหลดข้อมูลจาก buffer (เช่น รูปที่ดาวน์โหลดจาก URL ตอนนำเข้าประกาศ)
+export const uploadBufferToS3 = async (
+  buffer: Buffer,
+  originalName: string,
+  contentType: string,
+  folder: string
+): Promise<string> => {
+  const fileExtension = path.extname(originalName);
   const fileName = `dindee/${folder}/${uuidv4()}${fileExtension}`;
 
   const command = new PutObjectCommand({
     Bucket: process.env.AWS_S3_BUCKET,
     Key: fileName,
-    Body: file.buffer,
-    ContentType: file.mimetype,
+    Body: buffer,
+    ContentType: contentType,
     // ACL: "public-read", // Ensure bucket policy allows public read if needed, or remove if strictly private/presigned
   });
 
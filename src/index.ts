@@ -9,12 +9,19 @@ import { config } from "@/config";
 import { connectDatabase } from "@/config/database";
 import { setupSwagger } from "@/config/swagger";
 import { initializeSocket } from "@/config/socket";
+import { ListingLifecycleService } from "@/services/ListingLifecycleService";
+import { CurrencyService } from "@/services/CurrencyService";
+import { BoostService } from "@/services/BoostService";
+import { ViewingService } from "@/services/ViewingService";
+import { ImportService } from "@/services/ImportService";
+import { SitemapService } from "@/services/SitemapService";
+import { ListingQualityService } from "@/services/ListingQualityService";
 
 const app = express();
 const server = createServer(app);
 
 // Initialize Socket.IO
-const io = initializeSocket(server);
+initializeSocket(server);
 
 // Logging middleware
 app.use(morgan(config.nodeEnv === "development" ? "dev" : "combined"));
@@ -58,6 +65,10 @@ app.get("/health", (req, res) => {
   });
 });
 
+// Sitemap (/sitemap.xml, /sitemaps/*.xml)
+import sitemapRoutes from "@/routes/sitemaps";
+app.use(sitemapRoutes);
+
 // Import versioned routes
 import apiRoutes from "@/routes";
 import { versionMiddleware } from "@/middlewares/version";
@@ -85,7 +96,7 @@ app.use(
     err: any,
     req: express.Request,
     res: express.Response,
-    next: express.NextFunction
+    _next: express.NextFunction
   ) => {
     console.error("Unhandled error:", err);
 
@@ -116,6 +127,29 @@ const startServer = async () => {
     // Connect to database
     await connectDatabase();
 
+    // โหลดอัตราแลกเปลี่ยน และเติม basePrice ให้โพสต์เก่า
+    await CurrencyService.initialize();
+
+    // Start listing expiry/archive scheduler
+    ListingLifecycleService.startScheduler();
+
+    // เริ่ม/จบ boost ประกาศตามเวลาที่ซื้อไว้
+    BoostService.startScheduler();
+
+    // แจ้งเตือนก่อนนัดชมทรัพย์ และปิดนัดที่ผ่านไปแล้ว
+    ViewingService.startScheduler();
+
+    // นำเข้าประกาศที่ค้างอยู่ต่อหลัง restart
+    ImportService.resumePendingJobs();
+
+    // สร้าง slug ให้ประกาศเดิม และสร้าง sitemap ใหม่เฉพาะกลุ่มที่เปลี่ยน
+    SitemapService.startScheduler();
+
+    // คำนวณคะแนนคุณภาพให้ประกาศเดิมที่ยังไม่มี
+    ListingQualityService.backfillScores().catch((error) =>
+      console.error("Quality score backfill error:", error)
+    );
+
     // Start listening
     server.listen(config.port, () => {
       console.log(`🚀 Server running on port ${config.port}`);
@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express'
+import crypto from 'crypto'
+import { config } from '@/config'
 import { verifyAccessToken, isTokenBlacklisted } from '@/utils/jwt'
 import { User } from '@/models/User'
+import { FeedService } from '@/services/FeedService'
+import { IFeedPartner } from '@/models/FeedPartner'
 
 export interface AuthRequest extends Request {
   user?: any
@@ -51,6 +55,29 @@ export const auth = async (req: AuthRequest, res: Response, next: NextFunction):
   }
 }
 
+// แนบ user ถ้ามี token ที่ถูกต้อง (ไม่บังคับ login — ใช้กับ endpoint ที่ guest เรียกได้)
+export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const authHeader = req.headers.authorization
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+
+      if (!(await isTokenBlacklisted(token))) {
+        const decoded = verifyAccessToken(token)
+        const user = await User.findById(decoded.userId).select('-password')
+        if (user) {
+          req.user = user
+        }
+      }
+    }
+  } catch (error) {
+    // token หมดอายุ/ไม่ถูกต้อง: ทำงานต่อแบบ guest
+  }
+
+  next()
+}
+
 export const admin = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     if (!req.user) {
@@ -67,4 +94,51 @@ export const admin = async (req: AuthRequest, res: Response, next: NextFunction)
   } catch (error) {
     res.status(500).json({ error: 'Internal server error' })
   }
-}
\ No newline at end of file
+}
+
+export interface FeedPartnerRequest extends Request {
+  feedPartner?: IFeedPartner
+}
+
+// ตรวจสอบ API key ของ partner feed (header X-Feed-Key หรือ ?key= สำหรับโปรแกรมอ่าน RSS)
+export const feedPartnerAuth = async (req: FeedPartnerRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const apiKey = (req.headers['x-feed-key'] as string | undefined) || (req.query.key as string | undefined)
+
+    if (!apiKey) {
+      res.status(401).json({ error: 'Feed API key required' })
+      return
+    }
+
+    const partner = await FeedService.authenticate(apiKey)
+    if (!partner) {
+      res.status(401).json({ error: 'Invalid feed API key' })
+      return
+    }
+
+    req.feedPartner = partner
+    next()
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+// ตรวจสอบ secret ของ payment callback (header X-Payment-Secret)
+export const paymentCallbackAuth = (req: Request, res: Response, next: NextFunction): void => {
+  const secret = config.boosts.paymentCallbackSecret
+  const provided = req.headers['x-payment-secret'] as string | undefined
+
+  if (!secret) {
+    res.status(503).json({ error: 'Payment callback is not configured' })
+    return
+  }
+
+  // เทียบ hash เพื่อให้ความยาวเท่ากันสำหรับ timingSafeEqual
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest()
+  if (!provided || !crypto.timingSafeEqual(hash(provided), hash(secret))) {
+    res.status(401).json({ error: 'Invalid payment callback secret' })
+    return
+  }
+
+  next()
+}
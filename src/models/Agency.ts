@@ -0,0 +1,107 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type AgencyMemberRole = "owner" | "agent";
+
+export interface AgencyMember {
+  user: mongoose.Types.ObjectId;
+  role: AgencyMemberRole;
+  joinedAt: Date;
+}
+
+export interface IAgency extends Document {
+  name: string;
+  description?: string;
+  logo?: string;
+  phone?: string;
+  email?: string;
+  licenseNumber?: string; // เลขที่ใบอนุญาตนายหน้า
+  address?: {
+    street?: string;
+    district?: string;
+    province?: string;
+  };
+  members: AgencyMember[];
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const agencyMemberSchema = new Schema<AgencyMember>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ["owner", "agent"],
+      default: "agent",
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const agencySchema = new Schema<IAgency>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 120,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+    },
+    logo: {
+      type: String,
+    },
+    phone: {
+      type: String,
+      trim: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    licenseNumber: {
+      type: String,
+      trim: true,
+    },
+    address: {
+      street: { type: String, trim: true },
+      district: { type: String, trim: true },
+      province: { type: String, trim: true },
+    },
+    members: {
+      type: [agencyMemberSchema],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ผู้ใช้หนึ่งคนสังกัดได้เพียงหนึ่งเอเจนซี่
+agencySchema.index({ "members.user": 1 }, { unique: true });
+agencySchema.index({ name: 1 });
+
+export const Agency = mongoose.model<IAgency>("Agency", agencySchema);
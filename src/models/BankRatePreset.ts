@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IBankRatePreset extends Document {
+  bankName: string;
+  productName?: string; // ชื่อสินเชื่อ เช่น สินเชื่อบ้านดอกเบี้ยคงที่ 3 ปี
+  annualRate: number; // อัตราดอกเบี้ยต่อปี (%)
+  currency: "LAK" | "THB" | "USD";
+  maxTermYears?: number;
+  minDownPaymentPercent?: number;
+  isActive: boolean;
+  sortOrder: number; // น้อย = แสดงก่อน
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const bankRatePresetSchema = new Schema<IBankRatePreset>(
+  {
+    bankName: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    productName: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+    annualRate: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 100,
+    },
+    currency: {
+      type: String,
+      enum: ["LAK", "THB", "USD"],
+      default: "LAK",
+    },
+    maxTermYears: {
+      type: Number,
+      min: 1,
+    },
+    minDownPaymentPercent: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    sortOrder: {
+      type: Number,
+      default: 0,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+bankRatePresetSchema.index({ isActive: 1, sortOrder: 1 });
+
+export const BankRatePreset = mongoose.model<IBankRatePreset>(
+  "BankRatePreset",
+  bankRatePresetSchema
+);
@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IExchangeRate extends Document {
+  currency: "THB" | "USD";
+  rate: number; // จำนวนกีบ (LAK) ต่อ 1 หน่วยของสกุลเงินนี้
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const exchangeRateSchema = new Schema<IExchangeRate>(
+  {
+    currency: {
+      type: String,
+      enum: ["THB", "USD"],
+      required: true,
+      unique: true,
+    },
+    rate: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const ExchangeRate = mongoose.model<IExchangeRate>(
+  "ExchangeRate",
+  exchangeRateSchema
+);
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IFeedPartner extends Document {
+  name: string;
+  contactEmail?: string;
+  keyHash: string; // sha256 ของ API key (key จริงแสดงครั้งเดียวตอนสร้าง)
+  keyPrefix: string; // ส่วนต้นของ key ไว้ให้ admin ระบุได้
+  isActive: boolean;
+  lastAccessedAt?: Date;
+  revokedAt?: Date;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const feedPartnerSchema = new Schema<IFeedPartner>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 120,
+    },
+    contactEmail: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    keyPrefix: {
+      type: String,
+      required: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    lastAccessedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const FeedPartner = mongoose.model<IFeedPartner>(
+  "FeedPartner",
+  feedPartnerSchema
+);
@@ -0,0 +1,134 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type ImportJobStatus = "queued" | "processing" | "completed" | "failed";
+export type ImportImageMode = "reference" | "fetch";
+
+export interface ImportRowIssue {
+  row: number; // เลขแถวในไฟล์ (แถวหัวตาราง = 1)
+  field?: string;
+  message: string;
+}
+
+export interface IImportJob extends Document {
+  userId: mongoose.Types.ObjectId;
+  agencyId?: mongoose.Types.ObjectId;
+  fileName: string;
+  format: "csv" | "xlsx";
+  imageMode: ImportImageMode;
+  status: ImportJobStatus;
+  rows: Record<string, string>[]; // แถวที่แปลงตาม column mapping แล้ว (ลบทิ้งเมื่อเสร็จ)
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  failedCount: number;
+  rowErrors: ImportRowIssue[]; // แถวที่นำเข้าไม่สำเร็จ
+  rowWarnings: ImportRowIssue[]; // แถวที่นำเข้าแล้วแต่มีปัญหาบางส่วน (เช่น ดึงรูปไม่ได้)
+  createdPostIds: mongoose.Types.ObjectId[];
+  unmappedColumns: string[];
+  failureReason?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const importRowIssueSchema = new Schema<ImportRowIssue>(
+  {
+    row: { type: Number, required: true },
+    field: { type: String },
+    message: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const importJobSchema = new Schema<IImportJob>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    agencyId: {
+      type: Schema.Types.ObjectId,
+      ref: "Agency",
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: ["csv", "xlsx"],
+      required: true,
+    },
+    imageMode: {
+      type: String,
+      enum: ["reference", "fetch"],
+      default: "reference",
+    },
+    status: {
+      type: String,
+      enum: ["queued", "processing", "completed", "failed"],
+      default: "queued",
+    },
+    rows: {
+      type: Schema.Types.Mixed,
+      default: [],
+      select: false,
+    },
+    totalRows: {
+      type: Number,
+      default: 0,
+    },
+    processedRows: {
+      type: Number,
+      default: 0,
+    },
+    createdCount: {
+      type: Number,
+      default: 0,
+    },
+    failedCount: {
+      type: Number,
+      default: 0,
+    },
+    rowErrors: {
+      type: [importRowIssueSchema],
+      default: [],
+    },
+    rowWarnings: {
+      type: [importRowIssueSchema],
+      default: [],
+    },
+    createdPostIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Post",
+      },
+    ],
+    unmappedColumns: {
+      type: [String],
+      default: [],
+    },
+    failureReason: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+importJobSchema.index({ userId: 1, createdAt: -1 });
+importJobSchema.index({ status: 1, createdAt: 1 });
+
+export const ImportJob = mongoose.model<IImportJob>(
+  "ImportJob",
+  importJobSchema
+);
@@ -1,4 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose'
+import { LISTING_LANGUAGES, DEFAULT_LANGUAGE, ListingLanguage } from '@/utils/language'
+import { BoundaryUtils } from '@/utils/boundary'
 
 // Interfaces สำหรับข้อมูลเฉพาะของแต่ละประเภท
 export interface HouseDetails {
@@ -72,17 +74,44 @@ export interface LegalDocuments {
   other?: string[];
 }
 
+// ชื่อ/รายละเอียดประกาศในภาษาอื่นนอกจากภาษาหลัก
+export interface ListingTranslation {
+  title?: string;
+  description?: string;
+}
+
+export type ListingTranslations = Partial<Record<ListingLanguage, ListingTranslation>>
+
+export interface PriceDrop {
+  previousPrice: number; // ราคาก่อนลด
+  dropAmount: number;
+  dropPercent: number;
+  droppedAt: Date;
+}
+
+// ลำดับการจัดอันดับจาก boost (สูง = แสดงก่อน, 0 = ไม่มี boost)
+export interface BoostRanks {
+  search: number;
+  feed: number;
+}
+
 export interface IPost extends Document {
   title: string
   description: string
+  primaryLanguage: ListingLanguage; // ภาษาของ title/description
+  translations?: ListingTranslations; // ภาษาอื่น (lo/th/en) สำหรับแสดงตาม ?lang= หรือ Accept-Language
   price: number
-  pricePerUnit?: number; // ราคาต่อตารางเมตร หรือต่อหน่วย
+  currency: 'LAK' | 'THB' | 'USD'; // สกุลเงินที่ผู้ลงประกาศตั้งราคา
+  basePrice?: number; // ราคาแปลงเป็นกีบ (LAK) สำหรับ filter/sort ข้ามสกุลเงิน
+  pricePerUnit?: number; // ราคาต่อตารางเมตร (คำนวณจาก price / area อัตโนมัติ)
+  lastPriceDrop?: PriceDrop; // การลดราคาล่าสุด (สำหรับ badge "ลดราคา")
   propertyType: 'house' | 'land' | 'condo' | 'apartment' | 'villa' | 'townhouse'
   listingType: 'sell' | 'rent' | 'lease'; // ขาย เช่า เซ้ง
   
   // ข้อมูลพื้นที่
-  area: number; // พื้นที่ทั้งหมด
-  usableArea?: number; // พื้นที่ใช้สอย
+  area: number; // พื้นที่ทั้งหมด (ตารางเมตร)
+  usableArea?: number; // พื้นที่ใช้สอย (ตารางเมตร)
+  areaUnit: 'sqm' | 'rai' | 'hectare'; // หน่วยที่ผู้ลงประกาศกรอก (ใช้แสดงผล)
   
   // ข้อมูลตำแหน่ง
   location: LocationDetails;
@@ -104,14 +133,30 @@ export interface IPost extends Document {
   lastRenovated?: number;
   
   // ข้อมูลธุรกิจ
-  status: 'pending' | 'approved' | 'rejected' | 'sold' | 'rented';
+  status: 'draft' | 'pending' | 'approved' | 'rejected' | 'sold' | 'rented' | 'expired' | 'archived';
+  expiresAt?: Date; // วันหมดอายุของประกาศ (กำหนดตอนอนุมัติ/ต่ออายุ)
+  expiryWarningSentAt?: Date;
+  renewedAt?: Date;
+  renewCount: number;
+  closedAt?: Date; // วันที่ขาย/เช่าแล้ว
+  archivedAt?: Date;
+  pendingRevisionId?: mongoose.Types.ObjectId; // การแก้ไขฟิลด์สำคัญที่รอ admin ตรวจสอบ
+  duplicateOf?: mongoose.Types.ObjectId; // ประกาศเดิมที่น่าจะซ้ำ (ตรวจตอนสร้าง)
+  duplicateScore?: number; // 0-1
   featured: boolean; // แนะนำพิเศษ
   urgent: boolean; // ขายด่วน
+  boostRanks: BoostRanks; // ลำดับจาก boost ที่ใช้งานอยู่ (ตั้งค่าโดย BoostService)
   authorId: mongoose.Types.ObjectId;
+  agencyId?: mongoose.Types.ObjectId; // เอเจนซี่ที่เป็นเจ้าของประกาศ
+  assignedAgentId?: mongoose.Types.ObjectId; // ตัวแทนที่ดูแลประกาศ (รับแชท/นัดชม)
   
   // SEO และการค้นหา
   tags?: string[];
   keywords?: string[];
+  slug?: string; // ใช้ใน URL แทน _id (สร้างจากชื่อ ประเภท และแขวง)
+  previousSlugs?: string[]; // slug เดิมเมื่อเปลี่ยนชื่อ (redirect ไป slug ปัจจุบัน)
+  
+  qualityScore?: number; // คะแนนคุณภาพ/ความครบถ้วน 0-100 (ListingQualityService)
   
   // Analytics fields
   viewCount: number; // จำนวนการดูทั้งหมด
@@ -122,31 +167,66 @@ export interface IPost extends Document {
   updatedAt: Date
 }
 
+// Draft ยังไม่ต้องกรอกข้อมูลครบ (ตรวจสอบตอน submit แทน)
+function isNotDraft(this: any): boolean {
+  return this.status !== 'draft';
+}
+
+const translationSchema = new Schema<ListingTranslation>({
+  title: { type: String, trim: true, maxlength: 200 },
+  description: { type: String, trim: true, maxlength: 3000 },
+}, { _id: false })
+
 const postSchema = new Schema<IPost>({
   title: {
     type: String,
-    required: true,
+    required: isNotDraft,
     trim: true,
     maxlength: 200,
   },
   description: {
     type: String,
-    required: true,
+    required: isNotDraft,
     trim: true,
     maxlength: 3000,
   },
+  primaryLanguage: {
+    type: String,
+    enum: LISTING_LANGUAGES,
+    default: DEFAULT_LANGUAGE,
+  },
+  translations: {
+    lo: translationSchema,
+    th: translationSchema,
+    en: translationSchema,
+  },
   price: {
     type: Number,
-    required: true,
+    required: isNotDraft,
+    min: 0,
+  },
+  currency: {
+    type: String,
+    enum: ['LAK', 'THB', 'USD'],
+    default: 'LAK',
+  },
+  basePrice: {
+    type: Number,
     min: 0,
   },
   pricePerUnit: {
     type: Number,
     min: 0,
   },
+  lastPriceDrop: {
+    previousPrice: { type: Number, min: 0 },
+    dropAmount: { type: Number, min: 0 },
+    dropPercent: { type: Number, min: 0 },
+    droppedAt: { type: Date },
+  },
   propertyType: {
     type: String,
-    required: true,
+    required: isNotDraft,
     enum: ['house', 'land', 'condo', 'apartment', 'villa', 'townhouse'],
   },
   listingType: {
@@ -159,20 +239,25 @@ const postSchema = new Schema<IPost>({
   // ข้อมูลพื้นที่
   area: {
     type: Number,
-    required: true,
+    required: isNotDraft,
     min: 0,
   },
   usableArea: {
     type: Number,
     min: 0,
   },
+  areaUnit: {
+    type: String,
+    enum: ['sqm', 'rai', 'hectare'],
+    default: 'sqm',
+  },
   
   // ข้อมูลตำแหน่ง
   location: {
     address: {
-      street: { type: String, required: true, trim: true },
-      district: { type: String, required: true, trim: true },
-      province: { type: String, required: true, trim: true },
+      street: { type: String, required: isNotDraft, trim: true },
+      district: { type: String, required: isNotDraft, trim: true },
+      province: { type: String, required: isNotDraft, trim: true },
       postalCode: { type: String, trim: true },
       country: { type: String, default: 'Laos', trim: true },
     },
@@ -180,11 +265,12 @@ const postSchema = new Schema<IPost>({
       type: {
         type: String,
         enum: ['Point'],
-        required: true
+        required: isNotDraft
       },
       coordinates: {
         type: [Number],
-        required: true,
+        required: isNotDraft,
+        default: undefined, // ไม่สร้าง array ว่างให้ draft (2dsphere index)
         validate: {
           validator: function(val: number[]) {
             return val.length === 2;
@@ -196,13 +282,15 @@ const postSchema = new Schema<IPost>({
     boundary: {
       type: [[Number]],
       validate: {
-        validator: function(val: number[][]) {
-          if (!val) return true; // Optional field
-          // At least 4 points, each with [lng, lat]
-          return val.length >= 4 &&
-                 val.every((coord: number[]) => coord.length === 2);
+        // At least 4 points, closed, not self-intersecting and inside Laos
+        // Only checked when the boundary changes so legacy posts can still be saved
+        validator: function(this: any, val: number[][]) {
+          if (!val || val.length === 0) return true; // Optional field
+          if (this?.isNew === false && !this.isModified?.('location.boundary')) return true;
+          return !BoundaryUtils.getError(val);
         },
-        message: 'Boundary must be an array of at least 4 coordinate pairs [[lng, lat], ...]'
+        message: (props: { value: number[][] }) =>
+          BoundaryUtils.getError(props.value) || 'Invalid boundary'
       }
     },
     nearbyPlaces: {
@@ -257,9 +345,10 @@ const postSchema = new Schema<IPost>({
   media: {
     images: {
       type: [{ type: String }],
-      required: true,
+      required: isNotDraft,
       validate: {
-        validator: function(v: string[]) {
+        validator: function(this: any, v: string[]) {
+          if (this.status === 'draft') return true;
           return v && v.length > 0;
         },
         message: 'ต้องมีรูปภาพอย่างน้อย 1 รูป'
@@ -299,9 +388,42 @@ const postSchema = new Schema<IPost>({
   // ข้อมูลธุรกิจ
   status: {
     type: String,
-    enum: ['pending', 'approved', 'rejected', 'sold', 'rented'],
+    enum: ['draft', 'pending', 'approved', 'rejected', 'sold', 'rented', 'expired', 'archived'],
     default: 'pending',
   },
+  expiresAt: {
+    type: Date,
+  },
+  expiryWarningSentAt: {
+    type: Date,
+  },
+  renewedAt: {
+    type: Date,
+  },
+  renewCount: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  closedAt: {
+    type: Date,
+  },
+  archivedAt: {
+    type: Date,
+  },
+  pendingRevisionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'PostRevision',
+  },
+  duplicateOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'Post',
+  },
+  duplicateScore: {
+    type: Number,
+    min: 0,
+    max: 1,
+  },
   featured: {
     type: Boolean,
     default: false,
@@ -310,15 +432,38 @@ const postSchema = new Schema<IPost>({
     type: Boolean,
     default: false,
   },
+  boostRanks: {
+    search: { type: Number, default: 0 },
+    feed: { type: Number, default: 0 },
+  },
   authorId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: true,
   },
+  agencyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Agency',
+  },
+  assignedAgentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
   
   // SEO และการค้นหา
   tags: [{ type: String, trim: true }],
   keywords: [{ type: String, trim: true }],
+  slug: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  previousSlugs: [{ type: String }],
+  qualityScore: {
+    type: Number,
+    min: 0,
+    max: 100,
+  },
   
   // Analytics fields
   viewCount: {
@@ -343,12 +488,23 @@ const postSchema = new Schema<IPost>({
 // Indexes for efficient queries
 postSchema.index({ status: 1, createdAt: -1 })
 postSchema.index({ authorId: 1, createdAt: -1 })
+postSchema.index({ agencyId: 1, assignedAgentId: 1, status: 1 })
 postSchema.index({ propertyType: 1, listingType: 1 })
 postSchema.index({ 'location.coordinates': '2dsphere' }) // สำหรับ GeoJSON geospatial queries
 postSchema.index({ price: 1, area: 1 })
+postSchema.index({ status: 1, basePrice: 1 })
 postSchema.index({ featured: -1, createdAt: -1 })
+postSchema.index({ status: 1, 'boostRanks.feed': -1, createdAt: -1 })
+postSchema.index({ status: 1, 'boostRanks.search': -1, createdAt: -1 })
 postSchema.index({ tags: 1 })
+postSchema.index({ status: 1, 'lastPriceDrop.droppedAt': -1 })
+postSchema.index({ status: 1, expiresAt: 1 })
+postSchema.index({ status: 1, closedAt: 1 })
+postSchema.index({ status: 1, updatedAt: 1, _id: 1 }) // partner feed แบบ changed since
 postSchema.index({ 'location.address.province': 1, 'location.address.district': 1 })
+postSchema.index({ duplicateOf: 1 }, { sparse: true })
+postSchema.index({ previousSlugs: 1 })
+postSchema.index({ status: 1, qualityScore: 1 })
 
 // Analytics indexes
 postSchema.index({ viewCount: -1, createdAt: -1 })
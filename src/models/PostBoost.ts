@@ -0,0 +1,144 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type BoostType = "featured" | "urgent" | "top_search";
+export type BoostStatus =
+  "pending_payment" | "scheduled" | "active" | "expired" | "cancelled";
+
+export interface BoostPurchase {
+  amount: number;
+  currency: "LAK" | "THB" | "USD";
+  durationDays: number;
+  paymentMethod: "bank_transfer" | "mobile_banking" | "cash" | "admin_grant";
+  paymentReference?: string;
+  purchasedAt: Date;
+  paidAt?: Date; // ยืนยันการชำระเงินแล้ว (admin หรือ payment callback)
+  confirmedBy?: mongoose.Types.ObjectId; // admin ที่ยืนยัน (ไม่มี = callback)
+}
+
+export interface IPostBoost extends Document {
+  postId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId; // ผู้ซื้อ (เจ้าของโพสต์ หรือ admin ที่มอบให้)
+  type: BoostType;
+  status: BoostStatus;
+  startsAt: Date;
+  endsAt: Date;
+  paymentDueAt?: Date; // หมดเวลารอชำระเงิน (หลังจากนี้ไม่กันช่วงเวลาไว้ให้อีก)
+  activatedAt?: Date;
+  endedAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  purchase: BoostPurchase;
+  impressions: number; // จำนวนครั้งที่แสดงในผลค้นหา/ฟีดระหว่าง boost
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const boostPurchaseSchema = new Schema<BoostPurchase>(
+  {
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      enum: ["LAK", "THB", "USD"],
+      default: "LAK",
+    },
+    durationDays: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    paymentMethod: {
+      type: String,
+      enum: ["bank_transfer", "mobile_banking", "cash", "admin_grant"],
+      required: true,
+    },
+    paymentReference: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+    purchasedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    paidAt: {
+      type: Date,
+    },
+    confirmedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  { _id: false }
+);
+
+const postBoostSchema = new Schema<IPostBoost>(
+  {
+    postId: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ["featured", "urgent", "top_search"],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending_payment", "scheduled", "active", "expired", "cancelled"],
+      default: "pending_payment",
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    endsAt: {
+      type: Date,
+      required: true,
+    },
+    paymentDueAt: {
+      type: Date,
+    },
+    activatedAt: {
+      type: Date,
+    },
+    endedAt: {
+      type: Date,
+    },
+    cancelledBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    purchase: {
+      type: boostPurchaseSchema,
+      required: true,
+    },
+    impressions: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+postBoostSchema.index({ status: 1, startsAt: 1 });
+postBoostSchema.index({ status: 1, endsAt: 1 });
+postBoostSchema.index({ status: 1, paymentDueAt: 1 });
+postBoostSchema.index({ postId: 1, status: 1 });
+postBoostSchema.index({ userId: 1, createdAt: -1 });
+
+export const PostBoost = mongoose.model<IPostBoost>(
+  "PostBoost",
+  postBoostSchema
+);
@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface FieldChange {
+  field: string; // dot path เช่น "location.address.street"
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export type RevisionStatus =
+  | "applied" // บันทึกลงโพสต์ทันที
+  | "pending" // รอ admin ตรวจสอบ (ฟิลด์สำคัญของโพสต์ที่อนุมัติแล้ว)
+  | "approved"
+  | "rejected"
+  | "superseded" // ถูกแทนที่ด้วย pending revision ใหม่กว่า
+  | "rolled_back";
+
+export interface IPostRevision extends Document {
+  postId: mongoose.Types.ObjectId;
+  revisionNumber: number;
+  editedBy: mongoose.Types.ObjectId;
+  changes: FieldChange[];
+  sensitive: boolean; // มีฟิลด์ที่ต้องตรวจสอบใหม่หรือไม่
+  status: RevisionStatus;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  rollbackOf?: mongoose.Types.ObjectId; // revision ที่ถูกย้อนกลับโดย revision นี้
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const fieldChangeSchema = new Schema<FieldChange>(
+  {
+    field: { type: String, required: true },
+    oldValue: { type: Schema.Types.Mixed },
+    newValue: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+const postRevisionSchema = new Schema<IPostRevision>(
+  {
+    postId: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+    revisionNumber: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    editedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    changes: {
+      type: [fieldChangeSchema],
+      default: [],
+    },
+    sensitive: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: [
+        "applied",
+        "pending",
+        "approved",
+        "rejected",
+        "superseded",
+        "rolled_back",
+      ],
+      default: "applied",
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    reviewNote: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    rollbackOf: {
+      type: Schema.Types.ObjectId,
+      ref: "PostRevision",
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+// Indexes
+postRevisionSchema.index({ postId: 1, revisionNumber: -1 }, { unique: true });
+postRevisionSchema.index({ status: 1, createdAt: 1 }); // คิว pending ของ admin
+
+export const PostRevision = mongoose.model<IPostRevision>(
+  "PostRevision",
+  postRevisionSchema
+);
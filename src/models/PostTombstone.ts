@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// บันทึกโพสต์ที่ถูกลบถาวร เพื่อให้ partner feed แจ้งลบได้ในการดึงแบบ incremental
+export interface IPostTombstone extends Document {
+  postId: mongoose.Types.ObjectId;
+  authorId?: mongoose.Types.ObjectId;
+  agencyId?: mongoose.Types.ObjectId;
+  slug?: string; // ใช้สร้าง URL เดิมของประกาศใน tombstone
+  deletedAt: Date;
+}
+
+const postTombstoneSchema = new Schema<IPostTombstone>({
+  postId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    unique: true,
+  },
+  authorId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  agencyId: {
+    type: Schema.Types.ObjectId,
+    ref: "Agency",
+  },
+  slug: {
+    type: String,
+  },
+  deletedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+postTombstoneSchema.index({ deletedAt: 1, postId: 1 });
+
+export const PostTombstone = mongoose.model<IPostTombstone>(
+  "PostTombstone",
+  postTombstoneSchema
+);
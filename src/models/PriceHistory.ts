@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IPriceHistory extends Document {
+  postId: mongoose.Types.ObjectId;
+  oldPrice?: number; // ไม่มีสำหรับราคาเริ่มต้นตอนสร้างโพสต์
+  oldCurrency?: "LAK" | "THB" | "USD";
+  newPrice: number;
+  currency?: "LAK" | "THB" | "USD"; // สกุลเงินของ newPrice (ข้อมูลเก่าไม่มี = สกุลเงินของโพสต์)
+  changeAmount: number; // ติดลบ = ราคาลดลง (เปลี่ยนสกุลเงิน = 0)
+  changePercent: number;
+  changedBy?: mongoose.Types.ObjectId;
+  changedAt: Date;
+}
+
+const priceHistorySchema = new Schema<IPriceHistory>(
+  {
+    postId: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+    oldPrice: {
+      type: Number,
+      min: 0,
+    },
+    oldCurrency: {
+      type: String,
+      enum: ["LAK", "THB", "USD"],
+    },
+    newPrice: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      enum: ["LAK", "THB", "USD"],
+    },
+    changeAmount: {
+      type: Number,
+      default: 0,
+    },
+    changePercent: {
+      type: Number,
+      default: 0,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false, // ใช้ changedAt แทน
+  }
+);
+
+// Indexes
+priceHistorySchema.index({ postId: 1, changedAt: -1 });
+priceHistorySchema.index({ changeAmount: 1, changedAt: -1 });
+
+export const PriceHistory = mongoose.model<IPriceHistory>(
+  "PriceHistory",
+  priceHistorySchema
+);
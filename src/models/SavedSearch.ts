@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from "mongoose";
+import type { PostFilter } from "@/services/PostService";
+
+export interface ISavedSearch extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  filter: PostFilter; // รูปแบบเดียวกับ PostService.filterPosts
+  alertsEnabled: boolean;
+  matchCount: number; // จำนวนโพสต์ใหม่ที่ตรงเงื่อนไข
+  lastMatchedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedSearchSchema = new Schema<ISavedSearch>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    filter: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    alertsEnabled: {
+      type: Boolean,
+      default: true,
+    },
+    matchCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastMatchedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+// Indexes
+savedSearchSchema.index({ userId: 1, createdAt: -1 });
+savedSearchSchema.index({
+  alertsEnabled: 1,
+  "filter.propertyType": 1,
+  "filter.listingType": 1,
+});
+
+export const SavedSearch = mongoose.model<ISavedSearch>(
+  "SavedSearch",
+  savedSearchSchema
+);
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ISavedSearchAlert extends Document {
+  userId: mongoose.Types.ObjectId;
+  savedSearchId: mongoose.Types.ObjectId;
+  postId: mongoose.Types.ObjectId;
+  isRead: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedSearchAlertSchema = new Schema<ISavedSearchAlert>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    savedSearchId: {
+      type: Schema.Types.ObjectId,
+      ref: "SavedSearch",
+      required: true,
+    },
+    postId: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+    isRead: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ป้องกันการแจ้งเตือนซ้ำสำหรับโพสต์เดียวกัน
+savedSearchAlertSchema.index({ savedSearchId: 1, postId: 1 }, { unique: true });
+savedSearchAlertSchema.index({ userId: 1, isRead: 1, createdAt: -1 });
+
+// TTL index - auto delete alerts after 90 days
+savedSearchAlertSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 90 * 24 * 60 * 60 }
+);
+
+export const SavedSearchAlert = mongoose.model<ISavedSearchAlert>(
+  "SavedSearchAlert",
+  savedSearchAlertSchema
+);
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// ไฟล์ sitemap ที่สร้างไว้แล้ว (สร้างใหม่เฉพาะกลุ่มที่มีประกาศเปลี่ยน)
+export interface ISitemap extends Document {
+  name: string; // ชื่อไฟล์ไม่รวม .xml เช่น posts-2026-10, posts-2026-10-2, provinces
+  group: string; // กลุ่มที่สร้างพร้อมกัน เช่น posts-2026-10 (ประกาศที่สร้างในเดือนนั้น)
+  xml: string;
+  urlCount: number;
+  lastModified: Date; // lastmod ล่าสุดของ URL ในไฟล์
+  generatedAt: Date; // เวลาเริ่มรอบที่สร้างไฟล์นี้
+}
+
+const sitemapSchema = new Schema<ISitemap>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  group: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  xml: {
+    type: String,
+    required: true,
+  },
+  urlCount: {
+    type: Number,
+    default: 0,
+  },
+  lastModified: {
+    type: Date,
+    required: true,
+  },
+  generatedAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+export const Sitemap = mongoose.model<ISitemap>("Sitemap", sitemapSchema);
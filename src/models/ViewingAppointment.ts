@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type ViewingStatus =
+  "requested" | "confirmed" | "declined" | "cancelled" | "completed";
+
+export interface IViewingAppointment extends Document {
+  postId: mongoose.Types.ObjectId;
+  slotId: mongoose.Types.ObjectId;
+  buyerId: mongoose.Types.ObjectId; // ผู้ขอนัดชม
+  sellerId: mongoose.Types.ObjectId; // เจ้าของโพสต์
+  chatId?: mongoose.Types.ObjectId; // ห้องแชทของโพสต์ระหว่างสองฝ่าย
+  status: ViewingStatus;
+  // คัดลอกเวลาจาก slot เพื่อใช้ query การแจ้งเตือน
+  startsAt: Date;
+  endsAt: Date;
+  message?: string;
+  declineReason?: string;
+  confirmedAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  remindersSent: number[]; // ชั่วโมงก่อนนัดที่ส่งแจ้งเตือนแล้ว (เช่น 24, 1)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const viewingAppointmentSchema = new Schema<IViewingAppointment>(
+  {
+    postId: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+    slotId: {
+      type: Schema.Types.ObjectId,
+      ref: "ViewingSlot",
+      required: true,
+    },
+    buyerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    sellerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: "Chat",
+    },
+    status: {
+      type: String,
+      enum: ["requested", "confirmed", "declined", "cancelled", "completed"],
+      default: "requested",
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    endsAt: {
+      type: Date,
+      required: true,
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    declineReason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    confirmedAt: {
+      type: Date,
+    },
+    cancelledBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    remindersSent: {
+      type: [Number],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+viewingAppointmentSchema.index({ slotId: 1, status: 1 });
+viewingAppointmentSchema.index({ buyerId: 1, startsAt: -1 });
+viewingAppointmentSchema.index({ sellerId: 1, startsAt: -1 });
+viewingAppointmentSchema.index({ status: 1, startsAt: 1 });
+
+export const ViewingAppointment = mongoose.model<IViewingAppointment>(
+  "ViewingAppointment",
+  viewingAppointmentSchema
+);
@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type ViewingSlotStatus = "open" | "booked" | "cancelled";
+
+export interface IViewingSlot extends Document {
+  postId: mongoose.Types.ObjectId;
+  ownerId: mongoose.Types.ObjectId; // เจ้าของโพสต์ที่เปิดช่วงเวลา
+  startsAt: Date;
+  endsAt: Date;
+  status: ViewingSlotStatus;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const viewingSlotSchema = new Schema<IViewingSlot>(
+  {
+    postId: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    endsAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["open", "booked", "cancelled"],
+      default: "open",
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+viewingSlotSchema.index({ postId: 1, status: 1, startsAt: 1 });
+viewingSlotSchema.index({ ownerId: 1, startsAt: 1 });
+
+export const ViewingSlot = mongoose.model<IViewingSlot>(
+  "ViewingSlot",
+  viewingSlotSchema
+);
@@ -115,7 +115,7 @@ export class PostRepository implements IPostRepository {
       return await this.model
         .find({ category })
         .populate("authorId", "name email avatar")
-        .sort({ createdAt: -1 });
+        .sort({ createdAt: -1, qualityScore: -1 });
     } catch (error) {
       throw new Error(`Error finding posts by category: ${error}`);
     }
@@ -1,4 +1,4 @@
-import { Model, Document } from 'mongoose';
+import { Model } from 'mongoose';
 import { User, IUser } from '../models/User';
 
 export interface IUserRepository {
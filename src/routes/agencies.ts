@@ -0,0 +1,425 @@
+import { Router } from "express";
+import { body, param, query } from "express-validator";
+import { auth, optionalAuth } from "@/middlewares/auth";
+import {
+  createAgency,
+  getMyAgency,
+  getAgency,
+  updateAgency,
+  addAgencyMember,
+  updateAgencyMember,
+  removeAgencyMember,
+  getAgencyPosts,
+  assignAgencyPost,
+  getAgencyPerformance,
+} from "@/controllers/agencies";
+import { AGENCY_MEMBER_ROLES } from "@/services/AgencyService";
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Agencies
+ *   description: Real estate agencies with owner and agent members
+ */
+
+const agencyIdValidation = [
+  param("id").isMongoId().withMessage("Invalid agency ID"),
+];
+
+const memberIdValidation = [
+  ...agencyIdValidation,
+  param("userId").isMongoId().withMessage("Invalid user ID"),
+];
+
+const profileValidation = [
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Description must not exceed 2000 characters"),
+  body("logo").optional().isURL().withMessage("Logo must be a URL"),
+  body("email").optional().isEmail().withMessage("Invalid email"),
+  body("phone").optional().trim().notEmpty().withMessage("Invalid phone"),
+  body("licenseNumber").optional().trim(),
+  body("address")
+    .optional()
+    .isObject()
+    .withMessage("Address must be an object"),
+];
+
+const createAgencyValidation = [
+  body("name")
+    .trim()
+    .isLength({ min: 2, max: 120 })
+    .withMessage("Name must be between 2 and 120 characters"),
+  ...profileValidation,
+];
+
+const updateAgencyValidation = [
+  ...agencyIdValidation,
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 120 })
+    .withMessage("Name must be between 2 and 120 characters"),
+  ...profileValidation,
+];
+
+const roleValidation = body("role")
+  .isIn(AGENCY_MEMBER_ROLES)
+  .withMessage(`Role must be one of: ${AGENCY_MEMBER_ROLES.join(", ")}`);
+
+/**
+ * @swagger
+ * /api/agencies:
+ *   post:
+ *     summary: Create an agency (caller becomes its owner)
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               logo:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               licenseNumber:
+ *                 type: string
+ *               address:
+ *                 type: object
+ *                 properties:
+ *                   street:
+ *                     type: string
+ *                   district:
+ *                     type: string
+ *                   province:
+ *                     type: string
+ *     responses:
+ *       201:
+ *         description: Agency created
+ *       409:
+ *         description: Caller already belongs to an agency
+ */
+router.post("/", auth, createAgencyValidation, createAgency);
+
+/**
+ * @swagger
+ * /api/agencies/my:
+ *   get:
+ *     summary: Get the agency I belong to, with members
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Agency with members
+ *       404:
+ *         description: Not a member of any agency
+ */
+router.get("/my", auth, getMyAgency);
+
+/**
+ * @swagger
+ * /api/agencies/{id}:
+ *   get:
+ *     summary: Get an agency's public profile
+ *     tags: [Agencies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Profile, agents and number of active listings
+ *       404:
+ *         description: Agency not found
+ *   put:
+ *     summary: Update an agency's profile (owner)
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Agency updated
+ *       403:
+ *         description: Not an agency owner
+ */
+router.get("/:id", agencyIdValidation, getAgency);
+router.put("/:id", auth, updateAgencyValidation, updateAgency);
+
+/**
+ * @swagger
+ * /api/agencies/{id}/members:
+ *   post:
+ *     summary: Add a member (owner)
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [owner, agent]
+ *                 default: agent
+ *     responses:
+ *       201:
+ *         description: Member added
+ *       409:
+ *         description: User already belongs to an agency
+ */
+router.post(
+  "/:id/members",
+  auth,
+  [
+    ...agencyIdValidation,
+    body("userId").isMongoId().withMessage("Invalid user ID"),
+    roleValidation.optional(),
+  ],
+  addAgencyMember
+);
+
+/**
+ * @swagger
+ * /api/agencies/{id}/members/{userId}:
+ *   patch:
+ *     summary: Change a member's role (owner)
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [owner, agent]
+ *     responses:
+ *       200:
+ *         description: Member updated
+ *       400:
+ *         description: Would leave the agency without an owner
+ *   delete:
+ *     summary: Remove a member (owner) or leave the agency (self)
+ *     description: |
+ *       Listings assigned to the member move to an owner, together with their open chats
+ *       and pending viewings.
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       400:
+ *         description: Would leave the agency without an owner
+ */
+router.patch(
+  "/:id/members/:userId",
+  auth,
+  [...memberIdValidation, roleValidation],
+  updateAgencyMember
+);
+router.delete(
+  "/:id/members/:userId",
+  auth,
+  memberIdValidation,
+  removeAgencyMember
+);
+
+/**
+ * @swagger
+ * /api/agencies/{id}/posts:
+ *   get:
+ *     summary: Get an agency's listings
+ *     description: Members see listings in every status; everyone else sees approved listings only.
+ *     tags: [Agencies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: agentId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Listings with their assigned agent
+ */
+router.get(
+  "/:id/posts",
+  optionalAuth,
+  [
+    ...agencyIdValidation,
+    query("agentId").optional().isMongoId().withMessage("Invalid agent ID"),
+  ],
+  getAgencyPosts
+);
+
+/**
+ * @swagger
+ * /api/agencies/{id}/posts/{postId}/assign:
+ *   put:
+ *     summary: Assign a listing to an agent (owner)
+ *     description: Open chats and pending viewings for the listing move to the new agent.
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: postId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - agentId
+ *             properties:
+ *               agentId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Listing assigned
+ *       400:
+ *         description: Agent is not a member of the agency
+ */
+router.put(
+  "/:id/posts/:postId/assign",
+  auth,
+  [
+    ...agencyIdValidation,
+    param("postId").isMongoId().withMessage("Invalid post ID"),
+    body("agentId").isMongoId().withMessage("Invalid agent ID"),
+  ],
+  assignAgencyPost
+);
+
+/**
+ * @swagger
+ * /api/agencies/{id}/performance:
+ *   get:
+ *     summary: Get agency performance per agent (owner)
+ *     description: |
+ *       Listing counts by status, plus views, new chats, viewing requests, completed viewings
+ *       and closed (sold/rented) listings within the period, per agent and in total.
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *     responses:
+ *       200:
+ *         description: Performance report
+ *       403:
+ *         description: Not an agency owner
+ */
+router.get(
+  "/:id/performance",
+  auth,
+  [
+    ...agencyIdValidation,
+    query("days")
+      .optional()
+      .isInt({ min: 1, max: 365 })
+      .withMessage("Days must be between 1 and 365"),
+  ],
+  getAgencyPerformance
+);
+
+export default router;
@@ -175,6 +175,17 @@ router.get('/:postId/status', auth, postIdValidation, checkBookmarkStatus)
  *         schema:
  *           type: number
  *         description: Maximum price filter
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [LAK, THB, USD]
+ *         description: Currency of minPrice/maxPrice (default LAK)
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Cursor from the previous response (send empty for the first page). Switches to cursor pagination and ignores page
  *     responses:
  *       200:
  *         description: User's bookmarks with pagination
@@ -197,6 +208,10 @@ router.get('/:postId/status', auth, postIdValidation, checkBookmarkStatus)
  *                           createdAt:
  *                             type: string
  *                             format: date-time
+ *                     cursor:
+ *                       $ref: '#/components/schemas/CursorInfo'
+ *       400:
+ *         description: Invalid cursor
  */
 router.get('/', auth, getUserBookmarks)
 
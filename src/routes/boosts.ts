@@ -0,0 +1,357 @@
+import { Router } from "express";
+import { body, param, query } from "express-validator";
+import { auth, admin, paymentCallbackAuth } from "@/middlewares/auth";
+import {
+  getBoostPricing,
+  purchaseBoost,
+  getMyBoosts,
+  getPostBoosts,
+  cancelBoost,
+  getAllBoosts,
+  confirmBoostPayment,
+  boostPaymentCallback,
+} from "@/controllers/boosts";
+import { config } from "@/config";
+import { BOOST_TYPES } from "@/services/BoostService";
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Boosts
+ *   description: Paid featured, urgent and top-of-search listing boosts
+ */
+
+const paymentReferenceValidation = body("paymentReference")
+  .optional()
+  .trim()
+  .isLength({ max: 200 })
+  .withMessage("Payment reference must not exceed 200 characters");
+
+const purchaseValidation = [
+  body("postId").isMongoId().withMessage("Invalid post ID"),
+  body("type")
+    .isIn(BOOST_TYPES)
+    .withMessage(`Type must be one of: ${BOOST_TYPES.join(", ")}`),
+  body("durationDays")
+    .isInt({ min: 1, max: config.boosts.maxDurationDays })
+    .withMessage(
+      `Duration must be between 1 and ${config.boosts.maxDurationDays} days`
+    )
+    .toInt(),
+  body("startsAt")
+    .optional()
+    .isISO8601()
+    .withMessage("startsAt must be an ISO 8601 date")
+    .toDate(),
+  body("paymentMethod")
+    .isIn(["bank_transfer", "mobile_banking", "cash", "admin_grant"])
+    .withMessage(
+      "Payment method must be bank_transfer, mobile_banking, cash or admin_grant"
+    ),
+  paymentReferenceValidation,
+];
+
+const boostIdValidation = [
+  param("id").isMongoId().withMessage("Invalid boost ID"),
+];
+
+const paymentCallbackValidation = [
+  body("boostId").isMongoId().withMessage("Invalid boost ID"),
+  body("amount")
+    .isFloat({ min: 0 })
+    .withMessage("Amount must be a positive number")
+    .toFloat(),
+  paymentReferenceValidation,
+];
+
+/**
+ * @swagger
+ * /api/boosts/pricing:
+ *   get:
+ *     summary: Get boost prices per day
+ *     description: |
+ *       `featured` and `urgent` rank posts above others in feeds and search (and set the
+ *       matching badge). `top_search` pins posts to the top of search results only.
+ *     tags: [Boosts]
+ *     responses:
+ *       200:
+ *         description: Daily price (LAK) per boost type
+ */
+router.get("/pricing", getBoostPricing);
+
+/**
+ * @swagger
+ * /api/boosts:
+ *   post:
+ *     summary: Purchase a boost for a post
+ *     description: |
+ *       The post must be approved and owned by the caller (admins can boost any post and use
+ *       `admin_grant` for a free boost). Boosts bought by non-admins are created as
+ *       `pending_payment` and only become `scheduled` once an admin confirms the payment or
+ *       the payment provider calls back. The slot is held until `paymentDueAt`
+ *       (`BOOST_PAYMENT_HOLD_HOURS`, default 24); unpaid holds are then cancelled and no longer
+ *       block other boosts. Without `startsAt` the boost starts as soon as it is
+ *       paid; a scheduler activates scheduled boosts and removes them when they end.
+ *     tags: [Boosts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - postId
+ *               - type
+ *               - durationDays
+ *               - paymentMethod
+ *             properties:
+ *               postId:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [featured, urgent, top_search]
+ *               durationDays:
+ *                 type: integer
+ *                 example: 7
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [bank_transfer, mobile_banking, cash, admin_grant]
+ *               paymentReference:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Boost created with its purchase record (`pending_payment` for non-admins)
+ *       400:
+ *         description: Invalid input or post not approved
+ *       403:
+ *         description: Not the post owner
+ *       409:
+ *         description: A boost of the same type overlaps this period
+ */
+router.post("/", auth, purchaseValidation, purchaseBoost);
+
+/**
+ * @swagger
+ * /api/boosts/my:
+ *   get:
+ *     summary: Get my boosts with impressions and views gained during each boost
+ *     tags: [Boosts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Boosts with `impressions` and `viewsDuringBoost`
+ */
+router.get("/my", auth, getMyBoosts);
+
+/**
+ * @swagger
+ * /api/boosts/post/{postId}:
+ *   get:
+ *     summary: Get all boosts of a post (owner or admin)
+ *     tags: [Boosts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: postId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Boosts with stats
+ *       403:
+ *         description: Not the post owner
+ *       404:
+ *         description: Post not found
+ */
+router.get(
+  "/post/:postId",
+  auth,
+  [param("postId").isMongoId().withMessage("Invalid post ID")],
+  getPostBoosts
+);
+
+/**
+ * @swagger
+ * /api/boosts/{id}/cancel:
+ *   post:
+ *     summary: Cancel a boost
+ *     description: Owners can cancel boosts that have not started yet; admins can also cancel active boosts.
+ *     tags: [Boosts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Boost cancelled
+ *       400:
+ *         description: Boost already ended
+ *       403:
+ *         description: Not allowed to cancel
+ *       404:
+ *         description: Boost not found
+ */
+router.post("/:id/cancel", auth, boostIdValidation, cancelBoost);
+
+/**
+ * @swagger
+ * /api/boosts/{id}/confirm-payment:
+ *   post:
+ *     summary: Confirm the payment of a pending boost (Admin)
+ *     description: |
+ *       Moves a `pending_payment` boost to `scheduled` (or `active` if it is due). If the
+ *       chosen start time has passed, the boost runs for its full duration from now. A payment
+ *       confirmed after `paymentDueAt` only succeeds while the slot is still free.
+ *     tags: [Boosts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               paymentReference:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment confirmed
+ *       400:
+ *         description: Boost is not awaiting payment
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Boost not found
+ *       409:
+ *         description: Another boost of the same type now overlaps this period
+ */
+router.post(
+  "/:id/confirm-payment",
+  auth,
+  admin as any,
+  [...boostIdValidation, paymentReferenceValidation],
+  confirmBoostPayment
+);
+
+/**
+ * @swagger
+ * /api/boosts/payments/callback:
+ *   post:
+ *     summary: Payment provider callback for boost purchases
+ *     description: Authenticated with the shared secret in the `X-Payment-Secret` header.
+ *     tags: [Boosts]
+ *     parameters:
+ *       - in: header
+ *         name: X-Payment-Secret
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - boostId
+ *               - amount
+ *             properties:
+ *               boostId:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *                 description: Amount paid (LAK)
+ *               paymentReference:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment confirmed
+ *       400:
+ *         description: Boost is not awaiting payment or the amount is too low
+ *       401:
+ *         description: Invalid secret
+ *       404:
+ *         description: Boost not found
+ *       503:
+ *         description: Callback secret not configured
+ */
+router.post(
+  "/payments/callback",
+  paymentCallbackAuth,
+  paymentCallbackValidation,
+  boostPaymentCallback
+);
+
+/**
+ * @swagger
+ * /api/boosts:
+ *   get:
+ *     summary: Get all boosts (Admin)
+ *     tags: [Boosts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending_payment, scheduled, active, expired, cancelled]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Boosts with post and purchaser
+ *       403:
+ *         description: Admin access required
+ */
+router.get(
+  "/",
+  auth,
+  admin as any,
+  [
+    query("status")
+      .optional()
+      .isIn(["pending_payment", "scheduled", "active", "expired", "cancelled"])
+      .withMessage("Invalid status"),
+  ],
+  getAllBoosts
+);
+
+export default router;
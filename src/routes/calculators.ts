@@ -0,0 +1,374 @@
+import { Router } from "express";
+import { body, param } from "express-validator";
+import { auth, admin, optionalAuth } from "@/middlewares/auth";
+import {
+  calculateMortgage,
+  calculateMoveInCost,
+  getBankRatePresets,
+  getAllBankRatePresets,
+  createBankRatePreset,
+  updateBankRatePreset,
+  deleteBankRatePreset,
+} from "@/controllers/calculators";
+import { config } from "@/config";
+import { SUPPORTED_CURRENCIES } from "@/services/CurrencyService";
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Calculators
+ *   description: Mortgage and rental move-in cost calculators with bank rate presets
+ */
+
+const mortgageValidation = [
+  body("postId").optional().isMongoId().withMessage("Invalid post ID"),
+  body("price")
+    .if(body("postId").not().exists())
+    .isFloat({ gt: 0 })
+    .withMessage("Price must be greater than 0 when postId is not provided")
+    .toFloat(),
+  body("currency")
+    .optional()
+    .toUpperCase()
+    .isIn([...SUPPORTED_CURRENCIES])
+    .withMessage("Currency must be LAK, THB or USD"),
+  body("downPayment")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Down payment must be a non-negative number")
+    .toFloat(),
+  body("downPaymentPercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Down payment percent must be between 0 and 100")
+    .toFloat(),
+  body("annualRate")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Annual rate must be between 0 and 100")
+    .toFloat(),
+  body("termYears")
+    .optional()
+    .isInt({ min: 1, max: config.calculator.maxTermYears })
+    .withMessage(
+      `Term must be between 1 and ${config.calculator.maxTermYears} years`
+    )
+    .toInt(),
+  body("presetId").optional().isMongoId().withMessage("Invalid preset ID"),
+];
+
+const rentalValidation = [
+  body("postId").optional().isMongoId().withMessage("Invalid post ID"),
+  body("monthlyRent")
+    .if(body("postId").not().exists())
+    .isFloat({ gt: 0 })
+    .withMessage(
+      "Monthly rent must be greater than 0 when postId is not provided"
+    )
+    .toFloat(),
+  body("currency")
+    .optional()
+    .toUpperCase()
+    .isIn([...SUPPORTED_CURRENCIES])
+    .withMessage("Currency must be LAK, THB or USD"),
+  body("deposit")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Deposit must be a non-negative number")
+    .toFloat(),
+  body(["depositMonths", "advanceMonths"])
+    .optional()
+    .isFloat({ min: 0, max: 24 })
+    .withMessage("Months must be between 0 and 24")
+    .toFloat(),
+  body("otherFees")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Other fees must be a non-negative number")
+    .toFloat(),
+];
+
+const presetFieldValidation = (isUpdate: boolean) => [
+  (isUpdate ? body("bankName").optional() : body("bankName"))
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Bank name must be between 1 and 100 characters"),
+  (isUpdate ? body("annualRate").optional() : body("annualRate"))
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Annual rate must be between 0 and 100")
+    .toFloat(),
+  body("productName")
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Product name must not exceed 200 characters"),
+  body("currency")
+    .optional()
+    .toUpperCase()
+    .isIn([...SUPPORTED_CURRENCIES])
+    .withMessage("Currency must be LAK, THB or USD"),
+  body("maxTermYears")
+    .optional()
+    .isInt({ min: 1, max: config.calculator.maxTermYears })
+    .withMessage(
+      `Max term must be between 1 and ${config.calculator.maxTermYears} years`
+    )
+    .toInt(),
+  body("minDownPaymentPercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Minimum down payment percent must be between 0 and 100")
+    .toFloat(),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean")
+    .toBoolean(),
+  body("sortOrder")
+    .optional()
+    .isInt()
+    .withMessage("Sort order must be an integer")
+    .toInt(),
+];
+
+const presetIdValidation = [
+  param("id").isMongoId().withMessage("Invalid preset ID"),
+];
+
+/**
+ * @swagger
+ * /api/calculators/mortgage:
+ *   post:
+ *     summary: Calculate a mortgage payment and amortization schedule
+ *     description: |
+ *       Pass `postId` to calculate from a sale listing's price and currency (used by the
+ *       calculator embedded on listing pages), or `price` and `currency` for a free-form
+ *       calculation. Missing values fall back to the selected bank preset, then to server
+ *       defaults. Amounts are rounded to the currency's minor unit (whole kip for LAK).
+ *     tags: [Calculators]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               postId:
+ *                 type: string
+ *               price:
+ *                 type: number
+ *                 description: Required when postId is not provided
+ *               currency:
+ *                 type: string
+ *                 enum: [LAK, THB, USD]
+ *               downPayment:
+ *                 type: number
+ *                 description: Amount; takes precedence over downPaymentPercent
+ *               downPaymentPercent:
+ *                 type: number
+ *                 example: 20
+ *               annualRate:
+ *                 type: number
+ *                 description: Annual interest rate in percent; overrides the preset rate
+ *                 example: 7.5
+ *               termYears:
+ *                 type: integer
+ *                 example: 20
+ *               presetId:
+ *                 type: string
+ *                 description: Bank rate preset from GET /api/calculators/bank-rates
+ *     responses:
+ *       200:
+ *         description: Monthly payment, totals, full monthly schedule and preset warnings
+ *       400:
+ *         description: Invalid input or not a sale listing
+ *       404:
+ *         description: Post or bank rate preset not found
+ */
+router.post("/mortgage", optionalAuth, mortgageValidation, calculateMortgage);
+
+/**
+ * @swagger
+ * /api/calculators/rental:
+ *   post:
+ *     summary: Calculate the total move-in cost for a rental
+ *     description: |
+ *       Total = deposit + rent paid in advance + other fees. Pass `postId` to use a rental
+ *       listing's monthly price, or `monthlyRent` directly. The deposit can be given as an
+ *       amount (`deposit`) or a number of months of rent (`depositMonths`).
+ *     tags: [Calculators]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               postId:
+ *                 type: string
+ *               monthlyRent:
+ *                 type: number
+ *                 description: Required when postId is not provided
+ *               currency:
+ *                 type: string
+ *                 enum: [LAK, THB, USD]
+ *               deposit:
+ *                 type: number
+ *               depositMonths:
+ *                 type: number
+ *                 example: 2
+ *               advanceMonths:
+ *                 type: number
+ *                 example: 1
+ *               otherFees:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Move-in cost breakdown
+ *       400:
+ *         description: Invalid input or not a rental listing
+ *       404:
+ *         description: Post not found
+ */
+router.post("/rental", optionalAuth, rentalValidation, calculateMoveInCost);
+
+/**
+ * @swagger
+ * /api/calculators/bank-rates:
+ *   get:
+ *     summary: Get active bank rate presets
+ *     tags: [Calculators]
+ *     responses:
+ *       200:
+ *         description: Active presets sorted by sortOrder then rate
+ */
+router.get("/bank-rates", getBankRatePresets);
+
+/**
+ * @swagger
+ * /api/calculators/bank-rates/all:
+ *   get:
+ *     summary: Get all bank rate presets including inactive ones (Admin)
+ *     tags: [Calculators]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All presets
+ *       403:
+ *         description: Admin access required
+ */
+router.get("/bank-rates/all", auth, admin as any, getAllBankRatePresets);
+
+/**
+ * @swagger
+ * /api/calculators/bank-rates:
+ *   post:
+ *     summary: Create a bank rate preset (Admin)
+ *     tags: [Calculators]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bankName
+ *               - annualRate
+ *             properties:
+ *               bankName:
+ *                 type: string
+ *                 example: BCEL
+ *               productName:
+ *                 type: string
+ *               annualRate:
+ *                 type: number
+ *                 example: 7.5
+ *               currency:
+ *                 type: string
+ *                 enum: [LAK, THB, USD]
+ *               maxTermYears:
+ *                 type: integer
+ *               minDownPaymentPercent:
+ *                 type: number
+ *               isActive:
+ *                 type: boolean
+ *               sortOrder:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Preset created
+ *       403:
+ *         description: Admin access required
+ */
+router.post(
+  "/bank-rates",
+  auth,
+  admin as any,
+  presetFieldValidation(false),
+  createBankRatePreset
+);
+
+/**
+ * @swagger
+ * /api/calculators/bank-rates/{id}:
+ *   put:
+ *     summary: Update a bank rate preset (Admin)
+ *     tags: [Calculators]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Preset updated
+ *       404:
+ *         description: Preset not found
+ *   delete:
+ *     summary: Delete a bank rate preset (Admin)
+ *     tags: [Calculators]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Preset deleted
+ *       404:
+ *         description: Preset not found
+ */
+router.put(
+  "/bank-rates/:id",
+  auth,
+  admin as any,
+  presetIdValidation,
+  presetFieldValidation(true),
+  updateBankRatePreset
+);
+router.delete(
+  "/bank-rates/:id",
+  auth,
+  admin as any,
+  presetIdValidation,
+  deleteBankRatePreset
+);
+
+export default router;
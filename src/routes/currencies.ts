@@ -0,0 +1,85 @@
+import { Router } from "express";
+import { body, param } from "express-validator";
+import { auth, admin } from "@/middlewares/auth";
+import { getExchangeRates, updateExchangeRate } from "@/controllers/currencies";
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Currencies
+ *   description: Exchange rates for LAK, THB and USD pricing
+ */
+
+const updateRateValidation = [
+  param("currency")
+    .toUpperCase()
+    .isIn(["THB", "USD"])
+    .withMessage("Currency must be THB or USD (LAK is the base currency)"),
+  body("rate")
+    .isFloat({ gt: 0 })
+    .withMessage("Rate must be a number greater than 0"),
+];
+
+/**
+ * @swagger
+ * /api/currencies/rates:
+ *   get:
+ *     summary: Get exchange rates
+ *     description: |
+ *       Rates are kip (LAK) per one unit of each currency. `isDefault` means the rate
+ *       comes from server configuration and has not been set by an admin yet.
+ *     tags: [Currencies]
+ *     responses:
+ *       200:
+ *         description: Exchange rates
+ */
+router.get("/rates", getExchangeRates);
+
+/**
+ * @swagger
+ * /api/currencies/rates/{currency}:
+ *   put:
+ *     summary: Update an exchange rate (Admin)
+ *     description: Recalculates the kip base price of every post quoted in this currency.
+ *     tags: [Currencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [THB, USD]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rate
+ *             properties:
+ *               rate:
+ *                 type: number
+ *                 description: Kip per one unit of the currency
+ *                 example: 21500
+ *     responses:
+ *       200:
+ *         description: Rate updated
+ *       400:
+ *         description: Invalid currency or rate
+ *       403:
+ *         description: Admin access required
+ */
+router.put(
+  "/rates/:currency",
+  auth,
+  admin as any,
+  updateRateValidation,
+  updateExchangeRate
+);
+
+export default router;
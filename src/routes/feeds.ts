@@ -0,0 +1,273 @@
+import { Router } from "express";
+import { body, param, query } from "express-validator";
+import { auth, admin, feedPartnerAuth } from "@/middlewares/auth";
+import {
+  getXmlFeed,
+  getJsonLinesFeed,
+  getRssFeed,
+  getAtomFeed,
+  createFeedPartner,
+  getFeedPartners,
+  revokeFeedPartner,
+} from "@/controllers/feeds";
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Feeds
+ *   description: Listing export feeds for portals and catalog partners
+ */
+
+const feedValidation = [
+  query("since")
+    .optional()
+    .isISO8601()
+    .withMessage("since must be an ISO 8601 date"),
+  query("cursor").optional().isString(),
+  query("limit")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Limit must be a positive integer"),
+];
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     FeedSince:
+ *       in: query
+ *       name: since
+ *       description: |
+ *         Only entries changed after this time (ISO 8601). Includes tombstones for listings
+ *         that were sold, rented, expired, archived, rejected or deleted. Without `since`
+ *         the feed is a snapshot of approved listings only. Use the largest `updatedAt`
+ *         (or tombstone `removedAt`) you received as the next `since`.
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *     FeedCursor:
+ *       in: query
+ *       name: cursor
+ *       description: Next page cursor from the `Link` / `X-Feed-Next-Cursor` header
+ *       schema:
+ *         type: string
+ *     FeedLimit:
+ *       in: query
+ *       name: limit
+ *       description: Entries per page (default 500, max 2000)
+ *       schema:
+ *         type: integer
+ *     FeedKey:
+ *       in: query
+ *       name: key
+ *       description: API key, for clients that cannot send the X-Feed-Key header
+ *       schema:
+ *         type: string
+ */
+
+/**
+ * @swagger
+ * /api/feeds/listings.xml:
+ *   get:
+ *     summary: Listing feed as XML
+ *     description: |
+ *       Entries are ordered by `updatedAt`, oldest first. Schema (version 1.0):
+ *
+ *       ```xml
+ *       <listings version="1.0" generatedAt="..." next="...">
+ *         <listing id="..." updatedAt="...">
+ *           <title/> <description/> <url/>
+ *           <price currency="LAK"/> <propertyType/> <listingType/>
+ *           <area unit="sqm"/> <usableArea unit="sqm"/> <bedrooms/> <bathrooms/> <condition/>
+ *           <address><street/><district/><province/><postalCode/><country/></address>
+ *           <location latitude="..." longitude="..."/>
+ *           <images><image/></images>
+ *           <agencyId/> <publishedAt/>
+ *         </listing>
+ *         <deleted id="..." reason="sold" removedAt="..."/>
+ *       </listings>
+ *       ```
+ *     tags: [Feeds]
+ *     security:
+ *       - feedKey: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/FeedSince'
+ *       - $ref: '#/components/parameters/FeedCursor'
+ *       - $ref: '#/components/parameters/FeedLimit'
+ *       - $ref: '#/components/parameters/FeedKey'
+ *     responses:
+ *       200:
+ *         description: XML feed
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.get("/listings.xml", feedPartnerAuth, feedValidation, getXmlFeed);
+
+/**
+ * @swagger
+ * /api/feeds/listings.jsonl:
+ *   get:
+ *     summary: Listing feed as JSON Lines
+ *     description: |
+ *       One JSON object per line: `{"type":"listing", "id", "url", "title", ...}` with the same
+ *       fields as the XML feed, or `{"type":"tombstone", "id", "url", "reason", "removedAt"}`.
+ *     tags: [Feeds]
+ *     security:
+ *       - feedKey: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/FeedSince'
+ *       - $ref: '#/components/parameters/FeedCursor'
+ *       - $ref: '#/components/parameters/FeedLimit'
+ *       - $ref: '#/components/parameters/FeedKey'
+ *     responses:
+ *       200:
+ *         description: JSON Lines feed
+ *         content:
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.get(
+  "/listings.jsonl",
+  feedPartnerAuth,
+  feedValidation,
+  getJsonLinesFeed
+);
+
+/**
+ * @swagger
+ * /api/feeds/listings.rss:
+ *   get:
+ *     summary: Listing feed as RSS 2.0
+ *     description: Removed listings are items with the category `removed` and the reason as a second category.
+ *     tags: [Feeds]
+ *     security:
+ *       - feedKey: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/FeedSince'
+ *       - $ref: '#/components/parameters/FeedCursor'
+ *       - $ref: '#/components/parameters/FeedLimit'
+ *       - $ref: '#/components/parameters/FeedKey'
+ *     responses:
+ *       200:
+ *         description: RSS feed
+ *         content:
+ *           application/rss+xml:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.get("/listings.rss", feedPartnerAuth, feedValidation, getRssFeed);
+
+/**
+ * @swagger
+ * /api/feeds/listings.atom:
+ *   get:
+ *     summary: Listing feed as Atom
+ *     description: Removed listings are RFC 6721 `at:deleted-entry` elements.
+ *     tags: [Feeds]
+ *     security:
+ *       - feedKey: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/FeedSince'
+ *       - $ref: '#/components/parameters/FeedCursor'
+ *       - $ref: '#/components/parameters/FeedLimit'
+ *       - $ref: '#/components/parameters/FeedKey'
+ *     responses:
+ *       200:
+ *         description: Atom feed
+ *         content:
+ *           application/atom+xml:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.get("/listings.atom", feedPartnerAuth, feedValidation, getAtomFeed);
+
+/**
+ * @swagger
+ * /api/feeds/partners:
+ *   get:
+ *     summary: List feed partners (admin)
+ *     tags: [Feeds]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Partners with key prefix and last access time
+ *   post:
+ *     summary: Create a feed partner and API key (admin)
+ *     tags: [Feeds]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               contactEmail:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Partner created; the API key is returned only in this response
+ */
+router.get("/partners", auth, admin as any, getFeedPartners);
+router.post(
+  "/partners",
+  auth,
+  admin as any,
+  [
+    body("name")
+      .trim()
+      .isLength({ min: 2, max: 120 })
+      .withMessage("Name must be between 2 and 120 characters"),
+    body("contactEmail").optional().isEmail().withMessage("Invalid email"),
+  ],
+  createFeedPartner
+);
+
+/**
+ * @swagger
+ * /api/feeds/partners/{id}:
+ *   delete:
+ *     summary: Revoke a feed partner's API key (admin)
+ *     tags: [Feeds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Partner revoked
+ *       404:
+ *         description: Feed partner not found
+ */
+router.delete(
+  "/partners/:id",
+  auth,
+  admin as any,
+  [param("id").isMongoId().withMessage("Invalid partner ID")],
+  revokeFeedPartner
+);
+
+export default router;
@@ -0,0 +1,188 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { body, param } from "express-validator";
+import multer from "multer";
+import { auth } from "@/middlewares/auth";
+import { config } from "@/config";
+import { ResponseHelper } from "@/utils/response";
+import {
+  importPosts,
+  getImportColumns,
+  getImportTemplate,
+  getMyImports,
+  getImport,
+} from "@/controllers/imports";
+
+const router: Router = Router();
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.imports.maxFileSizeMb * 1024 * 1024 },
+});
+
+// ไฟล์เกินขนาดตอบ 400 แทนการส่งต่อไปยัง error handler
+const uploadImportFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      ResponseHelper.badRequest(
+        res,
+        error.code === "LIMIT_FILE_SIZE"
+          ? `File must not exceed ${config.imports.maxFileSizeMb} MB`
+          : error.message
+      );
+      return;
+    }
+    next(error);
+  });
+};
+
+/**
+ * @swagger
+ * tags:
+ *   name: Imports
+ *   description: Bulk listing import from CSV or XLSX files
+ */
+
+const importValidation = [
+  body("imageMode")
+    .optional()
+    .isIn(["reference", "fetch"])
+    .withMessage("Image mode must be reference or fetch"),
+  body("agencyId").optional().isMongoId().withMessage("Invalid agency ID"),
+];
+
+/**
+ * @swagger
+ * /api/imports/posts:
+ *   post:
+ *     summary: Import listings from a CSV or XLSX file
+ *     description: |
+ *       The first row of the file (first sheet for XLSX) holds column headers. Headers are
+ *       matched to fields by name or alias, ignoring case, spaces and punctuation; see
+ *       GET /api/imports/posts/columns. Use `mapping` for any other header names.
+ *
+ *       Rows are validated with the same rules as creating a post, plus coordinates inside
+ *       Laos. Valid rows are created as pending posts in the background; poll
+ *       GET /api/imports/{id} for progress and the per-row error report.
+ *
+ *       Images: `reference` stores the URLs as given; `fetch` downloads each image and
+ *       uploads it to our storage (images that cannot be fetched are skipped with a warning).
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               mapping:
+ *                 type: string
+ *                 description: 'JSON object of file header to field, e.g. {"Sale price": "price"}'
+ *               imageMode:
+ *                 type: string
+ *                 enum: [reference, fetch]
+ *                 default: reference
+ *               agencyId:
+ *                 type: string
+ *                 description: Import as listings of this agency (rows may set assignedAgentId)
+ *     responses:
+ *       202:
+ *         description: Import job queued
+ *       400:
+ *         description: Unsupported or unreadable file, missing required columns or too many rows
+ *       403:
+ *         description: Not a member of the agency
+ */
+router.post("/posts", auth, uploadImportFile, importValidation, importPosts);
+
+/**
+ * @swagger
+ * /api/imports/posts/columns:
+ *   get:
+ *     summary: List the supported import columns
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Columns with field name, accepted header aliases, whether required and an example
+ */
+router.get("/posts/columns", auth, getImportColumns);
+
+/**
+ * @swagger
+ * /api/imports/posts/template:
+ *   get:
+ *     summary: Download a CSV template with all import columns
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ */
+router.get("/posts/template", auth, getImportTemplate);
+
+/**
+ * @swagger
+ * /api/imports:
+ *   get:
+ *     summary: Get my import jobs
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Import jobs with progress
+ */
+router.get("/", auth, getMyImports);
+
+/**
+ * @swagger
+ * /api/imports/{id}:
+ *   get:
+ *     summary: Get an import job's progress and report
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: |
+ *           Status (queued, processing, completed, failed), progress percentage, counts,
+ *           rowErrors and rowWarnings ({row, field, message}, row = line in the file) and
+ *           createdPostIds
+ *       404:
+ *         description: Import job not found
+ */
+router.get(
+  "/:id",
+  auth,
+  [param("id").isMongoId().withMessage("Invalid import job ID")],
+  getImport
+);
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { param } from "express-validator";
+import { body, param, query } from "express-validator";
 import multer from "multer";
 import {
   createPost,
@@ -23,8 +23,30 @@ import {
   getAdminPosts,
   deletePost,
   updatePost,
+  getPostPriceHistory,
+  getRecentPriceDrops,
+  renewPost,
+  getPostsWithinBounds,
+  getMapClusters,
+  getPostsWithinPolygon,
+  comparePosts,
+  getSimilarPosts,
+  createDraft,
+  updateDraft,
+  submitDraft,
 } from "@/controllers/posts";
-import { auth } from "@/middlewares/auth";
+import {
+  getPostRevisions,
+  getPendingRevisions,
+  approveRevision,
+  rejectRevision,
+  rollbackRevision,
+} from "@/controllers/postRevisions";
+import { auth, admin, optionalAuth } from "@/middlewares/auth";
+import {
+  MIN_COMPARE_POSTS,
+  MAX_COMPARE_POSTS,
+} from "@/services/PostComparisonService";
 
 const router: Router = Router();
 const upload = multer({ storage: multer.memoryStorage() });
@@ -38,6 +60,7 @@ const parseJsonFields = (req: any, res: any, next: any) => {
     "condoDetails",
     "media",
     "amenities",
+    "translations",
   ];
 
   jsonFields.forEach((field) => {
@@ -83,6 +106,23 @@ const postIdValidation = [
  *           type: integer
  *           default: 10
  *         description: Number of posts per page
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Cursor from the previous response (send empty for the first page). Switches to cursor pagination and ignores page
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [LAK, THB, USD]
+ *         description: Display currency; each post gets convertedPrice
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [lo, th, en]
+ *         description: Language of title/description (falls back to Accept-Language, then the post's primary language)
  *     responses:
  *       200:
  *         description: List of approved posts
@@ -108,6 +148,10 @@ const postIdValidation = [
  *                           type: number
  *                         totalPages:
  *                           type: number
+ *                     cursor:
+ *                       $ref: '#/components/schemas/CursorInfo'
+ *       400:
+ *         description: Invalid cursor
  */
 router.get("/approved", getApprovedPosts);
 
@@ -134,6 +178,20 @@ router.get("/approved", getApprovedPosts);
  *         name: status
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: minQuality
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Minimum listing quality score
+ *       - in: query
+ *         name: maxQuality
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Maximum listing quality score (e.g. 40 to find thin listings)
  *     responses:
  *       200:
  *         description: List of all posts
@@ -329,6 +387,10 @@ router.get("/:id/stats", postIdValidation, getPostViewStats);
  *                 type: string
  *               price:
  *                 type: number
+ *               currency:
+ *                 type: string
+ *                 enum: [LAK, THB, USD]
+ *                 default: LAK
  *               propertyType:
  *                 type: string
  *                 enum: [house, land, condo, apartment, villa, townhouse]
@@ -337,10 +399,23 @@ router.get("/:id/stats", postIdValidation, getPostViewStats);
  *                 enum: [sell, rent, lease]
  *               area:
  *                 type: number
+ *               usableArea:
+ *                 type: number
+ *               areaUnit:
+ *                 type: string
+ *                 enum: [sqm, rai, hectare]
+ *                 default: sqm
+ *                 description: Unit of area/usableArea; stored as square meters. pricePerUnit is computed by the server
  *               location:
  *                 $ref: '#/components/schemas/Post/properties/location'
  *               media:
  *                 $ref: '#/components/schemas/Post/properties/media'
+ *               agencyId:
+ *                 type: string
+ *                 description: List on behalf of an agency the caller belongs to
+ *               assignedAgentId:
+ *                 type: string
+ *                 description: Agent handling chats and viewings (defaults to the caller; only agency owners may assign others)
  *     responses:
  *       201:
  *         description: Post created successfully
@@ -352,9 +427,24 @@ router.get("/:id/stats", postIdValidation, getPostViewStats);
  *                 - type: object
  *                   properties:
  *                     data:
- *                       $ref: '#/components/schemas/Post'
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/Post'
+ *                         - type: object
+ *                           properties:
+ *                             warnings:
+ *                               type: array
+ *                               items:
+ *                                 type: string
+ *                               description: Non-blocking issues, e.g. the boundary area differs a lot from the declared area
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Not a member of the agency, or not allowed to assign another agent
+ *       409:
+ *         description: |
+ *           The author already has a near-identical listing (same location, text, price and area).
+ *           `errors[0].value` holds the existing post ID. Similar listings by other users are
+ *           accepted but flagged with `duplicateOf` for admin review.
  */
 router.post(
   "/",
@@ -387,9 +477,15 @@ router.post(
  *         schema:
  *           type: integer
  *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, pending, approved, rejected, sold, rented, expired, archived]
+ *         description: Only return posts with this status (drafts include `missingFields`)
  *     responses:
  *       200:
- *         description: User's posts
+ *         description: User's posts, each with `quality` (score 0-100, breakdown and improvement tips)
  *         content:
  *           application/json:
  *             schema:
@@ -400,22 +496,111 @@ router.post(
  *                     data:
  *                       type: array
  *                       items:
- *                         $ref: '#/components/schemas/Post'
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/Post'
+ *                           - type: object
+ *                             properties:
+ *                               quality:
+ *                                 $ref: '#/components/schemas/ListingQuality'
  *       401:
  *         description: Unauthorized
  */
 router.get("/my-posts", auth, getUserPosts);
 
+/**
+ * @swagger
+ * /api/posts/drafts:
+ *   post:
+ *     summary: Save a new draft post
+ *     description: |
+ *       Drafts skip the strict create validation so the mobile wizard can save partial data.
+ *       The response includes `missingFields` listing what is still needed before submitting.
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       201:
+ *         description: Draft saved
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  "/drafts",
+  auth,
+  upload.fields([
+    { name: "images", maxCount: 20 },
+    { name: "videos", maxCount: 5 },
+  ]),
+  parseJsonFields,
+  createDraft
+);
+
+/**
+ * @swagger
+ * /api/posts/drafts/{id}:
+ *   patch:
+ *     summary: Save the next step of a draft post
+ *     description: Nested objects are merged into the draft; uploaded images are appended.
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PostIdParam'
+ *     responses:
+ *       200:
+ *         description: Draft saved
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Draft not found
+ */
+router.patch(
+  "/drafts/:id",
+  auth,
+  postIdValidation,
+  upload.fields([
+    { name: "images", maxCount: 20 },
+    { name: "videos", maxCount: 5 },
+  ]),
+  parseJsonFields,
+  updateDraft
+);
+
+/**
+ * @swagger
+ * /api/posts/drafts/{id}/submit:
+ *   post:
+ *     summary: Submit a complete draft to the pending moderation queue
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PostIdParam'
+ *     responses:
+ *       200:
+ *         description: Draft submitted for review
+ *       400:
+ *         description: Draft is incomplete (errors list the missing fields)
+ *       404:
+ *         description: Draft not found
+ */
+router.post("/drafts/:id/submit", auth, postIdValidation, submitDraft);
+
 /**
  * @route GET /api/posts/pending
- * @desc Get pending posts (Admin)
+ * @desc Get pending posts (Admin), with the likely duplicated post in `duplicateOf`
  * @access Private/Admin
  */
 router.get("/pending", getPendingPosts);
 
 /**
  * @route PUT /api/posts/:id/approve
- * @desc Approve post (Admin)
+ * @desc Approve a pending post, or re-approve an expired one (Admin). Other statuses return 400
  * @access Private/Admin
  */
 router.put("/:id/approve", postIdValidation, approvePost);
@@ -427,9 +612,214 @@ router.put("/:id/approve", postIdValidation, approvePost);
  */
 router.put("/:id/reject", postIdValidation, rejectPost);
 
+const revisionIdValidation = [
+  param("revisionId").isMongoId().withMessage("Invalid revision ID"),
+];
+
+const revisionNoteValidation = [
+  body("note")
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage("Note must be at most 500 characters"),
+];
+
+/**
+ * @swagger
+ * /api/posts/revisions/pending:
+ *   get:
+ *     summary: Get post revisions awaiting review (Admin)
+ *     description: |
+ *       Edits to price, media, legalDocuments or location of an approved post are held
+ *       as pending revisions. The live post keeps its current values until approved.
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *     responses:
+ *       200:
+ *         description: Pending revisions, oldest first
+ *       403:
+ *         description: Admin access required
+ */
+router.get("/revisions/pending", auth, admin as any, getPendingRevisions);
+
+/**
+ * @swagger
+ * /api/posts/revisions/{revisionId}/approve:
+ *   put:
+ *     summary: Approve a pending revision and apply it to the post (Admin)
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: revisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Revision approved and applied
+ *       400:
+ *         description: Revision is not pending
+ *       404:
+ *         description: Revision not found
+ */
+router.put(
+  "/revisions/:revisionId/approve",
+  auth,
+  admin as any,
+  revisionIdValidation,
+  revisionNoteValidation,
+  approveRevision
+);
+
+/**
+ * @swagger
+ * /api/posts/revisions/{revisionId}/reject:
+ *   put:
+ *     summary: Reject a pending revision (Admin)
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: revisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Reason sent to the author
+ *     responses:
+ *       200:
+ *         description: Revision rejected
+ *       400:
+ *         description: Revision is not pending
+ *       404:
+ *         description: Revision not found
+ */
+router.put(
+  "/revisions/:revisionId/reject",
+  auth,
+  admin as any,
+  revisionIdValidation,
+  revisionNoteValidation,
+  rejectRevision
+);
+
+/**
+ * @swagger
+ * /api/posts/revisions/{revisionId}/rollback:
+ *   post:
+ *     summary: Roll back an applied revision (Admin)
+ *     description: Restores the previous values of every field changed by the revision and records the rollback as a new revision.
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: revisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Revision rolled back
+ *       400:
+ *         description: Revision cannot be rolled back
+ *       404:
+ *         description: Revision not found
+ */
+router.post(
+  "/revisions/:revisionId/rollback",
+  auth,
+  admin as any,
+  revisionIdValidation,
+  rollbackRevision
+);
+
+/**
+ * @swagger
+ * /api/posts/{id}/revisions:
+ *   get:
+ *     summary: Get the edit history of a post with field-level diffs (Admin)
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Post ID
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *     responses:
+ *       200:
+ *         description: Revisions, newest first
+ *       404:
+ *         description: Post not found
+ */
+router.get(
+  "/:id/revisions",
+  auth,
+  admin as any,
+  postIdValidation,
+  getPostRevisions
+);
+
+/**
+ * @swagger
+ * /api/posts/{id}/renew:
+ *   put:
+ *     summary: Renew an approved or expired post for another validity period
+ *     description: |
+ *       Allowed within the expiry warning window or after the post has expired.
+ *       The validity period depends on listingType and is configured on the server.
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Post ID
+ *     responses:
+ *       200:
+ *         description: Post renewed
+ *       400:
+ *         description: Post cannot be renewed yet
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Post not found
+ */
+router.put("/:id/renew", auth, postIdValidation, renewPost);
+
 /**
  * @route GET /api/posts/user/view-history
- * @desc Get user's view history
+ * @desc Get user's view history (page/limit or cursor/limit)
  * @access Private
  */
 router.get("/user/view-history", auth, getUserViewHistory);
@@ -438,9 +828,17 @@ router.get("/user/view-history", auth, getUserViewHistory);
  * @swagger
  * /api/posts/user/recommended:
  *   get:
- *     summary: Get recommended posts for user
+ *     summary: Get recommended posts for the user or guest session
+ *     description: |
+ *       Builds a preference profile (property types, provinces, listing types and price range)
+ *       from recent views, bookmarks and chats, adds "viewed together" signals from other viewers,
+ *       and returns diversified results. Each item has `recommendation.score` and a
+ *       `recommendation.reason`. Guests are identified by the `x-session-id` header (or the
+ *       `sessionId` query parameter) used for view tracking. Without history, popular listings
+ *       are returned.
  *     tags: [Posts]
  *     security:
+ *       - {}
  *       - bearerAuth: []
  *     parameters:
  *       - in: query
@@ -448,13 +846,17 @@ router.get("/user/view-history", auth, getUserViewHistory);
  *         schema:
  *           type: integer
  *           default: 10
+ *           maximum: 50
+ *       - in: query
+ *         name: sessionId
+ *         schema:
+ *           type: string
+ *         description: Guest session ID (alternative to the x-session-id header)
  *     responses:
  *       200:
- *         description: Recommended posts
- *       401:
- *         description: Unauthorized
+ *         description: Recommended posts with score and reason
  */
-router.get("/user/recommended", auth, getRecommendedPosts);
+router.get("/user/recommended", optionalAuth, getRecommendedPosts);
 
 /**
  * @swagger
@@ -523,15 +925,34 @@ router.get("/user/recommended", auth, getRecommendedPosts);
  *           type: number
  *         description: Maximum price
  *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [LAK, THB, USD]
+ *         description: Currency of minPrice/maxPrice; posts also get convertedPrice in this currency
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [lo, th, en]
+ *         description: Language of title/description (falls back to Accept-Language, then the post's primary language)
+ *       - in: query
  *         name: minArea
  *         schema:
  *           type: number
- *         description: Minimum area in square meters
+ *         description: Minimum area (in areaUnit)
  *       - in: query
  *         name: maxArea
  *         schema:
  *           type: number
- *         description: Maximum area in square meters
+ *         description: Maximum area (in areaUnit)
+ *       - in: query
+ *         name: areaUnit
+ *         schema:
+ *           type: string
+ *           enum: [sqm, rai, hectare]
+ *           default: sqm
+ *         description: Unit of minArea/maxArea; posts also get convertedArea in this unit
  *       - in: query
  *         name: bedrooms
  *         schema:
@@ -581,6 +1002,15 @@ router.get("/user/recommended", auth, getRecommendedPosts);
  *           type: number
  *           default: 5000
  *         description: Search radius in meters (only with lat/lng)
+ *       - in: query
+ *         name: facets
+ *         schema:
+ *           type: boolean
+ *         description: |
+ *           Also return facet counts for the filter sidebar in a top-level `facets` field
+ *           (`data` stays the list of posts). Facets count results per propertyType, listingType, province,
+ *           condition, bedrooms and price/area range. Each facet ignores its own filter, so the
+ *           counts show how many results each option would give.
  *     responses:
  *       200:
  *         description: Search results with optional distance and relevance data
@@ -604,6 +1034,9 @@ router.get("/user/recommended", auth, getRecommendedPosts);
  *                               relevanceScore:
  *                                 type: number
  *                                 description: Relevance score (only when search text is provided)
+ *                     facets:
+ *                       type: object
+ *                       description: Facet counts (only with facets=true)
  */
 router.get("/search", searchPosts);
 
@@ -652,8 +1085,20 @@ router.get("/search", searchPosts);
  *         name: maxPrice
  *         schema:
  *           type: number
- *     responses:
- *       200:
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [LAK, THB, USD]
+ *         description: Currency of minPrice/maxPrice; posts also get convertedPrice in this currency
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [lo, th, en]
+ *         description: Language of title/description (falls back to Accept-Language, then the post's primary language)
+ *     responses:
+ *       200:
  *         description: Nearby posts with distance information
  *         content:
  *           application/json:
@@ -677,6 +1122,276 @@ router.get("/search", searchPosts);
  */
 router.get("/nearby", getNearbyPosts);
 
+const boundsValidation = [
+  query(["north", "south"])
+    .isFloat({ min: -90, max: 90 })
+    .withMessage("north and south must be latitudes between -90 and 90"),
+  query(["east", "west"])
+    .isFloat({ min: -180, max: 180 })
+    .withMessage("east and west must be longitudes between -180 and 180"),
+];
+
+const polygonValidation = [
+  body("polygon")
+    .isArray({ min: 3, max: 500 })
+    .withMessage("polygon must be an array of 3 to 500 [lng, lat] points"),
+  body("polygon.*")
+    .custom(
+      (point) =>
+        Array.isArray(point) &&
+        point.length === 2 &&
+        Number(point[0]) >= -180 &&
+        Number(point[0]) <= 180 &&
+        Number(point[1]) >= -90 &&
+        Number(point[1]) <= 90
+    )
+    .withMessage("Each polygon point must be [lng, lat]"),
+];
+
+/**
+ * @swagger
+ * /api/posts/map/bounds:
+ *   get:
+ *     summary: Find posts within the visible map viewport
+ *     description: |
+ *       Returns approved posts whose location falls inside the bounding box, plus land plots
+ *       whose `location.boundary` intersects it (`matchedBy: boundary`).
+ *       Accepts the same filters as /api/posts/search.
+ *     tags: [Posts]
+ *     parameters:
+ *       - in: query
+ *         name: north
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: south
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: east
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: west
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: propertyType
+ *         schema:
+ *           type: string
+ *           enum: [house, land, condo, apartment, villa, townhouse]
+ *       - in: query
+ *         name: listingType
+ *         schema:
+ *           type: string
+ *           enum: [sell, rent, lease]
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [LAK, THB, USD]
+ *         description: Currency of minPrice/maxPrice; posts also get convertedPrice in this currency
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [lo, th, en]
+ *         description: Language of title/description (falls back to Accept-Language, then the post's primary language)
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest, price_asc, price_desc, area_asc, area_desc]
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *     responses:
+ *       200:
+ *         description: Posts in the viewport
+ *       400:
+ *         description: Invalid bounds
+ */
+router.get("/map/bounds", boundsValidation, getPostsWithinBounds);
+
+/**
+ * @swagger
+ * /api/posts/map/clusters:
+ *   get:
+ *     summary: Get clustered post markers for a map viewport
+ *     description: |
+ *       Groups approved posts into grid cells sized by zoom level (4 cells per map tile).
+ *       Each cluster has a count, centroid, min/max price and a sample post ID.
+ *       Accepts the same filters as /api/posts/search.
+ *     tags: [Posts]
+ *     parameters:
+ *       - in: query
+ *         name: north
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: south
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: east
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: west
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: zoom
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 22
+ *       - in: query
+ *         name: propertyType
+ *         schema:
+ *           type: string
+ *           enum: [house, land, condo, apartment, villa, townhouse]
+ *       - in: query
+ *         name: listingType
+ *         schema:
+ *           type: string
+ *           enum: [sell, rent, lease]
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: Clusters in the viewport
+ *       400:
+ *         description: Invalid bounds or zoom
+ */
+router.get(
+  "/map/clusters",
+  boundsValidation,
+  query("zoom")
+    .isInt({ min: 0, max: 22 })
+    .withMessage("zoom must be an integer between 0 and 22"),
+  getMapClusters
+);
+
+/**
+ * @swagger
+ * /api/posts/map/polygon:
+ *   post:
+ *     summary: Find posts within a hand-drawn polygon
+ *     description: |
+ *       Returns approved posts whose location falls inside the polygon, plus land plots
+ *       whose `location.boundary` intersects it (`matchedBy: boundary`).
+ *       Filters use the same field names as /api/posts/search.
+ *     tags: [Posts]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - polygon
+ *             properties:
+ *               polygon:
+ *                 type: array
+ *                 description: Polygon points [[lng, lat], ...]; the ring is closed automatically
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: number
+ *               propertyType:
+ *                 type: string
+ *               listingType:
+ *                 type: string
+ *               minPrice:
+ *                 type: number
+ *               maxPrice:
+ *                 type: number
+ *               sortBy:
+ *                 type: string
+ *               page:
+ *                 type: integer
+ *               limit:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Posts in the polygon
+ *       400:
+ *         description: Invalid polygon
+ */
+router.post("/map/polygon", polygonValidation, getPostsWithinPolygon);
+
+const compareValidation = [
+  body("postIds")
+    .isArray({ min: MIN_COMPARE_POSTS, max: MAX_COMPARE_POSTS })
+    .withMessage(
+      `postIds must be an array of ${MIN_COMPARE_POSTS} to ${MAX_COMPARE_POSTS} post IDs`
+    ),
+  body("postIds.*").isMongoId().withMessage("Invalid post ID"),
+];
+
+/**
+ * @swagger
+ * /api/posts/compare:
+ *   post:
+ *     summary: Compare 2-4 listings side by side
+ *     description: |
+ *       Returns a comparison matrix in the order the IDs were sent. House and condo room counts
+ *       share one row; land attributes are flattened. Numeric rows list the winning post IDs
+ *       (`better` says whether higher or lower wins; empty when all values are equal).
+ *       Guests can compare public listings; logged-in users can also include their own
+ *       unpublished posts and get `isBookmarked` per listing.
+ *     tags: [Posts]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - postIds
+ *             properties:
+ *               postIds:
+ *                 type: array
+ *                 minItems: 2
+ *                 maxItems: 4
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Comparison with listings, attributes (values + winners), pairwise distances (km) and warnings
+ *       400:
+ *         description: Invalid post IDs
+ *       404:
+ *         description: One or more posts not found
+ */
+router.post("/compare", optionalAuth, compareValidation, comparePosts);
+
 /**
  * @swagger
  * /api/posts/province/{province}:
@@ -707,9 +1422,16 @@ router.get("/nearby", getNearbyPosts);
  *         schema:
  *           type: string
  *           enum: [newest, oldest, price_asc, price_desc]
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Cursor from the previous response (send empty for the first page). Switches to cursor pagination and ignores page
  *     responses:
  *       200:
  *         description: Posts in the specified province
+ *       400:
+ *         description: Invalid cursor
  */
 router.get("/province/:province", getPostsByProvince);
 
@@ -761,9 +1483,49 @@ router.get("/stats/search", getSearchStats);
 
 /**
  * @swagger
- * /api/posts/{id}:
+ * /api/posts/price-drops:
+ *   get:
+ *     summary: Get approved posts with a recent price drop
+ *     tags: [Posts]
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - in: query
+ *         name: province
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: propertyType
+ *         schema:
+ *           type: string
+ *           enum: [house, land, condo, apartment, villa, townhouse]
+ *       - in: query
+ *         name: listingType
+ *         schema:
+ *           type: string
+ *           enum: [sell, rent, lease]
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *         description: Only include drops within this many days
+ *       - in: query
+ *         name: minDropPercent
+ *         schema:
+ *           type: number
+ *         description: Minimum drop in percent
+ *     responses:
+ *       200:
+ *         description: Posts sorted by most recent price drop
+ */
+router.get("/price-drops", getRecentPriceDrops);
+
+/**
+ * @swagger
+ * /api/posts/{id}/price-history:
  *   get:
- *     summary: Get single post (automatically tracks view)
+ *     summary: Get price history of a post
  *     tags: [Posts]
  *     parameters:
  *       - in: path
@@ -774,6 +1536,90 @@ router.get("/stats/search", getSearchStats);
  *         description: Post ID
  *     responses:
  *       200:
+ *         description: Price changes ordered from oldest to newest, each with its currency (highest/lowest cover the current currency only)
+ *       404:
+ *         description: Post not found
+ */
+router.get("/:id/price-history", postIdValidation, getPostPriceHistory);
+
+/**
+ * @swagger
+ * /api/posts/{id}/similar:
+ *   get:
+ *     summary: Get listings similar to a post
+ *     description: |
+ *       Scores other approved listings of the same listing type within a 0.5x-2x price band
+ *       by property type, price, area, bedrooms and distance. Near-duplicate listings from the
+ *       same author are left out. Rankings are cached per post and cleared when the post changes;
+ *       listings that are no longer approved are dropped on every request.
+ *     tags: [Posts]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Post ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 6
+ *           maximum: 20
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [LAK, THB, USD]
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [lo, th, en]
+ *         description: Language of title/description (falls back to Accept-Language, then the post's primary language)
+ *       - in: query
+ *         name: areaUnit
+ *         schema:
+ *           type: string
+ *           enum: [sqm, rai, hectare]
+ *     responses:
+ *       200:
+ *         description: Similar posts with a `similarity` object (score 0-1, distanceKm, breakdown)
+ *       404:
+ *         description: Post not found
+ */
+router.get("/:id/similar", postIdValidation, getSimilarPosts);
+
+/**
+ * @swagger
+ * /api/posts/{id}:
+ *   get:
+ *     summary: Get single post by ID or slug (automatically tracks view)
+ *     description: |
+ *       Accepts the post ID or its SEO slug (generated from title, property type and province).
+ *       A slug the post used before its title changed answers with a 301 redirect to the current slug.
+ *       The response includes `slug` and `canonicalUrl`.
+ *       `title`/`description` are returned in the language picked by `lang` or `Accept-Language`
+ *       (`language` tells which one was used; `translations` holds every variant).
+ *       Drafts are only visible to their author and admins (send the bearer token).
+ *     tags: [Posts]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Post ID or slug
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [lo, th, en]
+ *         description: Language of title/description (falls back to Accept-Language, then the post's primary language)
+ *     responses:
+ *       301:
+ *         description: Old slug; Location points to the current slug
+ *       200:
  *         description: Post details
  *         content:
  *           application/json:
@@ -785,15 +1631,19 @@ router.get("/stats/search", getSearchStats);
  *                     data:
  *                       $ref: '#/components/schemas/Post'
  *       404:
- *         description: Post not found
+ *         description: Post not found (or a draft of another user)
  */
-router.get("/:id", postIdValidation, getPost);
+router.get("/:id", optionalAuth, getPost);
 
 /**
  * @swagger
  * /api/posts/{id}:
  *   put:
  *     summary: Update post
+ *     description: |
+ *       Every edit is stored as a revision. For approved posts, changes to price, media,
+ *       legalDocuments or location are held as a pending revision for admin review
+ *       (see `pendingRevisionId`) while the current version stays published.
  *     tags: [Posts]
  *     security:
  *       - bearerAuth: []
@@ -817,6 +1667,17 @@ router.get("/:id", postIdValidation, getPost);
  *                 type: string
  *               price:
  *                 type: number
+ *               currency:
+ *                 type: string
+ *                 enum: [LAK, THB, USD]
+ *               area:
+ *                 type: number
+ *               areaUnit:
+ *                 type: string
+ *                 enum: [sqm, rai, hectare]
+ *               status:
+ *                 type: string
+ *                 description: Non-admins can only mark an approved post as `sold` or `rented`; other transitions return 400. Drafts are submitted with `POST /api/posts/drafts/{id}/submit`
  *               images:
  *                 type: array
  *                 items:
@@ -829,7 +1690,9 @@ router.get("/:id", postIdValidation, getPost);
  *                   format: binary
  *     responses:
  *       200:
- *         description: Post updated successfully
+ *         description: Post updated successfully; `data.warnings` lists non-blocking issues such as a boundary/area mismatch
+ *       400:
+ *         description: Invalid boundary or status change not allowed
  *       401:
  *         description: Unauthorized
  *       403:
@@ -0,0 +1,247 @@
+import { Router } from "express";
+import { body, param } from "express-validator";
+import { auth } from "@/middlewares/auth";
+import {
+  createSavedSearch,
+  getUserSavedSearches,
+  getSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  runSavedSearch,
+  getSavedSearchAlerts,
+  markAlertAsRead,
+  markAllAlertsAsRead,
+} from "@/controllers/savedSearches";
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: SavedSearches
+ *   description: Saved post filters with new-listing alerts
+ */
+
+// Validation rules
+const savedSearchIdValidation = [
+  param("id").isMongoId().withMessage("Invalid saved search ID"),
+];
+
+const createSavedSearchValidation = [
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Name is required")
+    .isLength({ max: 100 })
+    .withMessage("Name must be at most 100 characters"),
+  body("filter").isObject().withMessage("Filter must be an object"),
+  body("alertsEnabled").optional().isBoolean(),
+];
+
+const updateSavedSearchValidation = [
+  body("name")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Name cannot be empty")
+    .isLength({ max: 100 })
+    .withMessage("Name must be at most 100 characters"),
+  body("filter").optional().isObject().withMessage("Filter must be an object"),
+  body("alertsEnabled").optional().isBoolean(),
+];
+
+/**
+ * @swagger
+ * /api/saved-searches/alerts:
+ *   get:
+ *     summary: Get new-listing alerts from saved searches
+ *     description: |
+ *       Alerts are created when an admin approves a post that matches one of the user's saved searches.
+ *       The same payload is pushed in real time as a `saved_search_alert` event on the `user:<id>` socket room.
+ *     tags: [SavedSearches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - in: query
+ *         name: unreadOnly
+ *         schema:
+ *           type: boolean
+ *         description: Only return unread alerts
+ *     responses:
+ *       200:
+ *         description: Alerts with unread count
+ */
+router.get("/alerts", auth, getSavedSearchAlerts);
+
+/**
+ * @swagger
+ * /api/saved-searches/alerts/read-all:
+ *   put:
+ *     summary: Mark all alerts as read
+ *     tags: [SavedSearches]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Alerts marked as read
+ */
+router.put("/alerts/read-all", auth, markAllAlertsAsRead);
+
+/**
+ * @swagger
+ * /api/saved-searches/alerts/{alertId}/read:
+ *   put:
+ *     summary: Mark an alert as read
+ *     tags: [SavedSearches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: alertId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alert marked as read
+ *       404:
+ *         description: Alert not found
+ */
+router.put(
+  "/alerts/:alertId/read",
+  auth,
+  param("alertId").isMongoId().withMessage("Invalid alert ID"),
+  markAlertAsRead
+);
+
+/**
+ * @swagger
+ * /api/saved-searches:
+ *   post:
+ *     summary: Save a post filter as a named search
+ *     tags: [SavedSearches]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - filter
+ *             properties:
+ *               name:
+ *                 type: string
+ *               filter:
+ *                 type: object
+ *                 description: Same fields as the /api/posts/search query (propertyType, listingType, province, minPrice, latitude, longitude, radius, ...)
+ *               alertsEnabled:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Saved search created
+ *       400:
+ *         description: Validation error or saved search limit reached
+ */
+router.post("/", auth, createSavedSearchValidation, createSavedSearch);
+
+/**
+ * @swagger
+ * /api/saved-searches:
+ *   get:
+ *     summary: Get current user's saved searches
+ *     tags: [SavedSearches]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Saved searches
+ */
+router.get("/", auth, getUserSavedSearches);
+
+/**
+ * @swagger
+ * /api/saved-searches/{id}:
+ *   get:
+ *     summary: Get a saved search
+ *     tags: [SavedSearches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PostIdParam'
+ *     responses:
+ *       200:
+ *         description: Saved search
+ *       404:
+ *         description: Saved search not found
+ */
+router.get("/:id", auth, savedSearchIdValidation, getSavedSearch);
+
+/**
+ * @swagger
+ * /api/saved-searches/{id}/results:
+ *   get:
+ *     summary: Run a saved search against approved posts
+ *     tags: [SavedSearches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PostIdParam'
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *     responses:
+ *       200:
+ *         description: Matching posts
+ *       404:
+ *         description: Saved search not found
+ */
+router.get("/:id/results", auth, savedSearchIdValidation, runSavedSearch);
+
+/**
+ * @swagger
+ * /api/saved-searches/{id}:
+ *   put:
+ *     summary: Update a saved search
+ *     tags: [SavedSearches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PostIdParam'
+ *     responses:
+ *       200:
+ *         description: Saved search updated
+ *       404:
+ *         description: Saved search not found
+ */
+router.put(
+  "/:id",
+  auth,
+  savedSearchIdValidation,
+  updateSavedSearchValidation,
+  updateSavedSearch
+);
+
+/**
+ * @swagger
+ * /api/saved-searches/{id}:
+ *   delete:
+ *     summary: Delete a saved search and its alerts
+ *     tags: [SavedSearches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PostIdParam'
+ *     responses:
+ *       200:
+ *         description: Saved search deleted
+ *       404:
+ *         description: Saved search not found
+ */
+router.delete("/:id", auth, savedSearchIdValidation, deleteSavedSearch);
+
+export default router;
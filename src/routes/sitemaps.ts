@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { getSitemapIndex, getSitemapFile } from "@/controllers/sitemaps";
+
+// sitemap อยู่ที่ root ของโดเมน (ไม่อยู่ใต้ /api) ตามที่ search engine คาดหวัง
+const router: Router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: SEO
+ *   description: Sitemaps for search engines
+ */
+
+/**
+ * @swagger
+ * /sitemap.xml:
+ *   get:
+ *     summary: Sitemap index
+ *     description: |
+ *       Lists the sitemap files: `posts-YYYY-MM[-N].xml` for approved posts (grouped by the
+ *       month they were created, at most 45,000 URLs per file) and `provinces.xml` for
+ *       province pages. Files are regenerated in the background, only for groups whose
+ *       posts changed since the last run.
+ *     tags: [SEO]
+ *     responses:
+ *       200:
+ *         description: Sitemap index XML
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ */
+router.get("/sitemap.xml", getSitemapIndex);
+
+/**
+ * @swagger
+ * /sitemaps/{name}.xml:
+ *   get:
+ *     summary: Sitemap file
+ *     tags: [SEO]
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: File name from the sitemap index, e.g. posts-2026-10 or provinces
+ *     responses:
+ *       200:
+ *         description: Sitemap XML
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Sitemap not found
+ */
+router.get("/sitemaps/:name.xml", getSitemapFile);
+
+export default router;
@@ -6,8 +6,14 @@ import reportRoutes from "../report";
 import bannerRoutes from "../banners";
 import bookmarkRoutes from "../bookmarks";
 import userRoutes from "../users";
-import path from "path";
-import { embeddingService } from "@/services/EmbeddingService";
+import savedSearchRoutes from "../savedSearches";
+import currencyRoutes from "../currencies";
+import calculatorRoutes from "../calculators";
+import boostRoutes from "../boosts";
+import viewingRoutes from "../viewings";
+import agencyRoutes from "../agencies";
+import importRoutes from "../imports";
+import feedRoutes from "../feeds";
 const router: Router = Router();
 
 // V1 API Routes
@@ -18,6 +24,14 @@ router.use("/reports", reportRoutes);
 router.use("/banners", bannerRoutes);
 router.use("/bookmarks", bookmarkRoutes);
 router.use("/users", userRoutes);
+router.use("/saved-searches", savedSearchRoutes);
+router.use("/currencies", currencyRoutes);
+router.use("/calculators", calculatorRoutes);
+router.use("/boosts", boostRoutes);
+router.use("/viewings", viewingRoutes);
+router.use("/agencies", agencyRoutes);
+router.use("/imports", importRoutes);
+router.use("/feeds", feedRoutes);
 
 // V1 API Info
 router.get("/", async (req, res) => {
@@ -31,6 +45,14 @@ router.get("/", async (req, res) => {
       chats: "/api/v1/chats",
       reports: "/api/v1/reports",
       banners: "/api/v1/banners",
+      savedSearches: "/api/v1/saved-searches",
+      currencies: "/api/v1/currencies",
+      calculators: "/api/v1/calculators",
+      boosts: "/api/v1/boosts",
+      viewings: "/api/v1/viewings",
+      agencies: "/api/v1/agencies",
+      imports: "/api/v1/imports",
+      feeds: "/api/v1/feeds",
       properties: "/api/v1/properties", // New properties system
       admin: "/api/v1/admin",
     },
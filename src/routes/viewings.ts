@@ -0,0 +1,381 @@
+import { Router } from "express";
+import { body, param, query } from "express-validator";
+import { auth } from "@/middlewares/auth";
+import {
+  createSlots,
+  getAvailableSlots,
+  getPostSlots,
+  cancelSlot,
+  requestViewing,
+  getMyViewings,
+  getViewing,
+  confirmViewing,
+  declineViewing,
+  cancelViewing,
+  downloadViewingCalendar,
+} from "@/controllers/viewings";
+import { config } from "@/config";
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Viewings
+ *   description: Property viewing slots and appointment booking
+ */
+
+const postIdValidation = [
+  param("postId").isMongoId().withMessage("Invalid post ID"),
+];
+
+const idValidation = [param("id").isMongoId().withMessage("Invalid ID")];
+
+const createSlotsValidation = [
+  ...postIdValidation,
+  body("slots")
+    .isArray({ min: 1, max: config.viewings.maxSlotsPerRequest })
+    .withMessage(
+      `Slots must be an array of 1 to ${config.viewings.maxSlotsPerRequest} items`
+    ),
+  body("slots.*.startsAt")
+    .isISO8601()
+    .withMessage("startsAt must be an ISO 8601 date")
+    .toDate(),
+  body("slots.*.endsAt")
+    .isISO8601()
+    .withMessage("endsAt must be an ISO 8601 date")
+    .toDate(),
+  body("slots.*.note")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Note must not exceed 500 characters"),
+];
+
+const requestValidation = [
+  ...idValidation,
+  body("message")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Message must not exceed 500 characters"),
+];
+
+const declineValidation = [
+  ...idValidation,
+  body("reason")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Reason must not exceed 500 characters"),
+];
+
+const myViewingsValidation = [
+  query("side")
+    .optional()
+    .isIn(["buyer", "seller"])
+    .withMessage("Side must be buyer or seller"),
+  query("status")
+    .optional()
+    .isIn(["requested", "confirmed", "declined", "cancelled", "completed"])
+    .withMessage("Invalid status"),
+];
+
+/**
+ * @swagger
+ * /api/viewings/posts/{postId}/slots:
+ *   get:
+ *     summary: Get open viewing slots of a post
+ *     tags: [Viewings]
+ *     parameters:
+ *       - in: path
+ *         name: postId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Upcoming open slots, earliest first
+ *   post:
+ *     summary: Publish viewing slots for a post (post owner)
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: postId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - slots
+ *             properties:
+ *               slots:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - startsAt
+ *                     - endsAt
+ *                   properties:
+ *                     startsAt:
+ *                       type: string
+ *                       format: date-time
+ *                     endsAt:
+ *                       type: string
+ *                       format: date-time
+ *                     note:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Slots created
+ *       400:
+ *         description: Invalid slot times or post not approved
+ *       403:
+ *         description: Not the post owner
+ *       409:
+ *         description: Slots overlap each other or existing slots
+ */
+router.get("/posts/:postId/slots", postIdValidation, getAvailableSlots);
+router.post("/posts/:postId/slots", auth, createSlotsValidation, createSlots);
+
+/**
+ * @swagger
+ * /api/viewings/posts/{postId}/slots/manage:
+ *   get:
+ *     summary: Get all upcoming slots of a post with pending request counts (post owner)
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: postId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Open and booked slots with `pendingRequests`
+ *       403:
+ *         description: Not the post owner
+ */
+router.get("/posts/:postId/slots/manage", auth, postIdValidation, getPostSlots);
+
+/**
+ * @swagger
+ * /api/viewings/slots/{id}:
+ *   delete:
+ *     summary: Cancel a viewing slot (post owner)
+ *     description: Pending requests for the slot are declined and a confirmed viewing is cancelled.
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Slot cancelled
+ *       404:
+ *         description: Slot not found
+ */
+router.delete("/slots/:id", auth, idValidation, cancelSlot);
+
+/**
+ * @swagger
+ * /api/viewings/slots/{id}/request:
+ *   post:
+ *     summary: Request a viewing in a slot
+ *     description: |
+ *       Opens (or reuses) the chat for the post between buyer and seller, posts the request
+ *       there and notifies the seller with a `viewing_requested` socket event.
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               message:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Viewing requested (includes `chatId`)
+ *       409:
+ *         description: Slot no longer available or already requested
+ */
+router.post("/slots/:id/request", auth, requestValidation, requestViewing);
+
+/**
+ * @swagger
+ * /api/viewings/my:
+ *   get:
+ *     summary: Get my viewings
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: side
+ *         schema:
+ *           type: string
+ *           enum: [buyer, seller]
+ *           default: buyer
+ *         description: Viewings I requested (buyer) or received on my posts (seller)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [requested, confirmed, declined, cancelled, completed]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Viewings, latest first
+ */
+router.get("/my", auth, myViewingsValidation, getMyViewings);
+
+/**
+ * @swagger
+ * /api/viewings/{id}:
+ *   get:
+ *     summary: Get a viewing (buyer, seller or admin)
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Viewing details
+ *       404:
+ *         description: Viewing not found
+ */
+router.get("/:id", auth, idValidation, getViewing);
+
+/**
+ * @swagger
+ * /api/viewings/{id}/confirm:
+ *   post:
+ *     summary: Confirm a viewing request (seller)
+ *     description: Books the slot and declines other pending requests for it.
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Viewing confirmed
+ *       409:
+ *         description: Slot no longer available
+ */
+router.post("/:id/confirm", auth, idValidation, confirmViewing);
+
+/**
+ * @swagger
+ * /api/viewings/{id}/decline:
+ *   post:
+ *     summary: Decline a viewing request (seller)
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Viewing declined
+ */
+router.post("/:id/decline", auth, declineValidation, declineViewing);
+
+/**
+ * @swagger
+ * /api/viewings/{id}/cancel:
+ *   post:
+ *     summary: Cancel a requested or confirmed viewing (buyer or seller)
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Viewing cancelled; a confirmed slot is reopened
+ */
+router.post("/:id/cancel", auth, idValidation, cancelViewing);
+
+/**
+ * @swagger
+ * /api/viewings/{id}/calendar.ics:
+ *   get:
+ *     summary: Download a confirmed viewing as an ICS calendar entry
+ *     tags: [Viewings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: iCalendar file
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Viewing is not confirmed
+ */
+router.get("/:id/calendar.ics", auth, idValidation, downloadViewingCalendar);
+
+export default router;
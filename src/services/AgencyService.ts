@@ -0,0 +1,572 @@
+import mongoose from "mongoose";
+import { Agency, IAgency, AgencyMemberRole } from "@/models/Agency";
+import { Post, IPost } from "@/models/Post";
+import { User, IUser } from "@/models/User";
+import { Chat } from "@/models/Chat";
+import { ViewHistory } from "@/models/ViewHistory";
+import { ViewingSlot } from "@/models/ViewingSlot";
+import { ViewingAppointment } from "@/models/ViewingAppointment";
+import { emitToUser } from "@/config/socket";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGENCY_MEMBER_ROLES: AgencyMemberRole[] = ["owner", "agent"];
+
+export interface AgencyProfileInput {
+  name?: string;
+  description?: string;
+  logo?: string;
+  phone?: string;
+  email?: string;
+  licenseNumber?: string;
+  address?: IAgency["address"];
+}
+
+export interface ListingAssignment {
+  agencyId: mongoose.Types.ObjectId;
+  assignedAgentId: mongoose.Types.ObjectId;
+}
+
+export interface AgencyPostFilters {
+  status?: IPost["status"];
+  agentId?: string;
+}
+
+export interface AgentPerformance {
+  agentId: string;
+  name?: string;
+  avatar?: string;
+  role?: AgencyMemberRole; // ไม่มี = ไม่ได้เป็นสมาชิกแล้ว
+  listings: Record<string, number>; // จำนวนประกาศตามสถานะ
+  views: number;
+  chats: number;
+  viewingRequests: number;
+  viewingsCompleted: number;
+  closed: number; // ขาย/เช่าแล้วในช่วงเวลา
+}
+
+export interface AgencyPerformance {
+  periodDays: number;
+  since: Date;
+  totals: Omit<AgentPerformance, "agentId" | "name" | "avatar" | "role">;
+  agents: AgentPerformance[];
+}
+
+// ObjectId ที่อาจถูก populate แล้ว
+const refId = (value: unknown): string | undefined => {
+  if (!value) return undefined;
+  const populated = (value as { _id?: unknown })._id;
+  return String(populated || value);
+};
+
+export class AgencyService {
+  // ผู้รับแชท/นัดชมของประกาศ: ตัวแทนที่ได้รับมอบหมาย หรือผู้ลงประกาศ
+  static getContactUserId(
+    post: Pick<IPost, "authorId" | "assignedAgentId">
+  ): string {
+    return (refId(post.assignedAgentId) || refId(post.authorId)) as string;
+  }
+
+  // เอเจนซี่ที่ผู้ใช้สังกัด (ถ้ามี)
+  static async getUserAgency(userId: string): Promise<IAgency | null> {
+    if (!mongoose.Types.ObjectId.isValid(userId)) return null;
+    return Agency.findOne({ "members.user": userId, isActive: true });
+  }
+
+  static getMemberRole(
+    agency: IAgency,
+    userId: string
+  ): AgencyMemberRole | undefined {
+    return agency.members.find((member) => member.user.toString() === userId)
+      ?.role;
+  }
+
+  // สิทธิ์จัดการประกาศ: admin, ผู้ลงประกาศ, ตัวแทนที่ดูแล หรือเจ้าของเอเจนซี่
+  // ประกาศของเอเจนซี่: ผู้ลงประกาศต้องยังเป็นสมาชิกอยู่
+  static async canManagePost(
+    post: Pick<IPost, "authorId" | "assignedAgentId" | "agencyId">,
+    userId: string,
+    userRole?: string
+  ): Promise<boolean> {
+    if (userRole === "admin") return true;
+
+    const isAuthor = refId(post.authorId) === userId;
+    const agencyId = refId(post.agencyId);
+    if (!agencyId) return isAuthor;
+    if (refId(post.assignedAgentId) === userId) return true;
+
+    const agency = await Agency.findById(agencyId, "members");
+    if (!agency) return false;
+
+    const role = this.getMemberRole(agency, userId);
+    return role === "owner" || (!!role && isAuthor);
+  }
+
+  // ตรวจสอบเอเจนซี่/ตัวแทนตอนลงประกาศในนามเอเจนซี่
+  static async resolveListingAssignment(
+    agencyId: string,
+    userId: string,
+    assignedAgentId?: string
+  ): Promise<ListingAssignment> {
+    if (!mongoose.Types.ObjectId.isValid(agencyId)) {
+      throw new Error("Agency not found");
+    }
+
+    const agency = await Agency.findOne({ _id: agencyId, isActive: true });
+    if (!agency) {
+      throw new Error("Agency not found");
+    }
+
+    const role = this.getMemberRole(agency, userId);
+    if (!role) {
+      throw new Error("You are not a member of this agency");
+    }
+
+    const agentId = assignedAgentId || userId;
+    if (agentId !== userId && role !== "owner") {
+      throw new Error("Only agency owners can assign listings to other agents");
+    }
+    if (!this.getMemberRole(agency, agentId)) {
+      throw new Error("Assigned agent is not a member of this agency");
+    }
+
+    return {
+      agencyId: agency._id as mongoose.Types.ObjectId,
+      assignedAgentId: new mongoose.Types.ObjectId(agentId),
+    };
+  }
+
+  // โหลดเอเจนซี่และตรวจว่าเป็นเจ้าของ (หรือ admin)
+  private static async getOwnedAgency(
+    agencyId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IAgency> {
+    if (!mongoose.Types.ObjectId.isValid(agencyId)) {
+      throw new Error("Agency not found");
+    }
+
+    const agency = await Agency.findById(agencyId);
+    if (!agency) {
+      throw new Error("Agency not found");
+    }
+    if (
+      this.getMemberRole(agency, userId) !== "owner" &&
+      userRole !== "admin"
+    ) {
+      throw new Error("Only agency owners can manage this agency");
+    }
+
+    return agency;
+  }
+
+  // สร้างเอเจนซี่ (ผู้สร้างเป็น owner)
+  static async createAgency(
+    data: AgencyProfileInput,
+    userId: string
+  ): Promise<IAgency> {
+    if (await this.getUserAgency(userId)) {
+      throw new Error("You already belong to an agency");
+    }
+
+    return Agency.create({
+      ...data,
+      members: [{ user: userId, role: "owner", joinedAt: new Date() }],
+      createdBy: userId,
+    });
+  }
+
+  // เอเจนซี่ของผู้ใช้ พร้อมข้อมูลสมาชิก
+  static async getMyAgency(userId: string): Promise<IAgency | null> {
+    const agency = await this.getUserAgency(userId);
+    if (!agency) return null;
+    return agency.populate("members.user", "name email phone avatar");
+  }
+
+  // โปรไฟล์สาธารณะของเอเจนซี่ พร้อมจำนวนประกาศที่แสดงอยู่
+  static async getAgency(
+    agencyId: string
+  ): Promise<{ agency: IAgency; activeListings: number }> {
+    if (!mongoose.Types.ObjectId.isValid(agencyId)) {
+      throw new Error("Agency not found");
+    }
+
+    const agency = await Agency.findOne({
+      _id: agencyId,
+      isActive: true,
+    }).populate("members.user", "name avatar");
+    if (!agency) {
+      throw new Error("Agency not found");
+    }
+
+    const activeListings = await Post.countDocuments({
+      agencyId: agency._id,
+      status: "approved",
+    });
+
+    return { agency, activeListings };
+  }
+
+  // แก้ไขโปรไฟล์เอเจนซี่
+  static async updateAgency(
+    agencyId: string,
+    data: AgencyProfileInput,
+    userId: string,
+    userRole?: string
+  ): Promise<IAgency> {
+    const agency = await this.getOwnedAgency(agencyId, userId, userRole);
+    agency.set(data);
+    return agency.save();
+  }
+
+  // เพิ่มสมาชิก (ผู้ใช้ต้องยังไม่สังกัดเอเจนซี่อื่น)
+  static async addMember(
+    agencyId: string,
+    memberId: string,
+    role: AgencyMemberRole,
+    userId: string,
+    userRole?: string
+  ): Promise<IAgency> {
+    const agency = await this.getOwnedAgency(agencyId, userId, userRole);
+
+    if (!mongoose.Types.ObjectId.isValid(memberId)) {
+      throw new Error("User not found");
+    }
+    const user = await User.exists({ _id: memberId });
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (await Agency.exists({ "members.user": memberId })) {
+      throw new Error("User already belongs to an agency");
+    }
+
+    agency.members.push({
+      user: new mongoose.Types.ObjectId(memberId),
+      role,
+      joinedAt: new Date(),
+    });
+    await agency.save();
+
+    emitToUser(memberId, "agency_member_added", {
+      agencyId: agency._id,
+      name: agency.name,
+      role,
+    });
+
+    return agency.populate("members.user", "name email phone avatar");
+  }
+
+  // เปลี่ยนบทบาทสมาชิก (ต้องเหลือ owner อย่างน้อยหนึ่งคน)
+  static async updateMemberRole(
+    agencyId: string,
+    memberId: string,
+    role: AgencyMemberRole,
+    userId: string,
+    userRole?: string
+  ): Promise<IAgency> {
+    const agency = await this.getOwnedAgency(agencyId, userId, userRole);
+
+    const member = agency.members.find(
+      (item) => item.user.toString() === memberId
+    );
+    if (!member) {
+      throw new Error("Member not found");
+    }
+    if (
+      member.role === "owner" &&
+      role !== "owner" &&
+      agency.members.filter((item) => item.role === "owner").length === 1
+    ) {
+      throw new Error("An agency must have at least one owner");
+    }
+
+    member.role = role;
+    await agency.save();
+
+    return agency.populate("members.user", "name email phone avatar");
+  }
+
+  // นำสมาชิกออก (owner นำออก หรือสมาชิกออกเอง) ประกาศที่ดูแลอยู่ถูกโอนให้ owner
+  static async removeMember(
+    agencyId: string,
+    memberId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IAgency> {
+    if (!mongoose.Types.ObjectId.isValid(agencyId)) {
+      throw new Error("Agency not found");
+    }
+
+    const agency = await Agency.findById(agencyId);
+    if (!agency) {
+      throw new Error("Agency not found");
+    }
+
+    const actorRole = this.getMemberRole(agency, userId);
+    if (memberId !== userId && actorRole !== "owner" && userRole !== "admin") {
+      throw new Error("Only agency owners can manage this agency");
+    }
+
+    const member = agency.members.find(
+      (item) => item.user.toString() === memberId
+    );
+    if (!member) {
+      throw new Error("Member not found");
+    }
+
+    const remainingOwners = agency.members.filter(
+      (item) => item.role === "owner" && item.user.toString() !== memberId
+    );
+    if (remainingOwners.length === 0) {
+      throw new Error("An agency must have at least one owner");
+    }
+
+    agency.members = agency.members.filter(
+      (item) => item.user.toString() !== memberId
+    );
+    await agency.save();
+
+    const newAgentId =
+      actorRole === "owner" && userId !== memberId
+        ? userId
+        : remainingOwners[0].user.toString();
+    const postIds = (
+      await Post.find({
+        agencyId: agency._id,
+        assignedAgentId: memberId,
+      }).distinct("_id")
+    ).map(String);
+    await this.reassignPosts(postIds, memberId, newAgentId);
+
+    emitToUser(memberId, "agency_member_removed", {
+      agencyId: agency._id,
+      name: agency.name,
+    });
+
+    return agency.populate("members.user", "name email phone avatar");
+  }
+
+  // โอนประกาศให้ตัวแทนคนใหม่ พร้อมย้ายแชทและนัดชมที่ยังเปิดอยู่
+  private static async reassignPosts(
+    postIds: string[],
+    fromAgentId: string,
+    toAgentId: string
+  ): Promise<void> {
+    if (postIds.length === 0 || fromAgentId === toAgentId) return;
+
+    const from = new mongoose.Types.ObjectId(fromAgentId);
+    const to = new mongoose.Types.ObjectId(toAgentId);
+
+    await Post.updateMany(
+      { _id: { $in: postIds } },
+      { $set: { assignedAgentId: to } }
+    );
+
+    await Chat.updateMany(
+      {
+        post: { $in: postIds },
+        status: { $ne: "archived" },
+        participants: { $elemMatch: { user: from, role: "poster" } },
+      },
+      { $set: { "participants.$[poster].user": to } },
+      { arrayFilters: [{ "poster.user": from, "poster.role": "poster" }] }
+    );
+
+    await ViewingSlot.updateMany(
+      { postId: { $in: postIds }, ownerId: from, status: { $ne: "cancelled" } },
+      { $set: { ownerId: to } }
+    );
+    await ViewingAppointment.updateMany(
+      {
+        postId: { $in: postIds },
+        sellerId: from,
+        status: { $in: ["requested", "confirmed"] },
+      },
+      { $set: { sellerId: to } }
+    );
+
+    emitToUser(toAgentId, "agency_listings_assigned", { postIds });
+  }
+
+  // มอบหมายประกาศให้ตัวแทนในเอเจนซี่
+  static async assignPost(
+    agencyId: string,
+    postId: string,
+    agentId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IPost> {
+    const agency = await this.getOwnedAgency(agencyId, userId, userRole);
+
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new Error("Post not found");
+    }
+    const post = await Post.findOne({ _id: postId, agencyId: agency._id });
+    if (!post) {
+      throw new Error("Post not found");
+    }
+    if (!this.getMemberRole(agency, agentId)) {
+      throw new Error("Assigned agent is not a member of this agency");
+    }
+
+    const currentAgentId = this.getContactUserId(post);
+    if (currentAgentId === agentId) return post;
+
+    await this.reassignPosts([postId], currentAgentId, agentId);
+    post.assignedAgentId = new mongoose.Types.ObjectId(agentId);
+
+    return post;
+  }
+
+  // ประกาศของเอเจนซี่ (สมาชิกเห็นทุกสถานะ บุคคลทั่วไปเห็นเฉพาะที่อนุมัติแล้ว)
+  static async getAgencyPosts(
+    agencyId: string,
+    viewerId: string | undefined,
+    filters: AgencyPostFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ posts: IPost[]; total: number }> {
+    if (!mongoose.Types.ObjectId.isValid(agencyId)) {
+      throw new Error("Agency not found");
+    }
+
+    const agency = await Agency.findById(agencyId);
+    if (!agency) {
+      throw new Error("Agency not found");
+    }
+
+    const isMember = !!viewerId && !!this.getMemberRole(agency, viewerId);
+    const query: any = { agencyId: agency._id };
+    if (!isMember) {
+      query.status = "approved";
+    } else if (filters.status) {
+      query.status = filters.status;
+    }
+    if (filters.agentId && mongoose.Types.ObjectId.isValid(filters.agentId)) {
+      query.assignedAgentId = new mongoose.Types.ObjectId(filters.agentId);
+    }
+
+    const [posts, total] = await Promise.all([
+      Post.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("assignedAgentId", "name avatar"),
+      Post.countDocuments(query),
+    ]);
+
+    return { posts, total };
+  }
+
+  // สรุปผลงานรายตัวแทนของเอเจนซี่ในช่วงเวลาที่กำหนด (เฉพาะ owner หรือ admin)
+  static async getPerformance(
+    agencyId: string,
+    userId: string,
+    userRole?: string,
+    days: number = 30
+  ): Promise<AgencyPerformance> {
+    const agency = await this.getOwnedAgency(agencyId, userId, userRole);
+    await agency.populate("members.user", "name avatar");
+
+    const since = new Date(Date.now() - days * DAY_MS);
+
+    const posts = await Post.find({ agencyId: agency._id })
+      .select("_id authorId assignedAgentId status closedAt")
+      .lean();
+    const agentByPost = new Map<string, string>(
+      posts.map((post) => [String(post._id), this.getContactUserId(post)])
+    );
+    const postIds = posts.map((post) => post._id);
+
+    const [views, chats, viewings] = await Promise.all([
+      ViewHistory.aggregate([
+        { $match: { postId: { $in: postIds }, viewedAt: { $gte: since } } },
+        { $group: { _id: "$postId", count: { $sum: 1 } } },
+      ]),
+      Chat.aggregate([
+        { $match: { post: { $in: postIds }, createdAt: { $gte: since } } },
+        { $unwind: "$participants" },
+        { $match: { "participants.role": "poster" } },
+        { $group: { _id: "$participants.user", count: { $sum: 1 } } },
+      ]),
+      ViewingAppointment.aggregate([
+        { $match: { postId: { $in: postIds }, createdAt: { $gte: since } } },
+        {
+          $group: {
+            _id: { seller: "$sellerId", status: "$status" },
+            count: { $sum: 1 },
+          },
+        },
+      ]),
+    ]);
+
+    const agents = new Map<string, AgentPerformance>();
+    const getAgent = (agentId: string): AgentPerformance => {
+      let entry = agents.get(agentId);
+      if (!entry) {
+        entry = {
+          agentId,
+          listings: {},
+          views: 0,
+          chats: 0,
+          viewingRequests: 0,
+          viewingsCompleted: 0,
+          closed: 0,
+        };
+        agents.set(agentId, entry);
+      }
+      return entry;
+    };
+
+    agency.members.forEach((member) => {
+      const user = member.user as unknown as Partial<IUser>;
+      const entry = getAgent(refId(user) as string);
+      entry.name = user.name;
+      entry.avatar = user.avatar;
+      entry.role = member.role;
+    });
+
+    posts.forEach((post) => {
+      const entry = getAgent(agentByPost.get(String(post._id)) as string);
+      entry.listings[post.status] = (entry.listings[post.status] || 0) + 1;
+      if (post.closedAt && post.closedAt >= since) entry.closed++;
+    });
+    views.forEach((row) => {
+      const agentId = agentByPost.get(String(row._id));
+      if (agentId) getAgent(agentId).views += row.count;
+    });
+    chats.forEach((row) => {
+      getAgent(String(row._id)).chats += row.count;
+    });
+    viewings.forEach((row) => {
+      const entry = getAgent(String(row._id.seller));
+      entry.viewingRequests += row.count;
+      if (row._id.status === "completed") entry.viewingsCompleted += row.count;
+    });
+
+    const agentList = [...agents.values()];
+    const totals = agentList.reduce(
+      (sum, entry) => {
+        Object.entries(entry.listings).forEach(([status, count]) => {
+          sum.listings[status] = (sum.listings[status] || 0) + count;
+        });
+        sum.views += entry.views;
+        sum.chats += entry.chats;
+        sum.viewingRequests += entry.viewingRequests;
+        sum.viewingsCompleted += entry.viewingsCompleted;
+        sum.closed += entry.closed;
+        return sum;
+      },
+      {
+        listings: {} as Record<string, number>,
+        views: 0,
+        chats: 0,
+        viewingRequests: 0,
+        viewingsCompleted: 0,
+        closed: 0,
+      }
+    );
+
+    return { periodDays: days, since, totals, agents: agentList };
+  }
+}
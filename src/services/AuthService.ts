@@ -1,5 +1,4 @@
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { UserRepository, IUserRepository } from '../repositories/UserRepository';
 import { IUser } from '../models/User';
 import { generateTokens, verifyRefreshToken } from '../utils/jwt';
@@ -1,12 +1,15 @@
 import mongoose from 'mongoose'
 import { Bookmark, IBookmark } from '@/models/Bookmark'
 import { Post } from '@/models/Post'
+import { CursorPagination, CursorPage } from '@/utils/cursor'
+import { CurrencyService, CurrencyCode } from '@/services/CurrencyService'
 
 export interface BookmarkFilter {
   propertyType?: string
   listingType?: string
   minPrice?: number
   maxPrice?: number
+  currency?: CurrencyCode // สกุลเงินของ minPrice/maxPrice (ค่าเริ่มต้น LAK)
   province?: string
   district?: string
 }
@@ -42,7 +45,8 @@ export class BookmarkService {
       // อัปเดต bookmark count ใน post
       await Post.findByIdAndUpdate(
         postId,
-        { $inc: { bookmarkCount: 1 } }
+        { $inc: { bookmarkCount: 1 } },
+        { timestamps: false }
       )
 
       return bookmark
@@ -66,7 +70,8 @@ export class BookmarkService {
       // ลด bookmark count ใน post
       await Post.findByIdAndUpdate(
         postId,
-        { $inc: { bookmarkCount: -1 } }
+        { $inc: { bookmarkCount: -1 } },
+        { timestamps: false }
       )
 
       return true
@@ -108,6 +113,77 @@ export class BookmarkService {
     }
   }
 
+  // สร้าง pipeline ของ bookmarks (ก่อนแบ่งหน้า)
+  private buildBookmarkPipeline(matchStage: any, filter?: BookmarkFilter): any[] {
+    const pipeline: any[] = [
+      { $match: matchStage },
+      { $sort: { createdAt: -1, _id: -1 } },
+      {
+        $lookup: {
+          from: 'posts',
+          localField: 'postId',
+          foreignField: '_id',
+          as: 'post'
+        }
+      },
+      { $unwind: '$post' },
+      {
+        $match: {
+          'post.status': 'approved' // เฉพาะโพสต์ที่อนุมัติแล้ว
+        }
+      }
+    ]
+
+    // เพิ่ม filter ถ้ามี
+    if (filter) {
+      const postFilter: any = {}
+      
+      if (filter.propertyType) postFilter['post.propertyType'] = filter.propertyType
+      if (filter.listingType) postFilter['post.listingType'] = filter.listingType
+      if (filter.province) postFilter['post.location.address.province'] = filter.province
+      if (filter.district) postFilter['post.location.address.district'] = filter.district
+      
+      if (filter.minPrice || filter.maxPrice) {
+        // แปลงเป็นกีบแล้วเทียบกับ basePrice เพื่อรวมโพสต์ทุกสกุลเงิน
+        postFilter['post.basePrice'] = {}
+        if (filter.minPrice) postFilter['post.basePrice'].$gte = CurrencyService.toBase(filter.minPrice, filter.currency)
+        if (filter.maxPrice) postFilter['post.basePrice'].$lte = CurrencyService.toBase(filter.maxPrice, filter.currency)
+      }
+
+      if (Object.keys(postFilter).length > 0) {
+        pipeline.push({ $match: postFilter })
+      }
+    }
+
+    return pipeline
+  }
+
+  // Project ข้อมูลที่ต้องการ
+  private readonly bookmarkProjection = {
+    $project: {
+      _id: 1,
+      createdAt: 1,
+      post: {
+        _id: 1,
+        title: 1,
+        description: 1,
+        price: 1,
+        currency: 1,
+        propertyType: 1,
+        listingType: 1,
+        area: 1,
+        location: 1,
+        media: 1,
+        viewCount: 1,
+        bookmarkCount: 1,
+        featured: 1,
+        urgent: 1,
+        status: 1,
+        createdAt: 1
+      }
+    }
+  }
+
   // ดึง bookmarks ของ user
   async getUserBookmarks(
     userId: string,
@@ -123,74 +199,12 @@ export class BookmarkService {
         userId: new mongoose.Types.ObjectId(userId)
       }
 
-      // สร้าง aggregation pipeline
-      const pipeline: any[] = [
-        { $match: matchStage },
-        { $sort: { createdAt: -1 } },
-        {
-          $lookup: {
-            from: 'posts',
-            localField: 'postId',
-            foreignField: '_id',
-            as: 'post'
-          }
-        },
-        { $unwind: '$post' },
-        {
-          $match: {
-            'post.status': 'approved' // เฉพาะโพสต์ที่อนุมัติแล้ว
-          }
-        }
-      ]
-
-      // เพิ่ม filter ถ้ามี
-      if (filter) {
-        const postFilter: any = {}
-        
-        if (filter.propertyType) postFilter['post.propertyType'] = filter.propertyType
-        if (filter.listingType) postFilter['post.listingType'] = filter.listingType
-        if (filter.province) postFilter['post.location.address.province'] = filter.province
-        if (filter.district) postFilter['post.location.address.district'] = filter.district
-        
-        if (filter.minPrice || filter.maxPrice) {
-          postFilter['post.price'] = {}
-          if (filter.minPrice) postFilter['post.price'].$gte = filter.minPrice
-          if (filter.maxPrice) postFilter['post.price'].$lte = filter.maxPrice
-        }
-
-        if (Object.keys(postFilter).length > 0) {
-          pipeline.push({ $match: postFilter })
-        }
-      }
+      const pipeline = this.buildBookmarkPipeline(matchStage, filter)
 
       // เพิ่ม pagination
       pipeline.push({ $skip: skip })
       pipeline.push({ $limit: limit })
-
-      // Project ข้อมูลที่ต้องการ
-      pipeline.push({
-        $project: {
-          _id: 1,
-          createdAt: 1,
-          post: {
-            _id: 1,
-            title: 1,
-            description: 1,
-            price: 1,
-            propertyType: 1,
-            listingType: 1,
-            area: 1,
-            location: 1,
-            media: 1,
-            viewCount: 1,
-            bookmarkCount: 1,
-            featured: 1,
-            urgent: 1,
-            status: 1,
-            createdAt: 1
-          }
-        }
-      })
+      pipeline.push(this.bookmarkProjection)
 
       const [bookmarks, totalCount] = await Promise.all([
         Bookmark.aggregate(pipeline),
@@ -212,6 +226,33 @@ export class BookmarkService {
     }
   }
 
+  // ดึง bookmarks ของ user แบบ cursor (ใหม่สุดก่อน)
+  async getUserBookmarksByCursor(
+    userId: string,
+    limit: number = 20,
+    cursor?: string,
+    filter?: BookmarkFilter
+  ): Promise<CursorPage<any>> {
+    // cursor ผิดรูปแบบให้ controller ตอบ 400 (ไม่ห่อ error)
+    const cursorQuery = CursorPagination.buildQuery('createdAt', -1, cursor)
+
+    try {
+      const pipeline = this.buildBookmarkPipeline(
+        { userId: new mongoose.Types.ObjectId(userId), ...cursorQuery },
+        filter
+      )
+
+      pipeline.push({ $limit: limit + 1 })
+      pipeline.push(this.bookmarkProjection)
+
+      const bookmarks = await Bookmark.aggregate(pipeline)
+
+      return CursorPagination.buildPage(bookmarks, limit, 'createdAt')
+    } catch (error) {
+      throw new Error(`Error getting user bookmarks: ${error}`)
+    }
+  }
+
   // ดึงจำนวน bookmark ของ user
   async getUserBookmarkCount(userId: string): Promise<number> {
     try {
@@ -0,0 +1,549 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import { Post, BoostRanks } from "@/models/Post";
+import { ViewHistory } from "@/models/ViewHistory";
+import {
+  PostBoost,
+  IPostBoost,
+  BoostType,
+  BoostPurchase,
+} from "@/models/PostBoost";
+import { emitToUser } from "@/config/socket";
+import { AgencyService } from "@/services/AgencyService";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const BOOST_TYPES: BoostType[] = ["featured", "urgent", "top_search"];
+
+export type BoostPlacement = keyof BoostRanks;
+
+// ลำดับการแสดงผลของแต่ละ boost (top_search มีผลเฉพาะผลค้นหา)
+const BOOST_RANKS: Record<BoostPlacement, Record<BoostType, number>> = {
+  search: { top_search: 3, featured: 2, urgent: 1 },
+  feed: { featured: 2, urgent: 1, top_search: 0 },
+};
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+export interface PurchaseBoostInput {
+  postId: string;
+  type: BoostType;
+  durationDays: number;
+  startsAt?: Date;
+  paymentMethod: BoostPurchase["paymentMethod"];
+  paymentReference?: string;
+}
+
+export interface ConfirmPaymentInput {
+  paymentReference?: string;
+  amount?: number; // ยอดที่ได้รับจาก payment callback (กีบ)
+}
+
+export interface BoostWithStats {
+  boost: IPostBoost;
+  viewsDuringBoost: number;
+}
+
+export interface BoostRunResult {
+  activated: number;
+  expired: number;
+}
+
+export class BoostService {
+  // ราคา boost ต่อวัน (กีบ)
+  static getPricing(): {
+    type: BoostType;
+    dailyPrice: number;
+    currency: "LAK";
+  }[] {
+    return BOOST_TYPES.map((type) => ({
+      type,
+      dailyPrice: config.boosts.dailyPrice[type],
+      currency: "LAK",
+    }));
+  }
+
+  static quote(type: BoostType, durationDays: number): number {
+    return config.boosts.dailyPrice[type] * durationDays;
+  }
+
+  // ซื้อ boost ให้โพสต์ (เจ้าของโพสต์ หรือ admin มอบให้ฟรีด้วย admin_grant)
+  // boost ที่ผู้ใช้ทั่วไปซื้อจะรอชำระเงินจนกว่า admin/payment callback จะยืนยัน
+  static async purchaseBoost(
+    input: PurchaseBoostInput,
+    userId: string,
+    userRole?: string
+  ): Promise<IPostBoost> {
+    if (!mongoose.Types.ObjectId.isValid(input.postId)) {
+      throw new Error("Post not found");
+    }
+    if (!BOOST_TYPES.includes(input.type)) {
+      throw new Error("Invalid boost type");
+    }
+    if (
+      !Number.isInteger(input.durationDays) ||
+      input.durationDays < 1 ||
+      input.durationDays > config.boosts.maxDurationDays
+    ) {
+      throw new Error(
+        `Duration must be between 1 and ${config.boosts.maxDurationDays} days`
+      );
+    }
+
+    const isAdmin = userRole === "admin";
+    if (input.paymentMethod === "admin_grant" && !isAdmin) {
+      throw new Error("Only admins can grant boosts");
+    }
+
+    const post = await Post.findById(
+      input.postId,
+      "authorId agencyId assignedAgentId status"
+    );
+    if (!post) {
+      throw new Error("Post not found");
+    }
+    if (!(await AgencyService.canManagePost(post, userId, userRole))) {
+      throw new Error("You do not have permission to boost this post");
+    }
+    if (post.status !== "approved") {
+      throw new Error("Only approved posts can be boosted");
+    }
+
+    const now = new Date();
+    const startsAt =
+      input.startsAt && input.startsAt > now ? input.startsAt : now;
+    const endsAt = new Date(startsAt.getTime() + input.durationDays * DAY_MS);
+
+    await this.assertNoOverlap(
+      post._id as mongoose.Types.ObjectId,
+      input.type,
+      startsAt,
+      endsAt
+    );
+
+    const boost = await PostBoost.create({
+      postId: post._id,
+      userId: new mongoose.Types.ObjectId(userId),
+      type: input.type,
+      status: isAdmin ? "scheduled" : "pending_payment",
+      startsAt,
+      endsAt,
+      ...(!isAdmin && {
+        paymentDueAt: new Date(
+          now.getTime() + config.boosts.paymentHoldHours * HOUR_MS
+        ),
+      }),
+      purchase: {
+        amount:
+          input.paymentMethod === "admin_grant"
+            ? 0
+            : this.quote(input.type, input.durationDays),
+        currency: "LAK",
+        durationDays: input.durationDays,
+        paymentMethod: input.paymentMethod,
+        paymentReference: input.paymentReference,
+        purchasedAt: now,
+        ...(isAdmin && {
+          paidAt: now,
+          confirmedBy: new mongoose.Types.ObjectId(userId),
+        }),
+      },
+    });
+
+    // เริ่มทันทีถ้าไม่ได้ตั้งเวลาล่วงหน้า
+    if (isAdmin && startsAt <= now) {
+      await this.runScheduler();
+      return (await PostBoost.findById(boost._id)) || boost;
+    }
+
+    return boost;
+  }
+
+  // boost ประเภทเดียวกันซ้อนช่วงเวลากันไม่ได้ (รวมที่รอชำระเงินและยังไม่หมดเวลารอ)
+  private static async assertNoOverlap(
+    postId: mongoose.Types.ObjectId,
+    type: BoostType,
+    startsAt: Date,
+    endsAt: Date,
+    excludeId?: mongoose.Types.ObjectId
+  ): Promise<void> {
+    const overlapping = await PostBoost.exists({
+      postId,
+      type,
+      $or: [
+        { status: { $in: ["scheduled", "active"] } },
+        {
+          status: "pending_payment",
+          paymentDueAt: { $not: { $lte: new Date() } },
+        },
+      ],
+      startsAt: { $lt: endsAt },
+      endsAt: { $gt: startsAt },
+      ...(excludeId && { _id: { $ne: excludeId } }),
+    });
+    if (overlapping) {
+      throw new Error(`Post already has a ${type} boost in this period`);
+    }
+  }
+
+  // ยืนยันการชำระเงิน (admin หรือ payment callback) แล้วตั้งเวลา/เริ่ม boost
+  // ถ้าเวลาเริ่มที่เลือกไว้ผ่านไปแล้ว จะเริ่มนับจำนวนวันใหม่ตั้งแต่ตอนยืนยัน
+  // ถ้าหมดเวลารอชำระเงินแล้ว ช่วงเวลาต้องยังว่างอยู่
+  static async confirmPayment(
+    boostId: string,
+    input: ConfirmPaymentInput,
+    confirmedBy?: string
+  ): Promise<IPostBoost> {
+    if (!mongoose.Types.ObjectId.isValid(boostId)) {
+      throw new Error("Boost not found");
+    }
+
+    const boost = await PostBoost.findById(boostId);
+    if (!boost) {
+      throw new Error("Boost not found");
+    }
+    if (boost.status !== "pending_payment") {
+      throw new Error("Boost is not awaiting payment");
+    }
+    if (input.amount !== undefined && input.amount < boost.purchase.amount) {
+      throw new Error("Paid amount is less than the boost price");
+    }
+
+    const now = new Date();
+    const holdExpired = !!boost.paymentDueAt && boost.paymentDueAt <= now;
+    const startPassed = boost.startsAt < now;
+    if (startPassed) {
+      boost.startsAt = now;
+      boost.endsAt = new Date(
+        now.getTime() + boost.purchase.durationDays * DAY_MS
+      );
+    }
+    if (startPassed || holdExpired) {
+      await this.assertNoOverlap(
+        boost.postId,
+        boost.type,
+        boost.startsAt,
+        boost.endsAt,
+        boost._id as mongoose.Types.ObjectId
+      );
+    }
+
+    boost.status = "scheduled";
+    boost.purchase.paidAt = now;
+    if (input.paymentReference) {
+      boost.purchase.paymentReference = input.paymentReference;
+    }
+    if (confirmedBy) {
+      boost.purchase.confirmedBy = new mongoose.Types.ObjectId(confirmedBy);
+    }
+    await boost.save();
+
+    if (boost.startsAt <= now) {
+      await this.runScheduler();
+      return (await PostBoost.findById(boost._id)) || boost;
+    }
+
+    return boost;
+  }
+
+  // ยกเลิก boost (admin ได้ทุกสถานะที่ยังไม่จบ, เจ้าของยกเลิกได้เฉพาะที่ยังไม่เริ่ม)
+  static async cancelBoost(
+    boostId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IPostBoost> {
+    if (!mongoose.Types.ObjectId.isValid(boostId)) {
+      throw new Error("Boost not found");
+    }
+
+    const boost = await PostBoost.findById(boostId);
+    if (!boost) {
+      throw new Error("Boost not found");
+    }
+
+    const isAdmin = userRole === "admin";
+    if (boost.userId.toString() !== userId && !isAdmin) {
+      throw new Error("You do not have permission to cancel this boost");
+    }
+    if (boost.status === "expired" || boost.status === "cancelled") {
+      throw new Error("Boost has already ended");
+    }
+    if (boost.status === "active" && !isAdmin) {
+      throw new Error("Active boosts can only be cancelled by an admin");
+    }
+
+    boost.status = "cancelled";
+    boost.endedAt = new Date();
+    boost.cancelledBy = new mongoose.Types.ObjectId(userId);
+    await boost.save();
+
+    await this.syncPostBoosts([boost.postId]);
+
+    return boost;
+  }
+
+  // ยอดเข้าชมโพสต์ระหว่างช่วง boost (ยังไม่เริ่ม = 0)
+  private static async withStats(
+    boosts: IPostBoost[]
+  ): Promise<BoostWithStats[]> {
+    const now = new Date();
+
+    return Promise.all(
+      boosts.map(async (boost) => {
+        const from = boost.activatedAt || boost.startsAt;
+        const to = boost.endedAt || (boost.endsAt < now ? boost.endsAt : now);
+        const viewsDuringBoost =
+          boost.status === "pending_payment" ||
+          boost.status === "scheduled" ||
+          from >= to
+            ? 0
+            : await ViewHistory.countDocuments({
+                // postId อาจถูก populate แล้ว
+                postId:
+                  (boost.postId as { _id?: mongoose.Types.ObjectId })._id ||
+                  boost.postId,
+                viewedAt: { $gte: from, $lt: to },
+              });
+
+        return { boost, viewsDuringBoost };
+      })
+    );
+  }
+
+  // boost ที่ผู้ใช้ซื้อ พร้อม impressions และยอดเข้าชมระหว่าง boost
+  static async getUserBoosts(
+    userId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ boosts: BoostWithStats[]; total: number }> {
+    const query = { userId: new mongoose.Types.ObjectId(userId) };
+
+    const [boosts, total] = await Promise.all([
+      PostBoost.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("postId", "title price currency media status"),
+      PostBoost.countDocuments(query),
+    ]);
+
+    return { boosts: await this.withStats(boosts), total };
+  }
+
+  // boost ทั้งหมดของโพสต์ (เจ้าของโพสต์หรือ admin)
+  static async getPostBoosts(
+    postId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<BoostWithStats[]> {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new Error("Post not found");
+    }
+
+    const post = await Post.findById(
+      postId,
+      "authorId agencyId assignedAgentId"
+    );
+    if (!post) {
+      throw new Error("Post not found");
+    }
+    if (!(await AgencyService.canManagePost(post, userId, userRole))) {
+      throw new Error("You do not have permission to view this post's boosts");
+    }
+
+    const boosts = await PostBoost.find({ postId: post._id }).sort({
+      startsAt: -1,
+    });
+    return this.withStats(boosts);
+  }
+
+  // รายการ boost ทั้งหมด (Admin)
+  static async getAllBoosts(
+    page: number = 1,
+    limit: number = 20,
+    status?: string
+  ): Promise<{ boosts: IPostBoost[]; total: number }> {
+    const query: any = {};
+    if (status) query.status = status;
+
+    const [boosts, total] = await Promise.all([
+      PostBoost.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("postId", "title status")
+        .populate("userId", "name email"),
+      PostBoost.countDocuments(query),
+    ]);
+
+    return { boosts, total };
+  }
+
+  // นับ impression ให้ boost ที่ใช้งานอยู่ของโพสต์ที่แสดงในผลค้นหา/ฟีด
+  static async recordImpressions(
+    posts: any[],
+    placement: BoostPlacement
+  ): Promise<void> {
+    const postIds = posts
+      .filter((post) => post?.boostRanks?.[placement] > 0)
+      .map((post) => post._id);
+    if (postIds.length === 0) return;
+
+    const types = BOOST_TYPES.filter(
+      (type) => BOOST_RANKS[placement][type] > 0
+    );
+    await PostBoost.updateMany(
+      { postId: { $in: postIds }, status: "active", type: { $in: types } },
+      { $inc: { impressions: 1 } }
+    );
+  }
+
+  // คำนวณ featured/urgent/boostRanks ของโพสต์ใหม่จาก boost ที่ใช้งานอยู่
+  static async syncPostBoosts(
+    postIds: mongoose.Types.ObjectId[]
+  ): Promise<void> {
+    if (postIds.length === 0) return;
+
+    const active = await PostBoost.find(
+      { postId: { $in: postIds }, status: "active" },
+      "postId type"
+    ).lean();
+
+    const typesByPost = new Map<string, Set<BoostType>>();
+    active.forEach((boost) => {
+      const key = boost.postId.toString();
+      const types = typesByPost.get(key) || new Set<BoostType>();
+      types.add(boost.type);
+      typesByPost.set(key, types);
+    });
+
+    const rankFor = (types: Set<BoostType>, placement: BoostPlacement) =>
+      Math.max(0, ...[...types].map((type) => BOOST_RANKS[placement][type]));
+
+    await Post.bulkWrite(
+      postIds.map((postId) => {
+        const types = typesByPost.get(postId.toString()) || new Set();
+        return {
+          updateOne: {
+            filter: { _id: postId },
+            update: {
+              $set: {
+                featured: types.has("featured"),
+                urgent: types.has("urgent"),
+                boostRanks: {
+                  search: rankFor(types, "search"),
+                  feed: rankFor(types, "feed"),
+                },
+              },
+            },
+          },
+        };
+      })
+    );
+  }
+
+  // เริ่ม boost ที่ถึงเวลา
+  static async activateDueBoosts(): Promise<IPostBoost[]> {
+    const now = new Date();
+    const due = await PostBoost.find({
+      status: "scheduled",
+      startsAt: { $lte: now },
+      endsAt: { $gt: now },
+    });
+    if (due.length === 0) return [];
+
+    await PostBoost.updateMany(
+      { _id: { $in: due.map((boost) => boost._id) }, status: "scheduled" },
+      { $set: { status: "active", activatedAt: now } }
+    );
+
+    for (const boost of due) {
+      emitToUser(boost.userId.toString(), "boost_started", {
+        boostId: boost._id,
+        postId: boost.postId,
+        type: boost.type,
+        endsAt: boost.endsAt,
+      });
+    }
+
+    return due;
+  }
+
+  // จบ boost ที่หมดเวลา (รวมที่ตั้งเวลาไว้แต่เลยช่วงไปแล้ว)
+  static async expireEndedBoosts(): Promise<IPostBoost[]> {
+    const now = new Date();
+
+    // ยังไม่ชำระเงินจนหมดเวลารอ หรือเลยช่วง boost: ยกเลิก
+    await PostBoost.updateMany(
+      {
+        status: "pending_payment",
+        $or: [{ paymentDueAt: { $lte: now } }, { endsAt: { $lte: now } }],
+      },
+      { $set: { status: "cancelled", endedAt: now } }
+    );
+
+    const ended = await PostBoost.find({
+      status: { $in: ["scheduled", "active"] },
+      endsAt: { $lte: now },
+    });
+    if (ended.length === 0) return [];
+
+    await PostBoost.updateMany(
+      {
+        _id: { $in: ended.map((boost) => boost._id) },
+        status: { $in: ["scheduled", "active"] },
+      },
+      { $set: { status: "expired", endedAt: now } }
+    );
+
+    for (const boost of ended) {
+      emitToUser(boost.userId.toString(), "boost_ended", {
+        boostId: boost._id,
+        postId: boost.postId,
+        type: boost.type,
+        impressions: boost.impressions,
+      });
+    }
+
+    return ended;
+  }
+
+  // รอบการทำงานของ scheduler: จบ boost เก่า เริ่ม boost ใหม่ แล้วอัปเดตโพสต์ที่เกี่ยวข้อง
+  static async runScheduler(): Promise<BoostRunResult> {
+    const expired = await this.expireEndedBoosts();
+    const activated = await this.activateDueBoosts();
+
+    const postIds = new Map<string, mongoose.Types.ObjectId>();
+    [...expired, ...activated].forEach((boost) =>
+      postIds.set(boost.postId.toString(), boost.postId)
+    );
+    await this.syncPostBoosts([...postIds.values()]);
+
+    return { activated: activated.length, expired: expired.length };
+  }
+
+  // เริ่ม scheduler (เรียกหลังเชื่อมต่อฐานข้อมูลแล้ว)
+  static startScheduler(): void {
+    if (schedulerTimer) return;
+
+    const run = () =>
+      this.runScheduler()
+        .then((result) => {
+          if (result.activated || result.expired) {
+            console.log("🚀 Listing boosts:", result);
+          }
+        })
+        .catch((error) => console.error("Boost scheduler error:", error));
+
+    run();
+    schedulerTimer = setInterval(run, config.boosts.schedulerIntervalMs);
+  }
+
+  static stopScheduler(): void {
+    if (schedulerTimer) {
+      clearInterval(schedulerTimer);
+      schedulerTimer = null;
+    }
+  }
+}
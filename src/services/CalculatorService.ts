@@ -0,0 +1,447 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import { Post } from "@/models/Post";
+import { BankRatePreset, IBankRatePreset } from "@/models/BankRatePreset";
+import {
+  BASE_CURRENCY,
+  CurrencyCode,
+  CurrencyService,
+} from "@/services/CurrencyService";
+
+export interface MortgageInput {
+  postId?: string;
+  price?: number;
+  currency?: string;
+  downPayment?: number;
+  downPaymentPercent?: number;
+  annualRate?: number; // %
+  termYears?: number;
+  presetId?: string;
+}
+
+export interface RentalInput {
+  postId?: string;
+  monthlyRent?: number;
+  currency?: string;
+  deposit?: number; // ระบุเป็นจำนวนเงินแทน depositMonths ได้
+  depositMonths?: number;
+  advanceMonths?: number;
+  otherFees?: number;
+}
+
+export interface AmortizationRow {
+  month: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+export interface CalculationSource {
+  postId: string;
+  title: string;
+}
+
+export interface MortgageResult {
+  source?: CalculationSource;
+  price: number;
+  currency: CurrencyCode;
+  downPayment: number;
+  downPaymentPercent: number;
+  loanAmount: number;
+  annualRate: number;
+  termYears: number;
+  termMonths: number;
+  monthlyPayment: number;
+  totalPayment: number;
+  totalInterest: number;
+  preset?: { _id: string; bankName: string; productName?: string };
+  schedule: AmortizationRow[];
+  warnings: string[];
+}
+
+export interface MoveInCostResult {
+  source?: CalculationSource;
+  monthlyRent: number;
+  currency: CurrencyCode;
+  depositMonths: number | null; // null = ระบุเงินมัดจำเป็นจำนวนเงิน
+  deposit: number;
+  advanceMonths: number;
+  advanceRent: number;
+  otherFees: number;
+  totalMoveInCost: number;
+}
+
+export interface BankRatePresetInput {
+  bankName?: string;
+  productName?: string;
+  annualRate?: number;
+  currency?: string;
+  maxTermYears?: number;
+  minDownPaymentPercent?: number;
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+// สถานะที่ผู้อื่นใช้คำนวณได้ (เจ้าของโพสต์คำนวณโพสต์ตัวเองได้ทุกสถานะ)
+const PUBLIC_STATUSES = ["approved", "sold", "rented"];
+
+const PRESET_FIELDS: (keyof BankRatePresetInput)[] = [
+  "bankName",
+  "productName",
+  "annualRate",
+  "currency",
+  "maxTermYears",
+  "minDownPaymentPercent",
+  "isActive",
+  "sortOrder",
+];
+
+export class CalculatorService {
+  // ดึงราคา/สกุลเงินจากโพสต์ที่ผู้ใช้เปิดดูได้
+  private static async findPost(postId: string, viewerId?: string) {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new Error("Invalid post ID");
+    }
+
+    const visibility: any[] = [{ status: { $in: PUBLIC_STATUSES } }];
+    if (viewerId) {
+      visibility.push({ authorId: new mongoose.Types.ObjectId(viewerId) });
+    }
+
+    const post = await Post.findOne(
+      { _id: new mongoose.Types.ObjectId(postId), $or: visibility },
+      "title price currency listingType"
+    ).lean();
+    if (!post) {
+      throw new Error("Post not found");
+    }
+    return post;
+  }
+
+  private static async findActivePreset(
+    presetId: string
+  ): Promise<IBankRatePreset> {
+    if (!mongoose.Types.ObjectId.isValid(presetId)) {
+      throw new Error("Invalid preset ID");
+    }
+    const preset = await BankRatePreset.findOne({
+      _id: presetId,
+      isActive: true,
+    });
+    if (!preset) {
+      throw new Error("Bank rate preset not found");
+    }
+    return preset;
+  }
+
+  // ค่างวดรายเดือนแบบผ่อนเท่ากันทุกงวด (ดอกเบี้ย 0% = แบ่งเงินต้นเท่ากัน)
+  static monthlyPayment(
+    loanAmount: number,
+    annualRate: number,
+    termMonths: number
+  ): number {
+    if (loanAmount <= 0) return 0;
+    const monthlyRate = annualRate / 100 / 12;
+    if (monthlyRate === 0) return loanAmount / termMonths;
+    return (
+      (loanAmount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths))
+    );
+  }
+
+  // ตารางผ่อนชำระรายเดือน (งวดสุดท้ายปรับให้ยอดคงเหลือเป็น 0 พอดี)
+  static buildSchedule(
+    loanAmount: number,
+    annualRate: number,
+    termMonths: number,
+    currency: CurrencyCode
+  ): AmortizationRow[] {
+    const monthlyRate = annualRate / 100 / 12;
+    const payment = this.monthlyPayment(loanAmount, annualRate, termMonths);
+    const schedule: AmortizationRow[] = [];
+    let balance = loanAmount;
+
+    for (let month = 1; month <= termMonths && loanAmount > 0; month++) {
+      const interest = balance * monthlyRate;
+      const principal =
+        month === termMonths ? balance : Math.min(payment - interest, balance);
+      balance -= principal;
+
+      schedule.push({
+        month,
+        payment: CurrencyService.round(principal + interest, currency),
+        principal: CurrencyService.round(principal, currency),
+        interest: CurrencyService.round(interest, currency),
+        balance: CurrencyService.round(Math.max(balance, 0), currency),
+      });
+    }
+
+    return schedule;
+  }
+
+  // คำนวณสินเชื่อบ้าน จากโพสต์ขาย (postId) หรือราคาที่กรอกเอง
+  static async calculateMortgage(
+    input: MortgageInput,
+    viewerId?: string
+  ): Promise<MortgageResult> {
+    const warnings: string[] = [];
+    let source: CalculationSource | undefined;
+    let price: number;
+    let currency: CurrencyCode;
+
+    if (input.postId) {
+      const post = await this.findPost(input.postId, viewerId);
+      if (post.listingType !== "sell") {
+        throw new Error(
+          "Mortgage calculation is only available for sale listings"
+        );
+      }
+      source = { postId: post._id.toString(), title: post.title };
+      price = post.price;
+      currency = post.currency || BASE_CURRENCY;
+    } else {
+      if (!input.price || input.price <= 0) {
+        throw new Error("Price or post ID is required");
+      }
+      price = input.price;
+      currency = CurrencyService.parseCurrency(input.currency) || BASE_CURRENCY;
+    }
+
+    const preset = input.presetId
+      ? await this.findActivePreset(input.presetId)
+      : undefined;
+
+    const annualRate =
+      input.annualRate ??
+      preset?.annualRate ??
+      config.calculator.defaultAnnualRate;
+    if (!(annualRate >= 0) || annualRate > 100) {
+      throw new Error("Interest rate must be between 0 and 100");
+    }
+
+    const termYears = input.termYears ?? config.calculator.defaultTermYears;
+    if (
+      !Number.isInteger(termYears) ||
+      termYears < 1 ||
+      termYears > config.calculator.maxTermYears
+    ) {
+      throw new Error(
+        `Term must be between 1 and ${config.calculator.maxTermYears} years`
+      );
+    }
+
+    const downPayment = CurrencyService.round(
+      input.downPayment ??
+        (price *
+          (input.downPaymentPercent ??
+            preset?.minDownPaymentPercent ??
+            config.calculator.defaultDownPaymentPercent)) /
+          100,
+      currency
+    );
+    if (!(downPayment >= 0) || downPayment >= price) {
+      throw new Error("Down payment must be less than the price");
+    }
+
+    const downPaymentPercent =
+      Math.round((downPayment / price) * 100 * 100) / 100;
+
+    if (preset) {
+      if (
+        preset.minDownPaymentPercent !== undefined &&
+        downPaymentPercent < preset.minDownPaymentPercent
+      ) {
+        warnings.push(
+          `${preset.bankName} requires at least ${preset.minDownPaymentPercent}% down payment`
+        );
+      }
+      if (
+        preset.maxTermYears !== undefined &&
+        termYears > preset.maxTermYears
+      ) {
+        warnings.push(
+          `${preset.bankName} offers terms up to ${preset.maxTermYears} years`
+        );
+      }
+      if (preset.currency !== currency) {
+        warnings.push(
+          `${preset.bankName} rate is for ${preset.currency} loans; listing is priced in ${currency}`
+        );
+      }
+    }
+
+    const loanAmount = CurrencyService.round(price - downPayment, currency);
+    const termMonths = termYears * 12;
+    const schedule = this.buildSchedule(
+      loanAmount,
+      annualRate,
+      termMonths,
+      currency
+    );
+
+    const totalPayment = schedule.reduce((sum, row) => sum + row.payment, 0);
+
+    return {
+      source,
+      price,
+      currency,
+      downPayment,
+      downPaymentPercent,
+      loanAmount,
+      annualRate,
+      termYears,
+      termMonths,
+      monthlyPayment: CurrencyService.round(
+        this.monthlyPayment(loanAmount, annualRate, termMonths),
+        currency
+      ),
+      totalPayment: CurrencyService.round(totalPayment, currency),
+      totalInterest: CurrencyService.round(totalPayment - loanAmount, currency),
+      preset: preset
+        ? {
+            _id: String(preset._id),
+            bankName: preset.bankName,
+            productName: preset.productName,
+          }
+        : undefined,
+      schedule,
+      warnings,
+    };
+  }
+
+  // ค่าใช้จ่ายวันย้ายเข้า = เงินมัดจำ + ค่าเช่าล่วงหน้า + ค่าธรรมเนียมอื่น
+  static async calculateMoveInCost(
+    input: RentalInput,
+    viewerId?: string
+  ): Promise<MoveInCostResult> {
+    let source: CalculationSource | undefined;
+    let monthlyRent: number;
+    let currency: CurrencyCode;
+
+    if (input.postId) {
+      const post = await this.findPost(input.postId, viewerId);
+      if (post.listingType !== "rent") {
+        throw new Error("Move-in cost is only available for rental listings");
+      }
+      source = { postId: post._id.toString(), title: post.title };
+      monthlyRent = post.price;
+      currency = post.currency || BASE_CURRENCY;
+    } else {
+      if (!input.monthlyRent || input.monthlyRent <= 0) {
+        throw new Error("Monthly rent or post ID is required");
+      }
+      monthlyRent = input.monthlyRent;
+      currency = CurrencyService.parseCurrency(input.currency) || BASE_CURRENCY;
+    }
+
+    const depositMonths =
+      input.deposit !== undefined
+        ? null
+        : (input.depositMonths ?? config.calculator.rentalDepositMonths);
+    const advanceMonths =
+      input.advanceMonths ?? config.calculator.rentalAdvanceMonths;
+    const otherFees = input.otherFees ?? 0;
+
+    if (
+      (depositMonths !== null && depositMonths < 0) ||
+      (input.deposit !== undefined && input.deposit < 0) ||
+      advanceMonths < 0 ||
+      otherFees < 0
+    ) {
+      throw new Error("Deposit, advance months and fees cannot be negative");
+    }
+
+    const deposit = CurrencyService.round(
+      input.deposit ?? monthlyRent * (depositMonths ?? 0),
+      currency
+    );
+    const advanceRent = CurrencyService.round(
+      monthlyRent * advanceMonths,
+      currency
+    );
+
+    return {
+      source,
+      monthlyRent,
+      currency,
+      depositMonths,
+      deposit,
+      advanceMonths,
+      advanceRent,
+      otherFees,
+      totalMoveInCost: CurrencyService.round(
+        deposit + advanceRent + otherFees,
+        currency
+      ),
+    };
+  }
+
+  // รายการอัตราดอกเบี้ยธนาคาร (ผู้ใช้ทั่วไปเห็นเฉพาะที่เปิดใช้งาน)
+  static async getPresets(
+    includeInactive: boolean = false
+  ): Promise<IBankRatePreset[]> {
+    const filter = includeInactive ? {} : { isActive: true };
+    return BankRatePreset.find(filter)
+      .sort({ sortOrder: 1, annualRate: 1 })
+      .lean<IBankRatePreset[]>();
+  }
+
+  private static pickPresetFields(data: BankRatePresetInput): any {
+    const fields: any = {};
+    PRESET_FIELDS.forEach((key) => {
+      if (data[key] !== undefined) fields[key] = data[key];
+    });
+    if (fields.currency) {
+      fields.currency = CurrencyService.parseCurrency(fields.currency);
+      if (!fields.currency) throw new Error("Unsupported currency");
+    }
+    return fields;
+  }
+
+  static async createPreset(
+    data: BankRatePresetInput,
+    adminId: string
+  ): Promise<IBankRatePreset> {
+    const preset = new BankRatePreset({
+      ...this.pickPresetFields(data),
+      updatedBy: new mongoose.Types.ObjectId(adminId),
+    });
+    return preset.save();
+  }
+
+  static async updatePreset(
+    presetId: string,
+    data: BankRatePresetInput,
+    adminId: string
+  ): Promise<IBankRatePreset> {
+    if (!mongoose.Types.ObjectId.isValid(presetId)) {
+      throw new Error("Invalid preset ID");
+    }
+
+    const preset = await BankRatePreset.findByIdAndUpdate(
+      presetId,
+      {
+        $set: {
+          ...this.pickPresetFields(data),
+          updatedBy: new mongoose.Types.ObjectId(adminId),
+        },
+      },
+      { new: true, runValidators: true }
+    );
+    if (!preset) {
+      throw new Error("Bank rate preset not found");
+    }
+    return preset;
+  }
+
+  static async deletePreset(presetId: string): Promise<void> {
+    if (!mongoose.Types.ObjectId.isValid(presetId)) {
+      throw new Error("Invalid preset ID");
+    }
+
+    const deleted = await BankRatePreset.findByIdAndDelete(presetId);
+    if (!deleted) {
+      throw new Error("Bank rate preset not found");
+    }
+  }
+}
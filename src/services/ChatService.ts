@@ -1,7 +1,8 @@
 import { Types } from 'mongoose'
 import { Chat, IChat, IMessage } from '@/models/Chat'
 import { Post } from '@/models/Post'
-import { User } from '@/models/User'
+import { CursorPagination, CursorPage } from '@/utils/cursor'
+import { AgencyService } from '@/services/AgencyService'
 
 export class ChatService {
   
@@ -16,7 +17,8 @@ export class ChatService {
         throw new Error('Post not found')
       }
 
-      const posterId = post.authorId.toString()
+      // ประกาศของเอเจนซี่ส่งแชทไปยังตัวแทนที่ดูแล
+      const posterId = AgencyService.getContactUserId(post)
 
       // Don't allow user to chat with themselves
       if (userId === posterId) {
@@ -118,6 +120,51 @@ export class ChatService {
     }
   }
 
+  /**
+   * Get user's chat list using cursor pagination (most recent activity first)
+   */
+  static async getUserChatsByCursor(
+    userId: string,
+    filters: {
+      status?: string
+      limit?: number
+      cursor?: string
+    } = {}
+  ): Promise<CursorPage<any>> {
+    try {
+      const { status = 'active', limit = 20, cursor } = filters
+
+      const filter: any = {
+        'participants.user': userId,
+        ...CursorPagination.buildQuery('lastMessageAt', -1, cursor)
+      }
+
+      if (status && status !== 'all') {
+        filter.status = status
+      }
+
+      const chats = await Chat.find(filter)
+        .populate('participants.user', 'username email avatar')
+        .populate('post', 'title price location images')
+        .sort(CursorPagination.buildSort('lastMessageAt', -1))
+        .limit(limit + 1)
+
+      const page = CursorPagination.buildPage(chats, limit, 'lastMessageAt')
+
+      return {
+        items: page.items.map(chat => ({
+          ...chat.toObject(),
+          unreadCount: chat.unreadCount ? ((chat.unreadCount as any).get(userId) || 0) : 0,
+          latestMessage: chat.messages.length > 0 ? chat.messages[chat.messages.length - 1] : null
+        })),
+        cursor: page.cursor
+      }
+    } catch (error) {
+      console.error('ChatService.getUserChatsByCursor error:', error)
+      throw error
+    }
+  }
+
   /**
    * Get chat by ID with message pagination
    */
@@ -0,0 +1,215 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import { ExchangeRate, IExchangeRate } from "@/models/ExchangeRate";
+import { Post } from "@/models/Post";
+
+export const SUPPORTED_CURRENCIES = ["LAK", "THB", "USD"] as const;
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+// สกุลเงินหลักที่ใช้เก็บ basePrice (อัตรา = 1 เสมอ)
+export const BASE_CURRENCY: CurrencyCode = "LAK";
+
+export interface ConvertedPrice {
+  amount: number;
+  currency: CurrencyCode;
+  rate: number; // หน่วยของ currency ต่อ 1 หน่วยของสกุลเงินเดิม
+}
+
+export interface ExchangeRateInfo {
+  currency: CurrencyCode;
+  rate: number; // กีบต่อ 1 หน่วย
+  isDefault: boolean; // ยังไม่มีการตั้งค่าโดย admin
+  updatedAt?: Date;
+}
+
+let refreshTimer: NodeJS.Timeout | null = null;
+
+export class CurrencyService {
+  // อัตราแลกเปลี่ยนล่าสุด (cache ในหน่วยความจำ ให้ query builder ใช้ได้แบบ sync)
+  private static rates: Record<CurrencyCode, number> = {
+    LAK: 1,
+    ...config.currency.defaultRates,
+  };
+
+  static isSupported(currency: unknown): currency is CurrencyCode {
+    return SUPPORTED_CURRENCIES.includes(currency as CurrencyCode);
+  }
+
+  // แปลงค่าจาก query/body เป็นรหัสสกุลเงิน (ไม่รองรับ = undefined)
+  static parseCurrency(value: unknown): CurrencyCode | undefined {
+    if (typeof value !== "string") return undefined;
+    const currency = value.trim().toUpperCase();
+    return this.isSupported(currency) ? currency : undefined;
+  }
+
+  static getRate(currency: CurrencyCode = BASE_CURRENCY): number {
+    return this.rates[currency] ?? 1;
+  }
+
+  // ปัดตามหน่วยย่อยของสกุลเงิน (กีบไม่มีทศนิยม)
+  static round(amount: number, currency: CurrencyCode): number {
+    return currency === "LAK"
+      ? Math.round(amount)
+      : Math.round(amount * 100) / 100;
+  }
+
+  // แปลงเป็นกีบสำหรับเก็บใน basePrice
+  static toBase(
+    amount: number,
+    currency: CurrencyCode = BASE_CURRENCY
+  ): number {
+    return this.round(amount * this.getRate(currency), BASE_CURRENCY);
+  }
+
+  static convert(amount: number, from: CurrencyCode, to: CurrencyCode): number {
+    if (from === to) return amount;
+    return this.round((amount * this.getRate(from)) / this.getRate(to), to);
+  }
+
+  // ราคาที่แปลงแล้วสำหรับแสดงผล
+  static convertPrice(
+    amount: number,
+    from: CurrencyCode = BASE_CURRENCY,
+    to: CurrencyCode
+  ): ConvertedPrice {
+    return {
+      amount: this.convert(amount, from, to),
+      currency: to,
+      rate: this.getRate(from) / this.getRate(to),
+    };
+  }
+
+  // โหลดอัตราจากฐานข้อมูลเข้า cache (สกุลที่ยังไม่ตั้งค่าใช้ค่าเริ่มต้นจาก config)
+  static async loadRates(): Promise<void> {
+    const stored = await ExchangeRate.find().lean();
+    const rates: Record<CurrencyCode, number> = {
+      LAK: 1,
+      ...config.currency.defaultRates,
+    };
+    stored.forEach((item) => {
+      rates[item.currency] = item.rate;
+    });
+    this.rates = rates;
+  }
+
+  // อัตราแลกเปลี่ยนทั้งหมด
+  static async getRates(): Promise<ExchangeRateInfo[]> {
+    const stored = await ExchangeRate.find().lean();
+    const byCurrency = new Map(stored.map((item) => [item.currency, item]));
+
+    return SUPPORTED_CURRENCIES.map((currency) => {
+      if (currency === BASE_CURRENCY) {
+        return { currency, rate: 1, isDefault: false };
+      }
+      const item = byCurrency.get(currency as IExchangeRate["currency"]);
+      return item
+        ? {
+            currency,
+            rate: item.rate,
+            isDefault: false,
+            updatedAt: item.updatedAt,
+          }
+        : {
+            currency,
+            rate: config.currency.defaultRates[
+              currency as IExchangeRate["currency"]
+            ],
+            isDefault: true,
+          };
+    });
+  }
+
+  // ตั้งอัตราแลกเปลี่ยนใหม่ แล้วคำนวณ basePrice ของโพสต์ในสกุลเงินนั้นใหม่
+  static async updateRate(
+    currency: string,
+    rate: number,
+    adminId: string
+  ): Promise<{ rate: IExchangeRate; updatedPosts: number }> {
+    if (!this.isSupported(currency)) {
+      throw new Error("Unsupported currency");
+    }
+    if (currency === BASE_CURRENCY) {
+      throw new Error("Base currency rate cannot be changed");
+    }
+    if (!(rate > 0)) {
+      throw new Error("Rate must be greater than 0");
+    }
+
+    const updated = await ExchangeRate.findOneAndUpdate(
+      { currency },
+      {
+        $set: {
+          rate,
+          updatedBy: new mongoose.Types.ObjectId(adminId),
+        },
+      },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    this.rates[currency] = rate;
+    const updatedPosts = await this.recalculateBasePrices(currency);
+
+    return { rate: updated, updatedPosts };
+  }
+
+  // คำนวณ basePrice ใหม่จาก price × อัตรา (ทำใน MongoDB ครั้งเดียว)
+  static async recalculateBasePrices(
+    currency: CurrencyCode,
+    onlyMissing: boolean = false
+  ): Promise<number> {
+    const filter: any = { currency, price: { $ne: null } };
+    if (onlyMissing) filter.basePrice = { $exists: false };
+
+    const result = await Post.updateMany(filter, [
+      {
+        $set: {
+          basePrice: {
+            $round: [{ $multiply: ["$price", this.getRate(currency)] }, 0],
+          },
+        },
+      },
+    ]);
+
+    return result.modifiedCount;
+  }
+
+  // เติม currency/basePrice ให้โพสต์ที่สร้างก่อนมีระบบหลายสกุลเงิน
+  static async backfillBasePrices(): Promise<number> {
+    await Post.updateMany(
+      { currency: { $exists: false } },
+      { $set: { currency: BASE_CURRENCY } }
+    );
+
+    let updated = 0;
+    for (const currency of SUPPORTED_CURRENCIES) {
+      updated += await this.recalculateBasePrices(currency, true);
+    }
+    return updated;
+  }
+
+  // โหลดอัตรา + เติมข้อมูลเก่า และรีเฟรช cache เป็นระยะ (กรณีรันหลาย instance)
+  static async initialize(): Promise<void> {
+    await this.loadRates();
+
+    const backfilled = await this.backfillBasePrices();
+    if (backfilled > 0) {
+      console.log(`💱 Backfilled base prices for ${backfilled} posts`);
+    }
+
+    if (refreshTimer) return;
+    refreshTimer = setInterval(
+      () =>
+        this.loadRates().catch((error) =>
+          console.error("Exchange rate refresh error:", error)
+        ),
+      config.currency.refreshIntervalMs
+    );
+  }
+
+  static stopRefresh(): void {
+    if (refreshTimer) {
+      clearInterval(refreshTimer);
+      refreshTimer = null;
+    }
+  }
+}
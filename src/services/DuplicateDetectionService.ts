@@ -0,0 +1,216 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import { Post } from "@/models/Post";
+import { PostQueryHelper } from "./PostQueryHelper";
+
+const EARTH_RADIUS_METERS = 6378100;
+
+// น้ำหนักของแต่ละปัจจัยในคะแนนรวม (รวมกัน = 1)
+const WEIGHTS = {
+  location: 0.35,
+  text: 0.3,
+  price: 0.15,
+  area: 0.2,
+};
+
+export interface DuplicateCandidate {
+  title?: string;
+  description?: string;
+  price?: number;
+  area?: number;
+  propertyType?: string;
+  listingType?: string;
+  coordinates?: [number, number]; // [lng, lat]
+  authorId: string;
+  excludeId?: string; // ไม่เทียบกับตัวเอง (กรณี submit draft)
+}
+
+export interface DuplicateMatch {
+  postId: mongoose.Types.ObjectId;
+  score: number;
+  sameAuthor: boolean;
+  distance?: number; // เมตร
+  breakdown: {
+    location: number;
+    text: number;
+    price: number;
+    area: number;
+  };
+}
+
+export interface DuplicateCheckResult {
+  action: "allow" | "flag" | "block";
+  match?: DuplicateMatch;
+}
+
+export class DuplicateDetectionService {
+  private static hasCoordinates(coordinates?: [number, number]): boolean {
+    return (
+      Array.isArray(coordinates) &&
+      coordinates.length === 2 &&
+      !(coordinates[0] === 0 && coordinates[1] === 0)
+    );
+  }
+
+  // ตัดข้อความเป็น trigram (ใช้ได้กับภาษาลาว/ไทยที่ไม่มีช่องว่างระหว่างคำ)
+  private static trigrams(text: string = ""): Set<string> {
+    const normalized = text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim();
+    const grams = new Set<string>();
+    const padded = ` ${normalized} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+    return grams;
+  }
+
+  // ความคล้ายของข้อความ (Dice coefficient 0-1)
+  static textSimilarity(a?: string, b?: string): number {
+    if (!a || !b) return 0;
+    const gramsA = this.trigrams(a);
+    const gramsB = this.trigrams(b);
+    if (gramsA.size === 0 || gramsB.size === 0) return 0;
+
+    let shared = 0;
+    gramsA.forEach((gram) => {
+      if (gramsB.has(gram)) shared++;
+    });
+    return (2 * shared) / (gramsA.size + gramsB.size);
+  }
+
+  // ความใกล้เคียงของตัวเลข (1 = เท่ากัน)
+  private static numberSimilarity(a?: number, b?: number): number {
+    if (!a || !b || a <= 0 || b <= 0) return 0;
+    return Math.min(a, b) / Math.max(a, b);
+  }
+
+  // ความใกล้ของพิกัด (1 ภายใน 25 เมตร ลดลงเป็น 0 ที่ขอบรัศมี)
+  private static locationSimilarity(distance: number): number {
+    const radius = config.duplicateDetection.radiusMeters;
+    if (distance <= 25) return 1;
+    if (distance >= radius) return 0;
+    return 1 - (distance - 25) / (radius - 25);
+  }
+
+  // คำนวณคะแนนความซ้ำกับโพสต์ที่มีอยู่
+  static scorePost(candidate: DuplicateCandidate, post: any): DuplicateMatch {
+    const existingCoordinates = post.location?.coordinates?.coordinates;
+    let distance: number | undefined;
+    let location = 0;
+
+    if (
+      this.hasCoordinates(candidate.coordinates) &&
+      this.hasCoordinates(existingCoordinates)
+    ) {
+      const [lng, lat] = candidate.coordinates as [number, number];
+      distance = PostQueryHelper.calculateDistance(
+        lat,
+        lng,
+        existingCoordinates[1],
+        existingCoordinates[0]
+      );
+      location = this.locationSimilarity(distance);
+    }
+
+    const text =
+      this.textSimilarity(candidate.title, post.title) * 0.6 +
+      this.textSimilarity(candidate.description, post.description) * 0.4;
+    const price = this.numberSimilarity(candidate.price, post.price);
+    const area = this.numberSimilarity(candidate.area, post.area);
+
+    // ไม่มีพิกัดให้เทียบ: คิดคะแนนจากปัจจัยที่เหลือ
+    const score =
+      distance === undefined
+        ? (text * WEIGHTS.text + price * WEIGHTS.price + area * WEIGHTS.area) /
+          (1 - WEIGHTS.location)
+        : location * WEIGHTS.location +
+          text * WEIGHTS.text +
+          price * WEIGHTS.price +
+          area * WEIGHTS.area;
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    return {
+      postId: post._id,
+      score: round(score),
+      sameAuthor: post.authorId?.toString() === candidate.authorId,
+      distance,
+      breakdown: {
+        location: round(location),
+        text: round(text),
+        price: round(price),
+        area: round(area),
+      },
+    };
+  }
+
+  // ค้นหาโพสต์ที่น่าจะซ้ำ (เรียงจากคะแนนสูงสุด)
+  static async findDuplicates(
+    candidate: DuplicateCandidate
+  ): Promise<DuplicateMatch[]> {
+    const sources: any[] = [
+      { authorId: new mongoose.Types.ObjectId(candidate.authorId) },
+    ];
+
+    if (this.hasCoordinates(candidate.coordinates)) {
+      sources.push({
+        "location.coordinates": {
+          $geoWithin: {
+            $centerSphere: [
+              candidate.coordinates,
+              config.duplicateDetection.radiusMeters / EARTH_RADIUS_METERS,
+            ],
+          },
+        },
+      });
+    }
+
+    const query: any = {
+      status: { $in: ["pending", "approved", "expired"] },
+      $or: sources,
+    };
+    if (candidate.propertyType) query.propertyType = candidate.propertyType;
+    if (candidate.listingType) query.listingType = candidate.listingType;
+    if (candidate.excludeId) {
+      query._id = { $ne: new mongoose.Types.ObjectId(candidate.excludeId) };
+    }
+
+    const posts = await Post.find(
+      query,
+      "title description price area location.coordinates authorId status"
+    )
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .lean();
+
+    const { flagScore } = config.duplicateDetection;
+
+    return posts
+      .map((post) => this.scorePost(candidate, post))
+      .filter((match) => match.score >= flagScore)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // ตัดสินใจว่าจะอนุญาต ติด flag หรือบล็อกโพสต์ใหม่
+  // บล็อกเฉพาะกรณีผู้ใช้คนเดิมโพสต์ซ้ำ ส่วนคนอื่น (เช่น นายหน้าหลายราย) ให้ admin ตัดสิน
+  static async checkPost(
+    candidate: DuplicateCandidate
+  ): Promise<DuplicateCheckResult> {
+    const matches = await this.findDuplicates(candidate);
+    if (matches.length === 0) {
+      return { action: "allow" };
+    }
+
+    const ownRepost = matches.find(
+      (match) =>
+        match.sameAuthor && match.score >= config.duplicateDetection.blockScore
+    );
+    if (ownRepost) {
+      return { action: "block", match: ownRepost };
+    }
+
+    return { action: "flag", match: matches[0] };
+  }
+}
@@ -0,0 +1,249 @@
+import mongoose from "mongoose";
+import crypto from "crypto";
+import { config } from "@/config";
+import { Post, IPost } from "@/models/Post";
+import { PostTombstone, IPostTombstone } from "@/models/PostTombstone";
+import { FeedPartner, IFeedPartner } from "@/models/FeedPartner";
+import { SeoService } from "@/services/SeoService";
+import { CursorPagination } from "@/utils/cursor";
+import { FeedEntry, FeedListing, FeedTombstone } from "@/utils/feed";
+
+// สถานะที่ถือว่าประกาศถูกนำออกจาก feed (ส่งเป็น tombstone ในการดึงแบบ incremental)
+export const FEED_TOMBSTONE_STATUSES = [
+  "sold",
+  "rented",
+  "expired",
+  "archived",
+  "rejected",
+] as const;
+
+const CURSOR_FIELD = "updatedAt";
+const KEY_PREFIX = "feed_";
+
+export interface FeedQuery {
+  since?: Date; // ส่งเฉพาะรายการที่เปลี่ยนหลังเวลานี้ (รวม tombstone)
+  cursor?: string;
+  limit?: number;
+}
+
+export interface FeedPage {
+  entries: FeedEntry[];
+  nextCursor: string | null;
+  generatedAt: Date;
+}
+
+const hashKey = (key: string): string =>
+  crypto.createHash("sha256").update(key).digest("hex");
+
+export class FeedService {
+  // สร้าง partner พร้อม API key (คืน key จริงครั้งเดียว)
+  static async createPartner(
+    data: { name: string; contactEmail?: string },
+    adminId: string
+  ): Promise<{ partner: IFeedPartner; apiKey: string }> {
+    const apiKey = `${KEY_PREFIX}${crypto.randomBytes(24).toString("hex")}`;
+
+    const partner = await FeedPartner.create({
+      name: data.name,
+      contactEmail: data.contactEmail,
+      keyHash: hashKey(apiKey),
+      keyPrefix: apiKey.slice(0, KEY_PREFIX.length + 6),
+      createdBy: adminId,
+    });
+
+    return { partner, apiKey };
+  }
+
+  static async getPartners(): Promise<IFeedPartner[]> {
+    return FeedPartner.find().sort({ createdAt: -1 });
+  }
+
+  // ยกเลิก API key ของ partner
+  static async revokePartner(partnerId: string): Promise<IFeedPartner> {
+    if (!mongoose.Types.ObjectId.isValid(partnerId)) {
+      throw new Error("Feed partner not found");
+    }
+
+    const partner = await FeedPartner.findByIdAndUpdate(
+      partnerId,
+      { isActive: false, revokedAt: new Date() },
+      { new: true }
+    );
+    if (!partner) {
+      throw new Error("Feed partner not found");
+    }
+
+    return partner;
+  }
+
+  // ตรวจสอบ API key (คืน partner ที่ใช้งานอยู่ หรือ null)
+  static async authenticate(apiKey: string): Promise<IFeedPartner | null> {
+    if (!apiKey.startsWith(KEY_PREFIX)) return null;
+
+    const partner = await FeedPartner.findOneAndUpdate(
+      { keyHash: hashKey(apiKey), isActive: true },
+      { lastAccessedAt: new Date() },
+      { new: true }
+    );
+
+    return partner;
+  }
+
+  // บันทึกการลบถาวร (เรียกจาก PostService.deletePost)
+  static async recordDeletion(post: IPost): Promise<void> {
+    if (post.status === "draft") return;
+
+    await PostTombstone.updateOne(
+      { postId: post._id },
+      {
+        $set: {
+          authorId: post.authorId,
+          agencyId: post.agencyId,
+          slug: post.slug,
+          deletedAt: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+  }
+
+  private static toListing(post: IPost): FeedListing {
+    const id = String(post._id);
+    const coordinates = post.location?.coordinates?.coordinates;
+    const details: any = post.houseDetails || post.condoDetails || {};
+
+    return {
+      id,
+      url: SeoService.canonicalUrl(post),
+      title: post.title,
+      description: post.description,
+      price: post.price,
+      currency: post.currency || "LAK",
+      propertyType: post.propertyType,
+      listingType: post.listingType,
+      area: post.area,
+      usableArea: post.usableArea,
+      bedrooms: details.bedrooms,
+      bathrooms: details.bathrooms,
+      condition: post.condition,
+      address: {
+        street: post.location?.address?.street,
+        district: post.location?.address?.district,
+        province: post.location?.address?.province,
+        postalCode: post.location?.address?.postalCode,
+        country: post.location?.address?.country || "Laos",
+      },
+      latitude: coordinates?.length === 2 ? coordinates[1] : undefined,
+      longitude: coordinates?.length === 2 ? coordinates[0] : undefined,
+      images: post.media?.images || [],
+      agencyId: post.agencyId ? String(post.agencyId) : undefined,
+      publishedAt: post.createdAt,
+      updatedAt: post.updatedAt,
+    };
+  }
+
+  private static toTombstone(
+    post: { _id: any; slug?: string },
+    reason: string,
+    removedAt: Date
+  ): FeedTombstone {
+    return {
+      id: String(post._id),
+      url: SeoService.canonicalUrl(post),
+      reason,
+      removedAt,
+    };
+  }
+
+  /**
+   * ดึง feed หนึ่งหน้า เรียงตาม updatedAt จากเก่าไปใหม่
+   * - ไม่มี since: snapshot ของประกาศที่อนุมัติแล้วทั้งหมด
+   * - มี since: ประกาศที่เปลี่ยนหลัง since รวม tombstone ของประกาศที่ขาย/หมดอายุ/ถูกลบ
+   */
+  static async getFeed(query: FeedQuery): Promise<FeedPage> {
+    const generatedAt = new Date();
+    const limit = Math.min(
+      Math.max(query.limit || config.feeds.defaultPageSize, 1),
+      config.feeds.maxPageSize
+    );
+
+    const after = query.cursor
+      ? CursorPagination.decode(query.cursor, CURSOR_FIELD)
+      : undefined;
+    const afterCondition = (dateField: string, idField: string) =>
+      after
+        ? {
+            $or: [
+              { [dateField]: { $gt: after.value } },
+              { [dateField]: after.value, [idField]: { $gt: after.id } },
+            ],
+          }
+        : {};
+
+    const postQuery: any = {
+      status: query.since
+        ? { $in: ["approved", ...FEED_TOMBSTONE_STATUSES] }
+        : "approved",
+      ...afterCondition("updatedAt", "_id"),
+    };
+    if (query.since) {
+      postQuery.updatedAt = { $gt: query.since };
+    }
+
+    const [posts, deletions] = await Promise.all([
+      Post.find(postQuery)
+        .sort({ updatedAt: 1, _id: 1 })
+        .limit(limit + 1),
+      query.since
+        ? PostTombstone.find({
+            deletedAt: { $gt: query.since },
+            ...afterCondition("deletedAt", "postId"),
+          })
+            .sort({ deletedAt: 1, postId: 1 })
+            .limit(limit + 1)
+        : Promise.resolve([] as IPostTombstone[]),
+    ]);
+
+    // รวมสองรายการตามลำดับ (เวลา, id) แล้วตัดให้เหลือ limit
+    const merged = [
+      ...posts.map((post) => ({
+        at: post.updatedAt,
+        id: post._id as mongoose.Types.ObjectId,
+        entry: (post.status === "approved"
+          ? { type: "listing", listing: this.toListing(post) }
+          : {
+              type: "tombstone",
+              tombstone: this.toTombstone(post, post.status, post.updatedAt),
+            }) as FeedEntry,
+      })),
+      ...deletions.map((deletion) => ({
+        at: deletion.deletedAt,
+        id: deletion.postId,
+        entry: {
+          type: "tombstone",
+          tombstone: this.toTombstone(
+            { _id: deletion.postId, slug: deletion.slug },
+            "deleted",
+            deletion.deletedAt
+          ),
+        } as FeedEntry,
+      })),
+    ].sort(
+      (a, b) =>
+        a.at.getTime() - b.at.getTime() ||
+        String(a.id).localeCompare(String(b.id))
+    );
+
+    const page = merged.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      entries: page.map((item) => item.entry),
+      nextCursor:
+        merged.length > limit && last
+          ? CursorPagination.encode(CURSOR_FIELD, last.at, last.id)
+          : null,
+      generatedAt,
+    };
+  }
+}
@@ -9,6 +9,7 @@ export interface ChatMessage {
   parts: { text: string }[];
 }
 
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
 const SYSTEM_INSTRUCTION: ChatMessage[] = [
   {
     role: "user",
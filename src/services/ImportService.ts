@@ -0,0 +1,761 @@
+import mongoose from "mongoose";
+import axios, { AxiosResponse } from "axios";
+import path from "path";
+import dns from "dns";
+import net from "net";
+import http from "http";
+import https from "https";
+import { validationResult } from "express-validator";
+import { config } from "@/config";
+import {
+  ImportJob,
+  IImportJob,
+  ImportImageMode,
+  ImportRowIssue,
+} from "@/models/ImportJob";
+import { PostService, CreatePostData } from "@/services/PostService";
+import { AgencyService } from "@/services/AgencyService";
+import { postValidation } from "@/controllers/helpers/postHelper";
+import { CoordinateUtils } from "@/utils/coordinates";
+import { SpreadsheetUtils, SpreadsheetFormat } from "@/utils/spreadsheet";
+
+export interface ImportColumn {
+  field: string;
+  aliases: string[];
+  required: boolean;
+  description: string;
+  example: string;
+}
+
+// คอลัมน์ที่รองรับ (หัวตารางเทียบแบบไม่สนตัวพิมพ์/ช่องว่าง/ขีด)
+export const IMPORT_COLUMNS: ImportColumn[] = [
+  {
+    field: "title",
+    aliases: ["name", "heading"],
+    required: true,
+    description: "Listing title",
+    example: "3 bedroom house near That Luang",
+  },
+  {
+    field: "description",
+    aliases: ["details"],
+    required: true,
+    description: "Listing description",
+    example: "Two-storey house with garden and parking",
+  },
+  {
+    field: "price",
+    aliases: ["amount"],
+    required: true,
+    description: "Price as a number, in the listing currency",
+    example: "1500000000",
+  },
+  {
+    field: "currency",
+    aliases: [],
+    required: false,
+    description: "LAK (default), THB or USD",
+    example: "LAK",
+  },
+  {
+    field: "propertyType",
+    aliases: ["type"],
+    required: true,
+    description: "house, land, condo, apartment, villa or townhouse",
+    example: "house",
+  },
+  {
+    field: "listingType",
+    aliases: ["purpose"],
+    required: true,
+    description: "sell, rent or lease",
+    example: "sell",
+  },
+  {
+    field: "area",
+    aliases: ["size", "landArea"],
+    required: true,
+    description: "Total area as a number, in areaUnit",
+    example: "320",
+  },
+  {
+    field: "usableArea",
+    aliases: ["floorArea"],
+    required: false,
+    description: "Usable area as a number, in areaUnit",
+    example: "180",
+  },
+  {
+    field: "areaUnit",
+    aliases: ["unit"],
+    required: false,
+    description: "sqm (default), rai or hectare",
+    example: "sqm",
+  },
+  {
+    field: "street",
+    aliases: ["address", "village"],
+    required: true,
+    description: "Street or village",
+    example: "Ban Nongbone",
+  },
+  {
+    field: "district",
+    aliases: [],
+    required: true,
+    description: "District",
+    example: "Xaysetha",
+  },
+  {
+    field: "province",
+    aliases: [],
+    required: true,
+    description: "Province",
+    example: "Vientiane Capital",
+  },
+  {
+    field: "postalCode",
+    aliases: ["zip"],
+    required: false,
+    description: "Postal code",
+    example: "",
+  },
+  {
+    field: "latitude",
+    aliases: ["lat"],
+    required: true,
+    description: "Latitude (decimal degrees, inside Laos)",
+    example: "17.9757",
+  },
+  {
+    field: "longitude",
+    aliases: ["lng", "lon"],
+    required: true,
+    description: "Longitude (decimal degrees, inside Laos)",
+    example: "102.6331",
+  },
+  {
+    field: "bedrooms",
+    aliases: ["beds"],
+    required: false,
+    description: "Number of bedrooms",
+    example: "3",
+  },
+  {
+    field: "bathrooms",
+    aliases: ["baths"],
+    required: false,
+    description: "Number of bathrooms",
+    example: "2",
+  },
+  {
+    field: "condition",
+    aliases: [],
+    required: false,
+    description: "new, excellent, good (default), fair or poor",
+    example: "good",
+  },
+  {
+    field: "images",
+    aliases: ["imageUrls", "photos"],
+    required: false,
+    description: "Image URLs separated by | ; or line breaks",
+    example: "https://example.com/house-1.jpg|https://example.com/house-2.jpg",
+  },
+  {
+    field: "assignedAgentId",
+    aliases: ["agentId"],
+    required: false,
+    description:
+      "Agency imports only: user ID of the agent handling the listing",
+    example: "",
+  },
+];
+
+const CONDITIONS = ["new", "excellent", "good", "fair", "poor"];
+
+// ป้องกันการดึงรูปจากเครือข่ายภายใน: IP ที่ห้ามเชื่อมต่อ
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([address, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv4")
+);
+// IPv4-mapped (::ffff:a.b.c.d) ถูกเทียบกับช่วง IPv4 ด้านบนโดย BlockList
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([address, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv6")
+);
+
+const MAX_IMAGE_REDIRECTS = 3;
+
+const isBlockedAddress = (address: string): boolean => {
+  const family = net.isIPv6(address) ? "ipv6" : "ipv4";
+  return BLOCKED_ADDRESSES.check(address, family);
+};
+
+// ตรวจ IP ตอนเชื่อมต่อจริง (กัน DNS rebinding ระหว่างตรวจกับดาวน์โหลด)
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      return callback(
+        new Error(`address ${blocked.address} not allowed`),
+        "",
+        0
+      );
+    }
+
+    if ((options as dns.LookupOptions).all) {
+      (callback as any)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const imageHttpAgent = new http.Agent({ lookup: publicLookup });
+const imageHttpsAgent = new https.Agent({ lookup: publicLookup });
+
+// คิวงานนำเข้า: ทำทีละงานตามลำดับ
+let jobQueue: Promise<void> = Promise.resolve();
+
+const postService = new PostService();
+
+const normalizeHeader = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export interface CreateImportInput {
+  buffer: Buffer;
+  fileName: string;
+  mimeType?: string;
+  imageMode?: ImportImageMode;
+  agencyId?: string;
+  mapping?: Record<string, string>; // หัวตารางในไฟล์ -> field
+}
+
+export class ImportService {
+  // จับคู่หัวตารางกับ field (mapping ที่ส่งมามีผลก่อน)
+  static mapHeaders(
+    headers: string[],
+    mapping: Record<string, string> = {}
+  ): { fields: (string | undefined)[]; unmapped: string[] } {
+    const lookup = new Map<string, string>();
+    IMPORT_COLUMNS.forEach((column) => {
+      [column.field, ...column.aliases].forEach((name) =>
+        lookup.set(normalizeHeader(name), column.field)
+      );
+    });
+    const customMapping = new Map<string, string>(
+      Object.entries(mapping).map(([header, field]) => [
+        normalizeHeader(header),
+        lookup.get(normalizeHeader(field)) || field,
+      ])
+    );
+
+    const unmapped: string[] = [];
+    const fields = headers.map((header) => {
+      const key = normalizeHeader(header);
+      const field = customMapping.get(key) || lookup.get(key);
+      if (!field || !IMPORT_COLUMNS.some((column) => column.field === field)) {
+        if (header) unmapped.push(header);
+        return undefined;
+      }
+      return field;
+    });
+
+    return { fields, unmapped };
+  }
+
+  // สร้างงานนำเข้าจากไฟล์ แล้วเข้าคิวประมวลผลเบื้องหลัง
+  static async createJob(
+    input: CreateImportInput,
+    userId: string
+  ): Promise<IImportJob> {
+    const format = SpreadsheetUtils.detectFormat(
+      input.fileName,
+      input.mimeType
+    );
+    if (!format) {
+      throw new Error("Unsupported file type. Upload a .csv or .xlsx file");
+    }
+
+    if (input.agencyId) {
+      await AgencyService.resolveListingAssignment(input.agencyId, userId);
+    }
+
+    let table;
+    try {
+      table = SpreadsheetUtils.parse(input.buffer, format);
+    } catch (error) {
+      throw new Error(
+        "Could not read the file. Check that it is a valid CSV or XLSX file"
+      );
+    }
+
+    const { fields, unmapped } = this.mapHeaders(table.headers, input.mapping);
+    const missing = IMPORT_COLUMNS.filter(
+      (column) => column.required && !fields.includes(column.field)
+    ).map((column) => column.field);
+    if (missing.length > 0) {
+      throw new Error(`Missing required columns: ${missing.join(", ")}`);
+    }
+    if (table.rows.length === 0) {
+      throw new Error("The file has no data rows");
+    }
+    if (table.rows.length > config.imports.maxRows) {
+      throw new Error(
+        `The file has more than ${config.imports.maxRows} rows. Split it into smaller files`
+      );
+    }
+
+    const rows = table.rows.map((cells, index) => {
+      const record: Record<string, string> = {
+        _row: String(table.rowNumbers[index]),
+      };
+      fields.forEach((field, column) => {
+        if (field) record[field] = (cells[column] || "").trim();
+      });
+      return record;
+    });
+
+    const job = await ImportJob.create({
+      userId,
+      agencyId: input.agencyId,
+      fileName: input.fileName,
+      format: format as SpreadsheetFormat,
+      imageMode: input.imageMode || "reference",
+      rows,
+      totalRows: rows.length,
+      unmappedColumns: unmapped,
+    });
+
+    this.enqueue(String(job._id));
+
+    return job;
+  }
+
+  // งานนำเข้าของผู้ใช้
+  static async getUserJobs(
+    userId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ jobs: IImportJob[]; total: number }> {
+    const query = { userId: new mongoose.Types.ObjectId(userId) };
+
+    const [jobs, total] = await Promise.all([
+      ImportJob.find(query)
+        .select("-rowErrors -rowWarnings -createdPostIds")
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ImportJob.countDocuments(query),
+    ]);
+
+    return { jobs, total };
+  }
+
+  // สถานะ/รายงานของงาน (เจ้าของงานหรือ admin)
+  static async getJob(
+    jobId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IImportJob> {
+    if (!mongoose.Types.ObjectId.isValid(jobId)) {
+      throw new Error("Import job not found");
+    }
+
+    const job = await ImportJob.findById(jobId);
+    if (!job) {
+      throw new Error("Import job not found");
+    }
+    if (job.userId.toString() !== userId && userRole !== "admin") {
+      throw new Error("You do not have permission to view this import job");
+    }
+
+    return job;
+  }
+
+  // ไฟล์ CSV ตัวอย่างที่มีหัวตารางครบทุกคอลัมน์
+  static buildTemplate(): string {
+    return SpreadsheetUtils.toCsv([
+      IMPORT_COLUMNS.map((column) => column.field),
+      IMPORT_COLUMNS.map((column) => column.example),
+    ]);
+  }
+
+  // ตรวจสอบแถวตามกฎเดียวกับ postValidation.create และข้อกำหนดของการนำเข้า
+  static async validateRow(
+    record: Record<string, string>
+  ): Promise<{
+    data?: Omit<CreatePostData, "authorId">;
+    issues: ImportRowIssue[];
+  }> {
+    const row = parseInt(record._row);
+    const numberOrUndefined = (value?: string) =>
+      value === undefined || value === "" ? undefined : Number(value);
+
+    const latitude = numberOrUndefined(record.latitude);
+    const longitude = numberOrUndefined(record.longitude);
+
+    const body: Record<string, any> = {
+      title: record.title,
+      description: record.description,
+      price: record.price,
+      currency: record.currency ? record.currency.toUpperCase() : undefined,
+      propertyType: record.propertyType?.toLowerCase(),
+      listingType: record.listingType?.toLowerCase(),
+      area: record.area,
+      areaUnit: record.areaUnit ? record.areaUnit.toLowerCase() : undefined,
+      location: {
+        address: {
+          street: record.street,
+          district: record.district,
+          province: record.province,
+          postalCode: record.postalCode || undefined,
+        },
+        coordinates: {
+          type: "Point",
+          coordinates:
+            latitude !== undefined && longitude !== undefined
+              ? [longitude, latitude]
+              : undefined,
+        },
+      },
+    };
+
+    // รันกฎของ createPost กับแถวนี้ (express-validator รองรับ request object ใดๆ)
+    const request: Record<string, any> = { body };
+    for (const chain of postValidation.create) {
+      await chain.run(request);
+    }
+    const issues: ImportRowIssue[] = validationResult(request)
+      .array()
+      .map((error: any) => ({
+        row,
+        field: error.path,
+        message: error.msg,
+      }));
+
+    const addIssue = (field: string, message: string) =>
+      issues.push({ row, field, message });
+
+    if (!record.street) {
+      addIssue("street", "Street is required");
+    }
+    if (
+      latitude === undefined ||
+      longitude === undefined ||
+      isNaN(latitude) ||
+      isNaN(longitude)
+    ) {
+      addIssue("latitude", "Latitude and longitude are required numbers");
+    } else if (!CoordinateUtils.isInLaos(latitude, longitude)) {
+      addIssue("latitude", "Coordinates must be inside Laos");
+    }
+
+    const usableArea = numberOrUndefined(record.usableArea);
+    if (usableArea !== undefined && (isNaN(usableArea) || usableArea < 0)) {
+      addIssue("usableArea", "Usable area must be a positive number");
+    }
+    (["bedrooms", "bathrooms"] as const).forEach((field) => {
+      const value = numberOrUndefined(record[field]);
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        addIssue(field, `${field} must be a whole number`);
+      }
+    });
+
+    const condition = record.condition?.toLowerCase() || undefined;
+    if (condition && !CONDITIONS.includes(condition)) {
+      addIssue(
+        "condition",
+        `Condition must be one of ${CONDITIONS.join(", ")}`
+      );
+    }
+
+    const images = (record.images || "").split(/[|;\s]+/).filter(Boolean);
+    if (images.length > config.imports.maxImagesPerRow) {
+      addIssue(
+        "images",
+        `At most ${config.imports.maxImagesPerRow} images per listing`
+      );
+    }
+    images
+      .filter((url) => !/^https?:\/\/\S+$/i.test(url))
+      .forEach((url) => addIssue("images", `Invalid image URL: ${url}`));
+
+    if (
+      record.assignedAgentId &&
+      !mongoose.Types.ObjectId.isValid(record.assignedAgentId)
+    ) {
+      addIssue("assignedAgentId", "Invalid agent ID");
+    }
+
+    if (issues.length > 0) {
+      return { issues };
+    }
+
+    return {
+      issues,
+      data: {
+        title: body.title,
+        description: body.description,
+        price: Number(body.price),
+        currency: body.currency,
+        propertyType: body.propertyType,
+        listingType: body.listingType,
+        area: Number(body.area),
+        usableArea,
+        areaUnit: body.areaUnit,
+        location: body.location,
+        bedrooms: numberOrUndefined(record.bedrooms),
+        bathrooms: numberOrUndefined(record.bathrooms),
+        condition: condition as CreatePostData["condition"],
+        images,
+        assignedAgentId: record.assignedAgentId || undefined,
+      },
+    };
+  }
+
+  // ดาวน์โหลดรูปจาก URL แล้วอัปโหลดขึ้น S3 (รูปที่ดึงไม่ได้จะถูกข้ามพร้อมคำเตือน)
+  static async fetchImages(
+    urls: string[],
+    row: number
+  ): Promise<{ images: string[]; warnings: ImportRowIssue[] }> {
+    const { uploadBufferToS3 } = await import("@/helpers/s3Helper");
+    const images: string[] = [];
+    const warnings: ImportRowIssue[] = [];
+    const maxBytes = config.imports.maxImageSizeMb * 1024 * 1024;
+
+    for (const url of urls) {
+      try {
+        const { response, finalUrl } = await this.downloadPublicUrl(
+          url,
+          maxBytes
+        );
+        const contentType = String(response.headers["content-type"] || "");
+        if (!contentType.startsWith("image/")) {
+          throw new Error(`not an image (${contentType || "unknown type"})`);
+        }
+
+        const extension =
+          path.extname(finalUrl.pathname) || `.${contentType.split("/")[1]}`;
+        images.push(
+          await uploadBufferToS3(
+            Buffer.from(response.data),
+            `import${extension}`,
+            contentType,
+            "images"
+          )
+        );
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        warnings.push({
+          row,
+          field: "images",
+          message: `Could not fetch image ${url}: ${reason}`,
+        });
+      }
+    }
+
+    return { images, warnings };
+  }
+
+  // ตรวจว่า URL ชี้ไปยัง host สาธารณะ (resolve DNS แล้วเทียบทุก IP)
+  static async assertPublicUrl(url: string): Promise<URL> {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw new Error("only http and https URLs are allowed");
+    }
+
+    // URL เก็บ IPv6 ไว้ในวงเล็บ [::1]
+    const hostname = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    if (
+      addresses.length === 0 ||
+      addresses.some(({ address }) => isBlockedAddress(address))
+    ) {
+      throw new Error("host not allowed");
+    }
+
+    return parsed;
+  }
+
+  // ดาวน์โหลดทีละ hop โดยตรวจ host ใหม่ทุกครั้งที่ถูก redirect
+  private static async downloadPublicUrl(
+    url: string,
+    maxBytes: number
+  ): Promise<{ response: AxiosResponse<ArrayBuffer>; finalUrl: URL }> {
+    let current = url;
+
+    for (let hop = 0; hop <= MAX_IMAGE_REDIRECTS; hop++) {
+      const finalUrl = await this.assertPublicUrl(current);
+      const response = await axios.get<ArrayBuffer>(finalUrl.toString(), {
+        responseType: "arraybuffer",
+        timeout: config.imports.imageFetchTimeoutMs,
+        maxContentLength: maxBytes,
+        maxRedirects: 0,
+        httpAgent: imageHttpAgent,
+        httpsAgent: imageHttpsAgent,
+        proxy: false,
+        validateStatus: (status) => status >= 200 && status < 400,
+      });
+
+      if (response.status < 300) {
+        return { response, finalUrl };
+      }
+
+      const location = response.headers["location"];
+      if (!location) {
+        throw new Error(`redirect without location (${response.status})`);
+      }
+      current = new URL(String(location), finalUrl).toString();
+    }
+
+    throw new Error("too many redirects");
+  }
+
+  // ข้อความ error จาก PostService ที่อ่านง่ายสำหรับรายงาน
+  private static describeCreateError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    const duplicate = message.match(/โพสต์ซ้ำกับประกาศเดิม ([a-f0-9]{24})/);
+    if (duplicate) {
+      return `Duplicates your existing listing ${duplicate[1]}`;
+    }
+    return message.replace(/^(Error creating post: )?(Error: )?/, "");
+  }
+
+  // นำเข้าแถวเดียว: ตรวจสอบ ดึงรูป แล้วสร้างโพสต์ผ่าน PostService
+  private static async importRow(
+    job: IImportJob,
+    record: Record<string, string>
+  ): Promise<{
+    postId?: mongoose.Types.ObjectId;
+    errors: ImportRowIssue[];
+    warnings: ImportRowIssue[];
+  }> {
+    const row = parseInt(record._row);
+    const { data, issues } = await this.validateRow(record);
+    if (!data) {
+      return { errors: issues, warnings: [] };
+    }
+
+    let warnings: ImportRowIssue[] = [];
+    if (job.imageMode === "fetch" && data.images && data.images.length > 0) {
+      const fetched = await this.fetchImages(data.images, row);
+      data.images = fetched.images;
+      warnings = fetched.warnings;
+    }
+
+    try {
+      const post = await postService.createPost({
+        ...data,
+        authorId: job.userId.toString(),
+        agencyId: job.agencyId?.toString(),
+        assignedAgentId: job.agencyId ? data.assignedAgentId : undefined,
+      });
+      return {
+        postId: post._id as mongoose.Types.ObjectId,
+        errors: [],
+        warnings,
+      };
+    } catch (error) {
+      return {
+        errors: [{ row, message: this.describeCreateError(error) }],
+        warnings,
+      };
+    }
+  }
+
+  // ประมวลผลงานต่อจากแถวที่ทำค้างไว้ (รองรับการเริ่มใหม่หลัง restart)
+  static async processJob(jobId: string): Promise<void> {
+    const job = await ImportJob.findById(jobId).select("+rows");
+    if (!job || job.status === "completed" || job.status === "failed") return;
+
+    try {
+      job.status = "processing";
+      job.startedAt = job.startedAt || new Date();
+      await ImportJob.updateOne(
+        { _id: job._id },
+        { $set: { status: job.status, startedAt: job.startedAt } }
+      );
+
+      for (let index = job.processedRows; index < job.rows.length; index++) {
+        const result = await this.importRow(job, job.rows[index]);
+
+        const update: any = {
+          $inc: {
+            processedRows: 1,
+            createdCount: result.postId ? 1 : 0,
+            failedCount: result.postId ? 0 : 1,
+          },
+        };
+        const push: any = {};
+        if (result.postId) push.createdPostIds = result.postId;
+        if (result.errors.length > 0) {
+          push.rowErrors = { $each: result.errors };
+        }
+        if (result.warnings.length > 0) {
+          push.rowWarnings = { $each: result.warnings };
+        }
+        if (Object.keys(push).length > 0) update.$push = push;
+
+        await ImportJob.updateOne({ _id: job._id }, update);
+      }
+
+      await ImportJob.updateOne(
+        { _id: job._id },
+        { $set: { status: "completed", completedAt: new Date(), rows: [] } }
+      );
+    } catch (error) {
+      console.error("Import job error:", error);
+      await ImportJob.updateOne(
+        { _id: job._id },
+        {
+          $set: {
+            status: "failed",
+            failureReason:
+              error instanceof Error ? error.message : String(error),
+            completedAt: new Date(),
+          },
+        }
+      );
+    }
+  }
+
+  private static enqueue(jobId: string): void {
+    jobQueue = jobQueue
+      .then(() => this.processJob(jobId))
+      .catch((error) => console.error("Import queue error:", error));
+  }
+
+  // เริ่มงานที่ค้างอยู่ในคิวหลัง restart (เรียกหลังเชื่อมต่อฐานข้อมูลแล้ว)
+  static async resumePendingJobs(): Promise<number> {
+    const pending = await ImportJob.find({
+      status: { $in: ["queued", "processing"] },
+    })
+      .select("_id")
+      .sort({ createdAt: 1 });
+
+    pending.forEach((job) => this.enqueue(String(job._id)));
+    return pending.length;
+  }
+}
@@ -0,0 +1,230 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import { Post, IPost } from "@/models/Post";
+import { emitToUser } from "@/config/socket";
+import { AgencyService } from "@/services/AgencyService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+export interface LifecycleRunResult {
+  assigned: number;
+  warned: number;
+  expired: number;
+  archived: number;
+}
+
+export class ListingLifecycleService {
+  // ระยะเวลาแสดงผลของประกาศ (วัน) ตาม listingType
+  static getValidityDays(listingType: IPost["listingType"]): number {
+    return (
+      config.listing.validityDays[listingType] ||
+      config.listing.validityDays.sell
+    );
+  }
+
+  // คำนวณวันหมดอายุจากวันเริ่มต้น
+  static computeExpiresAt(
+    listingType: IPost["listingType"],
+    from: Date = new Date()
+  ): Date {
+    return new Date(
+      from.getTime() + this.getValidityDays(listingType) * DAY_MS
+    );
+  }
+
+  // ต่ออายุประกาศ (เจ้าของโพสต์หรือ admin)
+  static async renewPost(
+    postId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IPost> {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new Error("Post not found");
+    }
+
+    const post = await Post.findById(postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    if (!(await AgencyService.canManagePost(post, userId, userRole))) {
+      throw new Error("You do not have permission to renew this post");
+    }
+
+    if (post.status !== "approved" && post.status !== "expired") {
+      throw new Error("Only approved or expired posts can be renewed");
+    }
+
+    // อนุญาตให้ต่ออายุเฉพาะช่วงใกล้หมดอายุหรือหมดอายุแล้ว
+    const now = new Date();
+    const renewableFrom = post.expiresAt
+      ? new Date(
+          post.expiresAt.getTime() - config.listing.expiryWarningDays * DAY_MS
+        )
+      : now;
+    if (post.status === "approved" && renewableFrom > now) {
+      throw new Error("Post is not due for renewal yet");
+    }
+
+    post.status = "approved";
+    post.expiresAt = this.computeExpiresAt(post.listingType, now);
+    post.renewedAt = now;
+    post.renewCount = (post.renewCount || 0) + 1;
+    post.expiryWarningSentAt = undefined;
+
+    await post.save();
+    await post.populate("authorId", "name email avatar");
+
+    return post;
+  }
+
+  // กำหนดวันหมดอายุให้โพสต์ที่อนุมัติก่อนมีระบบหมดอายุ
+  static async assignMissingExpiry(): Promise<number> {
+    const posts = await Post.find(
+      { status: "approved", expiresAt: { $exists: false } },
+      "listingType"
+    ).lean();
+
+    if (posts.length === 0) return 0;
+
+    const now = new Date();
+    const result = await Post.bulkWrite(
+      posts.map((post) => ({
+        updateOne: {
+          filter: { _id: post._id },
+          update: {
+            $set: {
+              expiresAt: this.computeExpiresAt(post.listingType, now),
+            },
+          },
+        },
+      }))
+    );
+
+    return result.modifiedCount;
+  }
+
+  // แจ้งเตือนเจ้าของโพสต์ก่อนหมดอายุ
+  static async sendExpiryWarnings(): Promise<number> {
+    const now = new Date();
+    const warnBefore = new Date(
+      now.getTime() + config.listing.expiryWarningDays * DAY_MS
+    );
+
+    const posts = await Post.find(
+      {
+        status: "approved",
+        expiresAt: { $gt: now, $lte: warnBefore },
+        expiryWarningSentAt: { $exists: false },
+      },
+      "title authorId assignedAgentId expiresAt"
+    ).lean();
+
+    for (const post of posts) {
+      emitToUser(
+        AgencyService.getContactUserId(post),
+        "listing_expiry_warning",
+        {
+          postId: post._id,
+          title: post.title,
+          expiresAt: post.expiresAt,
+          daysLeft: Math.ceil(
+            ((post.expiresAt as Date).getTime() - now.getTime()) / DAY_MS
+          ),
+        }
+      );
+    }
+
+    if (posts.length > 0) {
+      await Post.updateMany(
+        { _id: { $in: posts.map((post) => post._id) } },
+        { $set: { expiryWarningSentAt: now } }
+      );
+    }
+
+    return posts.length;
+  }
+
+  // เปลี่ยนสถานะโพสต์ที่เลยวันหมดอายุเป็น expired
+  static async expireListings(): Promise<number> {
+    const now = new Date();
+
+    const posts = await Post.find(
+      { status: "approved", expiresAt: { $lte: now } },
+      "title authorId assignedAgentId expiresAt"
+    ).lean();
+
+    if (posts.length === 0) return 0;
+
+    await Post.updateMany(
+      { _id: { $in: posts.map((post) => post._id) }, status: "approved" },
+      { $set: { status: "expired" } }
+    );
+
+    for (const post of posts) {
+      emitToUser(AgencyService.getContactUserId(post), "listing_expired", {
+        postId: post._id,
+        title: post.title,
+        expiredAt: post.expiresAt,
+      });
+    }
+
+    return posts.length;
+  }
+
+  // เก็บโพสต์ที่ขาย/เช่าแล้วเข้า archive หลังพ้นช่วง grace period
+  static async archiveClosedListings(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - config.listing.archiveGraceDays * DAY_MS
+    );
+
+    const result = await Post.updateMany(
+      {
+        status: { $in: ["sold", "rented"] },
+        $or: [
+          { closedAt: { $lte: cutoff } },
+          { closedAt: { $exists: false }, updatedAt: { $lte: cutoff } },
+        ],
+      },
+      { $set: { status: "archived", archivedAt: new Date() } }
+    );
+
+    return result.modifiedCount;
+  }
+
+  // รันทุกขั้นตอนของ lifecycle
+  static async runLifecycle(): Promise<LifecycleRunResult> {
+    const assigned = await this.assignMissingExpiry();
+    const warned = await this.sendExpiryWarnings();
+    const expired = await this.expireListings();
+    const archived = await this.archiveClosedListings();
+
+    return { assigned, warned, expired, archived };
+  }
+
+  // เริ่ม scheduler (เรียกหลังเชื่อมต่อฐานข้อมูลแล้ว)
+  static startScheduler(): void {
+    if (schedulerTimer) return;
+
+    const run = () =>
+      this.runLifecycle()
+        .then((result) => {
+          if (result.warned || result.expired || result.archived) {
+            console.log("⏰ Listing lifecycle:", result);
+          }
+        })
+        .catch((error) => console.error("Listing lifecycle error:", error));
+
+    run();
+    schedulerTimer = setInterval(run, config.listing.schedulerIntervalMs);
+  }
+
+  static stopScheduler(): void {
+    if (schedulerTimer) {
+      clearInterval(schedulerTimer);
+      schedulerTimer = null;
+    }
+  }
+}
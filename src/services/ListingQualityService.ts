@@ -0,0 +1,298 @@
+import { Post, IPost } from "@/models/Post";
+import { CoordinateUtils } from "@/utils/coordinates";
+import { BoundaryUtils } from "@/utils/boundary";
+
+// เกณฑ์ของคะแนนเต็มแต่ละหัวข้อ
+const TARGET_IMAGES = 8;
+const TARGET_DESCRIPTION_LENGTH = 600;
+const BACKFILL_BATCH_SIZE = 500;
+
+export type QualityCriterionKey =
+  | "media"
+  | "description"
+  | "details"
+  | "coordinates"
+  | "boundary"
+  | "legalDocuments";
+
+// คะแนนเต็มของแต่ละหัวข้อ (boundary ใช้กับที่ดินเท่านั้น)
+const MAX_SCORES: Record<QualityCriterionKey, number> = {
+  media: 25,
+  description: 15,
+  details: 20,
+  coordinates: 15,
+  boundary: 10,
+  legalDocuments: 15,
+};
+
+// ฟิลด์รายละเอียดที่ควรกรอกตามประเภททรัพย์
+const HOUSE_DETAILS = {
+  group: "houseDetails",
+  fields: [
+    "floors",
+    "bedrooms",
+    "bathrooms",
+    "livingRooms",
+    "kitchens",
+    "parkingSpaces",
+  ],
+};
+const CONDO_DETAILS = {
+  group: "condoDetails",
+  fields: [
+    "floor",
+    "totalFloors",
+    "bedrooms",
+    "bathrooms",
+    "parkingSpaces",
+    "facilities",
+  ],
+};
+const DETAIL_FIELDS: Record<
+  IPost["propertyType"],
+  { group: string; fields: string[] }
+> = {
+  house: HOUSE_DETAILS,
+  villa: HOUSE_DETAILS,
+  townhouse: HOUSE_DETAILS,
+  condo: CONDO_DETAILS,
+  apartment: CONDO_DETAILS,
+  land: {
+    group: "landDetails",
+    fields: ["dimensions", "landType", "landUse", "soilType", "utilities"],
+  },
+};
+
+const LEGAL_DOCUMENT_FIELDS = [
+  "titleDeed",
+  "landCertificate",
+  "constructionPermit",
+  "occupancyCertificate",
+];
+
+export interface QualityCriterion {
+  criterion: QualityCriterionKey;
+  score: number;
+  maxScore: number;
+}
+
+export interface QualityTip {
+  criterion: QualityCriterionKey;
+  message: string;
+  fields?: string[]; // ฟิลด์ที่ต้องกรอก/ตรวจสอบ
+}
+
+export interface ListingQuality {
+  score: number; // 0-100
+  breakdown: QualityCriterion[];
+  tips: QualityTip[];
+}
+
+const isFilled = (value: unknown): boolean => {
+  if (value === undefined || value === null || value === "") return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "object") {
+    return Object.values(value).some((item) => isFilled(item));
+  }
+  return true;
+};
+
+// จำนวนทศนิยมของพิกัด (5 ตำแหน่ง ≈ 1 เมตร, 3 ตำแหน่ง ≈ 100 เมตร)
+const decimalPlaces = (value: number): number => {
+  const [, fraction = ""] = String(value).split(".");
+  return fraction.length;
+};
+
+export class ListingQualityService {
+  /**
+   * คำนวณคะแนนคุณภาพ/ความครบถ้วนของประกาศ พร้อมคำแนะนำให้ผู้ลงประกาศ
+   * (รับได้ทั้ง document และ lean object)
+   */
+  static evaluate(post: IPost): ListingQuality {
+    const breakdown: QualityCriterion[] = [];
+    const tips: QualityTip[] = [];
+    const add = (criterion: QualityCriterionKey, ratio: number) =>
+      breakdown.push({
+        criterion,
+        score: Math.round(MAX_SCORES[criterion] * Math.min(ratio, 1)),
+        maxScore: MAX_SCORES[criterion],
+      });
+
+    // รูปภาพ (80%) + วิดีโอหรือแปลน (20%)
+    const images = post.media?.images?.length || 0;
+    const hasExtraMedia = !!(
+      post.media?.videos?.length || post.media?.floorPlan
+    );
+    add(
+      "media",
+      (Math.min(images, TARGET_IMAGES) / TARGET_IMAGES) * 0.8 +
+        (hasExtraMedia ? 0.2 : 0)
+    );
+    if (images < TARGET_IMAGES) {
+      tips.push({
+        criterion: "media",
+        message: `Add ${TARGET_IMAGES - images} more photo${
+          TARGET_IMAGES - images === 1 ? "" : "s"
+        } (aim for at least ${TARGET_IMAGES})`,
+      });
+    }
+    if (!hasExtraMedia) {
+      tips.push({
+        criterion: "media",
+        message: "Add a video or a floor plan",
+      });
+    }
+
+    // รายละเอียด
+    const descriptionLength = post.description?.trim().length || 0;
+    add("description", descriptionLength / TARGET_DESCRIPTION_LENGTH);
+    if (descriptionLength < TARGET_DESCRIPTION_LENGTH) {
+      tips.push({
+        criterion: "description",
+        message: `Write a longer description (at least ${TARGET_DESCRIPTION_LENGTH} characters) covering the condition, surroundings and access`,
+      });
+    }
+
+    // ข้อมูลเฉพาะตามประเภททรัพย์
+    const detailFields = DETAIL_FIELDS[post.propertyType];
+    if (detailFields) {
+      const details: any = (post as any)[detailFields.group] || {};
+      const missing = detailFields.fields.filter(
+        (field) => !isFilled(details[field])
+      );
+      add(
+        "details",
+        (detailFields.fields.length - missing.length) /
+          detailFields.fields.length
+      );
+      if (missing.length > 0) {
+        tips.push({
+          criterion: "details",
+          message: "Fill in the remaining property details",
+          fields: missing.map((field) => `${detailFields.group}.${field}`),
+        });
+      }
+    }
+
+    // ความแม่นยำของพิกัด (ไม่มี/[0, 0]/อยู่นอกลาว = 0)
+    const [lng, lat] = post.location?.coordinates?.coordinates || [];
+    const hasCoordinates =
+      typeof lat === "number" &&
+      typeof lng === "number" &&
+      !(lat === 0 && lng === 0) &&
+      CoordinateUtils.isInLaos(lat, lng);
+    const precision = hasCoordinates
+      ? Math.min(decimalPlaces(lat), decimalPlaces(lng))
+      : 0;
+    add(
+      "coordinates",
+      !hasCoordinates
+        ? 0
+        : precision >= 5
+          ? 1
+          : precision >= 4
+            ? 2 / 3
+            : precision >= 3
+              ? 1 / 3
+              : 0.1
+    );
+    if (!hasCoordinates) {
+      tips.push({
+        criterion: "coordinates",
+        message: "Pin the property location on the map",
+      });
+    } else if (precision < 5) {
+      tips.push({
+        criterion: "coordinates",
+        message: "Move the map pin to the exact property location",
+      });
+    }
+
+    // แนวเขตที่ดิน (เฉพาะประกาศที่ดิน) พื้นที่ไม่ตรงกับที่กรอก = ครึ่งคะแนน
+    if (post.propertyType === "land") {
+      const feature = BoundaryUtils.toFeature(post);
+      const mismatch = feature?.properties.areaMismatch;
+      add("boundary", !feature ? 0 : mismatch ? 0.5 : 1);
+      if (!feature) {
+        tips.push({
+          criterion: "boundary",
+          message: "Draw the land boundary on the map",
+        });
+      } else if (mismatch) {
+        tips.push({
+          criterion: "boundary",
+          message: BoundaryUtils.describeAreaMismatch(mismatch),
+          fields: ["area", "location.boundary"],
+        });
+      }
+    }
+
+    // เอกสารกฎหมาย: 1 ฉบับ = 2/3, 2 ฉบับขึ้นไป = เต็ม
+    const legal: any = post.legalDocuments || {};
+    const documents =
+      LEGAL_DOCUMENT_FIELDS.filter((field) => isFilled(legal[field])).length +
+      (legal.other?.length || 0);
+    add("legalDocuments", documents >= 2 ? 1 : documents === 1 ? 2 / 3 : 0);
+    if (documents === 0) {
+      tips.push({
+        criterion: "legalDocuments",
+        message: "Upload a title deed or land certificate",
+      });
+    } else if (documents === 1) {
+      tips.push({
+        criterion: "legalDocuments",
+        message:
+          "Upload another legal document (e.g. construction permit or occupancy certificate)",
+      });
+    }
+
+    const earned = breakdown.reduce((sum, item) => sum + item.score, 0);
+    const possible = breakdown.reduce((sum, item) => sum + item.maxScore, 0);
+
+    return {
+      score: possible ? Math.round((earned / possible) * 100) : 0,
+      breakdown,
+      tips,
+    };
+  }
+
+  // บันทึกคะแนนลงประกาศ (ใช้ค้นหา/filter) เรียกหลังสร้างหรือแก้ไขประกาศ
+  static async refresh(post: IPost): Promise<IPost> {
+    const { score } = this.evaluate(post);
+    if (post.qualityScore === score) return post;
+
+    // ไม่เปลี่ยน updatedAt (feed/sitemap ดูจาก updatedAt)
+    await Post.updateOne(
+      { _id: post._id },
+      { $set: { qualityScore: score } },
+      { timestamps: false }
+    );
+    post.qualityScore = score;
+    return post;
+  }
+
+  // คำนวณคะแนนให้ประกาศเดิมที่ยังไม่มี (ทีละชุด เรียกตอนเริ่ม server)
+  static async backfillScores(): Promise<number> {
+    let total = 0;
+
+    for (;;) {
+      const posts = await Post.find({ qualityScore: { $exists: false } })
+        .limit(BACKFILL_BATCH_SIZE)
+        .lean<IPost[]>();
+      if (posts.length === 0) break;
+
+      await Post.bulkWrite(
+        posts.map((post) => ({
+          updateOne: {
+            filter: { _id: post._id },
+            update: { $set: { qualityScore: this.evaluate(post).score } },
+            timestamps: false,
+          },
+        }))
+      );
+      total += posts.length;
+    }
+
+    return total;
+  }
+}
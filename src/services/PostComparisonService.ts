@@ -0,0 +1,458 @@
+import mongoose from "mongoose";
+import { Post } from "@/models/Post";
+import { Bookmark } from "@/models/Bookmark";
+import { CoordinateUtils } from "@/utils/coordinates";
+
+export const MIN_COMPARE_POSTS = 2;
+export const MAX_COMPARE_POSTS = 4;
+
+type AttributeGroup = "general" | "rooms" | "house" | "condo" | "land";
+type AttributeType = "number" | "string" | "boolean" | "list";
+
+interface AttributeDefinition {
+  key: string;
+  group: AttributeGroup;
+  type: AttributeType;
+  better?: "higher" | "lower"; // ใช้ตัดสินผู้ชนะ (เฉพาะค่าตัวเลข/จำนวนรายการ)
+  unit?: string;
+  getValue: (post: any) => any;
+}
+
+export interface ComparisonRow {
+  key: string;
+  group: AttributeGroup;
+  type: AttributeType;
+  unit?: string;
+  better?: "higher" | "lower";
+  values: any[]; // เรียงตาม listings
+  winners: string[]; // postId ที่ดีที่สุด (ว่าง = เท่ากันหมดหรือเทียบไม่ได้)
+}
+
+export interface ComparisonListing {
+  _id: string;
+  title: string;
+  price: number;
+  currency: string;
+  pricePerSqm: number | null; // กีบ
+  propertyType: string;
+  listingType: string;
+  status: string;
+  area: number;
+  usableArea?: number;
+  province?: string;
+  district?: string;
+  coordinates: [number, number] | null; // [lng, lat]
+  image: string | null;
+  isBookmarked?: boolean;
+}
+
+export interface ListingDistance {
+  from: string;
+  to: string;
+  distanceKm: number;
+}
+
+export interface PostComparison {
+  listings: ComparisonListing[];
+  attributes: ComparisonRow[];
+  distances: ListingDistance[];
+  warnings: string[];
+}
+
+// จำนวนห้องของบ้าน/คอนโดใช้ชื่อเดียวกัน จึงรวมเป็นแถวเดียว
+const roomValue = (field: string) => (post: any) =>
+  post.houseDetails?.[field] ?? post.condoDetails?.[field];
+
+const ATTRIBUTES: AttributeDefinition[] = [
+  // ราคาเทียบกันเป็นกีบ (basePrice) เพื่อให้เทียบข้ามสกุลเงินได้
+  {
+    key: "price",
+    group: "general",
+    type: "number",
+    better: "lower",
+    unit: "LAK",
+    getValue: (post) => post.basePrice ?? post.price,
+  },
+  {
+    key: "pricePerSqm",
+    group: "general",
+    type: "number",
+    better: "lower",
+    unit: "LAK",
+    getValue: (post) => PostComparisonService.pricePerSqm(post),
+  },
+  {
+    key: "area",
+    group: "general",
+    type: "number",
+    better: "higher",
+    unit: "sqm",
+    getValue: (post) => post.area,
+  },
+  {
+    key: "usableArea",
+    group: "general",
+    type: "number",
+    better: "higher",
+    unit: "sqm",
+    getValue: (post) => post.usableArea,
+  },
+  {
+    key: "propertyType",
+    group: "general",
+    type: "string",
+    getValue: (post) => post.propertyType,
+  },
+  {
+    key: "listingType",
+    group: "general",
+    type: "string",
+    getValue: (post) => post.listingType,
+  },
+  {
+    key: "condition",
+    group: "general",
+    type: "string",
+    getValue: (post) => post.condition,
+  },
+  {
+    key: "yearBuilt",
+    group: "general",
+    type: "number",
+    better: "higher",
+    getValue: (post) => post.yearBuilt,
+  },
+  {
+    key: "lastRenovated",
+    group: "general",
+    type: "number",
+    better: "higher",
+    getValue: (post) => post.lastRenovated,
+  },
+  {
+    key: "bedrooms",
+    group: "rooms",
+    type: "number",
+    better: "higher",
+    getValue: roomValue("bedrooms"),
+  },
+  {
+    key: "bathrooms",
+    group: "rooms",
+    type: "number",
+    better: "higher",
+    getValue: roomValue("bathrooms"),
+  },
+  {
+    key: "parkingSpaces",
+    group: "rooms",
+    type: "number",
+    better: "higher",
+    getValue: roomValue("parkingSpaces"),
+  },
+  {
+    key: "balconies",
+    group: "rooms",
+    type: "number",
+    better: "higher",
+    getValue: roomValue("balconies"),
+  },
+  {
+    key: "floors",
+    group: "house",
+    type: "number",
+    better: "higher",
+    getValue: (post) => post.houseDetails?.floors,
+  },
+  {
+    key: "livingRooms",
+    group: "house",
+    type: "number",
+    better: "higher",
+    getValue: (post) => post.houseDetails?.livingRooms,
+  },
+  {
+    key: "kitchens",
+    group: "house",
+    type: "number",
+    better: "higher",
+    getValue: (post) => post.houseDetails?.kitchens,
+  },
+  {
+    key: "gardenArea",
+    group: "house",
+    type: "number",
+    better: "higher",
+    unit: "sqm",
+    getValue: (post) => post.houseDetails?.gardenArea,
+  },
+  {
+    key: "floor",
+    group: "condo",
+    type: "number",
+    getValue: (post) => post.condoDetails?.floor,
+  },
+  {
+    key: "totalFloors",
+    group: "condo",
+    type: "number",
+    getValue: (post) => post.condoDetails?.totalFloors,
+  },
+  {
+    key: "facilities",
+    group: "condo",
+    type: "list",
+    better: "higher",
+    getValue: (post) => post.condoDetails?.facilities,
+  },
+  {
+    key: "landWidth",
+    group: "land",
+    type: "number",
+    unit: "m",
+    getValue: (post) => post.landDetails?.dimensions?.width,
+  },
+  {
+    key: "landLength",
+    group: "land",
+    type: "number",
+    unit: "m",
+    getValue: (post) => post.landDetails?.dimensions?.length,
+  },
+  {
+    key: "landType",
+    group: "land",
+    type: "string",
+    getValue: (post) => post.landDetails?.landType,
+  },
+  {
+    key: "landUse",
+    group: "land",
+    type: "string",
+    getValue: (post) => post.landDetails?.landUse,
+  },
+  {
+    key: "soilType",
+    group: "land",
+    type: "string",
+    getValue: (post) => post.landDetails?.soilType,
+  },
+  {
+    key: "waterSource",
+    group: "land",
+    type: "boolean",
+    getValue: (post) => post.landDetails?.waterSource,
+  },
+  {
+    key: "roadAccess",
+    group: "land",
+    type: "boolean",
+    getValue: (post) => post.landDetails?.roadAccess,
+  },
+  {
+    key: "utilities",
+    group: "land",
+    type: "list",
+    better: "higher",
+    getValue: (post) => post.landDetails?.utilities,
+  },
+];
+
+// สถานะที่ผู้อื่นเปิดดูได้ (เจ้าของโพสต์เปรียบเทียบโพสต์ตัวเองได้ทุกสถานะ)
+const PUBLIC_STATUSES = ["approved", "sold", "rented"];
+
+export class PostComparisonService {
+  private static hasCoordinates(coordinates?: number[]): boolean {
+    return (
+      Array.isArray(coordinates) &&
+      coordinates.length === 2 &&
+      !(coordinates[0] === 0 && coordinates[1] === 0)
+    );
+  }
+
+  private static isEmpty(value: any): boolean {
+    return (
+      value === undefined ||
+      value === null ||
+      value === "" ||
+      (Array.isArray(value) && value.length === 0)
+    );
+  }
+
+  // ราคาต่อตารางเมตรเป็นกีบ (ปัดเป็นจำนวนเต็ม)
+  static pricePerSqm(post: any): number | null {
+    const price = post.basePrice ?? post.price;
+    if (!price || !post.area || post.area <= 0) return null;
+    return Math.round(price / post.area);
+  }
+
+  // หาโพสต์ที่ดีที่สุดของแถว (ต้องมีค่าอย่างน้อย 2 โพสต์และไม่เท่ากันหมด)
+  private static findWinners(
+    definition: AttributeDefinition,
+    values: any[],
+    postIds: string[]
+  ): string[] {
+    if (!definition.better) return [];
+
+    const scored = values
+      .map((value, index) => ({
+        postId: postIds[index],
+        score: definition.type === "list" ? value?.length : value,
+      }))
+      .filter((item) => typeof item.score === "number" && !isNaN(item.score));
+
+    if (scored.length < 2) return [];
+
+    const scores = scored.map((item) => item.score);
+    const best =
+      definition.better === "higher"
+        ? Math.max(...scores)
+        : Math.min(...scores);
+    if (scores.every((score) => score === best)) return [];
+
+    return scored
+      .filter((item) => item.score === best)
+      .map((item) => item.postId);
+  }
+
+  // ระยะทางระหว่างโพสต์ทุกคู่ (กิโลเมตร)
+  private static buildDistances(
+    listings: ComparisonListing[]
+  ): ListingDistance[] {
+    const distances: ListingDistance[] = [];
+
+    for (let i = 0; i < listings.length; i++) {
+      for (let j = i + 1; j < listings.length; j++) {
+        const from = listings[i].coordinates;
+        const to = listings[j].coordinates;
+        if (!from || !to) continue;
+
+        const distance = CoordinateUtils.calculateDistance(
+          from[1],
+          from[0],
+          to[1],
+          to[0]
+        );
+        distances.push({
+          from: listings[i]._id,
+          to: listings[j]._id,
+          distanceKm: Math.round(distance * 100) / 100,
+        });
+      }
+    }
+
+    return distances;
+  }
+
+  private static toListing(post: any): ComparisonListing {
+    const coordinates = post.location?.coordinates?.coordinates;
+
+    return {
+      _id: post._id.toString(),
+      title: post.title,
+      price: post.price,
+      currency: post.currency || "LAK",
+      pricePerSqm: this.pricePerSqm(post),
+      propertyType: post.propertyType,
+      listingType: post.listingType,
+      status: post.status,
+      area: post.area,
+      usableArea: post.usableArea,
+      province: post.location?.address?.province,
+      district: post.location?.address?.district,
+      coordinates: this.hasCoordinates(coordinates)
+        ? [coordinates[0], coordinates[1]]
+        : null,
+      image: post.media?.images?.[0] || null,
+    };
+  }
+
+  // เปรียบเทียบโพสต์ 2-4 รายการแบบเคียงข้างกัน (เรียงตามลำดับที่ส่งมา)
+  static async compare(
+    postIds: string[],
+    viewerId?: string
+  ): Promise<PostComparison> {
+    const ids = Array.from(new Set(postIds.map((id) => id.toString())));
+
+    if (ids.length < MIN_COMPARE_POSTS || ids.length > MAX_COMPARE_POSTS) {
+      throw new Error(
+        `Between ${MIN_COMPARE_POSTS} and ${MAX_COMPARE_POSTS} distinct posts are required`
+      );
+    }
+    if (ids.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      throw new Error("Invalid post ID");
+    }
+
+    const visibility: any[] = [{ status: { $in: PUBLIC_STATUSES } }];
+    if (viewerId) {
+      visibility.push({ authorId: new mongoose.Types.ObjectId(viewerId) });
+    }
+
+    const posts = await Post.find({
+      _id: { $in: ids.map((id) => new mongoose.Types.ObjectId(id)) },
+      $or: visibility,
+    }).lean();
+
+    const postsById = new Map(posts.map((post) => [post._id.toString(), post]));
+    const missing = ids.filter((id) => !postsById.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Post not found: ${missing.join(", ")}`);
+    }
+
+    const ordered = ids.map((id) => postsById.get(id));
+    const listings = ordered.map((post) => this.toListing(post));
+
+    if (viewerId) {
+      const bookmarks = await Bookmark.find(
+        {
+          userId: new mongoose.Types.ObjectId(viewerId),
+          postId: { $in: ids },
+        },
+        "postId"
+      ).lean();
+      const bookmarked = new Set(bookmarks.map((b) => b.postId.toString()));
+      listings.forEach((listing) => {
+        listing.isBookmarked = bookmarked.has(listing._id);
+      });
+    }
+
+    // แสดงเฉพาะแถวที่มีข้อมูลอย่างน้อย 1 โพสต์
+    const attributes: ComparisonRow[] = [];
+    ATTRIBUTES.forEach((definition) => {
+      const values = ordered.map((post) => {
+        const value = definition.getValue(post);
+        return this.isEmpty(value) ? null : value;
+      });
+      if (values.every((value) => value === null)) return;
+
+      attributes.push({
+        key: definition.key,
+        group: definition.group,
+        type: definition.type,
+        unit: definition.unit,
+        better: definition.better,
+        values,
+        winners: this.findWinners(definition, values, ids),
+      });
+    });
+
+    const warnings: string[] = [];
+    if (new Set(listings.map((listing) => listing.listingType)).size > 1) {
+      warnings.push(
+        "Listings have different listing types; price comparisons may not be meaningful"
+      );
+    }
+    if (new Set(listings.map((listing) => listing.propertyType)).size > 1) {
+      warnings.push(
+        "Listings have different property types; some attributes only apply to one of them"
+      );
+    }
+
+    return {
+      listings,
+      attributes,
+      distances: this.buildDistances(listings),
+      warnings,
+    };
+  }
+}
@@ -1,8 +1,83 @@
 import { Post, IPost } from "@/models/Post";
 import { User } from "@/models/User";
-import mongoose from "mongoose";
+import mongoose, { PipelineStage } from "mongoose";
+import type { PostFilter } from "./PostService";
+import { CoordinateUtils, MapBounds } from "@/utils/coordinates";
+import { CurrencyService, CurrencyCode } from "./CurrencyService";
+import { AreaUtils, AreaUnit } from "@/utils/area";
+import { LISTING_LANGUAGES } from "@/utils/language";
+
+// ระยะขยายรอบพื้นที่ค้นหา สำหรับหาที่ดินที่จุดกึ่งกลางอยู่นอกพื้นที่แต่ boundary ตัดเข้ามา
+const BOUNDARY_SEARCH_MARGIN_KM = 5;
+const MAX_BOUNDARY_CANDIDATES = 1000;
+
+// จำนวน cell ต่อความกว้าง 1 tile ของแผนที่ (tile 256px → cell ละ 64px)
+const CLUSTER_CELLS_PER_TILE = 4;
+const MAX_CLUSTERS = 2000;
+
+const EARTH_RADIUS_METERS = 6378100;
+
+// ช่วงราคา/พื้นที่สำหรับ facet (ราคาเป็นกีบตาม basePrice, พื้นที่เป็นตารางเมตร)
+const PRICE_FACET_BOUNDARIES = [0, 1e6, 5e6, 1e7, 5e7, 1e8, 5e8, 1e9, Infinity];
+const AREA_FACET_BOUNDARIES = [
+  0,
+  50,
+  100,
+  200,
+  500,
+  1000,
+  1600,
+  5000,
+  1e4,
+  Infinity,
+];
+
+// facet → path ของฟิลด์ใน query
+const FACET_FIELDS = {
+  propertyType: "propertyType",
+  listingType: "listingType",
+  province: "location.address.province",
+  condition: "condition",
+  bedrooms: "houseDetails.bedrooms",
+  priceRanges: "basePrice",
+  areaRanges: "area",
+} as const;
+
+export interface FacetValueCount {
+  value: string | number;
+  count: number;
+}
+
+export interface FacetRangeCount {
+  min: number;
+  max: number | null; // null = ไม่จำกัด
+  count: number;
+}
+
+export interface SearchFacets {
+  propertyType: FacetValueCount[];
+  listingType: FacetValueCount[];
+  province: FacetValueCount[];
+  condition: FacetValueCount[];
+  bedrooms: FacetValueCount[];
+  priceRanges: FacetRangeCount[];
+  areaRanges: FacetRangeCount[];
+}
+
+export interface MapCluster {
+  count: number;
+  centroid: { latitude: number; longitude: number };
+  minPrice: number;
+  maxPrice: number;
+  samplePostId: mongoose.Types.ObjectId;
+}
 
 export class PostQueryHelper {
+  // เงื่อนไขตัดโพสต์ที่เลยวันหมดอายุ (กรณี scheduler ยังไม่ได้เปลี่ยนสถานะ)
+  static notExpiredQuery(): any {
+    return { expiresAt: { $not: { $lte: new Date() } } };
+  }
+
   // ค้นหาโพสต์ในบริเวณใกล้เคียงด้วย MongoDB geospatial query
   static async findNearbyPosts(
     latitude: number,
@@ -14,6 +89,7 @@ export class PostQueryHelper {
   ): Promise<IPost[]> {
     const query = {
       status: "approved",
+      ...this.notExpiredQuery(),
       "location.coordinates": {
         $near: {
           $geometry: {
@@ -42,6 +118,7 @@ export class PostQueryHelper {
   ): Promise<number> {
     const query = {
       status: "approved",
+      ...this.notExpiredQuery(),
       "location.coordinates": {
         $near: {
           $geometry: {
@@ -64,7 +141,7 @@ export class PostQueryHelper {
     skip: number = 0,
     limit: number = 10
   ): Promise<{ posts: IPost[]; total: number }> {
-    const query = { status: "approved", ...filter };
+    const query = { status: "approved", ...this.notExpiredQuery(), ...filter };
 
     const [posts, total] = await Promise.all([
       Post.find(query)
@@ -79,6 +156,343 @@ export class PostQueryHelper {
     return { posts, total };
   }
 
+  // ค้นหาโพสต์ภายใน polygon (viewport หรือพื้นที่ที่วาดบนแผนที่)
+  // รวมที่ดินที่ location.boundary ตัดกับพื้นที่ แม้จุดกึ่งกลางจะอยู่นอกพื้นที่
+  static async findWithinArea(
+    ring: [number, number][],
+    filter: any = {},
+    sortQuery: any = { createdAt: -1 },
+    skip: number = 0,
+    limit: number = 10
+  ): Promise<{ posts: IPost[]; total: number; boundaryMatchIds: string[] }> {
+    const baseQuery = {
+      status: "approved",
+      ...this.notExpiredQuery(),
+      ...filter,
+    };
+
+    const boundaryMatchIds = await this.findBoundaryIntersectingIds(
+      ring,
+      baseQuery
+    );
+
+    const query = {
+      ...baseQuery,
+      $and: [
+        {
+          $or: [
+            {
+              "location.coordinates": {
+                $geoWithin: {
+                  $geometry: { type: "Polygon", coordinates: [ring] },
+                },
+              },
+            },
+            {
+              _id: {
+                $in: boundaryMatchIds.map(
+                  (id) => new mongoose.Types.ObjectId(id)
+                ),
+              },
+            },
+          ],
+        },
+      ],
+    };
+
+    const [posts, total] = await Promise.all([
+      Post.find(query)
+        .sort(sortQuery)
+        .skip(skip)
+        .limit(limit)
+        .populate("authorId", "name email avatar")
+        .lean() as unknown as IPost[],
+      Post.countDocuments(query),
+    ]);
+
+    return { posts, total, boundaryMatchIds };
+  }
+
+  // หา ID ของที่ดินที่ boundary ตัดกับ polygon
+  private static async findBoundaryIntersectingIds(
+    ring: [number, number][],
+    baseQuery: any
+  ): Promise<string[]> {
+    const bounds = CoordinateUtils.getRingBounds(ring);
+    const midLat = (bounds.north + bounds.south) / 2;
+    const latMargin = BOUNDARY_SEARCH_MARGIN_KM / 111.32;
+    const lngMargin =
+      BOUNDARY_SEARCH_MARGIN_KM / (111.32 * Math.cos(this.deg2rad(midLat)));
+
+    const searchRing = CoordinateUtils.boundsToPolygon({
+      north: Math.min(bounds.north + latMargin, 90),
+      south: Math.max(bounds.south - latMargin, -90),
+      east: Math.min(bounds.east + lngMargin, 180),
+      west: Math.max(bounds.west - lngMargin, -180),
+    });
+
+    const candidates = await Post.find(
+      {
+        ...baseQuery,
+        "location.boundary.2": { $exists: true },
+        "location.coordinates": {
+          $geoWithin: {
+            $geometry: { type: "Polygon", coordinates: [searchRing] },
+          },
+        },
+      },
+      "location.boundary"
+    )
+      .limit(MAX_BOUNDARY_CANDIDATES)
+      .lean();
+
+    return candidates
+      .filter((post: any) =>
+        CoordinateUtils.polygonsIntersect(
+          ring,
+          CoordinateUtils.closeRing(post.location.boundary)
+        )
+      )
+      .map((post: any) => post._id.toString());
+  }
+
+  // นับจำนวนผลลัพธ์ของแต่ละตัวเลือกใน filter sidebar ด้วย $facet
+  // แต่ละ facet ไม่ใช้ filter ของตัวเอง เพื่อแสดงจำนวนที่จะได้ถ้าเปลี่ยนตัวเลือก
+  static async getSearchFacets(query: any): Promise<SearchFacets> {
+    const baseQuery = { ...query };
+    const facetConditions: Record<string, any> = {};
+
+    Object.values(FACET_FIELDS).forEach((path) => {
+      if (baseQuery[path] !== undefined) {
+        facetConditions[path] = baseQuery[path];
+        delete baseQuery[path];
+      }
+    });
+
+    // $near ใช้ใน aggregation ไม่ได้ แปลงเป็น $geoWithin
+    const near = baseQuery["location.coordinates"]?.$near;
+    if (near) {
+      baseQuery["location.coordinates"] = {
+        $geoWithin: {
+          $centerSphere: [
+            near.$geometry.coordinates,
+            near.$maxDistance / EARTH_RADIUS_METERS,
+          ],
+        },
+      };
+    }
+
+    const matchOthers = (path: string) => {
+      const conditions = { ...facetConditions };
+      delete conditions[path];
+      return { $match: conditions };
+    };
+
+    const countBy = (
+      path: string,
+      limit: number
+    ): PipelineStage.FacetPipelineStage[] => [
+      matchOthers(path),
+      { $match: { [path]: { $nin: [null, ""] } } },
+      { $group: { _id: `$${path}`, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+    ];
+
+    const bucketBy = (
+      path: string,
+      boundaries: number[]
+    ): PipelineStage.FacetPipelineStage[] => [
+      matchOthers(path),
+      { $match: { [path]: { $gte: 0 } } },
+      {
+        $bucket: {
+          groupBy: `$${path}`,
+          boundaries,
+          output: { count: { $sum: 1 } },
+        },
+      },
+    ];
+
+    const [result] = await Post.aggregate([
+      { $match: baseQuery },
+      {
+        $facet: {
+          propertyType: countBy(FACET_FIELDS.propertyType, 10),
+          listingType: countBy(FACET_FIELDS.listingType, 10),
+          province: countBy(FACET_FIELDS.province, 50),
+          condition: countBy(FACET_FIELDS.condition, 10),
+          bedrooms: countBy(FACET_FIELDS.bedrooms, 20),
+          priceRanges: bucketBy(
+            FACET_FIELDS.priceRanges,
+            PRICE_FACET_BOUNDARIES
+          ),
+          areaRanges: bucketBy(FACET_FIELDS.areaRanges, AREA_FACET_BOUNDARIES),
+        },
+      },
+    ]);
+
+    const toValues = (items: any[] = []): FacetValueCount[] =>
+      items.map((item) => ({ value: item._id, count: item.count }));
+
+    const toRanges = (
+      items: any[] = [],
+      boundaries: number[]
+    ): FacetRangeCount[] =>
+      items.map((item) => {
+        const max = boundaries[boundaries.indexOf(item._id) + 1];
+        return {
+          min: item._id,
+          max: max === Infinity ? null : max,
+          count: item.count,
+        };
+      });
+
+    return {
+      propertyType: toValues(result?.propertyType),
+      listingType: toValues(result?.listingType),
+      province: toValues(result?.province),
+      condition: toValues(result?.condition),
+      bedrooms: toValues(result?.bedrooms).sort(
+        (a, b) => Number(a.value) - Number(b.value)
+      ),
+      priceRanges: toRanges(result?.priceRanges, PRICE_FACET_BOUNDARIES),
+      areaRanges: toRanges(result?.areaRanges, AREA_FACET_BOUNDARIES),
+    };
+  }
+
+  // ขนาด grid cell (องศา) ตามระดับ zoom ของแผนที่
+  static getClusterCellSize(zoom: number): number {
+    return 360 / (Math.pow(2, zoom) * CLUSTER_CELLS_PER_TILE);
+  }
+
+  // จัดกลุ่มโพสต์ใน viewport ด้วย grid aggregation บน location.coordinates
+  // grid ยึดจากพิกัดโลก (-180, -90) เพื่อให้ cluster ไม่ขยับเมื่อเลื่อนแผนที่
+  static async getMapClusters(
+    ring: [number, number][],
+    zoom: number,
+    filter: any = {}
+  ): Promise<MapCluster[]> {
+    const cellSize = this.getClusterCellSize(zoom);
+    const lng = { $arrayElemAt: ["$location.coordinates.coordinates", 0] };
+    const lat = { $arrayElemAt: ["$location.coordinates.coordinates", 1] };
+
+    const clusters = await Post.aggregate([
+      {
+        $match: {
+          status: "approved",
+          ...this.notExpiredQuery(),
+          ...filter,
+          "location.coordinates": {
+            $geoWithin: {
+              $geometry: { type: "Polygon", coordinates: [ring] },
+            },
+          },
+        },
+      },
+      // โพสต์แนะนำ/คุณภาพสูง/ใหม่ล่าสุดเป็นตัวอย่างของ cluster
+      { $sort: { featured: -1, qualityScore: -1, createdAt: -1 } },
+      {
+        $project: {
+          basePrice: 1,
+          lng,
+          lat,
+          cellX: { $floor: { $divide: [{ $add: [lng, 180] }, cellSize] } },
+          cellY: { $floor: { $divide: [{ $add: [lat, 90] }, cellSize] } },
+        },
+      },
+      {
+        $group: {
+          _id: { x: "$cellX", y: "$cellY" },
+          count: { $sum: 1 },
+          longitude: { $avg: "$lng" },
+          latitude: { $avg: "$lat" },
+          minPrice: { $min: "$basePrice" },
+          maxPrice: { $max: "$basePrice" },
+          samplePostId: { $first: "$_id" },
+        },
+      },
+      { $sort: { count: -1 } },
+      { $limit: MAX_CLUSTERS },
+    ]);
+
+    return clusters.map((cluster) => ({
+      count: cluster.count,
+      centroid: {
+        latitude: cluster.latitude,
+        longitude: cluster.longitude,
+      },
+      minPrice: cluster.minPrice,
+      maxPrice: cluster.maxPrice,
+      samplePostId: cluster.samplePostId,
+    }));
+  }
+
+  // เงื่อนไขพื้นที่แบบ $geoWithin จาก PostFilter (ใช้คู่กับ sort อื่นได้ ต่างจาก $near)
+  static buildGeoWithinQuery(filter: PostFilter): any {
+    if (filter.polygon || filter.bounds) {
+      const ring = filter.polygon
+        ? CoordinateUtils.closeRing(filter.polygon)
+        : CoordinateUtils.boundsToPolygon(filter.bounds as MapBounds);
+      return {
+        "location.coordinates": {
+          $geoWithin: {
+            $geometry: { type: "Polygon", coordinates: [ring] },
+          },
+        },
+      };
+    }
+
+    if (filter.latitude && filter.longitude && filter.radius) {
+      return {
+        "location.coordinates": {
+          $geoWithin: {
+            $centerSphere: [
+              [filter.longitude, filter.latitude],
+              filter.radius / EARTH_RADIUS_METERS,
+            ],
+          },
+        },
+      };
+    }
+
+    return {};
+  }
+
+  // แปลง sortBy ของ PostFilter เป็น sort query
+  static buildSortQuery(sortBy?: PostFilter["sortBy"]): any {
+    switch (sortBy) {
+      case "oldest":
+        return this.withQualityTiebreak({ createdAt: 1 });
+      case "price_asc":
+        return this.withQualityTiebreak({ basePrice: 1 });
+      case "price_desc":
+        return this.withQualityTiebreak({ basePrice: -1 });
+      case "area_asc":
+        return this.withQualityTiebreak({ area: 1 });
+      case "area_desc":
+        return this.withQualityTiebreak({ area: -1 });
+      default:
+        return this.withQualityTiebreak({ createdAt: -1 });
+    }
+  }
+
+  // คะแนนคุณภาพเป็นลำดับรองเมื่อค่าที่เลือกเรียงเท่ากัน (ราคา/พื้นที่ซ้ำกันบ่อย)
+  // ไม่ใช้เป็นลำดับหลัก เพื่อไม่ให้ทับการเรียงที่ผู้ใช้เลือกหรือดันประกาศใหม่ลงไป
+  static withQualityTiebreak(
+    sortQuery: Record<string, 1 | -1>
+  ): Record<string, 1 | -1> {
+    return { ...sortQuery, qualityScore: -1 };
+  }
+
+  // ให้โพสต์ที่มี boost แสดงก่อน (ใช้กับการเรียงค่าเริ่มต้นเท่านั้น ไม่ทับการเรียงที่ผู้ใช้เลือก)
+  static withBoostRanking(
+    sortQuery: any,
+    placement: "search" | "feed"
+  ): any {
+    return { [`boostRanks.${placement}`]: -1, ...sortQuery };
+  }
+
   // ค้นหาตัวเลข (ช่วงราคา, พื้นที่)
   static buildRangeQuery(field: string, min?: number, max?: number): any {
     if (!min && !max) return {};
@@ -90,6 +504,104 @@ export class PostQueryHelper {
     return { [field]: rangeQuery };
   }
 
+  // ช่วงราคาในสกุลเงินที่ผู้ใช้เลือก → เทียบกับ basePrice (กีบ) ของทุกสกุลเงิน
+  static buildPriceRangeQuery(
+    min?: number,
+    max?: number,
+    currency?: CurrencyCode
+  ): any {
+    return this.buildRangeQuery(
+      "basePrice",
+      min ? CurrencyService.toBase(min, currency) : undefined,
+      max ? CurrencyService.toBase(max, currency) : undefined
+    );
+  }
+
+  // ช่วงพื้นที่ในหน่วยที่ผู้ใช้เลือก → เทียบกับ area ที่เก็บเป็นตารางเมตร
+  static buildAreaRangeQuery(min?: number, max?: number, unit?: AreaUnit): any {
+    return this.buildRangeQuery(
+      "area",
+      min ? AreaUtils.toSquareMeters(min, unit) : undefined,
+      max ? AreaUtils.toSquareMeters(max, unit) : undefined
+    );
+  }
+
+  // สร้าง query จาก PostFilter (ไม่รวม status และ geospatial)
+  static buildFilterQuery(filter: PostFilter): any {
+    const query: any = {};
+
+    if (filter.propertyType) query.propertyType = filter.propertyType;
+    if (filter.listingType) query.listingType = filter.listingType;
+    if (filter.condition) query.condition = filter.condition;
+    if (filter.featured !== undefined) query.featured = filter.featured;
+    if (filter.urgent !== undefined) query.urgent = filter.urgent;
+
+    // Location filters
+    if (filter.province)
+      query["location.address.province"] = {
+        $regex: filter.province,
+        $options: "i",
+      };
+    if (filter.district)
+      query["location.address.district"] = {
+        $regex: filter.district,
+        $options: "i",
+      };
+    if (filter.location) {
+      query.$or = [
+        {
+          "location.address.street": {
+            $regex: filter.location,
+            $options: "i",
+          },
+        },
+        {
+          "location.address.district": {
+            $regex: filter.location,
+            $options: "i",
+          },
+        },
+        {
+          "location.address.province": {
+            $regex: filter.location,
+            $options: "i",
+          },
+        },
+      ];
+    }
+
+    // Range filters
+    Object.assign(
+      query,
+      this.buildPriceRangeQuery(
+        filter.minPrice,
+        filter.maxPrice,
+        filter.currency
+      )
+    );
+    Object.assign(
+      query,
+      this.buildAreaRangeQuery(filter.minArea, filter.maxArea, filter.areaUnit)
+    );
+
+    // House details
+    if (filter.bedrooms) query["houseDetails.bedrooms"] = filter.bedrooms;
+    if (filter.bathrooms) query["houseDetails.bathrooms"] = filter.bathrooms;
+
+    // Land details
+    if (filter.roadAccess !== undefined)
+      query["landDetails.roadAccess"] = filter.roadAccess;
+    if (filter.waterSource !== undefined)
+      query["landDetails.waterSource"] = filter.waterSource;
+    if (filter.electricity === true) {
+      query["landDetails.utilities"] = {
+        $in: ["electricity", "Electricity", "ไฟฟ้า"],
+      };
+    }
+
+    return query;
+  }
+
   // สร้าง text search query - ค้นหาหลายฟิลด์พร้อมกัน
   static buildTextSearchQuery(searchText: string): any {
     if (!searchText) return {};
@@ -100,6 +612,11 @@ export class PostQueryHelper {
       $or: [
         { title: { $regex: searchRegex } },
         { description: { $regex: searchRegex } },
+        // ชื่อ/รายละเอียดทุกภาษาที่แปลไว้
+        ...LISTING_LANGUAGES.flatMap((language) => [
+          { [`translations.${language}.title`]: { $regex: searchRegex } },
+          { [`translations.${language}.description`]: { $regex: searchRegex } },
+        ]),
         { "location.address.street": { $regex: searchRegex } },
         { "location.address.district": { $regex: searchRegex } },
         { "location.address.province": { $regex: searchRegex } },
@@ -116,11 +633,23 @@ export class PostQueryHelper {
     const searchLower = searchText.toLowerCase();
     let score = 0;
 
+    // ชื่อ/รายละเอียดทุกภาษา (นับคะแนนครั้งเดียวต่อฟิลด์)
+    const variants = [
+      { title: post.title, description: post.description },
+      ...LISTING_LANGUAGES.map((language) => post.translations?.[language]),
+    ].filter(Boolean);
+    const titles: string[] = variants
+      .map((variant) => variant.title?.toLowerCase())
+      .filter(Boolean);
+    const descriptions: string[] = variants
+      .map((variant) => variant.description?.toLowerCase())
+      .filter(Boolean);
+
     // Title match (highest priority) - 10 points
-    if (post.title && post.title.toLowerCase().includes(searchLower)) {
+    if (titles.some((title) => title.includes(searchLower))) {
       score += 10;
       // Exact match bonus
-      if (post.title.toLowerCase() === searchLower) score += 5;
+      if (titles.includes(searchLower)) score += 5;
     }
 
     // Tags match - 8 points per tag
@@ -153,10 +682,7 @@ export class PostQueryHelper {
     }
 
     // Description match - 3 points
-    if (
-      post.description &&
-      post.description.toLowerCase().includes(searchLower)
-    ) {
+    if (descriptions.some((description) => description.includes(searchLower))) {
       score += 3;
     }
 
@@ -164,6 +690,11 @@ export class PostQueryHelper {
     if (post.featured) score += 2;
     if (post.urgent) score += 1;
 
+    // คุณภาพ/ความครบถ้วนของประกาศ - max 5 points
+    if (post.qualityScore) {
+      score += post.qualityScore / 20;
+    }
+
     // Boost based on view count (popularity)
     if (post.viewCount) {
       score += Math.min(post.viewCount / 100, 3); // Max 3 points from views
@@ -234,14 +765,16 @@ export class PostQueryHelper {
           priceRanges: [
             {
               $bucket: {
-                groupBy: "$price",
+                groupBy: "$basePrice",
                 boundaries: [0, 1000000, 5000000, 10000000, 50000000, Infinity],
                 default: "Other",
                 output: { count: { $sum: 1 } },
               },
             },
           ],
-          avgPrice: [{ $group: { _id: null, avgPrice: { $avg: "$price" } } }],
+          avgPrice: [
+            { $group: { _id: null, avgPrice: { $avg: "$basePrice" } } },
+          ],
           avgArea: [{ $group: { _id: null, avgArea: { $avg: "$area" } } }],
         },
       },
@@ -260,8 +793,10 @@ export class PostQueryHelper {
     listingType?: string;
     minPrice?: number;
     maxPrice?: number;
+    currency?: CurrencyCode; // สกุลเงินของ minPrice/maxPrice
     minArea?: number;
     maxArea?: number;
+    areaUnit?: AreaUnit; // หน่วยของ minArea/maxArea
     province?: string;
     district?: string;
     bedrooms?: number;
@@ -275,6 +810,7 @@ export class PostQueryHelper {
     roadAccess?: boolean;
     waterSource?: boolean;
     electricity?: boolean;
+    includeFacets?: boolean; // คืน facet counts ในการเรียกครั้งเดียวกัน
   }) {
     const {
       searchText,
@@ -285,8 +821,10 @@ export class PostQueryHelper {
       listingType,
       minPrice,
       maxPrice,
+      currency,
       minArea,
       maxArea,
+      areaUnit,
       province,
       district,
       bedrooms,
@@ -300,9 +838,10 @@ export class PostQueryHelper {
       roadAccess,
       waterSource,
       electricity,
+      includeFacets = false,
     } = params;
 
-    let query: any = { status: "approved" };
+    const query: any = { status: "approved", ...this.notExpiredQuery() };
 
     // Text search
     if (searchText) {
@@ -336,8 +875,11 @@ export class PostQueryHelper {
       query["location.address.district"] = { $regex: district, $options: "i" };
 
     // Range filters
-    Object.assign(query, this.buildRangeQuery("price", minPrice, maxPrice));
-    Object.assign(query, this.buildRangeQuery("area", minArea, maxArea));
+    Object.assign(
+      query,
+      this.buildPriceRangeQuery(minPrice, maxPrice, currency)
+    );
+    Object.assign(query, this.buildAreaRangeQuery(minArea, maxArea, areaUnit));
 
     // House details filters
     if (bedrooms) query["houseDetails.bedrooms"] = bedrooms;
@@ -369,10 +911,10 @@ export class PostQueryHelper {
         sortQuery = { createdAt: 1 };
         break;
       case "price_asc":
-        sortQuery = { price: 1 };
+        sortQuery = { basePrice: 1 };
         break;
       case "price_desc":
-        sortQuery = { price: -1 };
+        sortQuery = { basePrice: -1 };
         break;
       case "area_asc":
         sortQuery = { area: 1 };
@@ -386,6 +928,16 @@ export class PostQueryHelper {
         break;
     }
 
+    // $near เรียงตามระยะทางเอง
+    if (sortBy !== "distance") {
+      sortQuery = this.withQualityTiebreak(sortQuery);
+    }
+
+    // เรียงค่าเริ่มต้น: โพสต์ที่มี boost ขึ้นก่อน
+    if (sortBy === "newest") {
+      sortQuery = this.withBoostRanking(sortQuery, "search");
+    }
+
     const skip = (page - 1) * limit;
 
     // When search text is provided and no geospatial sort, we'll sort by relevance after fetching
@@ -395,9 +947,10 @@ export class PostQueryHelper {
     const fetchLimit = useRelevanceSort ? limit * 5 : limit;
     const fetchSkip = useRelevanceSort ? 0 : skip;
 
-    const [posts, total] = await Promise.all([
+    const [posts, total, facets] = await Promise.all([
       Post.find(query).sort(sortQuery).skip(fetchSkip).limit(fetchLimit).lean(),
       Post.countDocuments(query),
+      includeFacets ? this.getSearchFacets(query) : undefined,
     ]);
 
     // Manual population to handle invalid (empty string) authorId safely
@@ -429,8 +982,11 @@ export class PostQueryHelper {
 
       // Sort by relevance if not using geospatial sort
       if (useRelevanceSort) {
+        // boost (top_search > featured > urgent) อยู่เหนือคะแนนความเกี่ยวข้อง
         processedPosts.sort(
-          (a: any, b: any) => b.relevanceScore - a.relevanceScore
+          (a: any, b: any) =>
+            (b.boostRanks?.search || 0) - (a.boostRanks?.search || 0) ||
+            b.relevanceScore - a.relevanceScore
         );
         // Apply pagination after sorting
         processedPosts = processedPosts.slice(skip, skip + limit);
@@ -470,6 +1026,7 @@ export class PostQueryHelper {
         totalCount: total,
         limit,
       },
+      facets,
       searchInfo: {
         hasGeospatialFilter: !!(latitude && longitude),
         searchCenter:
@@ -479,8 +1036,13 @@ export class PostQueryHelper {
           propertyType,
           listingType,
           priceRange:
-            minPrice || maxPrice ? { min: minPrice, max: maxPrice } : null,
-          areaRange: minArea || maxArea ? { min: minArea, max: maxArea } : null,
+            minPrice || maxPrice
+              ? { min: minPrice, max: maxPrice, currency }
+              : null,
+          areaRange:
+            minArea || maxArea
+              ? { min: minArea, max: maxArea, unit: areaUnit || "sqm" }
+              : null,
           location: { province, district },
           houseDetails: bedrooms || bathrooms ? { bedrooms, bathrooms } : null,
           condition,
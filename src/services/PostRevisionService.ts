@@ -0,0 +1,452 @@
+import mongoose from "mongoose";
+import {
+  PostRevision,
+  IPostRevision,
+  FieldChange,
+  RevisionStatus,
+} from "@/models/PostRevision";
+import { Post, IPost } from "@/models/Post";
+import { emitToUser } from "@/config/socket";
+import { PriceHistoryService } from "./PriceHistoryService";
+import { CurrencyService } from "./CurrencyService";
+import { AreaUtils } from "@/utils/area";
+import { SimilarListingService } from "./SimilarListingService";
+import { SeoService } from "./SeoService";
+import { ListingQualityService } from "./ListingQualityService";
+
+// ฟิลด์ที่ต้องให้ admin ตรวจสอบใหม่เมื่อแก้ไขโพสต์ที่อนุมัติแล้ว
+export const SENSITIVE_FIELDS = [
+  "price",
+  "currency",
+  "media",
+  "legalDocuments",
+  "location",
+] as const;
+
+// ฟิลด์ที่ผู้ใช้แก้ไขได้และถูกบันทึกใน revision
+const TRACKED_FIELDS = [
+  "title",
+  "description",
+  "primaryLanguage",
+  "translations",
+  "price",
+  "currency",
+  "propertyType",
+  "listingType",
+  "area",
+  "usableArea",
+  "areaUnit",
+  "location",
+  "houseDetails",
+  "landDetails",
+  "condoDetails",
+  "media",
+  "legalDocuments",
+  "condition",
+  "yearBuilt",
+  "lastRenovated",
+  "status",
+  "featured",
+  "urgent",
+  "tags",
+  "keywords",
+];
+
+export class PostRevisionService {
+  static isSensitiveField(field: string): boolean {
+    return SENSITIVE_FIELDS.some(
+      (sensitive) => field === sensitive || field.startsWith(`${sensitive}.`)
+    );
+  }
+
+  // แปลงค่าให้อยู่ในรูป JSON (ObjectId/Date เป็น string)
+  private static normalize(value: any): any {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+
+  private static isPlainObject(
+    value: unknown
+  ): value is Record<string, unknown> {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+  }
+
+  private static isEmpty(value: unknown): boolean {
+    return (
+      value === undefined ||
+      value === null ||
+      value === "" ||
+      (Array.isArray(value) && value.length === 0)
+    );
+  }
+
+  // แปลง object ซ้อนเป็น dot path (array ถือเป็นค่าเดียว)
+  private static flatten(
+    value: unknown,
+    prefix: string,
+    out: Record<string, unknown> = {}
+  ): Record<string, unknown> {
+    if (this.isPlainObject(value) && Object.keys(value).length > 0) {
+      Object.entries(value).forEach(([key, item]) =>
+        this.flatten(item, `${prefix}.${key}`, out)
+      );
+    } else {
+      out[prefix] = value;
+    }
+    return out;
+  }
+
+  // FormData ส่งตัวเลข/boolean มาเป็น string
+  private static coerce(oldValue: unknown, newValue: unknown): unknown {
+    if (typeof newValue !== "string") return newValue;
+    if (typeof oldValue === "number" && newValue.trim() !== "") {
+      const num = Number(newValue);
+      return isNaN(num) ? newValue : num;
+    }
+    if (typeof oldValue === "boolean") {
+      if (newValue === "true") return true;
+      if (newValue === "false") return false;
+    }
+    return newValue;
+  }
+
+  // เปรียบเทียบข้อมูลที่จะอัปเดตกับโพสต์ปัจจุบันแบบราย field
+  static diffChanges(post: IPost, updateData: any): FieldChange[] {
+    const current = this.normalize(post.toObject());
+    const changes: FieldChange[] = [];
+
+    TRACKED_FIELDS.forEach((field) => {
+      if (updateData[field] === undefined) return;
+
+      const oldFlat = this.flatten(current[field], field);
+      const newFlat = this.flatten(this.normalize(updateData[field]), field);
+      const paths = new Set([...Object.keys(oldFlat), ...Object.keys(newFlat)]);
+
+      paths.forEach((path) => {
+        const oldValue = oldFlat[path];
+        const newValue = this.coerce(oldValue, newFlat[path]);
+
+        if (this.isEmpty(oldValue) && this.isEmpty(newValue)) return;
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+
+        changes.push({ field: path, oldValue, newValue });
+      });
+    });
+
+    return changes;
+  }
+
+  private static async nextRevisionNumber(postId: string): Promise<number> {
+    const last = await PostRevision.findOne({ postId }, "revisionNumber")
+      .sort({ revisionNumber: -1 })
+      .lean();
+    return (last?.revisionNumber || 0) + 1;
+  }
+
+  private static async createRevision(
+    postId: string,
+    editedBy: string,
+    changes: FieldChange[],
+    status: RevisionStatus,
+    rollbackOf?: mongoose.Types.ObjectId
+  ): Promise<IPostRevision> {
+    return await PostRevision.create({
+      postId: new mongoose.Types.ObjectId(postId),
+      revisionNumber: await this.nextRevisionNumber(postId),
+      editedBy: new mongoose.Types.ObjectId(editedBy),
+      changes,
+      sensitive: changes.some((change) => this.isSensitiveField(change.field)),
+      status,
+      rollbackOf,
+    });
+  }
+
+  // บันทึกการแก้ไขที่ถูกบันทึกลงโพสต์แล้ว
+  static async recordAppliedRevision(
+    postId: string,
+    editedBy: string,
+    changes: FieldChange[]
+  ): Promise<IPostRevision | null> {
+    if (changes.length === 0) return null;
+    return await this.createRevision(postId, editedBy, changes, "applied");
+  }
+
+  // เก็บการแก้ไขฟิลด์สำคัญไว้รอ admin ตรวจสอบ (แทนที่ pending revision เดิม)
+  static async createPendingRevision(
+    postId: string,
+    editedBy: string,
+    changes: FieldChange[]
+  ): Promise<IPostRevision> {
+    await PostRevision.updateMany(
+      { postId, status: "pending" },
+      { $set: { status: "superseded" } }
+    );
+
+    const revision = await this.createRevision(
+      postId,
+      editedBy,
+      changes,
+      "pending"
+    );
+
+    await Post.updateOne(
+      { _id: postId },
+      { $set: { pendingRevisionId: revision._id } }
+    );
+
+    return revision;
+  }
+
+  // บันทึกการเปลี่ยนแปลงลงโพสต์ (รวมประวัติราคา)
+  private static async applyChanges(
+    postId: mongoose.Types.ObjectId,
+    changes: FieldChange[],
+    userId: string
+  ): Promise<IPost> {
+    const post = await Post.findById(postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    const update: any = { $set: {}, $unset: {} };
+    changes.forEach((change) => {
+      if (this.isEmpty(change.newValue)) {
+        update.$unset[change.field] = 1;
+      } else {
+        update.$set[change.field] = change.newValue;
+      }
+    });
+
+    const oldPrice = post.price;
+    const priceChange = changes.find((change) => change.field === "price");
+    const newPrice = priceChange ? Number(priceChange.newValue) : undefined;
+    const priceChanged =
+      newPrice !== undefined && !isNaN(newPrice) && newPrice !== oldPrice;
+
+    const currencyChange = changes.find(
+      (change) => change.field === "currency"
+    );
+    const newCurrency = CurrencyService.parseCurrency(currencyChange?.newValue);
+    const currencyChanged = !!newCurrency && newCurrency !== post.currency;
+    const oldSnapshot = { price: oldPrice, currency: post.currency };
+    const newSnapshot = {
+      price: priceChanged ? (newPrice as number) : oldPrice,
+      currency: newCurrency || post.currency,
+    };
+
+    if (priceChanged || currencyChanged) {
+      // เปลี่ยนสกุลเงิน = เทียบราคาเดิมไม่ได้ จึงไม่นับเป็นการลดราคา
+      const priceDrop = PriceHistoryService.buildPriceDrop(
+        oldSnapshot,
+        newSnapshot
+      );
+      if (priceDrop) {
+        update.$set.lastPriceDrop = priceDrop;
+      } else {
+        update.$unset.lastPriceDrop = 1;
+      }
+    }
+
+    // basePrice ต้องตรงกับราคา/สกุลเงินใหม่
+    if (priceChanged || currencyChanged) {
+      update.$set.basePrice = CurrencyService.toBase(
+        newSnapshot.price,
+        newSnapshot.currency
+      );
+    }
+    if (priceChanged) {
+      update.$set.pricePerUnit = AreaUtils.pricePerUnit(
+        newPrice as number,
+        post.area
+      );
+    }
+
+    if (Object.keys(update.$unset).length === 0) delete update.$unset;
+
+    const updatedPost = await Post.findByIdAndUpdate(postId, update, {
+      new: true,
+    }).populate("authorId", "name email avatar");
+    if (!updatedPost) {
+      throw new Error("Post not found");
+    }
+
+    await SimilarListingService.invalidate(postId.toString());
+    await ListingQualityService.refresh(updatedPost);
+    await SeoService.syncSlug(updatedPost);
+
+    if (priceChanged || currencyChanged) {
+      await PriceHistoryService.recordPriceChange(
+        postId.toString(),
+        oldSnapshot,
+        newSnapshot,
+        userId
+      );
+    }
+
+    return updatedPost;
+  }
+
+  private static async getRevision(revisionId: string): Promise<IPostRevision> {
+    if (!mongoose.Types.ObjectId.isValid(revisionId)) {
+      throw new Error("Revision not found");
+    }
+
+    const revision = await PostRevision.findById(revisionId);
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+    return revision;
+  }
+
+  // ดึงประวัติการแก้ไขของโพสต์
+  static async getPostRevisions(
+    postId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ revisions: any[]; total: number }> {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new Error("Post not found");
+    }
+
+    const exists = await Post.exists({ _id: postId });
+    if (!exists) {
+      throw new Error("Post not found");
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [revisions, total] = await Promise.all([
+      PostRevision.find({ postId })
+        .sort({ revisionNumber: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate("editedBy", "name email avatar")
+        .populate("reviewedBy", "name email")
+        .lean(),
+      PostRevision.countDocuments({ postId }),
+    ]);
+
+    return { revisions, total };
+  }
+
+  // ดึง revision ที่รอตรวจสอบ (เก่าสุดก่อน)
+  static async getPendingRevisions(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ revisions: any[]; total: number }> {
+    const skip = (page - 1) * limit;
+
+    const [revisions, total] = await Promise.all([
+      PostRevision.find({ status: "pending" })
+        .sort({ createdAt: 1 })
+        .skip(skip)
+        .limit(limit)
+        .populate("postId", "title price status media location authorId")
+        .populate("editedBy", "name email avatar")
+        .lean(),
+      PostRevision.countDocuments({ status: "pending" }),
+    ]);
+
+    return { revisions, total };
+  }
+
+  // อนุมัติ revision ที่รอตรวจสอบ แล้วบันทึกลงโพสต์
+  static async approveRevision(
+    revisionId: string,
+    adminId: string,
+    note?: string
+  ): Promise<{ revision: IPostRevision; post: IPost }> {
+    const revision = await this.getRevision(revisionId);
+    if (revision.status !== "pending") {
+      throw new Error("Only pending revisions can be approved");
+    }
+
+    const post = await this.applyChanges(
+      revision.postId,
+      revision.changes,
+      revision.editedBy.toString()
+    );
+
+    revision.status = "approved";
+    revision.reviewedBy = new mongoose.Types.ObjectId(adminId);
+    revision.reviewedAt = new Date();
+    revision.reviewNote = note;
+    await revision.save();
+
+    await Post.updateOne(
+      { _id: revision.postId, pendingRevisionId: revision._id },
+      { $unset: { pendingRevisionId: 1 } }
+    );
+    post.pendingRevisionId = undefined;
+
+    emitToUser(revision.editedBy.toString(), "post_revision_approved", {
+      postId: revision.postId,
+      revisionId: revision._id,
+      title: post.title,
+    });
+
+    return { revision, post };
+  }
+
+  // ปฏิเสธ revision ที่รอตรวจสอบ (โพสต์ยังคงเป็นเวอร์ชันเดิม)
+  static async rejectRevision(
+    revisionId: string,
+    adminId: string,
+    note?: string
+  ): Promise<IPostRevision> {
+    const revision = await this.getRevision(revisionId);
+    if (revision.status !== "pending") {
+      throw new Error("Only pending revisions can be rejected");
+    }
+
+    revision.status = "rejected";
+    revision.reviewedBy = new mongoose.Types.ObjectId(adminId);
+    revision.reviewedAt = new Date();
+    revision.reviewNote = note;
+    await revision.save();
+
+    await Post.updateOne(
+      { _id: revision.postId, pendingRevisionId: revision._id },
+      { $unset: { pendingRevisionId: 1 } }
+    );
+
+    emitToUser(revision.editedBy.toString(), "post_revision_rejected", {
+      postId: revision.postId,
+      revisionId: revision._id,
+      reason: note,
+    });
+
+    return revision;
+  }
+
+  // ย้อนกลับ revision ที่บันทึกลงโพสต์แล้ว (สร้าง revision ใหม่ที่คืนค่าเดิม)
+  static async rollbackRevision(
+    revisionId: string,
+    adminId: string
+  ): Promise<{ revision: IPostRevision; post: IPost }> {
+    const original = await this.getRevision(revisionId);
+    if (original.status !== "applied" && original.status !== "approved") {
+      throw new Error("Only applied or approved revisions can be rolled back");
+    }
+
+    const changes: FieldChange[] = original.changes.map((change) => ({
+      field: change.field,
+      oldValue: change.newValue,
+      newValue: change.oldValue,
+    }));
+
+    const post = await this.applyChanges(original.postId, changes, adminId);
+
+    const revision = await this.createRevision(
+      original.postId.toString(),
+      adminId,
+      changes,
+      "applied",
+      original._id as mongoose.Types.ObjectId
+    );
+
+    original.status = "rolled_back";
+    await original.save();
+
+    return { revision, post };
+  }
+}
@@ -7,14 +7,40 @@ import {
   UserRepository,
   IUserRepository,
 } from "../repositories/UserRepository";
-import { IPost } from "../models/Post";
-import { IUser } from "../models/User";
+import { Post, IPost, ListingTranslations } from "../models/Post";
+import { IPostRevision } from "../models/PostRevision";
 import { PostQueryHelper } from "./PostQueryHelper";
+import { CoordinateUtils, MapBounds } from "../utils/coordinates";
+import { CursorPagination, CursorPage, SortDirection } from "../utils/cursor";
+import { AreaUtils, AreaUnit, DEFAULT_AREA_UNIT } from "../utils/area";
+import { ListingLanguage } from "../utils/language";
+import { BoundaryUtils } from "../utils/boundary";
+import { SavedSearchService } from "./SavedSearchService";
+import {
+  CurrencyService,
+  CurrencyCode,
+  BASE_CURRENCY,
+} from "./CurrencyService";
+import { PriceHistoryService } from "./PriceHistoryService";
+import { ListingLifecycleService } from "./ListingLifecycleService";
+import { PostRevisionService, SENSITIVE_FIELDS } from "./PostRevisionService";
+import {
+  DuplicateDetectionService,
+  DuplicateCandidate,
+} from "./DuplicateDetectionService";
+import { SimilarListingService } from "./SimilarListingService";
+import { AgencyService } from "./AgencyService";
+import { FeedService } from "./FeedService";
+import { SeoService } from "./SeoService";
+import { ListingQualityService } from "./ListingQualityService";
 
 export interface CreatePostData {
   title: string;
   description: string;
+  primaryLanguage?: ListingLanguage; // ภาษาของ title/description (ค่าเริ่มต้น lo)
+  translations?: ListingTranslations;
   price: number;
+  currency?: CurrencyCode;
   location: any; // Allow object or string for backward compatibility
   propertyType:
     | "house"
@@ -27,9 +53,13 @@ export interface CreatePostData {
   bedrooms?: number;
   bathrooms?: number;
   area?: number;
+  usableArea?: number;
+  areaUnit?: AreaUnit; // หน่วยของ area/usableArea ที่ส่งมา (เก็บเป็นตารางเมตร)
   images?: string[];
   media?: any;
   authorId: string;
+  agencyId?: string; // ลงประกาศในนามเอเจนซี่
+  assignedAgentId?: string; // ตัวแทนที่ดูแล (ค่าเริ่มต้น = ผู้ลงประกาศ)
   landDetails?: any;
   houseDetails?: any;
   condition?: "new" | "excellent" | "good" | "fair" | "poor";
@@ -40,7 +70,10 @@ export interface CreatePostData {
 export interface UpdatePostData {
   title?: string;
   description?: string;
+  primaryLanguage?: ListingLanguage;
+  translations?: ListingTranslations;
   price?: number;
+  currency?: CurrencyCode;
   location?: string;
   propertyType?:
     | "house"
@@ -52,11 +85,42 @@ export interface UpdatePostData {
   bedrooms?: number;
   bathrooms?: number;
   area?: number;
+  usableArea?: number;
+  areaUnit?: AreaUnit;
   images?: string[];
 }
 
+// ฟิลด์ที่อนุญาตให้บันทึกใน draft ทีละขั้นตอน
+const DRAFT_FIELDS = [
+  "title",
+  "description",
+  "primaryLanguage",
+  "translations",
+  "price",
+  "currency",
+  "propertyType",
+  "listingType",
+  "area",
+  "usableArea",
+  "areaUnit",
+  "location",
+  "houseDetails",
+  "landDetails",
+  "condoDetails",
+  "media",
+  "legalDocuments",
+  "condition",
+  "yearBuilt",
+  "lastRenovated",
+  "tags",
+  "keywords",
+];
+
+// ข้อมูลบางส่วนของโพสต์จาก wizard (เฉพาะ DRAFT_FIELDS จะถูกใช้)
+export type DraftPostData = Record<string, any>;
+
 export interface PostFilter {
-  status?: "pending" | "approved" | "rejected";
+  status?: "pending" | "approved" | "rejected" | "expired";
   propertyType?:
     | "house"
     | "land"
@@ -67,6 +131,7 @@ export interface PostFilter {
   listingType?: "sell" | "rent" | "lease";
   minPrice?: number;
   maxPrice?: number;
+  currency?: CurrencyCode; // สกุลเงินของ minPrice/maxPrice (ค่าเริ่มต้น LAK)
   location?: string;
   province?: string;
   district?: string;
@@ -74,9 +139,12 @@ export interface PostFilter {
   bathrooms?: number;
   minArea?: number;
   maxArea?: number;
+  areaUnit?: AreaUnit; // หน่วยของ minArea/maxArea (ค่าเริ่มต้น sqm)
   condition?: "new" | "excellent" | "good" | "fair" | "poor";
   featured?: boolean;
   urgent?: boolean;
+  minQuality?: number; // คะแนนคุณภาพประกาศ 0-100 (admin)
+  maxQuality?: number;
   // Land specific filters
   roadAccess?: boolean;
   waterSource?: boolean;
@@ -85,6 +153,8 @@ export interface PostFilter {
   latitude?: number;
   longitude?: number;
   radius?: number; // ในหน่วย เมตร
+  bounds?: MapBounds; // viewport ของแผนที่
+  polygon?: [number, number][]; // พื้นที่ที่วาดบนแผนที่ [[lng, lat], ...]
   sortBy?:
     | "newest"
     | "oldest"
@@ -131,14 +201,52 @@ export class PostService {
         };
       }
 
+      const areaInput = this.normalizeAreaInput({
+        area: data.area,
+        usableArea: data.usableArea,
+        areaUnit: data.areaUnit,
+      });
+
+      const duplicate = await this.checkDuplicate({
+        title: data.title,
+        description: data.description,
+        price: Number(data.price),
+        area: areaInput.area,
+        propertyType: data.propertyType,
+        listingType: data.listingType || "sell",
+        coordinates: locationData?.coordinates?.coordinates,
+        authorId: data.authorId,
+      });
+
+      const currency = data.currency || BASE_CURRENCY;
+
+      const assignment = data.agencyId
+        ? await AgencyService.resolveListingAssignment(
+            data.agencyId,
+            data.authorId,
+            data.assignedAgentId
+          )
+        : undefined;
+
       // สร้างโพสต์
       const postData: any = {
         title: data.title,
         description: data.description,
+        primaryLanguage: data.primaryLanguage,
+        translations: data.translations,
         price: data.price,
+        currency,
+        basePrice: CurrencyService.toBase(Number(data.price), currency),
         propertyType: data.propertyType,
-        area: data.area,
+        area: areaInput.area,
+        usableArea: areaInput.usableArea,
+        areaUnit: areaInput.areaUnit || DEFAULT_AREA_UNIT,
+        pricePerUnit: AreaUtils.pricePerUnit(
+          Number(data.price),
+          areaInput.area
+        ),
         authorId: new mongoose.Types.ObjectId(data.authorId),
+        ...assignment,
         status: "pending" as const,
         listingType: data.listingType || "sell",
         location: locationData,
@@ -157,16 +265,229 @@ export class PostService {
             : undefined),
         landDetails: data.landDetails,
         condition: data.condition || "good",
-        featured: data.featured || false,
-        urgent: data.urgent || false,
+        // featured/urgent ได้จากการซื้อ boost เท่านั้น (BoostService)
+        featured: false,
+        urgent: false,
+        ...duplicate,
       };
+      postData.qualityScore = ListingQualityService.evaluate(postData).score;
+
+      const post = await this.postRepository.create(postData);
+
+      // บันทึกราคาเริ่มต้นเป็นจุดแรกของประวัติราคา
+      await PriceHistoryService.recordInitialPrice(post, data.authorId);
 
-      return await this.postRepository.create(postData);
+      return await SeoService.syncSlug(post);
     } catch (error) {
       throw new Error(`Error creating post: ${error}`);
     }
   }
 
+  // แปลง area/usableArea ตาม areaUnit ที่ส่งมาเป็นตารางเมตร (หน่วยที่ไม่รองรับจะถูกละเว้น)
+  private normalizeAreaInput(data: Record<string, any>): Record<string, any> {
+    const normalized = { ...data };
+    const unit = AreaUtils.parseUnit(data.areaUnit) || DEFAULT_AREA_UNIT;
+
+    ["area", "usableArea"].forEach((field) => {
+      const value = data[field];
+      if (value === undefined || value === null || value === "") return;
+      const num = Number(value);
+      if (!isNaN(num)) normalized[field] = AreaUtils.toSquareMeters(num, unit);
+    });
+
+    if (AreaUtils.parseUnit(data.areaUnit)) {
+      normalized.areaUnit = unit;
+    } else {
+      delete normalized.areaUnit;
+    }
+
+    return normalized;
+  }
+
+  // ตรวจสอบประกาศซ้ำ: บล็อกถ้าผู้ใช้โพสต์ซ้ำของตัวเอง หรือคืนค่า flag ให้ admin ตรวจ
+  private async checkDuplicate(candidate: DuplicateCandidate): Promise<{
+    duplicateOf?: mongoose.Types.ObjectId;
+    duplicateScore?: number;
+  }> {
+    const result = await DuplicateDetectionService.checkPost(candidate);
+
+    if (result.action === "block" && result.match) {
+      throw new Error(`โพสต์ซ้ำกับประกาศเดิม ${result.match.postId}`);
+    }
+    if (result.action === "flag" && result.match) {
+      return {
+        duplicateOf: result.match.postId,
+        duplicateScore: result.match.score,
+      };
+    }
+    return {};
+  }
+
+  // แปลง patch แบบ nested เป็น dot paths (array ถือเป็นค่าเดียว)
+  private flattenDraftPatch(
+    data: Record<string, any>,
+    prefix: string = ""
+  ): Record<string, any> {
+    const paths: Record<string, any> = {};
+
+    Object.entries(data).forEach(([key, value]) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (
+        value !== null &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        !(value instanceof Date)
+      ) {
+        Object.assign(paths, this.flattenDraftPatch(value, path));
+      } else if (value !== undefined) {
+        paths[path] = value;
+      }
+    });
+
+    return paths;
+  }
+
+  // ใช้ข้อมูลขั้นตอนล่าสุดกับ draft
+  private applyDraftPatch(post: IPost, data: DraftPostData): void {
+    const input = this.normalizeAreaInput(data);
+    const patch: Record<string, any> = {};
+    DRAFT_FIELDS.forEach((field) => {
+      if (input[field] !== undefined) patch[field] = input[field];
+    });
+
+    Object.entries(this.flattenDraftPatch(patch)).forEach(([path, value]) => {
+      post.set(path, value);
+    });
+
+    if (post.price !== undefined && post.price !== null) {
+      post.basePrice = CurrencyService.toBase(post.price, post.currency);
+      post.pricePerUnit = AreaUtils.pricePerUnit(post.price, post.area);
+    }
+
+    // ต้องมีพิกัดครบทั้งคู่ก่อนบันทึก GeoJSON Point
+    const coordinates = post.get("location.coordinates.coordinates");
+    if (Array.isArray(coordinates) && coordinates.length === 2) {
+      post.set("location.coordinates.type", "Point");
+    }
+  }
+
+  // ตรวจสอบว่า draft กรอกข้อมูลครบพอที่จะส่งอนุมัติหรือไม่
+  getDraftMissingFields(post: IPost): string[] {
+    const missing: string[] = [];
+
+    if (!post.title) missing.push("title");
+    if (!post.description) missing.push("description");
+    if (post.price === undefined || post.price === null) missing.push("price");
+    if (!post.propertyType) missing.push("propertyType");
+    if (!post.listingType) missing.push("listingType");
+    if (post.area === undefined || post.area === null) missing.push("area");
+    if (!post.location?.address?.street)
+      missing.push("location.address.street");
+    if (!post.location?.address?.district)
+      missing.push("location.address.district");
+    if (!post.location?.address?.province)
+      missing.push("location.address.province");
+    if (post.location?.coordinates?.coordinates?.length !== 2)
+      missing.push("location.coordinates");
+    if (!post.media?.images?.length) missing.push("media.images");
+
+    return missing;
+  }
+
+  // ดึง draft ของเจ้าของ
+  async getOwnDraft(id: string, userId: string): Promise<IPost> {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      throw new Error("ไม่พบ draft");
+    }
+
+    const post = await Post.findById(id);
+    if (!post || post.status !== "draft") {
+      throw new Error("ไม่พบ draft");
+    }
+
+    if (post.authorId.toString() !== userId) {
+      throw new Error("คุณไม่มีสิทธิ์แก้ไข draft นี้");
+    }
+
+    return post;
+  }
+
+  // สร้าง draft ใหม่ (ไม่ตรวจสอบความครบถ้วน)
+  async createDraft(authorId: string, data: DraftPostData): Promise<IPost> {
+    try {
+      const user = await this.userRepository.findById(authorId);
+      if (!user) {
+        throw new Error("ไม่พบผู้ใช้");
+      }
+
+      const post = new Post({
+        authorId: new mongoose.Types.ObjectId(authorId),
+        status: "draft",
+      });
+      this.applyDraftPatch(post, data);
+
+      return await post.save();
+    } catch (error) {
+      throw new Error(`Error creating draft: ${error}`);
+    }
+  }
+
+  // บันทึกข้อมูลเพิ่มเติมลง draft ทีละขั้นตอน
+  async updateDraft(
+    id: string,
+    userId: string,
+    data: DraftPostData
+  ): Promise<IPost> {
+    try {
+      const post = await this.getOwnDraft(id, userId);
+      this.applyDraftPatch(post, data);
+      return await post.save();
+    } catch (error) {
+      throw new Error(`Error updating draft: ${error}`);
+    }
+  }
+
+  // ส่ง draft เข้าคิวรออนุมัติ
+  async submitDraft(
+    id: string,
+    userId: string
+  ): Promise<{ post?: IPost; missingFields: string[] }> {
+    try {
+      const post = await this.getOwnDraft(id, userId);
+
+      const missingFields = this.getDraftMissingFields(post);
+      if (missingFields.length > 0) {
+        return { missingFields };
+      }
+
+      const duplicate = await this.checkDuplicate({
+        title: post.title,
+        description: post.description,
+        price: post.price,
+        area: post.area,
+        propertyType: post.propertyType,
+        listingType: post.listingType,
+        coordinates: post.location?.coordinates?.coordinates,
+        authorId: userId,
+        excludeId: id,
+      });
+      post.duplicateOf = duplicate.duplicateOf;
+      post.duplicateScore = duplicate.duplicateScore;
+
+      post.status = "pending";
+      post.qualityScore = ListingQualityService.evaluate(post).score;
+      await post.save(); // ตรวจสอบ schema เต็มรูปแบบตอนนี้
+
+      await PriceHistoryService.recordInitialPrice(post, userId);
+      await SeoService.syncSlug(post);
+      await post.populate("authorId", "name email avatar");
+
+      return { post, missingFields: [] };
+    } catch (error) {
+      throw new Error(`Error submitting draft: ${error}`);
+    }
+  }
+
   // ดึงโพสต์ทั้งหมดพร้อม pagination และ advanced filter
   async getAllPosts(page: number = 1, limit: number = 10, filter?: PostFilter) {
     try {
@@ -220,19 +541,37 @@ export class PostService {
         if (filter.bathrooms)
           query["houseDetails.bathrooms"] = filter.bathrooms;
 
-        // ช่วงราคา
-        if (filter.minPrice || filter.maxPrice) {
-          query.price = {};
-          if (filter.minPrice) query.price.$gte = filter.minPrice;
-          if (filter.maxPrice) query.price.$lte = filter.maxPrice;
+        // ช่วงคะแนนคุณภาพ (ประกาศเดิมที่ยังไม่มีคะแนนจะไม่ถูกนับ)
+        if (
+          filter.minQuality !== undefined ||
+          filter.maxQuality !== undefined
+        ) {
+          query.qualityScore = {};
+          if (filter.minQuality !== undefined)
+            query.qualityScore.$gte = filter.minQuality;
+          if (filter.maxQuality !== undefined)
+            query.qualityScore.$lte = filter.maxQuality;
         }
 
+        // ช่วงราคา
+        Object.assign(
+          query,
+          PostQueryHelper.buildPriceRangeQuery(
+            filter.minPrice,
+            filter.maxPrice,
+            filter.currency
+          )
+        );
+
         // ช่วงพื้นที่
-        if (filter.minArea || filter.maxArea) {
-          query.area = {};
-          if (filter.minArea) query.area.$gte = filter.minArea;
-          if (filter.maxArea) query.area.$lte = filter.maxArea;
-        }
+        Object.assign(
+          query,
+          PostQueryHelper.buildAreaRangeQuery(
+            filter.minArea,
+            filter.maxArea,
+            filter.areaUnit
+          )
+        );
       }
 
       const { posts, total } = await this.postRepository.findWithPagination(
@@ -288,18 +627,24 @@ export class PostService {
         if (filter.urgent !== undefined) query.urgent = filter.urgent;
 
         // ช่วงราคา
-        if (filter.minPrice || filter.maxPrice) {
-          query.price = {};
-          if (filter.minPrice) query.price.$gte = filter.minPrice;
-          if (filter.maxPrice) query.price.$lte = filter.maxPrice;
-        }
+        Object.assign(
+          query,
+          PostQueryHelper.buildPriceRangeQuery(
+            filter.minPrice,
+            filter.maxPrice,
+            filter.currency
+          )
+        );
 
         // ช่วงพื้นที่
-        if (filter.minArea || filter.maxArea) {
-          query.area = {};
-          if (filter.minArea) query.area.$gte = filter.minArea;
-          if (filter.maxArea) query.area.$lte = filter.maxArea;
-        }
+        Object.assign(
+          query,
+          PostQueryHelper.buildAreaRangeQuery(
+            filter.minArea,
+            filter.maxArea,
+            filter.areaUnit
+          )
+        );
 
         // House details
         if (filter.bedrooms) query["houseDetails.bedrooms"] = filter.bedrooms;
@@ -355,10 +700,120 @@ export class PostService {
     }
   }
 
+  // ค้นหาโพสต์ภายในพื้นที่บนแผนที่ (viewport หรือ polygon ที่วาด) ร่วมกับ filter อื่นๆ
+  async getPostsWithinArea(
+    polygon: [number, number][],
+    page: number = 1,
+    limit: number = 10,
+    filter: PostFilter = {}
+  ) {
+    try {
+      const ring = CoordinateUtils.closeRing(polygon);
+
+      const { posts, total, boundaryMatchIds } =
+        await PostQueryHelper.findWithinArea(
+          ring,
+          PostQueryHelper.buildFilterQuery(filter),
+          PostQueryHelper.buildSortQuery(filter.sortBy),
+          (page - 1) * limit,
+          limit
+        );
+
+      return {
+        posts: posts.map((post: any) => ({
+          ...post,
+          // ตำแหน่งหลักอยู่ในพื้นที่ หรือพบจาก boundary ของที่ดิน
+          matchedBy:
+            !CoordinateUtils.isPointInPolygon(
+              post.location.coordinates.coordinates,
+              ring
+            ) && boundaryMatchIds.includes(post._id.toString())
+              ? "boundary"
+              : "location",
+        })),
+        pagination: {
+          current: page,
+          total: Math.ceil(total / limit),
+          count: posts.length,
+          totalCount: total,
+          limit,
+        },
+        searchArea: {
+          type: "Polygon",
+          coordinates: [ring],
+        },
+      };
+    } catch (error) {
+      throw new Error(`Error getting posts within area: ${error}`);
+    }
+  }
+
+  // จัดกลุ่มโพสต์ใน viewport สำหรับแสดงบนแผนที่ตามระดับ zoom
+  async getMapClusters(
+    bounds: MapBounds,
+    zoom: number,
+    filter: PostFilter = {}
+  ) {
+    try {
+      const clusters = await PostQueryHelper.getMapClusters(
+        CoordinateUtils.boundsToPolygon(bounds),
+        zoom,
+        PostQueryHelper.buildFilterQuery(filter)
+      );
+
+      return {
+        clusters,
+        totalCount: clusters.reduce((sum, cluster) => sum + cluster.count, 0),
+        zoom,
+        cellSize: PostQueryHelper.getClusterCellSize(zoom),
+        bounds,
+      };
+    } catch (error) {
+      throw new Error(`Error getting map clusters: ${error}`);
+    }
+  }
+
+  // ดึงโพสต์แบบ cursor สำหรับ infinite scroll (เรียงตาม sortBy + _id)
+  async getPostsByCursor(
+    filter: PostFilter = {},
+    limit: number = 20,
+    cursor?: string
+  ): Promise<CursorPage<IPost>> {
+    try {
+      const sort = PostQueryHelper.buildSortQuery(filter.sortBy);
+      const [field, direction] = Object.entries(sort)[0] as [
+        string,
+        SortDirection
+      ];
+
+      const query: any = {
+        status: "approved",
+        ...PostQueryHelper.notExpiredQuery(),
+        ...PostQueryHelper.buildFilterQuery(filter),
+        ...PostQueryHelper.buildGeoWithinQuery(filter),
+      };
+
+      const cursorQuery = CursorPagination.buildQuery(field, direction, cursor);
+      if (cursorQuery.$or) {
+        query.$and = [cursorQuery];
+      }
+
+      const posts = (await Post.find(query)
+        .sort(CursorPagination.buildSort(field, direction))
+        .limit(limit + 1)
+        .populate("authorId", "name email avatar")
+        .lean()) as unknown as IPost[];
+
+      return CursorPagination.buildPage(posts, limit, field);
+    } catch (error) {
+      throw new Error(`Error getting posts by cursor: ${error}`);
+    }
+  }
+
   // Filter โพสต์ด้วย advanced criteria
   async filterPosts(filter: PostFilter, page: number = 1, limit: number = 10) {
     try {
-      let query: any = { status: "approved" }; // เฉพาะโพสต์ที่อนุมัติแล้ว
+      const query: any = { status: "approved" }; // เฉพาะโพสต์ที่อนุมัติแล้ว
 
       // ถ้ามีการกำหนดพิกัดและรัศมี ให้ใช้ geospatial search
       if (filter.latitude && filter.longitude && filter.radius) {
@@ -372,88 +827,24 @@ export class PostService {
         );
       }
 
+      // ถ้ามี viewport หรือ polygon ให้ค้นหาภายในพื้นที่บนแผนที่
+      if (filter.bounds || filter.polygon) {
+        return await this.getPostsWithinArea(
+          filter.polygon ||
+            CoordinateUtils.boundsToPolygon(filter.bounds as MapBounds),
+          page,
+          limit,
+          filter
+        );
+      }
+
       // สร้าง query ปกติ
-      if (filter.propertyType) query.propertyType = filter.propertyType;
-      if (filter.listingType) query.listingType = filter.listingType;
-      if (filter.condition) query.condition = filter.condition;
-      if (filter.featured !== undefined) query.featured = filter.featured;
-      if (filter.urgent !== undefined) query.urgent = filter.urgent;
-
-      // Location filters
-      if (filter.province)
-        query["location.address.province"] = {
-          $regex: filter.province,
-          $options: "i",
-        };
-      if (filter.district)
-        query["location.address.district"] = {
-          $regex: filter.district,
-          $options: "i",
-        };
-      if (filter.location) {
-        query.$or = [
-          {
-            "location.address.street": {
-              $regex: filter.location,
-              $options: "i",
-            },
-          },
-          {
-            "location.address.district": {
-              $regex: filter.location,
-              $options: "i",
-            },
-          },
-          {
-            "location.address.province": {
-              $regex: filter.location,
-              $options: "i",
-            },
-          },
-        ];
-      }
-
-      // Price range
-      if (filter.minPrice || filter.maxPrice) {
-        query.price = {};
-        if (filter.minPrice) query.price.$gte = filter.minPrice;
-        if (filter.maxPrice) query.price.$lte = filter.maxPrice;
-      }
-
-      // Area range
-      if (filter.minArea || filter.maxArea) {
-        query.area = {};
-        if (filter.minArea) query.area.$gte = filter.minArea;
-        if (filter.maxArea) query.area.$lte = filter.maxArea;
-      }
-
-      // House details
-      if (filter.bedrooms) query["houseDetails.bedrooms"] = filter.bedrooms;
-      if (filter.bathrooms) query["houseDetails.bathrooms"] = filter.bathrooms;
-
-      // Sorting
-      let sortQuery: any = { createdAt: -1 }; // default sort
-      if (filter.sortBy) {
-        switch (filter.sortBy) {
-          case "newest":
-            sortQuery = { createdAt: -1 };
-            break;
-          case "oldest":
-            sortQuery = { createdAt: 1 };
-            break;
-          case "price_asc":
-            sortQuery = { price: 1 };
-            break;
-          case "price_desc":
-            sortQuery = { price: -1 };
-            break;
-          case "area_asc":
-            sortQuery = { area: 1 };
-            break;
-          case "area_desc":
-            sortQuery = { area: -1 };
-            break;
-        }
+      Object.assign(query, PostQueryHelper.buildFilterQuery(filter));
+
+      // Sorting (ค่าเริ่มต้น: โพสต์ที่มี boost ขึ้นก่อน)
+      let sortQuery = PostQueryHelper.buildSortQuery(filter.sortBy);
+      if (!filter.sortBy || filter.sortBy === "newest") {
+        sortQuery = PostQueryHelper.withBoostRanking(sortQuery, "feed");
       }
 
       const { posts, total } = await PostQueryHelper.findWithAdvancedFilter(
@@ -488,8 +879,10 @@ export class PostService {
     listingType?: string;
     minPrice?: number;
     maxPrice?: number;
+    currency?: CurrencyCode;
     minArea?: number;
     maxArea?: number;
+    areaUnit?: AreaUnit;
     province?: string;
     district?: string;
     bedrooms?: number;
@@ -504,6 +897,7 @@ export class PostService {
     roadAccess?: boolean;
     waterSource?: boolean;
     electricity?: boolean;
+    includeFacets?: boolean;
   }) {
     try {
       const result = await PostQueryHelper.advancedSearch(params);
@@ -516,6 +910,7 @@ export class PostService {
           totalCount: result.pagination.totalCount,
           limit: result.pagination.limit,
         },
+        facets: result.facets,
         searchInfo: result.searchInfo,
       };
     } catch (error) {
@@ -537,14 +932,22 @@ export class PostService {
   }
 
   // ดึงโพสต์ของผู้ใช้
-  async getUserPosts(userId: string, page: number = 1, limit: number = 10) {
+  async getUserPosts(
+    userId: string,
+    page: number = 1,
+    limit: number = 10,
+    status?: string
+  ) {
     try {
       const user = await this.userRepository.findById(userId);
       if (!user) {
         throw new Error("ไม่พบผู้ใช้");
       }
 
-      const posts = await this.postRepository.findByUserId(userId);
+      const allPosts = await this.postRepository.findByUserId(userId);
+      const posts = status
+        ? allPosts.filter((post) => post.status === status)
+        : allPosts;
       const startIndex = (page - 1) * limit;
       const endIndex = startIndex + limit;
       const paginatedPosts = posts.slice(startIndex, endIndex);
@@ -570,25 +973,72 @@ export class PostService {
     userId: string,
     data: UpdatePostData,
     userRole?: string
-  ): Promise<IPost> {
+  ): Promise<{ post: IPost; pendingRevision?: IPostRevision }> {
     try {
       const post = await this.postRepository.findById(id);
       if (!post) {
         throw new Error("ไม่พบโพสต์");
       }
 
-      // ตรวจสอบสิทธิ์ (เฉพาะเจ้าของโพสต์หรือ admin)
-      // ตรวจสอบสิทธิ์ (เฉพาะเจ้าของโพสต์หรือ admin)
-      const authorId = (post.authorId as any)._id
-        ? (post.authorId as any)._id.toString()
-        : post.authorId.toString();
-
-      if (authorId !== userId && userRole !== "admin") {
+      // ตรวจสอบสิทธิ์ (เจ้าของโพสต์ ตัวแทนที่ดูแล เจ้าของเอเจนซี่ หรือ admin)
+      if (!(await AgencyService.canManagePost(post, userId, userRole))) {
         throw new Error("คุณไม่มีสิทธิ์แก้ไขโพสต์นี้");
       }
 
       // Convert legacy data format for update
-      const updateData: any = { ...data };
+      // pricePerUnit คำนวณจาก price / area เท่านั้น (ไม่รับค่าจาก client)
+      const updateData: any = this.normalizeAreaInput(data);
+      delete updateData.pricePerUnit;
+      // การมอบหมายประกาศของเอเจนซี่ทำผ่าน AgencyService เท่านั้น
+      delete updateData.agencyId;
+      delete updateData.assignedAgentId;
+
+      // featured/urgent มาจาก boost (admin แก้ไขตรงได้)
+      if (userRole !== "admin") {
+        delete updateData.featured;
+        delete updateData.urgent;
+      }
+
+      // ผู้ใช้ทั่วไปเปลี่ยนสถานะได้เฉพาะปิดประกาศที่อนุมัติแล้วเป็นขาย/เช่าแล้ว
+      // (อนุมัติ/ปฏิเสธเป็นหน้าที่ของ admin) ร่างประกาศส่งตรวจผ่าน submitDraft เท่านั้น
+      if (updateData.status === post.status) {
+        delete updateData.status;
+      } else if (updateData.status !== undefined) {
+        if (post.status === "draft") {
+          throw new Error(
+            "ไม่สามารถเปลี่ยนสถานะ draft ได้ (ส่งตรวจผ่าน submitDraft)"
+          );
+        }
+        if (
+          userRole !== "admin" &&
+          !(
+            post.status === "approved" &&
+            (updateData.status === "sold" || updateData.status === "rented")
+          )
+        ) {
+          throw new Error("ไม่สามารถเปลี่ยนสถานะโพสต์นี้ได้");
+        }
+      }
+
+      // ตรวจสอบแนวเขตที่ดิน (findByIdAndUpdate ไม่รัน schema validator)
+      // เฉพาะเมื่อแนวเขตเปลี่ยน เพื่อให้โพสต์เก่าที่แนวเขตไม่ผ่านเกณฑ์ยังแก้ไขได้
+      const boundary = updateData.location?.boundary;
+      const toPoints = (points: unknown[]) =>
+        JSON.stringify(
+          points.map((point) =>
+            Array.isArray(point) ? point.map(Number) : point
+          )
+        );
+      if (
+        Array.isArray(boundary) &&
+        boundary.length > 0 &&
+        toPoints(boundary) !== toPoints(post.location?.boundary || [])
+      ) {
+        const boundaryError = BoundaryUtils.getError(boundary);
+        if (boundaryError) {
+          throw new Error(`Invalid boundary: ${boundaryError}`);
+        }
+      }
 
       // Convert location if it's a string
       if (typeof data.location === "string") {
@@ -605,12 +1055,128 @@ export class PostService {
         };
       }
 
+      // สกุลเงินที่ไม่รองรับจะถูกละเว้น
+      if (updateData.currency !== undefined) {
+        const currency = CurrencyService.parseCurrency(updateData.currency);
+        if (currency) updateData.currency = currency;
+        else delete updateData.currency;
+      }
+
+      // บันทึกวันที่ขาย/เช่าแล้ว เพื่อใช้ archive อัตโนมัติ
+      if (
+        (updateData.status === "sold" || updateData.status === "rented") &&
+        post.status !== updateData.status
+      ) {
+        updateData.closedAt = new Date();
+      }
+
+      // แก้ไขฟิลด์สำคัญของโพสต์ที่อนุมัติแล้วต้องรอ admin ตรวจสอบ
+      // (โพสต์ยังแสดงเวอร์ชันเดิมจนกว่าจะอนุมัติ)
+      const changes = PostRevisionService.diffChanges(post, updateData);
+      const heldChanges =
+        post.status === "approved" && userRole !== "admin"
+          ? changes.filter((change) =>
+              PostRevisionService.isSensitiveField(change.field)
+            )
+          : [];
+      const appliedChanges = changes.filter(
+        (change) => !heldChanges.includes(change)
+      );
+      if (heldChanges.length > 0) {
+        SENSITIVE_FIELDS.forEach((field) => delete updateData[field]);
+      }
+
+      // ตรวจสอบการเปลี่ยนราคา (FormData ส่งราคามาเป็น string)
+      const oldPrice = post.price;
+      const newPrice =
+        updateData.price !== undefined && updateData.price !== null
+          ? Number(updateData.price)
+          : undefined;
+      const priceChanged =
+        newPrice !== undefined && !isNaN(newPrice) && newPrice !== oldPrice;
+
+      // basePrice ตามราคา/สกุลเงินที่บันทึกจริง (ไม่รวมส่วนที่รอ admin ตรวจสอบ)
+      const newCurrency: CurrencyCode | undefined = updateData.currency;
+      const currencyChanged = !!newCurrency && newCurrency !== post.currency;
+      const oldSnapshot = { price: oldPrice, currency: post.currency };
+      const newSnapshot = {
+        price: priceChanged ? (newPrice as number) : oldPrice,
+        currency: newCurrency || post.currency,
+      };
+      if (priceChanged || currencyChanged) {
+        updateData.basePrice = CurrencyService.toBase(
+          priceChanged ? (newPrice as number) : post.price,
+          newCurrency || post.currency
+        );
+      }
+
+      const newArea =
+        updateData.area !== undefined ? Number(updateData.area) : undefined;
+      if (
+        priceChanged ||
+        (newArea !== undefined && !isNaN(newArea) && newArea !== post.area)
+      ) {
+        updateData.pricePerUnit = AreaUtils.pricePerUnit(
+          priceChanged ? (newPrice as number) : post.price,
+          newArea !== undefined && !isNaN(newArea) ? newArea : post.area
+        );
+      }
+
+      if (priceChanged) {
+        updateData.price = newPrice;
+      }
+      if (priceChanged || currencyChanged) {
+        const priceDrop = PriceHistoryService.buildPriceDrop(
+          oldSnapshot,
+          newSnapshot
+        );
+        if (priceDrop) {
+          updateData.lastPriceDrop = priceDrop;
+        } else {
+          // ราคาเพิ่มขึ้นหรือเปลี่ยนสกุลเงิน ไม่ถือว่าลดราคาอีกต่อไป
+          updateData.$unset = { lastPriceDrop: 1 };
+        }
+      }
+
       const updatedPost = await this.postRepository.update(id, updateData);
       if (!updatedPost) {
         throw new Error("ไม่สามารถอัปเดตโพสต์ได้");
       }
 
-      return updatedPost;
+      if (priceChanged || currencyChanged) {
+        await PriceHistoryService.recordPriceChange(
+          id,
+          oldSnapshot,
+          newSnapshot,
+          userId
+        );
+      }
+
+      await PostRevisionService.recordAppliedRevision(
+        id,
+        userId,
+        appliedChanges
+      );
+      // การแก้ไขที่รอ admin ตรวจสอบในครั้งนี้ (ไม่ใช่ revision ค้างจากครั้งก่อน)
+      let pendingRevision: IPostRevision | undefined;
+      if (heldChanges.length > 0) {
+        pendingRevision = await PostRevisionService.createPendingRevision(
+          id,
+          userId,
+          heldChanges
+        );
+        updatedPost.pendingRevisionId =
+          pendingRevision._id as mongoose.Types.ObjectId;
+      }
+
+      await SimilarListingService.invalidate(id);
+      await ListingQualityService.refresh(updatedPost);
+
+      // ชื่อ/แขวง/ประเภทเปลี่ยน -> slug ใหม่ (slug เดิม redirect มาที่นี่)
+      return {
+        post: await SeoService.syncSlug(updatedPost),
+        pendingRevision,
+      };
     } catch (error) {
       throw new Error(`Error updating post: ${error}`);
     }
@@ -628,13 +1194,8 @@ export class PostService {
         throw new Error("ไม่พบโพสต์");
       }
 
-      // ตรวจสอบสิทธิ์ (เฉพาะเจ้าของโพสต์หรือ admin)
-      // ตรวจสอบสิทธิ์ (เฉพาะเจ้าของโพสต์หรือ admin)
-      const authorId = (post.authorId as any)._id
-        ? (post.authorId as any)._id.toString()
-        : post.authorId.toString();
-
-      if (authorId !== userId && userRole !== "admin") {
+      // ตรวจสอบสิทธิ์ (เจ้าของโพสต์ ตัวแทนที่ดูแล เจ้าของเอเจนซี่ หรือ admin)
+      if (!(await AgencyService.canManagePost(post, userId, userRole))) {
         throw new Error("คุณไม่มีสิทธิ์ลบโพสต์นี้");
       }
 
@@ -642,6 +1203,9 @@ export class PostService {
       if (!deleted) {
         throw new Error("ไม่สามารถลบโพสต์ได้");
       }
+
+      await SimilarListingService.invalidate(id);
+      await FeedService.recordDeletion(post);
     } catch (error) {
       throw new Error(`Error deleting post: ${error}`);
     }
@@ -650,12 +1214,33 @@ export class PostService {
   // อนุมัติโพสต์ (สำหรับ admin)
   async approvePost(id: string): Promise<IPost> {
     try {
+      const existingPost = await this.postRepository.findById(id);
+      if (!existingPost) {
+        throw new Error("ไม่พบโพสต์หรือไม่สามารถอนุมัติได้");
+      }
+      // อนุมัติได้เฉพาะโพสต์ที่รอตรวจสอบ หรืออนุมัติซ้ำโพสต์ที่หมดอายุ (ร่างต้องส่งตรวจก่อน)
+      if (!["pending", "expired"].includes(existingPost.status)) {
+        throw new Error("อนุมัติได้เฉพาะโพสต์ที่รอตรวจสอบหรือหมดอายุ");
+      }
+
       const updatedPost = await this.postRepository.update(id, {
         status: "approved",
-      });
+        expiresAt: ListingLifecycleService.computeExpiresAt(
+          existingPost.listingType
+        ),
+        $unset: { expiryWarningSentAt: 1 },
+      } as any);
       if (!updatedPost) {
         throw new Error("ไม่พบโพสต์หรือไม่สามารถอนุมัติได้");
       }
+
+      // แจ้งเตือน saved searches ที่ตรงกับประกาศที่เพิ่งอนุมัติ
+      SavedSearchService.notifyMatchingSearches(updatedPost).catch((error) =>
+        console.error("Saved search alert error:", error)
+      );
+
+      await SimilarListingService.invalidate(id);
+
       return updatedPost;
     } catch (error) {
       throw new Error(`Error approving post: ${error}`);
@@ -671,6 +1256,8 @@ export class PostService {
       if (!updatedPost) {
         throw new Error("ไม่พบโพสต์หรือไม่สามารถปฏิเสธได้");
       }
+
+      await SimilarListingService.invalidate(id);
       return updatedPost;
     } catch (error) {
       throw new Error(`Error rejecting post: ${error}`);
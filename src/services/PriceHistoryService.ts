@@ -0,0 +1,157 @@
+import mongoose from "mongoose";
+import { PriceHistory, IPriceHistory } from "@/models/PriceHistory";
+import { Post, IPost, PriceDrop } from "@/models/Post";
+import { PostQueryHelper } from "./PostQueryHelper";
+import { CurrencyCode } from "./CurrencyService";
+
+export interface PriceSnapshot {
+  price: number;
+  currency: CurrencyCode;
+}
+
+export interface PriceDropFilter {
+  province?: string;
+  propertyType?: string;
+  listingType?: string;
+  days?: number; // ย้อนหลังกี่วัน
+  minDropPercent?: number;
+}
+
+export class PriceHistoryService {
+  // คำนวณข้อมูลการลดราคา (คืน null ถ้าราคาไม่ได้ลดลง หรือเปลี่ยนสกุลเงิน)
+  static buildPriceDrop(
+    oldPrice: PriceSnapshot,
+    newPrice: PriceSnapshot
+  ): PriceDrop | null {
+    if (oldPrice.currency !== newPrice.currency) return null;
+    if (!(newPrice.price < oldPrice.price) || oldPrice.price <= 0) return null;
+
+    const dropAmount = oldPrice.price - newPrice.price;
+    return {
+      previousPrice: oldPrice.price,
+      dropAmount,
+      dropPercent: Math.round((dropAmount / oldPrice.price) * 10000) / 100,
+      droppedAt: new Date(),
+    };
+  }
+
+  // บันทึกราคาเริ่มต้นตอนสร้างโพสต์
+  static async recordInitialPrice(
+    post: IPost,
+    userId?: string
+  ): Promise<IPriceHistory> {
+    return await PriceHistory.create({
+      postId: post._id,
+      newPrice: post.price,
+      currency: post.currency,
+      changeAmount: 0,
+      changePercent: 0,
+      changedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+      changedAt: post.createdAt || new Date(),
+    });
+  }
+
+  // บันทึกการเปลี่ยนแปลงราคาหรือสกุลเงิน (เปลี่ยนสกุลเงิน = เทียบราคาไม่ได้)
+  static async recordPriceChange(
+    postId: string,
+    oldPrice: PriceSnapshot,
+    newPrice: PriceSnapshot,
+    userId?: string
+  ): Promise<IPriceHistory> {
+    const comparable = oldPrice.currency === newPrice.currency;
+    const changeAmount = comparable ? newPrice.price - oldPrice.price : 0;
+    const changePercent =
+      comparable && oldPrice.price > 0
+        ? Math.round((changeAmount / oldPrice.price) * 10000) / 100
+        : 0;
+
+    return await PriceHistory.create({
+      postId: new mongoose.Types.ObjectId(postId),
+      oldPrice: oldPrice.price,
+      oldCurrency: oldPrice.currency,
+      newPrice: newPrice.price,
+      currency: newPrice.currency,
+      changeAmount,
+      changePercent,
+      changedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+      changedAt: new Date(),
+    });
+  }
+
+  // ดึงประวัติราคาของโพสต์
+  static async getPostPriceHistory(postId: string) {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new Error("Post not found");
+    }
+
+    const post = await Post.findById(
+      postId,
+      "price currency lastPriceDrop createdAt"
+    );
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    const history = await PriceHistory.find({ postId })
+      .sort({ changedAt: 1 })
+      .select("-__v -changedBy")
+      .lean();
+
+    // สูงสุด/ต่ำสุดนับเฉพาะราคาในสกุลเงินปัจจุบัน ตั้งแต่เปลี่ยนสกุลเงินครั้งล่าสุด
+    const prices: number[] = [];
+    for (let i = history.length - 1; i >= 0; i--) {
+      if ((history[i].currency || post.currency) !== post.currency) break;
+      prices.push(history[i].newPrice);
+    }
+
+    return {
+      postId,
+      currentPrice: post.price,
+      currency: post.currency,
+      lastPriceDrop: post.lastPriceDrop?.droppedAt ? post.lastPriceDrop : null,
+      highestPrice: prices.length ? Math.max(...prices) : post.price,
+      lowestPrice: prices.length ? Math.min(...prices) : post.price,
+      history,
+    };
+  }
+
+  // ดึงโพสต์ที่ลดราคาล่าสุด
+  static async getRecentPriceDrops(
+    filter: PriceDropFilter = {},
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{ posts: IPost[]; total: number }> {
+    const days = filter.days || 30;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const query: any = {
+      status: "approved",
+      ...PostQueryHelper.notExpiredQuery(),
+      "lastPriceDrop.droppedAt": { $gte: since },
+    };
+
+    if (filter.propertyType) query.propertyType = filter.propertyType;
+    if (filter.listingType) query.listingType = filter.listingType;
+    if (filter.province)
+      query["location.address.province"] = {
+        $regex: filter.province,
+        $options: "i",
+      };
+    if (filter.minDropPercent)
+      query["lastPriceDrop.dropPercent"] = { $gte: filter.minDropPercent };
+
+    const skip = (page - 1) * limit;
+
+    const [posts, total] = await Promise.all([
+      Post.find(query)
+        .sort({ "lastPriceDrop.droppedAt": -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate("authorId", "name email avatar")
+        .lean() as unknown as IPost[],
+      Post.countDocuments(query),
+    ]);
+
+    return { posts, total };
+  }
+}
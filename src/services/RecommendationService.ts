@@ -0,0 +1,435 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import { Post, IPost } from "@/models/Post";
+import { ViewHistory } from "@/models/ViewHistory";
+import { Bookmark } from "@/models/Bookmark";
+import { Chat } from "@/models/Chat";
+
+export const DEFAULT_RECOMMENDATIONS = 10;
+export const MAX_RECOMMENDATIONS = 50;
+
+// น้ำหนักของการกระทำแต่ละแบบในโปรไฟล์ความสนใจ
+const SIGNAL_WEIGHTS = {
+  view: 1,
+  bookmark: 3,
+  chat: 4,
+};
+
+// น้ำหนักของแต่ละปัจจัยในคะแนนแนะนำ (รวมกัน = 1)
+const SCORE_WEIGHTS = {
+  propertyType: 0.2,
+  province: 0.2,
+  listingType: 0.1,
+  price: 0.2,
+  coView: 0.3,
+};
+
+// ลดคะแนนโพสต์ที่ซ้ำกับที่เลือกไปแล้ว เพื่อให้ผลลัพธ์หลากหลาย
+const DIVERSITY_PENALTY = {
+  sameAuthor: 0.3,
+  sameSegment: 0.1, // ประเภทเดียวกันในจังหวัดเดียวกัน
+};
+
+const SEED_POSTS = 20; // โพสต์ล่าสุดที่ใช้หา co-view
+const CO_VIEWERS = 500;
+
+export interface RecommendationViewer {
+  userId?: string;
+  sessionId?: string;
+}
+
+export interface Recommendation {
+  post: IPost;
+  score: number;
+  reason: string;
+}
+
+interface PriceRange {
+  min: number;
+  max: number;
+}
+
+interface PreferenceProfile {
+  interactedIds: mongoose.Types.ObjectId[];
+  seedIds: mongoose.Types.ObjectId[];
+  propertyTypes: Map<string, number>;
+  listingTypes: Map<string, number>;
+  provinces: Map<string, number>;
+  priceRanges: Map<string, PriceRange>; // แยกตาม listingType (ราคาขาย/เช่าต่างกันมาก)
+}
+
+type ScoreFactor = keyof typeof SCORE_WEIGHTS;
+
+const PROFILE_FIELDS =
+  "propertyType listingType basePrice price location.address.province";
+
+export class RecommendationService {
+  private static since(): Date {
+    return new Date(
+      Date.now() - config.recommendations.lookbackDays * 24 * 60 * 60 * 1000
+    );
+  }
+
+  private static viewerFilter(viewer: RecommendationViewer): any | null {
+    if (viewer.userId) {
+      return { userId: new mongoose.Types.ObjectId(viewer.userId) };
+    }
+    if (viewer.sessionId) return { sessionId: viewer.sessionId };
+    return null;
+  }
+
+  private static addWeight(
+    map: Map<string, number>,
+    key: string | undefined,
+    weight: number
+  ): void {
+    if (!key) return;
+    map.set(key, (map.get(key) || 0) + weight);
+  }
+
+  // น้ำหนักสัมพัทธ์ (0-1) เทียบกับค่าที่สูงที่สุด
+  private static affinity(map: Map<string, number>, key?: string): number {
+    if (!key || map.size === 0) return 0;
+    const max = Math.max(...map.values());
+    return max > 0 ? (map.get(key) || 0) / max : 0;
+  }
+
+  private static topKeys(map: Map<string, number>, count: number): string[] {
+    return [...map.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, count)
+      .map(([key]) => key);
+  }
+
+  // ช่วงราคาที่สนใจ (quartile ที่ 1-3 ของราคาที่เคยดู ขยาย ±30%)
+  private static buildPriceRange(prices: number[]): PriceRange {
+    const sorted = [...prices].sort((a, b) => a - b);
+    const at = (ratio: number) =>
+      sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * ratio))];
+    return { min: at(0.25) * 0.7, max: at(0.75) * 1.3 };
+  }
+
+  // สร้างโปรไฟล์ความสนใจจากการดู, bookmark และแชท
+  private static async buildProfile(
+    viewer: RecommendationViewer
+  ): Promise<PreferenceProfile | null> {
+    const filter = this.viewerFilter(viewer);
+    if (!filter) return null;
+
+    const weights = new Map<string, number>();
+    const order: string[] = []; // ล่าสุดก่อน (ใช้เป็น seed ของ co-view)
+    const addSignal = (postId: any, weight: number) => {
+      const id = postId.toString();
+      if (!weights.has(id)) order.push(id);
+      weights.set(id, (weights.get(id) || 0) + weight);
+    };
+
+    const views = await ViewHistory.find(
+      { ...filter, viewedAt: { $gte: this.since() } },
+      "postId"
+    )
+      .sort({ viewedAt: -1 })
+      .limit(200)
+      .lean();
+    views.forEach((view) => addSignal(view.postId, SIGNAL_WEIGHTS.view));
+
+    if (viewer.userId) {
+      const userObjectId = new mongoose.Types.ObjectId(viewer.userId);
+      const [bookmarks, chats] = await Promise.all([
+        Bookmark.find({ userId: userObjectId }, "postId")
+          .sort({ createdAt: -1 })
+          .limit(100)
+          .lean(),
+        Chat.find(
+          {
+            participants: { $elemMatch: { user: userObjectId, role: "user" } },
+          },
+          "post"
+        )
+          .sort({ lastMessageAt: -1 })
+          .limit(50)
+          .lean(),
+      ]);
+      bookmarks.forEach((bookmark) =>
+        addSignal(bookmark.postId, SIGNAL_WEIGHTS.bookmark)
+      );
+      chats.forEach((chat) => addSignal(chat.post, SIGNAL_WEIGHTS.chat));
+    }
+
+    if (weights.size === 0) return null;
+
+    const posts = await Post.find(
+      {
+        _id: {
+          $in: [...weights.keys()].map((id) => new mongoose.Types.ObjectId(id)),
+        },
+      },
+      PROFILE_FIELDS
+    ).lean();
+
+    const profile: PreferenceProfile = {
+      interactedIds: [...weights.keys()].map(
+        (id) => new mongoose.Types.ObjectId(id)
+      ),
+      seedIds: order
+        .slice(0, SEED_POSTS)
+        .map((id) => new mongoose.Types.ObjectId(id)),
+      propertyTypes: new Map(),
+      listingTypes: new Map(),
+      provinces: new Map(),
+      priceRanges: new Map(),
+    };
+
+    const pricesByListingType = new Map<string, number[]>();
+    posts.forEach((post) => {
+      const weight = weights.get(String(post._id)) || 0;
+      this.addWeight(profile.propertyTypes, post.propertyType, weight);
+      this.addWeight(profile.listingTypes, post.listingType, weight);
+      this.addWeight(
+        profile.provinces,
+        post.location?.address?.province,
+        weight
+      );
+
+      const price = post.basePrice ?? post.price;
+      if (price > 0) {
+        const prices = pricesByListingType.get(post.listingType) || [];
+        prices.push(price);
+        pricesByListingType.set(post.listingType, prices);
+      }
+    });
+    pricesByListingType.forEach((prices, listingType) => {
+      profile.priceRanges.set(listingType, this.buildPriceRange(prices));
+    });
+
+    return profile;
+  }
+
+  // item-to-item: โพสต์ที่ผู้ชมคนอื่นของโพสต์เดียวกันเปิดดูด้วย (จำนวนผู้ชมที่ซ้ำกัน)
+  private static async getCoViewCounts(
+    profile: PreferenceProfile,
+    viewer: RecommendationViewer
+  ): Promise<Map<string, number>> {
+    const since = this.since();
+    const viewerKey = { $ifNull: [{ $toString: "$userId" }, "$sessionId"] };
+
+    const coViewers = await ViewHistory.aggregate([
+      {
+        $match: { postId: { $in: profile.seedIds }, viewedAt: { $gte: since } },
+      },
+      { $group: { _id: viewerKey } },
+      {
+        $match: {
+          _id: {
+            $nin: [null, viewer.userId, viewer.sessionId].filter(
+              (key) => key !== undefined
+            ),
+          },
+        },
+      },
+      { $limit: CO_VIEWERS },
+    ]);
+    if (coViewers.length === 0) return new Map();
+
+    const keys: string[] = coViewers.map((item) => item._id);
+    const objectIds = keys
+      .filter((key) => mongoose.Types.ObjectId.isValid(key))
+      .map((key) => new mongoose.Types.ObjectId(key));
+
+    const counts = await ViewHistory.aggregate([
+      {
+        $match: {
+          $or: [{ userId: { $in: objectIds } }, { sessionId: { $in: keys } }],
+          postId: { $nin: profile.interactedIds },
+          viewedAt: { $gte: since },
+        },
+      },
+      { $group: { _id: { postId: "$postId", viewer: viewerKey } } },
+      { $group: { _id: "$_id.postId", viewers: { $sum: 1 } } },
+      { $sort: { viewers: -1 } },
+      { $limit: config.recommendations.candidateLimit },
+    ]);
+
+    return new Map(
+      counts.map((item) => [item._id.toString(), item.viewers as number])
+    );
+  }
+
+  // ความเหมาะสมของราคา (1 = อยู่ในช่วง ลดลงตามระยะห่างจากช่วง)
+  private static priceFit(profile: PreferenceProfile, post: any): number {
+    const range = profile.priceRanges.get(post.listingType);
+    const price = post.basePrice ?? post.price;
+    if (!range || !(price > 0)) return 0;
+    if (price >= range.min && price <= range.max) return 1;
+    const ratio = price < range.min ? price / range.min : range.max / price;
+    return Math.max(0, 2 * ratio - 1);
+  }
+
+  private static buildReason(
+    factors: Record<ScoreFactor, number>,
+    post: any
+  ): string {
+    const [top] = (Object.keys(factors) as ScoreFactor[])
+      .map((key) => ({ key, value: factors[key] * SCORE_WEIGHTS[key] }))
+      .sort((a, b) => b.value - a.value);
+
+    switch (top?.value > 0 ? top.key : undefined) {
+      case "coView":
+        return "People who viewed the same listings as you also viewed this";
+      case "province":
+        return `Because you're interested in ${post.location?.address?.province}`;
+      case "propertyType":
+        return `Because you've been looking at ${post.propertyType} listings`;
+      case "price":
+        return "In your usual price range";
+      case "listingType":
+        return `More ${post.listingType} listings for you`;
+      default:
+        return "Popular right now";
+    }
+  }
+
+  // เลือกโพสต์ทีละรายการ โดยหักคะแนนโพสต์ที่คล้ายกับที่เลือกไปแล้ว
+  private static diversify<
+    T extends { post: any; score: number; reason: string },
+  >(ranked: T[], limit: number): T[] {
+    const remaining = [...ranked];
+    const selected: T[] = [];
+
+    while (selected.length < limit && remaining.length > 0) {
+      let bestIndex = 0;
+      let bestScore = -Infinity;
+
+      remaining.forEach((item, index) => {
+        let penalty = 0;
+        selected.forEach((picked) => {
+          if (
+            picked.post.authorId?.toString() === item.post.authorId?.toString()
+          ) {
+            penalty += DIVERSITY_PENALTY.sameAuthor;
+          }
+          if (
+            picked.post.propertyType === item.post.propertyType &&
+            picked.post.location?.address?.province ===
+              item.post.location?.address?.province
+          ) {
+            penalty += DIVERSITY_PENALTY.sameSegment;
+          }
+        });
+
+        if (item.score - penalty > bestScore) {
+          bestScore = item.score - penalty;
+          bestIndex = index;
+        }
+      });
+
+      selected.push(remaining.splice(bestIndex, 1)[0]);
+    }
+
+    return selected;
+  }
+
+  // โพสต์ยอดนิยม (ผู้ใช้ใหม่ที่ยังไม่มีประวัติ)
+  private static async getPopular(
+    limit: number,
+    excludeIds: mongoose.Types.ObjectId[] = []
+  ): Promise<Recommendation[]> {
+    const posts = await Post.find({
+      status: "approved",
+      _id: { $nin: excludeIds },
+    })
+      .sort({ featured: -1, viewCount: -1, bookmarkCount: -1, createdAt: -1 })
+      .limit(limit)
+      .populate("authorId", "name email avatar");
+
+    return posts.map((post) => ({
+      post,
+      score: 0,
+      reason: post.featured ? "Featured listing" : "Popular right now",
+    }));
+  }
+
+  // แนะนำโพสต์สำหรับผู้ใช้ (userId) หรือผู้เยี่ยมชม (sessionId)
+  static async getRecommendations(
+    viewer: RecommendationViewer,
+    limit: number = DEFAULT_RECOMMENDATIONS
+  ): Promise<Recommendation[]> {
+    const profile = await this.buildProfile(viewer);
+    if (!profile) return this.getPopular(limit);
+
+    const coViews = await this.getCoViewCounts(profile, viewer);
+
+    const query: any = {
+      status: "approved",
+      _id: { $nin: profile.interactedIds },
+      $or: [
+        { propertyType: { $in: this.topKeys(profile.propertyTypes, 3) } },
+        {
+          "location.address.province": {
+            $in: this.topKeys(profile.provinces, 3),
+          },
+        },
+        {
+          _id: {
+            $in: [...coViews.keys()].map(
+              (id) => new mongoose.Types.ObjectId(id)
+            ),
+          },
+        },
+      ],
+    };
+    // ไม่แนะนำประกาศของตัวเอง
+    if (viewer.userId) {
+      query.authorId = { $ne: new mongoose.Types.ObjectId(viewer.userId) };
+    }
+
+    const candidates = await Post.find(query)
+      .sort({ createdAt: -1 })
+      .limit(config.recommendations.candidateLimit)
+      .populate("authorId", "name email avatar");
+
+    const maxCoViews = Math.max(0, ...coViews.values());
+    const ranked = candidates
+      .map((post) => {
+        const factors: Record<ScoreFactor, number> = {
+          propertyType: this.affinity(profile.propertyTypes, post.propertyType),
+          province: this.affinity(
+            profile.provinces,
+            post.location?.address?.province
+          ),
+          listingType: this.affinity(profile.listingTypes, post.listingType),
+          price: this.priceFit(profile, post),
+          coView:
+            maxCoViews > 0
+              ? (coViews.get(String(post._id)) || 0) / maxCoViews
+              : 0,
+        };
+        const score = (Object.keys(factors) as ScoreFactor[]).reduce(
+          (sum, key) => sum + factors[key] * SCORE_WEIGHTS[key],
+          0
+        );
+
+        return {
+          post,
+          score: Math.round(score * 1000) / 1000,
+          reason: this.buildReason(factors, post),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const recommendations: Recommendation[] = this.diversify(ranked, limit);
+
+    // ผลลัพธ์ไม่พอ: เติมด้วยโพสต์ยอดนิยม
+    if (recommendations.length < limit) {
+      const popular = await this.getPopular(limit - recommendations.length, [
+        ...profile.interactedIds,
+        ...recommendations.map(
+          (item) => item.post._id as mongoose.Types.ObjectId
+        ),
+      ]);
+      recommendations.push(...popular);
+    }
+
+    return recommendations;
+  }
+}
@@ -0,0 +1,322 @@
+import mongoose from "mongoose";
+import { SavedSearch, ISavedSearch } from "@/models/SavedSearch";
+import { SavedSearchAlert } from "@/models/SavedSearchAlert";
+import { Post, IPost } from "@/models/Post";
+import { emitToUser } from "@/config/socket";
+import { PostQueryHelper } from "./PostQueryHelper";
+import { CurrencyService } from "./CurrencyService";
+import { AreaUtils } from "@/utils/area";
+import type { PostFilter } from "./PostService";
+
+const MAX_SAVED_SEARCHES_PER_USER = 20;
+const EARTH_RADIUS_METERS = 6378100;
+
+// ฟิลด์ของ PostFilter ที่อนุญาตให้บันทึก (ไม่รวม status และ sortBy)
+const STRING_FIELDS = [
+  "propertyType",
+  "listingType",
+  "location",
+  "province",
+  "district",
+  "condition",
+] as const;
+const NUMBER_FIELDS = [
+  "minPrice",
+  "maxPrice",
+  "bedrooms",
+  "bathrooms",
+  "minArea",
+  "maxArea",
+  "latitude",
+  "longitude",
+  "radius",
+] as const;
+const BOOLEAN_FIELDS = [
+  "featured",
+  "urgent",
+  "roadAccess",
+  "waterSource",
+  "electricity",
+] as const;
+
+export interface SavedSearchData {
+  name: string;
+  filter: PostFilter;
+  alertsEnabled?: boolean;
+}
+
+export class SavedSearchService {
+  // ทำความสะอาด filter ให้อยู่ในรูปแบบ PostFilter
+  static sanitizeFilter(input: unknown = {}): PostFilter {
+    const raw: Record<string, unknown> =
+      input && typeof input === "object" ? { ...input } : {};
+    const filter: any = {};
+
+    STRING_FIELDS.forEach((field) => {
+      const value = raw[field];
+      if (typeof value === "string" && value.trim()) {
+        filter[field] = value.trim();
+      }
+    });
+
+    NUMBER_FIELDS.forEach((field) => {
+      if (raw[field] !== undefined && raw[field] !== "") {
+        const value = Number(raw[field]);
+        if (!isNaN(value)) filter[field] = value;
+      }
+    });
+
+    BOOLEAN_FIELDS.forEach((field) => {
+      if (raw[field] === true || raw[field] === "true") filter[field] = true;
+      if (raw[field] === false || raw[field] === "false") filter[field] = false;
+    });
+
+    // สกุลเงินของ minPrice/maxPrice
+    const currency = CurrencyService.parseCurrency(raw.currency);
+    if (currency) filter.currency = currency;
+
+    // หน่วยของ minArea/maxArea
+    const areaUnit = AreaUtils.parseUnit(raw.areaUnit);
+    if (areaUnit) filter.areaUnit = areaUnit;
+
+    return filter;
+  }
+
+  // สร้าง saved search ใหม่
+  static async createSavedSearch(
+    userId: string,
+    data: SavedSearchData
+  ): Promise<ISavedSearch> {
+    const count = await SavedSearch.countDocuments({ userId });
+    if (count >= MAX_SAVED_SEARCHES_PER_USER) {
+      throw new Error(
+        `Saved search limit reached (max ${MAX_SAVED_SEARCHES_PER_USER})`
+      );
+    }
+
+    const savedSearch = new SavedSearch({
+      userId: new mongoose.Types.ObjectId(userId),
+      name: data.name,
+      filter: this.sanitizeFilter(data.filter),
+      alertsEnabled: data.alertsEnabled !== false,
+    });
+
+    await savedSearch.save();
+    return savedSearch;
+  }
+
+  // ดึง saved searches ของ user
+  static async getUserSavedSearches(userId: string): Promise<ISavedSearch[]> {
+    return (await SavedSearch.find({ userId })
+      .sort({ createdAt: -1 })
+      .lean()) as unknown as ISavedSearch[];
+  }
+
+  // ดึง saved search เดี่ยว (เฉพาะเจ้าของ)
+  static async getSavedSearchById(
+    id: string,
+    userId: string
+  ): Promise<ISavedSearch> {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      throw new Error("Saved search not found");
+    }
+
+    const savedSearch = await SavedSearch.findOne({ _id: id, userId });
+    if (!savedSearch) {
+      throw new Error("Saved search not found");
+    }
+
+    return savedSearch;
+  }
+
+  // อัปเดต saved search
+  static async updateSavedSearch(
+    id: string,
+    userId: string,
+    data: Partial<SavedSearchData>
+  ): Promise<ISavedSearch> {
+    const savedSearch = await this.getSavedSearchById(id, userId);
+
+    if (data.name !== undefined) savedSearch.name = data.name;
+    if (data.filter !== undefined) {
+      savedSearch.filter = this.sanitizeFilter(data.filter);
+      savedSearch.markModified("filter");
+    }
+    if (data.alertsEnabled !== undefined) {
+      savedSearch.alertsEnabled = data.alertsEnabled;
+    }
+
+    await savedSearch.save();
+    return savedSearch;
+  }
+
+  // ลบ saved search พร้อม alerts ที่เกี่ยวข้อง
+  static async deleteSavedSearch(id: string, userId: string): Promise<void> {
+    const savedSearch = await this.getSavedSearchById(id, userId);
+
+    await Promise.all([
+      SavedSearchAlert.deleteMany({ savedSearchId: savedSearch._id }),
+      savedSearch.deleteOne(),
+    ]);
+  }
+
+  // สร้าง query สำหรับตรวจว่าโพสต์ตรงกับ saved search หรือไม่
+  static buildMatchQuery(filter: PostFilter): any {
+    const query: any = {
+      status: "approved",
+      ...PostQueryHelper.buildFilterQuery(filter),
+    };
+
+    // ใช้ $geoWithin แทน $near เพื่อให้ใช้ร่วมกับ _id match ได้
+    if (filter.latitude && filter.longitude && filter.radius) {
+      query["location.coordinates"] = {
+        $geoWithin: {
+          $centerSphere: [
+            [filter.longitude, filter.latitude],
+            filter.radius / EARTH_RADIUS_METERS,
+          ],
+        },
+      };
+    }
+
+    return query;
+  }
+
+  // ตรวจสอบโพสต์ที่เพิ่งอนุมัติกับ saved searches ทั้งหมดและส่งแจ้งเตือน
+  static async notifyMatchingSearches(post: IPost): Promise<number> {
+    const authorId = (post.authorId as any)?._id
+      ? (post.authorId as any)._id.toString()
+      : post.authorId?.toString();
+
+    // คัดกรองเบื้องต้นด้วย propertyType/listingType เพื่อลดจำนวนที่ต้องตรวจ
+    const candidates = await SavedSearch.find({
+      alertsEnabled: true,
+      userId: { $ne: authorId },
+      $and: [
+        {
+          $or: [
+            { "filter.propertyType": { $exists: false } },
+            { "filter.propertyType": post.propertyType },
+          ],
+        },
+        {
+          $or: [
+            { "filter.listingType": { $exists: false } },
+            { "filter.listingType": post.listingType },
+          ],
+        },
+      ],
+    }).lean();
+
+    let notified = 0;
+
+    for (const savedSearch of candidates) {
+      try {
+        const query = this.buildMatchQuery(savedSearch.filter || {});
+        const matches = await Post.exists({ ...query, _id: post._id });
+        if (!matches) continue;
+
+        const alert = await SavedSearchAlert.findOneAndUpdate(
+          { savedSearchId: savedSearch._id, postId: post._id },
+          {
+            $setOnInsert: {
+              userId: savedSearch.userId,
+              savedSearchId: savedSearch._id,
+              postId: post._id,
+              isRead: false,
+            },
+          },
+          { upsert: true, new: true, includeResultMetadata: true }
+        );
+
+        // ข้ามถ้าเคยแจ้งเตือนโพสต์นี้แล้ว (เช่น อนุมัติซ้ำ)
+        if (alert.lastErrorObject?.updatedExisting) continue;
+
+        await SavedSearch.findByIdAndUpdate(savedSearch._id, {
+          $inc: { matchCount: 1 },
+          $set: { lastMatchedAt: new Date() },
+        });
+
+        emitToUser(savedSearch.userId.toString(), "saved_search_alert", {
+          alertId: alert.value?._id,
+          savedSearch: {
+            _id: savedSearch._id,
+            name: savedSearch.name,
+          },
+          post: {
+            _id: post._id,
+            title: post.title,
+            price: post.price,
+            currency: post.currency,
+            propertyType: post.propertyType,
+            listingType: post.listingType,
+            location: post.location,
+            image: post.media?.images?.[0],
+          },
+          createdAt: alert.value?.createdAt,
+        });
+
+        notified++;
+      } catch (error) {
+        console.error(`Saved search ${savedSearch._id} matching error:`, error);
+      }
+    }
+
+    return notified;
+  }
+
+  // ดึง alerts ของ user
+  static async getUserAlerts(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    unreadOnly: boolean = false
+  ): Promise<{ alerts: any[]; total: number; unread: number }> {
+    const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+    if (unreadOnly) query.isRead = false;
+
+    const skip = (page - 1) * limit;
+
+    const [alerts, total, unread] = await Promise.all([
+      SavedSearchAlert.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate("savedSearchId", "name filter")
+        .populate(
+          "postId",
+          "title price propertyType listingType area location media status createdAt"
+        )
+        .lean(),
+      SavedSearchAlert.countDocuments(query),
+      SavedSearchAlert.countDocuments({ userId, isRead: false }),
+    ]);
+
+    return { alerts, total, unread };
+  }
+
+  // ทำเครื่องหมายว่าอ่านแล้ว
+  static async markAlertAsRead(alertId: string, userId: string): Promise<void> {
+    if (!mongoose.Types.ObjectId.isValid(alertId)) {
+      throw new Error("Alert not found");
+    }
+
+    const result = await SavedSearchAlert.findOneAndUpdate(
+      { _id: alertId, userId },
+      { isRead: true }
+    );
+
+    if (!result) {
+      throw new Error("Alert not found");
+    }
+  }
+
+  // ทำเครื่องหมายว่าอ่านแล้วทั้งหมด
+  static async markAllAlertsAsRead(userId: string): Promise<number> {
+    const result = await SavedSearchAlert.updateMany(
+      { userId, isRead: false },
+      { isRead: true }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,143 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import { Post, IPost } from "@/models/Post";
+import { SlugUtils } from "@/utils/slug";
+
+const MAX_SLUG_ATTEMPTS = 50;
+
+export interface ResolvedPost {
+  post: IPost;
+  redirectTo?: string; // slug ปัจจุบัน เมื่อเรียกด้วย slug เดิม
+}
+
+export class SeoService {
+  // URL หลักของหน้าเว็บ (ไม่มี / ท้าย)
+  static siteUrl(): string {
+    return config.seo.siteUrl.replace(/\/$/, "");
+  }
+
+  // canonical URL ของประกาศ (ใช้ slug ถ้ามี)
+  static canonicalUrl(post: Pick<IPost, "_id" | "slug">): string {
+    return `${this.siteUrl()}/posts/${post.slug || post._id}`;
+  }
+
+  static provinceUrl(province: string): string {
+    return `${this.siteUrl()}/provinces/${SlugUtils.slugify(province)}`;
+  }
+
+  // slug ตั้งต้นจากชื่อประกาศ ประเภททรัพย์ และแขวง
+  static buildBaseSlug(post: IPost): string {
+    return SlugUtils.slugify(
+      [
+        post.title,
+        post.propertyType,
+        post.location?.address?.province !== "Unknown"
+          ? post.location?.address?.province
+          : undefined,
+      ]
+        .filter(Boolean)
+        .join(" "),
+      config.seo.slugMaxLength
+    );
+  }
+
+  /**
+   * สร้าง/อัปเดต slug ให้ตรงกับข้อมูลปัจจุบัน (slug เดิมเก็บไว้ใน previousSlugs เพื่อ redirect)
+   * เรียกหลังสร้างหรือแก้ไขประกาศ; draft ที่ยังไม่มีชื่อจะถูกข้าม
+   */
+  static async syncSlug(post: IPost): Promise<IPost> {
+    if (!post.title) return post;
+
+    const base = this.buildBaseSlug(post) || "listing";
+    if (post.slug && SlugUtils.matchesBase(post.slug, base)) {
+      return post;
+    }
+
+    for (let attempt = 1; attempt <= MAX_SLUG_ATTEMPTS; attempt++) {
+      const candidate = SlugUtils.withSuffix(base, attempt);
+      // slug ที่ประกาศอื่นเคยใช้ก็ห้ามใช้ซ้ำ (ลิงก์เดิมต้อง redirect ถูกที่)
+      const taken = await Post.exists({
+        _id: { $ne: post._id },
+        $or: [{ slug: candidate }, { previousSlugs: candidate }],
+      });
+      if (taken) continue;
+
+      const previousSlugs = (post.previousSlugs || []).filter(
+        (slug) => slug !== candidate
+      );
+      if (post.slug) previousSlugs.push(post.slug);
+
+      try {
+        await Post.updateOne(
+          { _id: post._id },
+          { $set: { slug: candidate, previousSlugs } }
+        );
+      } catch (error) {
+        if ((error as { code?: number })?.code === 11000) continue; // มีประกาศอื่นใช้ slug นี้พร้อมกัน
+        throw error;
+      }
+
+      post.slug = candidate;
+      post.previousSlugs = previousSlugs;
+      return post;
+    }
+
+    // ชื่อซ้ำมากเกินไป: ต่อท้ายด้วย id เพื่อให้ไม่ซ้ำแน่นอน
+    const fallback = `${base}-${post._id}`;
+    await Post.updateOne(
+      { _id: post._id },
+      {
+        $set: { slug: fallback },
+        ...(post.slug && { $addToSet: { previousSlugs: post.slug } }),
+      }
+    );
+    post.slug = fallback;
+    return post;
+  }
+
+  /**
+   * หาโพสต์จาก _id หรือ slug (slug เดิมคืน redirectTo เป็น slug ปัจจุบัน)
+   */
+  static async resolvePost(idOrSlug: string): Promise<ResolvedPost | null> {
+    if (mongoose.Types.ObjectId.isValid(idOrSlug)) {
+      const post = await Post.findById(idOrSlug).populate(
+        "authorId",
+        "name email avatar"
+      );
+      if (post) return { post };
+    }
+
+    const slug = SlugUtils.slugify(idOrSlug, Infinity);
+    if (!slug) return null;
+
+    const post = await Post.findOne({ slug }).populate(
+      "authorId",
+      "name email avatar"
+    );
+    if (post) return { post };
+
+    const renamed = await Post.findOne({ previousSlugs: slug }).populate(
+      "authorId",
+      "name email avatar"
+    );
+    if (renamed?.slug) {
+      return { post: renamed, redirectTo: renamed.slug };
+    }
+
+    return null;
+  }
+
+  // สร้าง slug ให้ประกาศเดิมที่ยังไม่มี (ทีละชุด เรียกจาก scheduler ของ sitemap)
+  static async backfillSlugs(): Promise<number> {
+    const posts = await Post.find({
+      slug: { $exists: false },
+      status: { $ne: "draft" },
+    }).limit(config.seo.slugBackfillBatchSize);
+
+    for (const post of posts) {
+      await this.syncSlug(post);
+    }
+
+    return posts.length;
+  }
+}
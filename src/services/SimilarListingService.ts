@@ -0,0 +1,299 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import redis from "@/config/redis";
+import { Post, IPost } from "@/models/Post";
+import { CoordinateUtils } from "@/utils/coordinates";
+import {
+  DuplicateDetectionService,
+  DuplicateCandidate,
+} from "./DuplicateDetectionService";
+
+export const DEFAULT_SIMILAR_POSTS = 6;
+export const MAX_SIMILAR_POSTS = 20;
+
+const CACHE_PREFIX = "similar_posts:";
+
+// น้ำหนักของแต่ละปัจจัย (ปัจจัยที่เทียบไม่ได้จะถูกตัดออกแล้วเฉลี่ยใหม่)
+const WEIGHTS = {
+  propertyType: 0.2,
+  price: 0.3,
+  area: 0.15,
+  bedrooms: 0.1,
+  distance: 0.25,
+};
+
+// ช่วงราคาที่นำมาเทียบ (เท่าของราคาโพสต์ต้นทาง)
+const PRICE_BAND = { min: 0.5, max: 2 };
+
+const CANDIDATE_FIELDS =
+  "title description price basePrice area propertyType listingType " +
+  "houseDetails.bedrooms condoDetails.bedrooms location.coordinates authorId duplicateOf";
+
+export interface SimilarityScore {
+  score: number; // 0-1
+  distanceKm?: number;
+  breakdown: {
+    propertyType: number;
+    price: number;
+    area: number | null;
+    bedrooms: number | null;
+    distance: number | null;
+  };
+}
+
+interface SimilarMatch extends SimilarityScore {
+  postId: string;
+}
+
+export interface SimilarPost {
+  post: IPost;
+  similarity: SimilarityScore;
+}
+
+export class SimilarListingService {
+  private static cacheKey(postId: string): string {
+    return `${CACHE_PREFIX}${postId}`;
+  }
+
+  // Redis ล่มไม่ควรทำให้หน้าโพสต์ใช้งานไม่ได้ (คำนวณใหม่แทน)
+  private static async readCache(
+    postId: string
+  ): Promise<SimilarMatch[] | null> {
+    try {
+      const cached = await redis.get(this.cacheKey(postId));
+      return cached ? JSON.parse(cached) : null;
+    } catch (error) {
+      console.error("Similar listings cache read error:", error);
+      return null;
+    }
+  }
+
+  private static async writeCache(
+    postId: string,
+    matches: SimilarMatch[]
+  ): Promise<void> {
+    try {
+      await redis.setex(
+        this.cacheKey(postId),
+        config.similarListings.cacheTtlSeconds,
+        JSON.stringify(matches)
+      );
+    } catch (error) {
+      console.error("Similar listings cache write error:", error);
+    }
+  }
+
+  // ล้าง cache เมื่อโพสต์เปลี่ยน (โพสต์อื่นที่อ้างถึงจะหมดอายุตาม TTL)
+  static async invalidate(postId: string): Promise<void> {
+    try {
+      await redis.del(this.cacheKey(postId));
+    } catch (error) {
+      console.error("Similar listings cache invalidate error:", error);
+    }
+  }
+
+  private static getCoordinates(post: any): [number, number] | undefined {
+    const coordinates = post.location?.coordinates?.coordinates;
+    return Array.isArray(coordinates) &&
+      coordinates.length === 2 &&
+      !(coordinates[0] === 0 && coordinates[1] === 0)
+      ? [coordinates[0], coordinates[1]]
+      : undefined;
+  }
+
+  private static getBedrooms(post: any): number | undefined {
+    return post.houseDetails?.bedrooms ?? post.condoDetails?.bedrooms;
+  }
+
+  // ความใกล้เคียงในช่วง (1 = เท่ากัน, 0 = ต่างกันเกินครึ่งหนึ่ง/สองเท่า)
+  private static bandSimilarity(a?: number, b?: number): number | null {
+    if (!a || !b || a <= 0 || b <= 0) return null;
+    const ratio = Math.min(a, b) / Math.max(a, b);
+    return Math.max(0, (ratio - PRICE_BAND.min) / (1 - PRICE_BAND.min));
+  }
+
+  // คะแนนความคล้ายของโพสต์ candidate เทียบกับโพสต์ต้นทาง
+  static scoreCandidate(source: any, candidate: any): SimilarityScore {
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    const sourceBedrooms = this.getBedrooms(source);
+    const candidateBedrooms = this.getBedrooms(candidate);
+    const bedroomGap =
+      sourceBedrooms !== undefined && candidateBedrooms !== undefined
+        ? Math.abs(sourceBedrooms - candidateBedrooms)
+        : undefined;
+
+    const from = this.getCoordinates(source);
+    const to = this.getCoordinates(candidate);
+    const distanceKm =
+      from && to
+        ? CoordinateUtils.calculateDistance(from[1], from[0], to[1], to[0])
+        : undefined;
+
+    const breakdown: SimilarityScore["breakdown"] = {
+      propertyType: source.propertyType === candidate.propertyType ? 1 : 0,
+      price:
+        this.bandSimilarity(
+          source.basePrice ?? source.price,
+          candidate.basePrice ?? candidate.price
+        ) ?? 0,
+      area: this.bandSimilarity(source.area, candidate.area),
+      // ห้องนอนต่างกัน 1 ห้อง = 0.5, ตั้งแต่ 2 ห้อง = 0
+      bedrooms:
+        bedroomGap === undefined ? null : Math.max(0, 1 - bedroomGap * 0.5),
+      distance:
+        distanceKm === undefined
+          ? null
+          : Math.max(0, 1 - distanceKm / config.similarListings.maxDistanceKm),
+    };
+
+    let weighted = 0;
+    let totalWeight = 0;
+    (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]).forEach((key) => {
+      const value = breakdown[key];
+      if (value === null) return;
+      weighted += value * WEIGHTS[key];
+      totalWeight += WEIGHTS[key];
+    });
+
+    return {
+      score: totalWeight > 0 ? round(weighted / totalWeight) : 0,
+      distanceKm:
+        distanceKm === undefined
+          ? undefined
+          : Math.round(distanceKm * 100) / 100,
+      breakdown: {
+        propertyType: breakdown.propertyType,
+        price: round(breakdown.price),
+        area: breakdown.area === null ? null : round(breakdown.area),
+        bedrooms: breakdown.bedrooms,
+        distance:
+          breakdown.distance === null ? null : round(breakdown.distance),
+      },
+    };
+  }
+
+  private static toDuplicateCandidate(post: any): DuplicateCandidate {
+    return {
+      title: post.title,
+      description: post.description,
+      price: post.price,
+      area: post.area,
+      coordinates: this.getCoordinates(post),
+      authorId: post.authorId.toString(),
+    };
+  }
+
+  // โพสต์ซ้ำของผู้ลงประกาศคนเดียวกัน (ลิงก์ duplicateOf หรือคะแนนความซ้ำถึงเกณฑ์)
+  private static isOwnDuplicate(a: any, b: any): boolean {
+    if (a.authorId.toString() !== b.authorId.toString()) return false;
+    if (
+      a.duplicateOf?.toString() === b._id.toString() ||
+      b.duplicateOf?.toString() === a._id.toString()
+    ) {
+      return true;
+    }
+    return (
+      DuplicateDetectionService.scorePost(this.toDuplicateCandidate(a), b)
+        .score >= config.duplicateDetection.flagScore
+    );
+  }
+
+  // ค้นหาและจัดอันดับโพสต์ที่คล้ายกัน (ประเภทประกาศเดียวกัน ราคาอยู่ในช่วง)
+  private static async computeMatches(source: any): Promise<SimilarMatch[]> {
+    const query: any = {
+      _id: { $ne: source._id },
+      status: "approved",
+      listingType: source.listingType,
+    };
+
+    const sourcePrice = source.basePrice ?? source.price;
+    if (sourcePrice > 0) {
+      query.basePrice = {
+        $gte: Math.floor(sourcePrice * PRICE_BAND.min),
+        $lte: Math.ceil(sourcePrice * PRICE_BAND.max),
+      };
+    }
+
+    // มีพิกัด: ดึงโพสต์ที่ใกล้ที่สุดก่อน
+    const coordinates = this.getCoordinates(source);
+    if (coordinates) {
+      query["location.coordinates"] = {
+        $near: {
+          $geometry: { type: "Point", coordinates },
+        },
+      };
+    }
+
+    let candidatesQuery = Post.find(query, CANDIDATE_FIELDS);
+    if (!coordinates) candidatesQuery = candidatesQuery.sort({ createdAt: -1 });
+    const candidates = await candidatesQuery
+      .limit(config.similarListings.candidateLimit)
+      .lean();
+
+    const scored = candidates
+      .filter((candidate) => !this.isOwnDuplicate(source, candidate))
+      .map((candidate) => ({
+        candidate,
+        similarity: this.scoreCandidate(source, candidate),
+      }))
+      .sort((a, b) => b.similarity.score - a.similarity.score);
+
+    // ไม่แสดงประกาศซ้ำของผู้ลงประกาศคนเดียวกันหลายรายการ
+    const selected: typeof scored = [];
+    for (const item of scored) {
+      if (selected.length >= MAX_SIMILAR_POSTS) break;
+      if (
+        selected.some((picked) =>
+          this.isOwnDuplicate(picked.candidate, item.candidate)
+        )
+      ) {
+        continue;
+      }
+      selected.push(item);
+    }
+
+    return selected.map(({ candidate, similarity }) => ({
+      postId: candidate._id.toString(),
+      ...similarity,
+    }));
+  }
+
+  // ประกาศที่คล้ายกับโพสต์นี้ (ผลการจัดอันดับ cache ไว้ต่อโพสต์)
+  static async getSimilarPosts(
+    postId: string,
+    limit: number = DEFAULT_SIMILAR_POSTS
+  ): Promise<SimilarPost[]> {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new Error("Invalid post ID");
+    }
+
+    let matches = await this.readCache(postId);
+    if (!matches) {
+      const source = await Post.findById(postId, CANDIDATE_FIELDS).lean();
+      if (!source) {
+        throw new Error("Post not found");
+      }
+      matches = await this.computeMatches(source);
+      await this.writeCache(postId, matches);
+    }
+
+    // ดึงข้อมูลล่าสุดเสมอ (โพสต์ที่ขาย/หมดอายุหลังจาก cache แล้วจะถูกตัดออก)
+    const posts = await Post.find({
+      _id: {
+        $in: matches.map((match) => new mongoose.Types.ObjectId(match.postId)),
+      },
+      status: "approved",
+    }).populate("authorId", "name email avatar");
+    const postsById = new Map(posts.map((post) => [String(post._id), post]));
+
+    const similar: SimilarPost[] = [];
+    for (const { postId: matchId, ...similarity } of matches) {
+      const post = postsById.get(matchId);
+      if (!post) continue;
+      similar.push({ post, similarity });
+      if (similar.length >= limit) break;
+    }
+    return similar;
+  }
+}
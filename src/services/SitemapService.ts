@@ -0,0 +1,229 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import { Post } from "@/models/Post";
+import { PostTombstone } from "@/models/PostTombstone";
+import { Sitemap, ISitemap } from "@/models/Sitemap";
+import { SeoService } from "@/services/SeoService";
+import { SitemapUtils } from "@/utils/sitemap";
+
+const PROVINCES_GROUP = "provinces";
+const POST_GROUP_PREFIX = "posts-";
+
+// จัดกลุ่มตามเดือนที่สร้างประกาศ (จาก ObjectId) เพื่อให้ไฟล์ไม่ย้ายกลุ่มเมื่อประกาศเปลี่ยน
+const MONTH_OF_ID = (field: string) => ({
+  $dateToString: { format: "%Y-%m", date: { $toDate: field } },
+});
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+export interface SitemapRunResult {
+  groups: number; // จำนวนกลุ่มประกาศที่สร้างใหม่
+  slugs: number; // จำนวนประกาศเดิมที่สร้าง slug ให้
+}
+
+export class SitemapService {
+  // sitemap index (ไฟล์ย่อยเรียงตามชื่อ)
+  static async getIndex(): Promise<string> {
+    const sitemaps = await Sitemap.find()
+      .select("name lastModified")
+      .sort({ name: 1 });
+
+    return SitemapUtils.buildIndex(
+      sitemaps.map((sitemap) => ({
+        loc: `${SeoService.siteUrl()}/sitemaps/${sitemap.name}.xml`,
+        lastmod: sitemap.lastModified,
+      }))
+    );
+  }
+
+  static async getSitemap(name: string): Promise<ISitemap | null> {
+    return Sitemap.findOne({ name });
+  }
+
+  // ช่วง _id ของประกาศที่สร้างในเดือนของกลุ่ม (posts-YYYY-MM)
+  private static groupIdRange(group: string): {
+    $gte: mongoose.Types.ObjectId;
+    $lt: mongoose.Types.ObjectId;
+  } {
+    const [year, month] = group
+      .slice(POST_GROUP_PREFIX.length)
+      .split("-")
+      .map(Number);
+    const start = Date.UTC(year, month - 1, 1) / 1000;
+    const end = Date.UTC(year, month, 1) / 1000;
+
+    return {
+      $gte: mongoose.Types.ObjectId.createFromTime(start),
+      $lt: mongoose.Types.ObjectId.createFromTime(end),
+    };
+  }
+
+  // กลุ่มที่มีประกาศเปลี่ยนหรือถูกลบหลังเวลาที่กำหนด (ไม่ส่ง since = ทุกกลุ่ม)
+  private static async findGroups(since?: Date): Promise<string[]> {
+    const [posts, deletions] = await Promise.all([
+      Post.aggregate([
+        {
+          $match: since
+            ? { updatedAt: { $gt: since } }
+            : { status: "approved" },
+        },
+        { $group: { _id: MONTH_OF_ID("$_id") } },
+      ]),
+      since
+        ? PostTombstone.aggregate([
+            { $match: { deletedAt: { $gt: since } } },
+            { $group: { _id: MONTH_OF_ID("$postId") } },
+          ])
+        : Promise.resolve([]),
+    ]);
+
+    return [
+      ...new Set(
+        [...posts, ...deletions].map(
+          (item: { _id: string }) => `${POST_GROUP_PREFIX}${item._id}`
+        )
+      ),
+    ].sort();
+  }
+
+  // สร้างไฟล์ของกลุ่มใหม่ทั้งหมด (แบ่งไฟล์ตาม sitemapMaxUrls)
+  private static async buildPostGroup(
+    group: string,
+    generatedAt: Date
+  ): Promise<void> {
+    const posts = await Post.find({
+      _id: this.groupIdRange(group),
+      status: "approved",
+    })
+      .select("slug updatedAt")
+      .sort({ _id: 1 })
+      .lean();
+
+    const names: string[] = [];
+    for (
+      let offset = 0, part = 1;
+      offset < posts.length;
+      offset += config.seo.sitemapMaxUrls, part++
+    ) {
+      const chunk = posts.slice(offset, offset + config.seo.sitemapMaxUrls);
+      const name = part === 1 ? group : `${group}-${part}`;
+      names.push(name);
+
+      await Sitemap.updateOne(
+        { name },
+        {
+          $set: {
+            group,
+            xml: SitemapUtils.buildUrlSet(
+              chunk.map((post) => ({
+                loc: SeoService.canonicalUrl(post),
+                lastmod: post.updatedAt,
+              }))
+            ),
+            urlCount: chunk.length,
+            lastModified: new Date(
+              Math.max(...chunk.map((post) => post.updatedAt.getTime()))
+            ),
+            generatedAt,
+          },
+        },
+        { upsert: true }
+      );
+    }
+
+    // ลบไฟล์ส่วนเกินเมื่อกลุ่มมีประกาศน้อยลง
+    await Sitemap.deleteMany({ group, name: { $nin: names } });
+  }
+
+  // หน้ารวมประกาศรายแขวงที่มีประกาศอนุมัติแล้ว
+  private static async buildProvinces(generatedAt: Date): Promise<void> {
+    const provinces: { _id: string; lastmod: Date }[] = await Post.aggregate([
+      {
+        $match: {
+          status: "approved",
+          "location.address.province": { $nin: [null, "", "Unknown"] },
+        },
+      },
+      {
+        $group: {
+          _id: "$location.address.province",
+          lastmod: { $max: "$updatedAt" },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    if (provinces.length === 0) {
+      await Sitemap.deleteMany({ group: PROVINCES_GROUP });
+      return;
+    }
+
+    await Sitemap.updateOne(
+      { name: PROVINCES_GROUP },
+      {
+        $set: {
+          group: PROVINCES_GROUP,
+          xml: SitemapUtils.buildUrlSet(
+            provinces.map((province) => ({
+              loc: SeoService.provinceUrl(province._id),
+              lastmod: province.lastmod,
+            }))
+          ),
+          urlCount: provinces.length,
+          lastModified: new Date(
+            Math.max(...provinces.map((province) => province.lastmod.getTime()))
+          ),
+          generatedAt,
+        },
+      },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * สร้าง sitemap ใหม่เฉพาะกลุ่มที่มีประกาศเปลี่ยนตั้งแต่รอบก่อน
+   * (รอบแรกหรือยังไม่มีไฟล์ = สร้างทั้งหมด)
+   */
+  static async regenerate(): Promise<SitemapRunResult> {
+    const startedAt = new Date();
+    const slugs = await SeoService.backfillSlugs();
+
+    const lastRun = await Sitemap.findOne()
+      .sort({ generatedAt: -1 })
+      .select("generatedAt");
+    const since = lastRun?.generatedAt;
+
+    const groups = await this.findGroups(since);
+    for (const group of groups) {
+      await this.buildPostGroup(group, startedAt);
+    }
+    if (groups.length > 0) {
+      await this.buildProvinces(startedAt);
+    }
+
+    return { groups: groups.length, slugs };
+  }
+
+  static startScheduler(): void {
+    if (schedulerTimer) return;
+
+    const run = () =>
+      this.regenerate()
+        .then((result) => {
+          if (result.groups || result.slugs) {
+            console.log("🗺️ Sitemap:", result);
+          }
+        })
+        .catch((error) => console.error("Sitemap scheduler error:", error));
+
+    run();
+    schedulerTimer = setInterval(run, config.seo.sitemapIntervalMs);
+  }
+
+  static stopScheduler(): void {
+    if (schedulerTimer) {
+      clearInterval(schedulerTimer);
+      schedulerTimer = null;
+    }
+  }
+}
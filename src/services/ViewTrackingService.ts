@@ -1,6 +1,7 @@
 import mongoose from 'mongoose'
-import { ViewHistory, IViewHistory } from '@/models/ViewHistory'
+import { ViewHistory } from '@/models/ViewHistory'
 import { Post } from '@/models/Post'
+import { CursorPagination, CursorPage } from '@/utils/cursor'
 
 export interface ViewTrackingResult {
   isNewView: boolean
@@ -88,7 +89,8 @@ export class ViewTrackingService {
           updateData.$inc.uniqueViewCount = 1
         }
 
-        await Post.findByIdAndUpdate(postObjectId, updateData)
+        // ตัวนับไม่ถือเป็นการแก้ไขประกาศ (ไม่เปลี่ยน updatedAt ที่ feed/sitemap ใช้)
+        await Post.findByIdAndUpdate(postObjectId, updateData, { timestamps: false })
       }
 
       // ดึงข้อมูลล่าสุดของโพสต์
@@ -120,7 +122,7 @@ export class ViewTrackingService {
             userId: new mongoose.Types.ObjectId(userId)
           }
         },
-        { $sort: { viewedAt: -1 } },
+        { $sort: { viewedAt: -1, _id: -1 } },
         {
           $lookup: {
             from: 'posts',
@@ -179,13 +181,74 @@ export class ViewTrackingService {
     }
   }
 
+  // ดึงประวัติการเข้าชมของ user แบบ cursor (ล่าสุดก่อน)
+  async getUserViewHistoryByCursor(
+    userId: string,
+    limit: number = 20,
+    cursor?: string
+  ): Promise<CursorPage<any>> {
+    // cursor ผิดรูปแบบให้ controller ตอบ 400 (ไม่ห่อ error)
+    const cursorQuery = CursorPagination.buildQuery('viewedAt', -1, cursor)
+
+    try {
+      const views = await ViewHistory.aggregate([
+        {
+          $match: {
+            userId: new mongoose.Types.ObjectId(userId),
+            ...cursorQuery
+          }
+        },
+        { $sort: CursorPagination.buildSort('viewedAt', -1) },
+        {
+          $lookup: {
+            from: 'posts',
+            localField: 'postId',
+            foreignField: '_id',
+            as: 'post'
+          }
+        },
+        { $unwind: '$post' },
+        {
+          $match: {
+            'post.status': 'approved'
+          }
+        },
+        { $limit: limit + 1 },
+        {
+          $project: {
+            _id: 1,
+            viewedAt: 1,
+            post: {
+              _id: 1,
+              title: 1,
+              price: 1,
+              propertyType: 1,
+              listingType: 1,
+              area: 1,
+              location: 1,
+              media: 1,
+              viewCount: 1,
+              bookmarkCount: 1,
+              featured: 1,
+              status: 1
+            }
+          }
+        }
+      ])
+
+      return CursorPagination.buildPage(views, limit, 'viewedAt')
+    } catch (error) {
+      throw new Error(`Error getting user view history: ${error}`)
+    }
+  }
+
   // ดึงโพสต์ที่ถูกดูมากที่สุด
   async getMostViewedPosts(
     timeFrame: 'day' | 'week' | 'month' | 'all' = 'all',
     limit: number = 10
   ): Promise<any[]> {
     try {
-      let matchCondition: any = { status: 'approved' }
+      const matchCondition: any = { status: 'approved' }
 
       // เพิ่มเงื่อนไขเวลาถ้าต้องการ
       if (timeFrame !== 'all') {
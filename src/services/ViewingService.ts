@@ -0,0 +1,674 @@
+import mongoose from "mongoose";
+import { config } from "@/config";
+import { Post } from "@/models/Post";
+import { ViewingSlot, IViewingSlot } from "@/models/ViewingSlot";
+import {
+  ViewingAppointment,
+  IViewingAppointment,
+  ViewingStatus,
+} from "@/models/ViewingAppointment";
+import { ChatService } from "@/services/ChatService";
+import { emitToUser } from "@/config/socket";
+import { IcsUtils } from "@/utils/ics";
+import { AgencyService } from "@/services/AgencyService";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// นัดที่ยังมีผล (กันขอซ้ำ/จองซ้อน)
+const OPEN_APPOINTMENT_STATUSES: ViewingStatus[] = ["requested", "confirmed"];
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+export interface SlotInput {
+  startsAt: Date;
+  endsAt: Date;
+  note?: string;
+}
+
+export type ViewingSide = "buyer" | "seller";
+
+export interface ViewingRunResult {
+  reminded: number;
+  completed: number;
+}
+
+export class ViewingService {
+  // ตรวจสอบโพสต์และสิทธิ์จัดการโพสต์ (รวมตัวแทน/เจ้าของเอเจนซี่)
+  private static async getOwnedPost(
+    postId: string,
+    userId: string,
+    userRole?: string
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new Error("Post not found");
+    }
+
+    const post = await Post.findById(postId).select(
+      "title authorId agencyId assignedAgentId status location"
+    );
+    if (!post) {
+      throw new Error("Post not found");
+    }
+    if (!(await AgencyService.canManagePost(post, userId, userRole))) {
+      throw new Error(
+        "You do not have permission to manage viewings for this post"
+      );
+    }
+
+    return post;
+  }
+
+  // ส่งข้อความลงห้องแชทของนัด (ห้องแชทปิดแล้วไม่ถือว่าผิดพลาด)
+  private static async postChatMessage(
+    appointment: IViewingAppointment,
+    senderId: string,
+    content: string
+  ): Promise<void> {
+    if (!appointment.chatId) return;
+    try {
+      await ChatService.sendMessage(appointment.chatId.toString(), senderId, {
+        content,
+      });
+    } catch (error) {
+      console.error("Viewing chat message error:", error);
+    }
+  }
+
+  // แจ้งเตือนผ่าน socket room `user:<id>`
+  private static notify(
+    userId: mongoose.Types.ObjectId,
+    event: string,
+    appointment: IViewingAppointment,
+    extra: Record<string, any> = {}
+  ): void {
+    emitToUser(userId.toString(), event, {
+      appointmentId: appointment._id,
+      postId: appointment.postId,
+      chatId: appointment.chatId,
+      status: appointment.status,
+      startsAt: appointment.startsAt,
+      endsAt: appointment.endsAt,
+      ...extra,
+    });
+  }
+
+  private static formatSlotTime(date: Date): string {
+    return date.toISOString().replace("T", " ").slice(0, 16) + " UTC";
+  }
+
+  // ผู้ขายเปิดช่วงเวลาให้จองชม
+  static async createSlots(
+    postId: string,
+    slots: SlotInput[],
+    userId: string,
+    userRole?: string
+  ): Promise<IViewingSlot[]> {
+    const post = await this.getOwnedPost(postId, userId, userRole);
+    if (post.status !== "approved") {
+      throw new Error("Viewings can only be scheduled for approved posts");
+    }
+
+    if (
+      slots.length === 0 ||
+      slots.length > config.viewings.maxSlotsPerRequest
+    ) {
+      throw new Error(
+        `Between 1 and ${config.viewings.maxSlotsPerRequest} slots can be added at a time`
+      );
+    }
+
+    const now = Date.now();
+    const latest = now + config.viewings.maxAdvanceDays * DAY_MS;
+    const maxDuration = config.viewings.maxSlotDurationMinutes * MINUTE_MS;
+
+    const sorted = [...slots].sort(
+      (a, b) => a.startsAt.getTime() - b.startsAt.getTime()
+    );
+    sorted.forEach((slot, index) => {
+      const start = slot.startsAt.getTime();
+      const duration = slot.endsAt.getTime() - start;
+      if (start <= now) {
+        throw new Error("Slots must start in the future");
+      }
+      if (start > latest) {
+        throw new Error(
+          `Slots can be scheduled at most ${config.viewings.maxAdvanceDays} days ahead`
+        );
+      }
+      if (duration <= 0 || duration > maxDuration) {
+        throw new Error(
+          `Slot duration must be between 1 and ${config.viewings.maxSlotDurationMinutes} minutes`
+        );
+      }
+      if (index > 0 && sorted[index - 1].endsAt.getTime() > start) {
+        throw new Error("Slots must not overlap");
+      }
+    });
+
+    const overlapping = await ViewingSlot.exists({
+      postId: post._id,
+      status: { $in: ["open", "booked"] },
+      $or: sorted.map((slot) => ({
+        startsAt: { $lt: slot.endsAt },
+        endsAt: { $gt: slot.startsAt },
+      })),
+    });
+    if (overlapping) {
+      throw new Error("Slots must not overlap existing slots");
+    }
+
+    return ViewingSlot.insertMany(
+      sorted.map((slot) => ({
+        postId: post._id,
+        ownerId: AgencyService.getContactUserId(post),
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        note: slot.note,
+      }))
+    ) as unknown as Promise<IViewingSlot[]>;
+  }
+
+  // ช่วงเวลาที่ยังว่างของโพสต์ (สาธารณะ)
+  static async getAvailableSlots(postId: string): Promise<IViewingSlot[]> {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new Error("Post not found");
+    }
+
+    return ViewingSlot.find({
+      postId,
+      status: "open",
+      startsAt: { $gt: new Date() },
+    })
+      .sort({ startsAt: 1 })
+      .select("-ownerId");
+  }
+
+  // ช่วงเวลาทั้งหมดของโพสต์ พร้อมจำนวนคำขอ (เจ้าของโพสต์หรือ admin)
+  static async getPostSlots(
+    postId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<{ slot: IViewingSlot; pendingRequests: number }[]> {
+    const post = await this.getOwnedPost(postId, userId, userRole);
+
+    const slots = await ViewingSlot.find({
+      postId: post._id,
+      status: { $ne: "cancelled" },
+      endsAt: { $gt: new Date() },
+    }).sort({ startsAt: 1 });
+
+    const counts = await ViewingAppointment.aggregate([
+      {
+        $match: {
+          slotId: { $in: slots.map((slot) => slot._id) },
+          status: "requested",
+        },
+      },
+      { $group: { _id: "$slotId", count: { $sum: 1 } } },
+    ]);
+    const countBySlot = new Map<string, number>(
+      counts.map((row) => [String(row._id), row.count])
+    );
+
+    return slots.map((slot) => ({
+      slot,
+      pendingRequests: countBySlot.get(String(slot._id)) || 0,
+    }));
+  }
+
+  // ยกเลิกช่วงเวลา: คำขอที่รออยู่ถูกปฏิเสธ นัดที่ยืนยันแล้วถูกยกเลิก
+  static async cancelSlot(
+    slotId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IViewingSlot> {
+    if (!mongoose.Types.ObjectId.isValid(slotId)) {
+      throw new Error("Slot not found");
+    }
+
+    const slot = await ViewingSlot.findById(slotId);
+    if (!slot) {
+      throw new Error("Slot not found");
+    }
+    if (slot.ownerId.toString() !== userId && userRole !== "admin") {
+      throw new Error(
+        "You do not have permission to manage viewings for this post"
+      );
+    }
+    if (slot.status === "cancelled") {
+      throw new Error("Slot is already cancelled");
+    }
+
+    slot.status = "cancelled";
+    await slot.save();
+
+    const appointments = await ViewingAppointment.find({
+      slotId: slot._id,
+      status: { $in: OPEN_APPOINTMENT_STATUSES },
+    });
+    for (const appointment of appointments) {
+      if (appointment.status === "confirmed") {
+        appointment.status = "cancelled";
+        appointment.cancelledBy = new mongoose.Types.ObjectId(userId);
+      } else {
+        appointment.status = "declined";
+        appointment.declineReason = "The seller removed this time slot";
+      }
+      await appointment.save();
+      this.notify(
+        appointment.buyerId,
+        appointment.status === "cancelled"
+          ? "viewing_cancelled"
+          : "viewing_declined",
+        appointment
+      );
+    }
+
+    return slot;
+  }
+
+  // ผู้ซื้อขอนัดชมในช่วงเวลาที่ว่าง (สร้าง/ใช้ห้องแชทของโพสต์เดิม)
+  static async requestViewing(
+    slotId: string,
+    buyerId: string,
+    message?: string
+  ): Promise<IViewingAppointment> {
+    if (!mongoose.Types.ObjectId.isValid(slotId)) {
+      throw new Error("Slot not found");
+    }
+
+    const slot = await ViewingSlot.findById(slotId);
+    if (!slot) {
+      throw new Error("Slot not found");
+    }
+    if (slot.ownerId.toString() === buyerId) {
+      throw new Error("Cannot request a viewing of your own post");
+    }
+    if (slot.status !== "open" || slot.startsAt <= new Date()) {
+      throw new Error("Slot is no longer available");
+    }
+
+    const existing = await ViewingAppointment.exists({
+      slotId: slot._id,
+      buyerId,
+      status: { $in: OPEN_APPOINTMENT_STATUSES },
+    });
+    if (existing) {
+      throw new Error("You have already requested this slot");
+    }
+
+    const chat = await ChatService.createOrGetChat(
+      buyerId,
+      slot.postId.toString()
+    );
+
+    const appointment = await ViewingAppointment.create({
+      postId: slot.postId,
+      slotId: slot._id,
+      buyerId,
+      sellerId: slot.ownerId,
+      chatId: chat?._id,
+      startsAt: slot.startsAt,
+      endsAt: slot.endsAt,
+      message,
+    });
+
+    await this.postChatMessage(
+      appointment,
+      buyerId,
+      `Viewing requested for ${this.formatSlotTime(slot.startsAt)}` +
+        (message ? `: ${message}` : "")
+    );
+    this.notify(appointment.sellerId, "viewing_requested", appointment, {
+      buyerId,
+      message,
+    });
+
+    return appointment;
+  }
+
+  // โหลดนัดพร้อมตรวจว่าเป็นผู้ขายของนัดนี้
+  private static async getSellerAppointment(
+    appointmentId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IViewingAppointment> {
+    if (!mongoose.Types.ObjectId.isValid(appointmentId)) {
+      throw new Error("Viewing not found");
+    }
+
+    const appointment = await ViewingAppointment.findById(appointmentId);
+    if (!appointment) {
+      throw new Error("Viewing not found");
+    }
+    if (appointment.sellerId.toString() !== userId && userRole !== "admin") {
+      throw new Error("You do not have permission to respond to this viewing");
+    }
+    if (appointment.status !== "requested") {
+      throw new Error("Only requested viewings can be confirmed or declined");
+    }
+
+    return appointment;
+  }
+
+  // ผู้ขายยืนยันนัด: slot ถูกจอง คำขออื่นในช่วงเดียวกันถูกปฏิเสธ
+  static async confirmViewing(
+    appointmentId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IViewingAppointment> {
+    const appointment = await this.getSellerAppointment(
+      appointmentId,
+      userId,
+      userRole
+    );
+
+    // จองแบบ atomic กันยืนยันซ้อนกันในช่วงเวลาเดียว
+    const slot = await ViewingSlot.findOneAndUpdate(
+      {
+        _id: appointment.slotId,
+        status: "open",
+        startsAt: { $gt: new Date() },
+      },
+      { $set: { status: "booked" } },
+      { new: true }
+    );
+    if (!slot) {
+      throw new Error("Slot is no longer available");
+    }
+
+    appointment.status = "confirmed";
+    appointment.confirmedAt = new Date();
+    await appointment.save();
+
+    const others = await ViewingAppointment.find({
+      slotId: slot._id,
+      _id: { $ne: appointment._id },
+      status: "requested",
+    });
+    for (const other of others) {
+      other.status = "declined";
+      other.declineReason = "This time slot has been booked";
+      await other.save();
+      this.notify(other.buyerId, "viewing_declined", other);
+    }
+
+    await this.postChatMessage(
+      appointment,
+      appointment.sellerId.toString(),
+      `Viewing confirmed for ${this.formatSlotTime(appointment.startsAt)}`
+    );
+    this.notify(appointment.buyerId, "viewing_confirmed", appointment);
+
+    return appointment;
+  }
+
+  // ผู้ขายปฏิเสธคำขอ
+  static async declineViewing(
+    appointmentId: string,
+    userId: string,
+    userRole?: string,
+    reason?: string
+  ): Promise<IViewingAppointment> {
+    const appointment = await this.getSellerAppointment(
+      appointmentId,
+      userId,
+      userRole
+    );
+
+    appointment.status = "declined";
+    appointment.declineReason = reason;
+    await appointment.save();
+
+    await this.postChatMessage(
+      appointment,
+      appointment.sellerId.toString(),
+      `Viewing request for ${this.formatSlotTime(appointment.startsAt)} was declined` +
+        (reason ? `: ${reason}` : "")
+    );
+    this.notify(appointment.buyerId, "viewing_declined", appointment, {
+      reason,
+    });
+
+    return appointment;
+  }
+
+  // ผู้ซื้อหรือผู้ขายยกเลิกนัด (นัดที่ยืนยันแล้วจะเปิด slot ให้จองใหม่)
+  static async cancelViewing(
+    appointmentId: string,
+    userId: string
+  ): Promise<IViewingAppointment> {
+    if (!mongoose.Types.ObjectId.isValid(appointmentId)) {
+      throw new Error("Viewing not found");
+    }
+
+    const appointment = await ViewingAppointment.findById(appointmentId);
+    if (!appointment) {
+      throw new Error("Viewing not found");
+    }
+
+    const isBuyer = appointment.buyerId.toString() === userId;
+    const isSeller = appointment.sellerId.toString() === userId;
+    if (!isBuyer && !isSeller) {
+      throw new Error("You do not have permission to cancel this viewing");
+    }
+    if (!OPEN_APPOINTMENT_STATUSES.includes(appointment.status)) {
+      throw new Error("Only requested or confirmed viewings can be cancelled");
+    }
+
+    const wasConfirmed = appointment.status === "confirmed";
+    appointment.status = "cancelled";
+    appointment.cancelledBy = new mongoose.Types.ObjectId(userId);
+    await appointment.save();
+
+    if (wasConfirmed) {
+      await ViewingSlot.updateOne(
+        { _id: appointment.slotId, status: "booked" },
+        { $set: { status: "open" } }
+      );
+    }
+
+    await this.postChatMessage(
+      appointment,
+      userId,
+      `Viewing on ${this.formatSlotTime(appointment.startsAt)} was cancelled`
+    );
+    this.notify(
+      isBuyer ? appointment.sellerId : appointment.buyerId,
+      "viewing_cancelled",
+      appointment
+    );
+
+    return appointment;
+  }
+
+  // นัดของผู้ใช้ ในฐานะผู้ซื้อหรือผู้ขาย
+  static async getUserViewings(
+    userId: string,
+    side: ViewingSide,
+    page: number = 1,
+    limit: number = 20,
+    status?: ViewingStatus
+  ): Promise<{ viewings: IViewingAppointment[]; total: number }> {
+    const query: any = {
+      [side === "buyer" ? "buyerId" : "sellerId"]: new mongoose.Types.ObjectId(
+        userId
+      ),
+    };
+    if (status) query.status = status;
+
+    const [viewings, total] = await Promise.all([
+      ViewingAppointment.find(query)
+        .sort({ startsAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("postId", "title price currency media location.address")
+        .populate(side === "buyer" ? "sellerId" : "buyerId", "name avatar"),
+      ViewingAppointment.countDocuments(query),
+    ]);
+
+    return { viewings, total };
+  }
+
+  // รายละเอียดนัด (เฉพาะผู้ซื้อ ผู้ขาย หรือ admin)
+  static async getViewing(
+    appointmentId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<IViewingAppointment> {
+    if (!mongoose.Types.ObjectId.isValid(appointmentId)) {
+      throw new Error("Viewing not found");
+    }
+
+    const appointment = await ViewingAppointment.findById(appointmentId);
+    if (!appointment) {
+      throw new Error("Viewing not found");
+    }
+    if (
+      appointment.buyerId.toString() !== userId &&
+      appointment.sellerId.toString() !== userId &&
+      userRole !== "admin"
+    ) {
+      throw new Error("You do not have permission to view this viewing");
+    }
+
+    return appointment;
+  }
+
+  // ไฟล์ .ics ของนัดที่ยืนยันแล้ว
+  static async buildCalendarFile(
+    appointmentId: string,
+    userId: string,
+    userRole?: string
+  ): Promise<{ filename: string; content: string }> {
+    const appointment = await this.getViewing(appointmentId, userId, userRole);
+    if (appointment.status !== "confirmed") {
+      throw new Error("Only confirmed viewings can be exported");
+    }
+
+    const post = await Post.findById(appointment.postId).select(
+      "title location"
+    );
+    const address = post?.location?.address;
+    const coordinates = post?.location?.coordinates?.coordinates;
+
+    const content = IcsUtils.buildCalendar({
+      uid: `viewing-${appointment._id}@real-estate-api`,
+      startsAt: appointment.startsAt,
+      endsAt: appointment.endsAt,
+      summary: `Property viewing: ${post?.title || "Listing"}`,
+      description: appointment.message,
+      location: address
+        ? [address.street, address.district, address.province]
+            .filter(Boolean)
+            .join(", ")
+        : undefined,
+      geo:
+        coordinates && coordinates.length === 2
+          ? { lat: coordinates[1], lng: coordinates[0] }
+          : undefined,
+    });
+
+    return { filename: `viewing-${appointment._id}.ics`, content };
+  }
+
+  // ส่งแจ้งเตือนก่อนนัด (ส่งครั้งเดียวต่อรอบเวลา เช่น 24 ชม. และ 1 ชม.)
+  static async sendReminders(): Promise<number> {
+    const hours = config.viewings.reminderHoursBefore;
+    if (hours.length === 0) return 0;
+
+    const now = new Date();
+    const horizon = new Date(now.getTime() + hours[0] * HOUR_MS);
+    const upcoming = await ViewingAppointment.find({
+      status: "confirmed",
+      startsAt: { $gt: now, $lte: horizon },
+    });
+
+    let reminded = 0;
+    for (const appointment of upcoming) {
+      const hoursLeft =
+        (appointment.startsAt.getTime() - now.getTime()) / HOUR_MS;
+      // รอบที่ถึงเวลาแล้วแต่ยังไม่ได้ส่ง (ส่งเฉพาะรอบที่ใกล้ที่สุด)
+      const due = hours.filter(
+        (h) => hoursLeft <= h && !appointment.remindersSent.includes(h)
+      );
+      if (due.length === 0) continue;
+
+      appointment.remindersSent = [...appointment.remindersSent, ...due];
+      await appointment.save();
+
+      const payload = { hoursBefore: due[due.length - 1] };
+      this.notify(
+        appointment.buyerId,
+        "viewing_reminder",
+        appointment,
+        payload
+      );
+      this.notify(
+        appointment.sellerId,
+        "viewing_reminder",
+        appointment,
+        payload
+      );
+      reminded++;
+    }
+
+    return reminded;
+  }
+
+  // ปิดนัดที่ผ่านไปแล้ว และยกเลิกคำขอที่ไม่ได้รับการตอบก่อนถึงเวลา
+  static async closePastViewings(): Promise<number> {
+    const now = new Date();
+
+    const [completed] = await Promise.all([
+      ViewingAppointment.updateMany(
+        { status: "confirmed", endsAt: { $lte: now } },
+        { $set: { status: "completed" } }
+      ),
+      ViewingAppointment.updateMany(
+        { status: "requested", startsAt: { $lte: now } },
+        {
+          $set: {
+            status: "declined",
+            declineReason: "The seller did not respond in time",
+          },
+        }
+      ),
+    ]);
+
+    return completed.modifiedCount;
+  }
+
+  // รอบการทำงานของ scheduler
+  static async runScheduler(): Promise<ViewingRunResult> {
+    const reminded = await this.sendReminders();
+    const completed = await this.closePastViewings();
+    return { reminded, completed };
+  }
+
+  // เริ่ม scheduler (เรียกหลังเชื่อมต่อฐานข้อมูลแล้ว)
+  static startScheduler(): void {
+    if (schedulerTimer) return;
+
+    const run = () =>
+      this.runScheduler()
+        .then((result) => {
+          if (result.reminded || result.completed) {
+            console.log("📅 Viewing appointments:", result);
+          }
+        })
+        .catch((error) => console.error("Viewing scheduler error:", error));
+
+    run();
+    schedulerTimer = setInterval(run, config.viewings.schedulerIntervalMs);
+  }
+
+  static stopScheduler(): void {
+    if (schedulerTimer) {
+      clearInterval(schedulerTimer);
+      schedulerTimer = null;
+    }
+  }
+}
@@ -78,7 +78,12 @@ export interface VerifyOTPRequest {
 export interface CreatePostRequest {
   title: string;
   description: string;
+  primaryLanguage?: "lo" | "th" | "en";
+  translations?: Partial<
+    Record<"lo" | "th" | "en", { title?: string; description?: string }>
+  >;
   price: number;
+  currency?: "LAK" | "THB" | "USD";
   location: string;
   propertyType: string;
   bedrooms?: number;
@@ -90,4 +95,6 @@ export interface CreatePostRequest {
     videos?: string[];
     documents?: string[];
   };
+  agencyId?: string;
+  assignedAgentId?: string;
 }
@@ -0,0 +1,67 @@
+/**
+ * Area Unit Utility
+ * เก็บพื้นที่เป็นตารางเมตรเสมอ และแปลงหน่วยตอนรับ/แสดงผล
+ */
+
+export const AREA_UNITS = ['sqm', 'rai', 'hectare'] as const
+export type AreaUnit = typeof AREA_UNITS[number]
+
+export const DEFAULT_AREA_UNIT: AreaUnit = 'sqm'
+
+// ตารางเมตรต่อ 1 หน่วย
+const SQM_PER_UNIT: Record<AreaUnit, number> = {
+  sqm: 1,
+  rai: 1600,
+  hectare: 10000
+}
+
+// ชื่อเรียกอื่นที่ client อาจส่งมา
+const UNIT_ALIASES: Record<string, AreaUnit> = {
+  sqm: 'sqm',
+  m2: 'sqm',
+  'm²': 'sqm',
+  rai: 'rai',
+  'ไร่': 'rai',
+  hectare: 'hectare',
+  ha: 'hectare'
+}
+
+export class AreaUtils {
+  /**
+   * แปลงค่าจาก query/body เป็นหน่วยที่รองรับ (ไม่รองรับ = undefined)
+   */
+  static parseUnit(value: unknown): AreaUnit | undefined {
+    if (typeof value !== 'string') return undefined
+    return UNIT_ALIASES[value.trim().toLowerCase()]
+  }
+
+  /**
+   * ปัดทศนิยม (ตารางเมตร 2 ตำแหน่ง, ไร่/เฮกตาร์ 4 ตำแหน่ง)
+   */
+  private static round(value: number, unit: AreaUnit): number {
+    const factor = unit === 'sqm' ? 100 : 10000
+    return Math.round(value * factor) / factor
+  }
+
+  /**
+   * แปลงพื้นที่เป็นตารางเมตร
+   */
+  static toSquareMeters(value: number, unit: AreaUnit = DEFAULT_AREA_UNIT): number {
+    return this.round(value * SQM_PER_UNIT[unit], 'sqm')
+  }
+
+  /**
+   * แปลงตารางเมตรเป็นหน่วยที่ต้องการ
+   */
+  static fromSquareMeters(value: number, unit: AreaUnit = DEFAULT_AREA_UNIT): number {
+    return this.round(value / SQM_PER_UNIT[unit], unit)
+  }
+
+  /**
+   * ราคาต่อ 1 หน่วยพื้นที่ (พื้นที่เป็นตารางเมตร)
+   */
+  static pricePerUnit(price: number, areaSqm: number, unit: AreaUnit = DEFAULT_AREA_UNIT): number | undefined {
+    if (!(price >= 0) || !(areaSqm > 0)) return undefined
+    return Math.round((price / areaSqm) * SQM_PER_UNIT[unit] * 100) / 100
+  }
+}
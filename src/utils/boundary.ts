@@ -0,0 +1,132 @@
+/**
+ * Land Boundary Utility
+ * ตรวจสอบรูปร่างแนวเขตที่ดิน (location.boundary) คำนวณพื้นที่/เส้นรอบรูป และแปลงเป็น GeoJSON Feature
+ */
+
+import { CoordinateUtils } from './coordinates'
+
+// พื้นที่จาก boundary ต่างจากพื้นที่ที่กรอกเกินกี่เท่าจึงเตือน
+export const AREA_MISMATCH_RATIO = 2
+
+export interface BoundaryMeasurement {
+  area: number // ตารางเมตร
+  perimeter: number // เมตร
+}
+
+export interface BoundaryAreaMismatch {
+  declaredArea: number // ตารางเมตร
+  boundaryArea: number // ตารางเมตร
+  ratio: number // boundaryArea / declaredArea
+}
+
+export interface BoundaryFeature {
+  type: 'Feature'
+  id: string
+  geometry: {
+    type: 'Polygon'
+    coordinates: [number, number][][]
+  }
+  properties: {
+    postId: string
+    title?: string
+    declaredArea?: number
+    area: number
+    perimeter: number
+    areaMismatch?: BoundaryAreaMismatch
+  }
+}
+
+export class BoundaryUtils {
+  /**
+   * ตรวจสอบ boundary: จำนวนจุด ปิด ring ไม่ตัดกันเอง และทุกจุดอยู่ในลาว (ถูกต้อง = undefined)
+   */
+  static getError(boundary: unknown): string | undefined {
+    const isPoint = (point: unknown): point is [number, number] =>
+      Array.isArray(point) && point.length === 2 && point.every((value) => Number.isFinite(value))
+
+    if (!Array.isArray(boundary) || boundary.length < 4 || !boundary.every(isPoint)) {
+      return 'Boundary must be an array of at least 4 coordinate pairs [[lng, lat], ...]'
+    }
+    if (!CoordinateUtils.isRingClosed(boundary)) {
+      return 'Boundary must be closed (the last point must equal the first point)'
+    }
+    if (!boundary.every(([lng, lat]: [number, number]) => CoordinateUtils.isInLaos(lat, lng))) {
+      return 'Boundary must be inside Laos'
+    }
+    if (CoordinateUtils.isRingSelfIntersecting(boundary)) {
+      return 'Boundary must not intersect itself'
+    }
+    // จุดเรียงเป็นเส้นตรง (พื้นที่ไม่ถึง 1 ตารางเมตร)
+    if (CoordinateUtils.calculateRingArea(boundary) < 1) {
+      return 'Boundary must enclose an area'
+    }
+
+    return undefined
+  }
+
+  /**
+   * พื้นที่ (ตารางเมตร) และเส้นรอบรูป (เมตร) แบบ geodesic
+   */
+  static measure(boundary: [number, number][]): BoundaryMeasurement {
+    return {
+      area: Math.round(CoordinateUtils.calculateRingArea(boundary) * 100) / 100,
+      perimeter: Math.round(CoordinateUtils.calculateRingPerimeter(boundary) * 100) / 100
+    }
+  }
+
+  /**
+   * เทียบพื้นที่จาก boundary กับพื้นที่ที่ผู้ลงประกาศกรอก (ต่างกันเกิน AREA_MISMATCH_RATIO เท่า = คืนรายละเอียด)
+   */
+  static findAreaMismatch(boundaryArea: number, declaredArea?: number): BoundaryAreaMismatch | undefined {
+    if (!declaredArea || declaredArea <= 0 || boundaryArea <= 0) return undefined
+
+    const ratio = boundaryArea / declaredArea
+    if (ratio <= AREA_MISMATCH_RATIO && ratio >= 1 / AREA_MISMATCH_RATIO) return undefined
+
+    return {
+      declaredArea,
+      boundaryArea,
+      ratio: Math.round(ratio * 100) / 100
+    }
+  }
+
+  /**
+   * ข้อความเตือนเมื่อพื้นที่จาก boundary ไม่ตรงกับพื้นที่ที่กรอก
+   */
+  static describeAreaMismatch(mismatch: BoundaryAreaMismatch): string {
+    return `The boundary encloses about ${Math.round(mismatch.boundaryArea)} sqm but the declared area is ${mismatch.declaredArea} sqm; check the boundary or the area`
+  }
+
+  /**
+   * แปลง boundary ของประกาศเป็น GeoJSON Feature (Polygon) พร้อมพื้นที่และเส้นรอบรูป
+   */
+  static toFeature(post: {
+    _id: unknown
+    title?: string
+    area?: number
+    location?: { boundary?: [number, number][] }
+  }): BoundaryFeature | undefined {
+    const boundary = post.location?.boundary
+    if (!boundary || boundary.length < 4) return undefined
+
+    const ring = CoordinateUtils.closeRing(boundary.map(([lng, lat]) => [lng, lat] as [number, number]))
+    const { area, perimeter } = this.measure(ring)
+
+    return {
+      type: 'Feature',
+      id: String(post._id),
+      geometry: {
+        type: 'Polygon',
+        coordinates: [ring]
+      },
+      properties: {
+        postId: String(post._id),
+        title: post.title,
+        declaredArea: post.area,
+        area,
+        perimeter,
+        areaMismatch: this.findAreaMismatch(area, post.area)
+      }
+    }
+  }
+}
@@ -3,6 +3,13 @@ export interface LatLngCoordinates {
   longitude: number
 }
 
+export interface MapBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
 export interface GeoJSONPoint {
   type: 'Point'
   coordinates: [number, number] // [longitude, latitude]
@@ -103,6 +110,176 @@ export class CoordinateUtils {
       maxLng: centerLng + lngDelta
     }
   }
+
+  /**
+   * แปลง bounding box (viewport ของแผนที่) เป็น polygon ring [[lng, lat], ...]
+   */
+  static boundsToPolygon(bounds: MapBounds): [number, number][] {
+    const { north, south, east, west } = bounds
+    return [
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+      [west, south]
+    ]
+  }
+
+  /**
+   * ปิด ring ของ polygon (จุดแรก = จุดสุดท้าย)
+   */
+  static closeRing(ring: [number, number][]): [number, number][] {
+    if (ring.length === 0) return ring
+    const first = ring[0]
+    const last = ring[ring.length - 1]
+    if (first[0] === last[0] && first[1] === last[1]) return ring
+    return [...ring, first]
+  }
+
+  /**
+   * หา bounding box ของ ring
+   */
+  static getRingBounds(ring: [number, number][]): MapBounds {
+    const lngs = ring.map(([lng]) => lng)
+    const lats = ring.map(([, lat]) => lat)
+    return {
+      north: Math.max(...lats),
+      south: Math.min(...lats),
+      east: Math.max(...lngs),
+      west: Math.min(...lngs)
+    }
+  }
+
+  /**
+   * ตรวจสอบว่าจุดอยู่ใน polygon หรือไม่ (ray casting, ระนาบ lng/lat)
+   */
+  static isPointInPolygon(point: [number, number], ring: [number, number][]): boolean {
+    const [x, y] = point
+    let inside = false
+
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i]
+      const [xj, yj] = ring[j]
+      const crosses = (yi > y) !== (yj > y) &&
+        x < ((xj - xi) * (y - yi)) / (yj - yi) + xi
+      if (crosses) inside = !inside
+    }
+
+    return inside
+  }
+
+  /**
+   * ตรวจสอบว่าเส้นตรง 2 เส้นตัดกันหรือไม่
+   */
+  static segmentsIntersect(
+    a1: [number, number], a2: [number, number],
+    b1: [number, number], b2: [number, number]
+  ): boolean {
+    const cross = (o: [number, number], p: [number, number], q: [number, number]) =>
+      (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0])
+    const onSegment = (o: [number, number], p: [number, number], q: [number, number]) =>
+      Math.min(o[0], p[0]) <= q[0] && q[0] <= Math.max(o[0], p[0]) &&
+      Math.min(o[1], p[1]) <= q[1] && q[1] <= Math.max(o[1], p[1])
+
+    const d1 = cross(b1, b2, a1)
+    const d2 = cross(b1, b2, a2)
+    const d3 = cross(a1, a2, b1)
+    const d4 = cross(a1, a2, b2)
+
+    if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+        ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+      return true
+    }
+
+    return (d1 === 0 && onSegment(b1, b2, a1)) ||
+           (d2 === 0 && onSegment(b1, b2, a2)) ||
+           (d3 === 0 && onSegment(a1, a2, b1)) ||
+           (d4 === 0 && onSegment(a1, a2, b2))
+  }
+
+  /**
+   * ตรวจสอบว่า polygon 2 รูปซ้อนทับ/ตัดกันหรือไม่ (ring ต้องปิดแล้ว)
+   */
+  static polygonsIntersect(ringA: [number, number][], ringB: [number, number][]): boolean {
+    if (ringA.some(point => this.isPointInPolygon(point, ringB))) return true
+    if (ringB.some(point => this.isPointInPolygon(point, ringA))) return true
+
+    for (let i = 0; i < ringA.length - 1; i++) {
+      for (let j = 0; j < ringB.length - 1; j++) {
+        if (this.segmentsIntersect(ringA[i], ringA[i + 1], ringB[j], ringB[j + 1])) {
+          return true
+        }
+      }
+    }
+
+    return false
+  }
+
+  /**
+   * ring ปิดแล้วหรือไม่ (จุดแรก = จุดสุดท้าย)
+   */
+  static isRingClosed(ring: [number, number][]): boolean {
+    if (ring.length < 2) return false
+    const first = ring[0]
+    const last = ring[ring.length - 1]
+    return first[0] === last[0] && first[1] === last[1]
+  }
+
+  /**
+   * ตรวจสอบว่าเส้นขอบของ ring ตัดกันเองหรือไม่ (ข้ามเส้นที่อยู่ติดกัน, จุดซ้ำติดกันถูกตัดทิ้งก่อน)
+   */
+  static isRingSelfIntersecting(ring: [number, number][]): boolean {
+    const points = this.closeRing(ring).filter((point, index, all) =>
+      index === 0 || point[0] !== all[index - 1][0] || point[1] !== all[index - 1][1]
+    )
+    const segments = points.length - 1
+
+    for (let i = 0; i < segments; i++) {
+      for (let j = i + 2; j < segments; j++) {
+        // เส้นแรกกับเส้นสุดท้ายต่อกันที่จุดปิด ring
+        if (i === 0 && j === segments - 1) continue
+        if (this.segmentsIntersect(points[i], points[i + 1], points[j], points[j + 1])) {
+          return true
+        }
+      }
+    }
+
+    return false
+  }
+
+  /**
+   * พื้นที่ของ ring บนทรงกลม (ตารางเมตร) ตามวิธี spherical excess แบบเดียวกับ turf/area
+   */
+  static calculateRingArea(ring: [number, number][]): number {
+    const points = this.closeRing(ring).slice(0, -1)
+    if (points.length < 3) return 0
+
+    const EARTH_RADIUS_METERS = 6378137
+    let total = 0
+    for (let i = 0; i < points.length; i++) {
+      const lower = points[i]
+      const middle = points[(i + 1) % points.length]
+      const upper = points[(i + 2) % points.length]
+      total += (this.toRadians(upper[0]) - this.toRadians(lower[0])) *
+        Math.sin(this.toRadians(middle[1]))
+    }
+
+    return Math.abs((total * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS) / 2)
+  }
+
+  /**
+   * ความยาวเส้นรอบรูปของ ring (เมตร)
+   */
+  static calculateRingPerimeter(ring: [number, number][]): number {
+    const points = this.closeRing(ring)
+    let total = 0
+    for (let i = 0; i < points.length - 1; i++) {
+      const [lng1, lat1] = points[i]
+      const [lng2, lat2] = points[i + 1]
+      total += this.calculateDistance(lat1, lng1, lat2, lng2) * 1000
+    }
+    return total
+  }
 }
 
 // Export standalone functions สำหรับใช้งาน
@@ -0,0 +1,132 @@
+/**
+ * Cursor Pagination Utility
+ * Opaque cursor (base64url) keyed on sort field + _id for infinite-scroll feeds
+ */
+
+import mongoose from 'mongoose'
+
+export type SortDirection = 1 | -1
+
+export interface CursorInfo {
+  limit: number
+  nextCursor: string | null
+  hasMore: boolean
+}
+
+export interface CursorPage<T> {
+  items: T[]
+  cursor: CursorInfo
+}
+
+interface CursorPayload {
+  f: string // sort field
+  v: unknown // sort value ของรายการสุดท้าย (null = ไม่มีค่า)
+  d?: 1 // v เป็น Date
+  id: string
+}
+
+export class CursorPagination {
+  static readonly MAX_LIMIT = 100
+
+  /**
+   * จำกัด limit ให้อยู่ในช่วงที่อนุญาต
+   */
+  static normalizeLimit(limit: unknown, defaultLimit: number = 20): number {
+    const parsed = parseInt(String(limit))
+    if (isNaN(parsed) || parsed < 1) return defaultLimit
+    return Math.min(parsed, this.MAX_LIMIT)
+  }
+
+  /**
+   * สร้าง cursor จากรายการสุดท้ายของหน้า
+   */
+  static encode(field: string, value: unknown, id: unknown): string {
+    const payload: CursorPayload = {
+      f: field,
+      // undefined หายไปตอน JSON.stringify จึงเก็บเป็น null
+      v: value instanceof Date ? value.toISOString() : value ?? null,
+      id: String(id)
+    }
+    if (value instanceof Date) payload.d = 1
+
+    return Buffer.from(JSON.stringify(payload)).toString('base64url')
+  }
+
+  /**
+   * ถอด cursor (ต้องเป็น sort field เดียวกับที่ใช้สร้าง)
+   */
+  static decode(cursor: string, field: string): { value: unknown, id: mongoose.Types.ObjectId } {
+    try {
+      const payload: CursorPayload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+
+      if (payload.f !== field || !mongoose.Types.ObjectId.isValid(payload.id)) {
+        throw new Error('mismatch')
+      }
+
+      return {
+        value: payload.d ? new Date(String(payload.v)) : payload.v,
+        id: new mongoose.Types.ObjectId(payload.id)
+      }
+    } catch (error) {
+      throw new Error('Invalid cursor')
+    }
+  }
+
+  /**
+   * สร้างเงื่อนไข "หลังจาก cursor" ตามทิศทางการเรียง (cursor ว่าง = หน้าแรก)
+   * MongoDB เรียง null/ไม่มีค่าไว้ก่อนค่าอื่น: มาก่อนเมื่อเรียงน้อยไปมาก และอยู่ท้ายสุดเมื่อเรียงมากไปน้อย
+   */
+  static buildQuery(field: string, direction: SortDirection, cursor?: string): any {
+    if (!cursor) return {}
+
+    const { value, id } = this.decode(cursor, field)
+    const op = direction === -1 ? '$lt' : '$gt'
+
+    if (value === null) {
+      return {
+        $or: [
+          ...(direction === 1 ? [{ [field]: { $ne: null } }] : []),
+          { [field]: null, _id: { [op]: id } }
+        ]
+      }
+    }
+
+    return {
+      $or: [
+        { [field]: { [op]: value } },
+        { [field]: value, _id: { [op]: id } },
+        ...(direction === -1 ? [{ [field]: null }] : [])
+      ]
+    }
+  }
+
+  /**
+   * sort ที่ใช้คู่กับ cursor (ต้องมี _id เพื่อให้ลำดับคงที่)
+   */
+  static buildSort(field: string, direction: SortDirection): Record<string, SortDirection> {
+    return { [field]: direction, _id: direction }
+  }
+
+  /**
+   * ตัดผลลัพธ์ที่ดึงมา limit + 1 รายการ ให้เหลือ limit และสร้าง nextCursor
+   */
+  static buildPage<T>(
+    items: T[],
+    limit: number,
+    field: string,
+    getValue: (item: T) => unknown = (item) => (item as Record<string, unknown>)[field]
+  ): CursorPage<T> {
+    const hasMore = items.length > limit
+    const pageItems = hasMore ? items.slice(0, limit) : items
+    const last = pageItems[pageItems.length - 1] as (T & { _id: unknown }) | undefined
+
+    return {
+      items: pageItems,
+      cursor: {
+        limit,
+        nextCursor: hasMore && last ? this.encode(field, getValue(last), last._id) : null,
+        hasMore
+      }
+    }
+  }
+}
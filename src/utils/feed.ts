@@ -0,0 +1,276 @@
+/**
+ * Listing Feed Utility
+ * แปลงประกาศเป็น feed สำหรับ partner: XML (schema ของเรา), JSON Lines, RSS 2.0 และ Atom
+ */
+
+export interface FeedListing {
+  id: string
+  url: string
+  title: string
+  description: string
+  price: number
+  currency: string
+  propertyType: string
+  listingType: string
+  area: number // ตารางเมตร
+  usableArea?: number // ตารางเมตร
+  bedrooms?: number
+  bathrooms?: number
+  condition?: string
+  address: {
+    street?: string
+    district?: string
+    province?: string
+    postalCode?: string
+    country?: string
+  }
+  latitude?: number
+  longitude?: number
+  images: string[]
+  agencyId?: string
+  publishedAt: Date
+  updatedAt: Date
+}
+
+// ประกาศที่ต้องนำออกจากฝั่ง partner (ลบ ขายแล้ว เช่าแล้ว หมดอายุ ฯลฯ)
+export interface FeedTombstone {
+  id: string
+  url: string
+  reason: string
+  removedAt: Date
+}
+
+export type FeedEntry =
+  | { type: 'listing'; listing: FeedListing }
+  | { type: 'tombstone'; tombstone: FeedTombstone }
+
+export interface FeedDocument {
+  title: string
+  siteUrl: string
+  selfUrl: string
+  nextUrl?: string
+  generatedAt: Date
+  entries: FeedEntry[]
+}
+
+export const FEED_SCHEMA_VERSION = '1.0'
+
+// ตัวอักษรควบคุมที่ XML 1.0 ไม่อนุญาต
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g
+
+export class FeedUtils {
+  static escapeXml(value: string | number): string {
+    return String(value)
+      .replace(INVALID_XML_CHARS, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+  }
+
+  // <tag>value</tag> (ข้ามเมื่อไม่มีค่า)
+  private static element(tag: string, value: string | number | undefined, attributes = ''): string {
+    if (value === undefined || value === null || value === '') return ''
+    return `<${tag}${attributes}>${this.escapeXml(value)}</${tag}>`
+  }
+
+  private static formatAddress(listing: FeedListing): string {
+    const { street, district, province } = listing.address
+    return [street, district, province].filter(Boolean).join(', ')
+  }
+
+  /**
+   * XML ตาม schema ของเรา (<listing> และ <deleted> เรียงตาม updatedAt)
+   */
+  static buildXml(feed: FeedDocument): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<listings version="${FEED_SCHEMA_VERSION}" generatedAt="${feed.generatedAt.toISOString()}"` +
+        (feed.nextUrl ? ` next="${this.escapeXml(feed.nextUrl)}"` : '') +
+        '>'
+    ]
+
+    for (const entry of feed.entries) {
+      if (entry.type === 'tombstone') {
+        const { tombstone } = entry
+        lines.push(
+          `  <deleted id="${tombstone.id}" reason="${this.escapeXml(tombstone.reason)}"` +
+            ` removedAt="${tombstone.removedAt.toISOString()}"/>`
+        )
+        continue
+      }
+
+      const { listing } = entry
+      const { address } = listing
+      const parts = [
+        this.element('title', listing.title),
+        this.element('description', listing.description),
+        this.element('url', listing.url),
+        this.element('price', listing.price, ` currency="${this.escapeXml(listing.currency)}"`),
+        this.element('propertyType', listing.propertyType),
+        this.element('listingType', listing.listingType),
+        this.element('area', listing.area, ' unit="sqm"'),
+        this.element('usableArea', listing.usableArea, ' unit="sqm"'),
+        this.element('bedrooms', listing.bedrooms),
+        this.element('bathrooms', listing.bathrooms),
+        this.element('condition', listing.condition),
+        '<address>' +
+          this.element('street', address.street) +
+          this.element('district', address.district) +
+          this.element('province', address.province) +
+          this.element('postalCode', address.postalCode) +
+          this.element('country', address.country) +
+          '</address>',
+        listing.latitude !== undefined && listing.longitude !== undefined
+          ? `<location latitude="${listing.latitude}" longitude="${listing.longitude}"/>`
+          : '',
+        '<images>' + listing.images.map((image) => this.element('image', image)).join('') + '</images>',
+        this.element('agencyId', listing.agencyId),
+        this.element('publishedAt', listing.publishedAt.toISOString())
+      ]
+
+      lines.push(`  <listing id="${listing.id}" updatedAt="${listing.updatedAt.toISOString()}">`)
+      parts.filter(Boolean).forEach((part) => lines.push(`    ${part}`))
+      lines.push('  </listing>')
+    }
+
+    lines.push('</listings>')
+    return lines.join('\n') + '\n'
+  }
+
+  /**
+   * JSON Lines: หนึ่งบรรทัดต่อรายการ ({"type":"listing",...} หรือ {"type":"tombstone",...})
+   */
+  static buildJsonLines(feed: FeedDocument): string {
+    return feed.entries
+      .map((entry) =>
+        JSON.stringify(
+          entry.type === 'listing'
+            ? { type: 'listing', ...entry.listing }
+            : { type: 'tombstone', ...entry.tombstone }
+        )
+      )
+      .map((line) => line + '\n')
+      .join('')
+  }
+
+  /**
+   * RSS 2.0 (ประกาศที่ถูกนำออกเป็น item ที่มี category "removed")
+   */
+  static buildRss(feed: FeedDocument): string {
+    const items = feed.entries.map((entry) => {
+      if (entry.type === 'tombstone') {
+        const { tombstone } = entry
+        return [
+          '    <item>',
+          `      <title>Listing removed (${this.escapeXml(tombstone.reason)})</title>`,
+          `      <link>${this.escapeXml(tombstone.url)}</link>`,
+          `      <guid isPermaLink="false">${tombstone.id}</guid>`,
+          '      <category>removed</category>',
+          `      <category>${this.escapeXml(tombstone.reason)}</category>`,
+          `      <pubDate>${tombstone.removedAt.toUTCString()}</pubDate>`,
+          '    </item>'
+        ].join('\n')
+      }
+
+      const { listing } = entry
+      const lines = [
+        '    <item>',
+        `      ${this.element('title', listing.title)}`,
+        `      ${this.element('link', listing.url)}`,
+        `      <guid isPermaLink="false">${listing.id}</guid>`,
+        `      ${this.element('description', listing.description)}`,
+        `      ${this.element('category', listing.propertyType)}`,
+        `      ${this.element('category', listing.listingType)}`,
+        `      <pubDate>${listing.updatedAt.toUTCString()}</pubDate>`,
+        `      <listing:price currency="${this.escapeXml(listing.currency)}">${listing.price}</listing:price>`,
+        `      <listing:area unit="sqm">${listing.area}</listing:area>`
+      ]
+      const address = this.formatAddress(listing)
+      if (address) lines.push(`      ${this.element('listing:address', address)}`)
+      if (listing.latitude !== undefined && listing.longitude !== undefined) {
+        lines.push(`      <georss:point>${listing.latitude} ${listing.longitude}</georss:point>`)
+      }
+      if (listing.images[0]) {
+        lines.push(`      <enclosure url="${this.escapeXml(listing.images[0])}" length="0" type="image/jpeg"/>`)
+      }
+      lines.push('    </item>')
+      return lines.filter((line) => line.trim()).join('\n')
+    })
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"' +
+        ' xmlns:georss="http://www.georss.org/georss"' +
+        ' xmlns:listing="urn:real-estate-api:listing-feed">',
+      '  <channel>',
+      `    ${this.element('title', feed.title)}`,
+      `    ${this.element('link', feed.siteUrl)}`,
+      `    ${this.element('description', `${feed.title} (partner feed)`)}`,
+      `    <lastBuildDate>${feed.generatedAt.toUTCString()}</lastBuildDate>`,
+      `    <atom:link rel="self" href="${this.escapeXml(feed.selfUrl)}" type="application/rss+xml"/>`,
+      ...(feed.nextUrl
+        ? [`    <atom:link rel="next" href="${this.escapeXml(feed.nextUrl)}" type="application/rss+xml"/>`]
+        : []),
+      ...items,
+      '  </channel>',
+      '</rss>'
+    ].join('\n') + '\n'
+  }
+
+  /**
+   * Atom (RFC 4287) พร้อม tombstone ตาม RFC 6721 (at:deleted-entry)
+   */
+  static buildAtom(feed: FeedDocument): string {
+    const entries = feed.entries.map((entry) => {
+      if (entry.type === 'tombstone') {
+        const { tombstone } = entry
+        return [
+          `  <at:deleted-entry ref="${this.escapeXml(tombstone.url)}" when="${tombstone.removedAt.toISOString()}">`,
+          `    <at:comment>${this.escapeXml(tombstone.reason)}</at:comment>`,
+          '  </at:deleted-entry>'
+        ].join('\n')
+      }
+
+      const { listing } = entry
+      const lines = [
+        '  <entry>',
+        `    ${this.element('id', listing.url)}`,
+        `    ${this.element('title', listing.title)}`,
+        `    <link rel="alternate" href="${this.escapeXml(listing.url)}"/>`,
+        `    <published>${listing.publishedAt.toISOString()}</published>`,
+        `    <updated>${listing.updatedAt.toISOString()}</updated>`,
+        `    ${this.element('summary', listing.description)}`,
+        `    <category term="${this.escapeXml(listing.propertyType)}"/>`,
+        `    <category term="${this.escapeXml(listing.listingType)}"/>`,
+        `    <listing:price currency="${this.escapeXml(listing.currency)}">${listing.price}</listing:price>`,
+        `    <listing:area unit="sqm">${listing.area}</listing:area>`
+      ]
+      if (listing.latitude !== undefined && listing.longitude !== undefined) {
+        lines.push(`    <georss:point>${listing.latitude} ${listing.longitude}</georss:point>`)
+      }
+      listing.images.forEach((image) =>
+        lines.push(`    <link rel="enclosure" href="${this.escapeXml(image)}" type="image/jpeg"/>`)
+      )
+      lines.push('  </entry>')
+      return lines.filter((line) => line.trim()).join('\n')
+    })
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom"' +
+        ' xmlns:at="http://purl.org/atompub/tombstones/1.0"' +
+        ' xmlns:georss="http://www.georss.org/georss"' +
+        ' xmlns:listing="urn:real-estate-api:listing-feed">',
+      `  ${this.element('id', feed.selfUrl.split('?')[0])}`,
+      `  ${this.element('title', feed.title)}`,
+      `  <updated>${feed.generatedAt.toISOString()}</updated>`,
+      `  <link rel="self" href="${this.escapeXml(feed.selfUrl)}"/>`,
+      `  <link rel="alternate" href="${this.escapeXml(feed.siteUrl)}"/>`,
+      ...(feed.nextUrl ? [`  <link rel="next" href="${this.escapeXml(feed.nextUrl)}"/>`] : []),
+      ...entries,
+      '</feed>'
+    ].join('\n') + '\n'
+  }
+}
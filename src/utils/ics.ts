@@ -0,0 +1,100 @@
+/**
+ * iCalendar (ICS) Utility
+ * สร้างไฟล์ .ics ตาม RFC 5545 สำหรับเพิ่มนัดลงปฏิทิน
+ */
+
+export interface IcsEvent {
+  uid: string
+  startsAt: Date
+  endsAt: Date
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  geo?: { lat: number; lng: number }
+}
+
+const PRODUCT_ID = '-//Real Estate API//Viewing Appointments//EN'
+
+// RFC 5545 จำกัดบรรทัดละ 75 octets
+const MAX_LINE_OCTETS = 75
+
+export class IcsUtils {
+  /**
+   * วันที่ในรูปแบบ UTC (เช่น 20260119T073000Z)
+   */
+  static formatDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  }
+
+  /**
+   * Escape ข้อความตาม RFC 5545 (\ ; , และขึ้นบรรทัดใหม่)
+   */
+  static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n')
+  }
+
+  /**
+   * ตัดบรรทัดยาวเกิน 75 octets (บรรทัดต่อขึ้นต้นด้วยช่องว่าง) โดยไม่ตัดกลางตัวอักษร UTF-8
+   */
+  static foldLine(line: string): string {
+    const parts: string[] = []
+    let current = ''
+    let currentOctets = 0
+
+    for (const char of line) {
+      const octets = Buffer.byteLength(char, 'utf8')
+      const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+      if (currentOctets + octets > limit) {
+        parts.push(current)
+        current = ''
+        currentOctets = 0
+      }
+      current += char
+      currentOctets += octets
+    }
+    parts.push(current)
+
+    return parts.join('\r\n ')
+  }
+
+  /**
+   * สร้างเนื้อหาไฟล์ .ics ที่มี event เดียว
+   */
+  static buildCalendar(event: IcsEvent): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${this.formatDate(new Date())}`,
+      `DTSTART:${this.formatDate(event.startsAt)}`,
+      `DTEND:${this.formatDate(event.endsAt)}`,
+      `SUMMARY:${this.escapeText(event.summary)}`
+    ]
+
+    if (event.description) {
+      lines.push(`DESCRIPTION:${this.escapeText(event.description)}`)
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${this.escapeText(event.location)}`)
+    }
+    if (event.geo) {
+      lines.push(`GEO:${event.geo.lat};${event.geo.lng}`)
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`)
+    }
+
+    lines.push('STATUS:CONFIRMED', 'END:VEVENT', 'END:VCALENDAR')
+
+    return lines.map((line) => this.foldLine(line)).join('\r\n') + '\r\n'
+  }
+}
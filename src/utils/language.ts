@@ -0,0 +1,63 @@
+/**
+ * Listing Language Utility
+ * ภาษาของเนื้อหาประกาศ (ลาว ไทย อังกฤษ) และการเลือกภาษาจาก ?lang= / Accept-Language
+ */
+
+export const LISTING_LANGUAGES = ['lo', 'th', 'en'] as const
+export type ListingLanguage = typeof LISTING_LANGUAGES[number]
+
+export const DEFAULT_LANGUAGE: ListingLanguage = 'lo'
+
+// ชื่อเรียกอื่นที่ client อาจส่งมา
+const LANGUAGE_ALIASES: Record<string, ListingLanguage> = {
+  lo: 'lo',
+  lao: 'lo',
+  'ລາວ': 'lo',
+  th: 'th',
+  thai: 'th',
+  'ไทย': 'th',
+  en: 'en',
+  english: 'en'
+}
+
+export class LanguageUtils {
+  /**
+   * แปลงค่าจาก query/body เป็นภาษาที่รองรับ (lo-LA, en_US ใช้ได้; ไม่รองรับ = undefined)
+   */
+  static parseLanguage(value: unknown): ListingLanguage | undefined {
+    if (typeof value !== 'string') return undefined
+    const normalized = value.trim().toLowerCase()
+    return LANGUAGE_ALIASES[normalized] || LANGUAGE_ALIASES[normalized.split(/[-_]/)[0]]
+  }
+
+  /**
+   * เลือกภาษาที่รองรับจาก header Accept-Language ตามค่า q (เช่น "th-TH,th;q=0.9,en;q=0.8")
+   */
+  static fromAcceptLanguage(header?: string): ListingLanguage | undefined {
+    if (!header) return undefined
+
+    const ranked = header
+      .split(',')
+      .map((part, index) => {
+        const [tag, ...params] = part.trim().split(';')
+        const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='))
+        return { tag, quality: q ? Number(q.slice(2)) : 1, index }
+      })
+      .filter((item) => item.tag && item.quality > 0)
+      .sort((a, b) => b.quality - a.quality || a.index - b.index)
+
+    for (const item of ranked) {
+      const language = this.parseLanguage(item.tag)
+      if (language) return language
+    }
+
+    return undefined
+  }
+
+  /**
+   * ภาษาที่ผู้ใช้ต้องการ: ?lang= มาก่อน แล้วจึงดู Accept-Language
+   */
+  static resolve(lang?: unknown, acceptLanguage?: string): ListingLanguage | undefined {
+    return this.parseLanguage(lang) || this.fromAcceptLanguage(acceptLanguage)
+  }
+}
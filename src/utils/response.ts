@@ -1,4 +1,5 @@
 import { Response } from 'express'
+import type { CursorInfo } from './cursor'
 
 export interface ApiResponse<T = any> {
   success: boolean
@@ -11,6 +12,8 @@ export interface ApiResponse<T = any> {
     total: number
     totalPages: number
   }
+  cursor?: CursorInfo
+  facets?: object // facet counts ของผลค้นหา (?facets=true)
 }
 
 export class ResponseHelper {
@@ -28,13 +31,31 @@ export class ResponseHelper {
     data: T,
     pagination: { page: number; limit: number; total: number; totalPages: number },
     message: string = 'Success',
-    statusCode: number = 200
+    statusCode: number = 200,
+    extra: Pick<ApiResponse<T>, 'facets'> = {}
   ): Response {
     const response: ApiResponse<T> = {
       success: true,
       message,
       data,
       pagination,
+      ...extra,
+    }
+    return res.status(statusCode).json(response)
+  }
+
+  static successWithCursor<T>(
+    res: Response,
+    data: T,
+    cursor: CursorInfo,
+    message: string = 'Success',
+    statusCode: number = 200
+  ): Response {
+    const response: ApiResponse<T> = {
+      success: true,
+      message,
+      data,
+      cursor,
     }
     return res.status(statusCode).json(response)
   }
@@ -0,0 +1,48 @@
+/**
+ * Sitemap Utility
+ * สร้าง XML ตาม sitemaps.org (urlset และ sitemapindex)
+ */
+
+import { FeedUtils } from '@/utils/feed'
+
+export interface SitemapEntry {
+  loc: string
+  lastmod?: Date
+}
+
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9'
+
+export class SitemapUtils {
+  private static renderEntries(tag: 'url' | 'sitemap', entries: SitemapEntry[]): string[] {
+    return entries.map(
+      (entry) =>
+        `  <${tag}><loc>${FeedUtils.escapeXml(entry.loc)}</loc>` +
+        (entry.lastmod ? `<lastmod>${entry.lastmod.toISOString()}</lastmod>` : '') +
+        `</${tag}>`
+    )
+  }
+
+  /**
+   * ไฟล์ sitemap ของ URL (ไม่เกิน 50,000 URL ต่อไฟล์)
+   */
+  static buildUrlSet(entries: SitemapEntry[]): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<urlset xmlns="${SITEMAP_NAMESPACE}">`,
+      ...this.renderEntries('url', entries),
+      '</urlset>'
+    ].join('\n') + '\n'
+  }
+
+  /**
+   * sitemap index ที่ชี้ไปยังไฟล์ sitemap ย่อย
+   */
+  static buildIndex(entries: SitemapEntry[]): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<sitemapindex xmlns="${SITEMAP_NAMESPACE}">`,
+      ...this.renderEntries('sitemap', entries),
+      '</sitemapindex>'
+    ].join('\n') + '\n'
+  }
+}
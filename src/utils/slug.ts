@@ -0,0 +1,40 @@
+/**
+ * Slug Utility
+ * สร้าง slug สำหรับ URL จากข้อความ (รองรับอักษรลาว/ไทย: เก็บตัวอักษรและสระ/วรรณยุกต์ไว้)
+ */
+
+export class SlugUtils {
+  /**
+   * แปลงข้อความเป็น slug: ตัวพิมพ์เล็ก คั่นด้วย - และตัดความยาวไม่ให้ขาดกลางคำ
+   */
+  static slugify(value: string, maxLength: number = 80): string {
+    const slug = value
+      .normalize('NFD')
+      // ตัดเครื่องหมายกำกับเสียงของอักษรละติน (é -> e) แต่คงสระ/วรรณยุกต์ของอักษรอื่น
+      .replace(/([a-zA-Z])\p{M}+/gu, '$1')
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '')
+
+    if (slug.length <= maxLength) return slug
+
+    const truncated = slug.slice(0, maxLength)
+    const lastDash = truncated.lastIndexOf('-')
+    return (lastDash > maxLength / 2 ? truncated.slice(0, lastDash) : truncated).replace(/-+$/, '')
+  }
+
+  /**
+   * เพิ่มเลขต่อท้ายเมื่อ slug ซ้ำ (house-vientiane, house-vientiane-2, ...)
+   */
+  static withSuffix(base: string, attempt: number): string {
+    return attempt <= 1 ? base : `${base}-${attempt}`
+  }
+
+  /**
+   * slug นี้สร้างจาก base เดียวกันหรือไม่ (รวมกรณีมีเลขต่อท้าย)
+   */
+  static matchesBase(slug: string, base: string): boolean {
+    return slug === base || new RegExp(`^${base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}-\\d+$`).test(slug)
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * Spreadsheet Utility
+ * อ่านไฟล์ CSV และ XLSX (sheet แรก) เป็นแถวของข้อความ สำหรับนำเข้าประกาศจำนวนมาก
+ */
+
+import { inflateRawSync } from 'zlib'
+
+export type SpreadsheetFormat = 'csv' | 'xlsx'
+
+export interface SpreadsheetTable {
+  headers: string[]
+  rows: string[][] // ไม่รวมแถวหัวตาราง และตัดแถวว่างออกแล้ว
+  rowNumbers: number[] // เลขแถวในไฟล์ของแต่ละแถวใน rows (เริ่มที่ 1)
+}
+
+const ZIP_EOCD_SIGNATURE = 0x06054b50
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50
+const ZIP_LOCAL_SIGNATURE = 0x04034b50
+
+// กันไฟล์ ZIP bomb: จำนวนไฟล์และขนาดหลังแตกไฟล์สูงสุด
+const ZIP_MAX_ENTRIES = 1000
+const ZIP_MAX_ENTRY_SIZE = 50 * 1024 * 1024
+const ZIP_MAX_TOTAL_SIZE = 100 * 1024 * 1024
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+}
+
+export class SpreadsheetUtils {
+  /**
+   * ระบุรูปแบบไฟล์จากนามสกุลหรือ mimetype (ไม่รองรับ = undefined)
+   */
+  static detectFormat(fileName: string, mimeType?: string): SpreadsheetFormat | undefined {
+    const name = fileName.toLowerCase()
+    if (name.endsWith('.csv') || mimeType === 'text/csv') return 'csv'
+    if (
+      name.endsWith('.xlsx') ||
+      mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    ) {
+      return 'xlsx'
+    }
+    return undefined
+  }
+
+  /**
+   * อ่านไฟล์ตามรูปแบบ แล้วแยกหัวตารางกับข้อมูล
+   */
+  static parse(buffer: Buffer, format: SpreadsheetFormat): SpreadsheetTable {
+    const grid = format === 'csv' ? this.parseCsv(buffer) : this.parseXlsx(buffer)
+    const nonEmpty = grid
+      .map((row, index) => ({ row, rowNumber: index + 1 }))
+      .filter(({ row }) => row.some((cell) => cell.trim() !== ''))
+    if (nonEmpty.length === 0) {
+      return { headers: [], rows: [], rowNumbers: [] }
+    }
+
+    const [header, ...rest] = nonEmpty
+    return {
+      headers: header.row.map((cell) => cell.trim()),
+      rows: rest.map(({ row }) => row),
+      rowNumbers: rest.map(({ rowNumber }) => rowNumber)
+    }
+  }
+
+  /**
+   * CSV ตาม RFC 4180 (รองรับ BOM, ช่องในเครื่องหมายคำพูด, ขึ้นบรรทัดใหม่ในช่อง)
+   * ตัวคั่นเป็น , หรือ ; ตามที่พบในบรรทัดแรก
+   */
+  static parseCsv(buffer: Buffer): string[][] {
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '')
+    const firstLine = text.slice(0, text.search(/\r?\n|$/))
+    const delimiter =
+      (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ','
+
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ''
+    let inQuotes = false
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            cell += '"'
+            i++
+          } else {
+            inQuotes = false
+          }
+        } else {
+          cell += char
+        }
+        continue
+      }
+
+      if (char === '"') {
+        inQuotes = true
+      } else if (char === delimiter) {
+        row.push(cell)
+        cell = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++
+        row.push(cell)
+        rows.push(row)
+        row = []
+        cell = ''
+      } else {
+        cell += char
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell)
+      rows.push(row)
+    }
+
+    return rows
+  }
+
+  /**
+   * XLSX: อ่าน worksheet แรกจาก ZIP (ค่าที่เป็นสูตรใช้ผลลัพธ์ที่บันทึกไว้)
+   */
+  static parseXlsx(buffer: Buffer): string[][] {
+    const entries = this.readZip(buffer)
+
+    const sharedStrings = entries['xl/sharedStrings.xml']
+      ? this.parseSharedStrings(entries['xl/sharedStrings.xml'])
+      : []
+    const sheetPath = this.firstSheetPath(entries)
+    if (!sheetPath || !entries[sheetPath]) {
+      throw new Error('Worksheet not found in XLSX file')
+    }
+
+    const rows: string[][] = []
+    const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+
+    let rowMatch: RegExpExecArray | null
+    while ((rowMatch = rowPattern.exec(entries[sheetPath]))) {
+      // แถวว่างไม่ถูกบันทึกในไฟล์ เติมให้เลขแถวตรงกับ Excel
+      const rowNumber = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] || '0')
+      while (rows.length < rowNumber - 1) rows.push([])
+
+      const row: string[] = []
+      let cellMatch: RegExpExecArray | null
+      let nextColumn = 0
+
+      while ((cellMatch = cellPattern.exec(rowMatch[2] || ''))) {
+        const attributes = cellMatch[1]
+        const body = cellMatch[2] || ''
+        const ref = attributes.match(/\br="([A-Z]+)\d+"/)
+        const column = ref ? this.columnIndex(ref[1]) : nextColumn
+        const type = attributes.match(/\bt="(\w+)"/)?.[1]
+
+        let value = ''
+        if (type === 'inlineStr') {
+          value = this.textContent(body)
+        } else {
+          const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+          if (raw !== undefined) {
+            value = type === 's' ? sharedStrings[parseInt(raw)] || '' : this.decodeXml(raw)
+          }
+        }
+
+        while (row.length < column) row.push('')
+        row[column] = value
+        nextColumn = column + 1
+      }
+
+      rows.push(row)
+    }
+
+    return rows
+  }
+
+  /**
+   * แตกไฟล์ใน ZIP (รองรับ stored และ deflate) เป็นข้อความ UTF-8
+   */
+  private static readZip(buffer: Buffer): Record<string, string> {
+    let eocd = -1
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+      if (buffer.readUInt32LE(i) === ZIP_EOCD_SIGNATURE) {
+        eocd = i
+        break
+      }
+    }
+    if (eocd < 0) {
+      throw new Error('Invalid XLSX file')
+    }
+
+    const entryCount = buffer.readUInt16LE(eocd + 10)
+    if (entryCount > ZIP_MAX_ENTRIES) {
+      throw new Error('XLSX file has too many entries')
+    }
+    let offset = buffer.readUInt32LE(eocd + 16)
+    const entries: Record<string, string> = {}
+    let totalSize = 0
+
+    for (let i = 0; i < entryCount; i++) {
+      if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_SIGNATURE) {
+        throw new Error('Invalid XLSX file')
+      }
+      const method = buffer.readUInt16LE(offset + 10)
+      const compressedSize = buffer.readUInt32LE(offset + 20)
+      const uncompressedSize = buffer.readUInt32LE(offset + 24)
+      const nameLength = buffer.readUInt16LE(offset + 28)
+      const extraLength = buffer.readUInt16LE(offset + 30)
+      const commentLength = buffer.readUInt16LE(offset + 32)
+      const localOffset = buffer.readUInt32LE(offset + 42)
+      const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+      offset += 46 + nameLength + extraLength + commentLength
+
+      // อ่านเฉพาะไฟล์ XML ที่ต้องใช้
+      if (!name.startsWith('xl/') || !(name.endsWith('.xml') || name.endsWith('.rels'))) continue
+      if (uncompressedSize > ZIP_MAX_ENTRY_SIZE) {
+        throw new Error('XLSX file is too large')
+      }
+      if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_SIGNATURE) {
+        throw new Error('Invalid XLSX file')
+      }
+
+      const dataStart =
+        localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+      const data = buffer.subarray(dataStart, dataStart + compressedSize)
+      let content: Buffer | undefined
+      if (method === 0) {
+        content = data
+      } else if (method === 8) {
+        // ขนาดที่ระบุไว้อาจไม่ตรงกับข้อมูลจริง จึงจำกัดขนาดตอนแตกไฟล์ด้วย
+        try {
+          content = inflateRawSync(data, { maxOutputLength: ZIP_MAX_ENTRY_SIZE })
+        } catch (error) {
+          if (error instanceof RangeError) throw new Error('XLSX file is too large')
+          throw error
+        }
+      }
+      if (!content) continue
+
+      totalSize += content.length
+      if (totalSize > ZIP_MAX_TOTAL_SIZE) {
+        throw new Error('XLSX file is too large')
+      }
+      entries[name] = content.toString('utf8')
+    }
+
+    return entries
+  }
+
+  // path ของ sheet แรกตาม workbook.xml (fallback เป็น sheet1.xml)
+  private static firstSheetPath(entries: Record<string, string>): string | undefined {
+    const workbook = entries['xl/workbook.xml']
+    const rels = entries['xl/_rels/workbook.xml.rels']
+    const relId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1]
+
+    if (relId && rels) {
+      const relPattern = /<Relationship\b([^>]*)\/?>/g
+      let match: RegExpExecArray | null
+      while ((match = relPattern.exec(rels))) {
+        if (match[1].includes(`Id="${relId}"`)) {
+          const target = match[1].match(/Target="([^"]+)"/)?.[1]
+          if (target) {
+            return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+          }
+        }
+      }
+    }
+
+    return Object.keys(entries).find((name) => /^xl\/worksheets\/sheet\d*\.xml$/.test(name))
+  }
+
+  private static parseSharedStrings(xml: string): string[] {
+    const strings: string[] = []
+    const itemPattern = /<si\b[^>]*>([\s\S]*?)<\/si>/g
+    let match: RegExpExecArray | null
+    while ((match = itemPattern.exec(xml))) {
+      strings.push(this.textContent(match[1]))
+    }
+    return strings
+  }
+
+  // รวมข้อความจาก <t> ทั้งหมด (rich text มีหลาย run)
+  private static textContent(xml: string): string {
+    const parts: string[] = []
+    const textPattern = /<t\b[^>]*>([\s\S]*?)<\/t>/g
+    let match: RegExpExecArray | null
+    while ((match = textPattern.exec(xml))) {
+      parts.push(this.decodeXml(match[1]))
+    }
+    return parts.join('')
+  }
+
+  private static decodeXml(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1))
+        return String.fromCodePoint(point)
+      }
+      return XML_ENTITIES[code] ?? entity
+    })
+  }
+
+  // A -> 0, Z -> 25, AA -> 26
+  private static columnIndex(letters: string): number {
+    let index = 0
+    for (const letter of letters) {
+      index = index * 26 + (letter.charCodeAt(0) - 64)
+    }
+    return index - 1
+  }
+
+  /**
+   * สร้าง CSV จากหัวตารางและแถวตัวอย่าง (ใช้ทำไฟล์ template)
+   */
+  static toCsv(rows: (string | number)[][]): string {
+    return (
+      rows
+        .map((row) =>
+          row
+            .map((value) => {
+              const text = String(value)
+              return /[",\r\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+            })
+            .join(',')
+        )
+        .join('\r\n') + '\r\n'
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { Agency } from '@/models/Agency'
+import { AgencyService } from '@/services/AgencyService'
+
+const AGENCY_ID = '64b000000000000000000001'
+const OWNER_ID = '64b000000000000000000002'
+const AGENT_ID = '64b000000000000000000003'
+const REMOVED_ID = '64b000000000000000000004'
+
+const agencyPost = (authorId: string, assignedAgentId = OWNER_ID) =>
+  ({ authorId, assignedAgentId, agencyId: AGENCY_ID }) as never
+
+const stubAgency = () =>
+  mock.method(Agency, 'findById', async () => ({
+    members: [
+      { user: OWNER_ID, role: 'owner' },
+      { user: AGENT_ID, role: 'agent' }
+    ]
+  }))
+
+describe('AgencyService.canManagePost', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('lets the author manage a private listing without a lookup', async () => {
+    const findById = stubAgency()
+    const post = { authorId: REMOVED_ID } as never
+
+    assert.equal(await AgencyService.canManagePost(post, REMOVED_ID), true)
+    assert.equal(await AgencyService.canManagePost(post, AGENT_ID), false)
+    assert.equal(findById.mock.callCount(), 0)
+  })
+
+  it('lets admins manage any listing', async () => {
+    stubAgency()
+    assert.equal(
+      await AgencyService.canManagePost(agencyPost(REMOVED_ID), AGENT_ID, 'admin'),
+      true
+    )
+  })
+
+  it('lets the assigned agent and agency owners manage agency listings', async () => {
+    stubAgency()
+    const post = agencyPost(AGENT_ID, AGENT_ID)
+
+    assert.equal(await AgencyService.canManagePost(post, AGENT_ID), true)
+    assert.equal(await AgencyService.canManagePost(post, OWNER_ID), true)
+  })
+
+  it('lets an author who is still a member manage their agency listing', async () => {
+    stubAgency()
+    assert.equal(
+      await AgencyService.canManagePost(agencyPost(AGENT_ID), AGENT_ID),
+      true
+    )
+  })
+
+  it('refuses an author who was removed from the agency', async () => {
+    stubAgency()
+    assert.equal(
+      await AgencyService.canManagePost(agencyPost(REMOVED_ID), REMOVED_ID),
+      false
+    )
+  })
+
+  it('refuses everyone but admins when the agency no longer exists', async () => {
+    mock.method(Agency, 'findById', async () => null)
+    assert.equal(
+      await AgencyService.canManagePost(agencyPost(AGENT_ID), AGENT_ID),
+      false
+    )
+  })
+})
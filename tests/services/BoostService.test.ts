@@ -0,0 +1,147 @@
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import mongoose from 'mongoose'
+import { config } from '@/config'
+import { Post } from '@/models/Post'
+import { PostBoost, IPostBoost } from '@/models/PostBoost'
+import { BoostService } from '@/services/BoostService'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const USER_ID = '64b000000000000000000010'
+const POST_ID = '64b000000000000000000020'
+
+const stubApprovedPost = () =>
+  mock.method(Post, 'findById', async () => ({
+    _id: new mongoose.Types.ObjectId(POST_ID),
+    authorId: USER_ID,
+    status: 'approved'
+  }))
+
+// boost ที่รอชำระเงิน (save ถูกแทนที่ จึงไม่ต้องเชื่อมต่อฐานข้อมูล)
+const pendingBoost = (startsAt: Date, paymentDueAt: Date): IPostBoost => {
+  const boost = new PostBoost({
+    postId: POST_ID,
+    userId: USER_ID,
+    type: 'featured',
+    status: 'pending_payment',
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + 7 * DAY_MS),
+    paymentDueAt,
+    purchase: { amount: 350_000, durationDays: 7, paymentMethod: 'bank_transfer' }
+  })
+  mock.method(boost, 'save', async () => boost)
+  return boost
+}
+
+describe('BoostService.purchaseBoost', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('holds the slot for non-admins until the payment is due', async () => {
+    stubApprovedPost()
+    mock.method(PostBoost, 'exists', async () => null)
+    const create = mock.method(PostBoost, 'create', async (doc: unknown) => doc)
+
+    const before = Date.now()
+    await BoostService.purchaseBoost(
+      { postId: POST_ID, type: 'featured', durationDays: 7, paymentMethod: 'bank_transfer' },
+      USER_ID
+    )
+
+    const doc = create.mock.calls[0].arguments[0] as Record<string, unknown>
+    const dueIn = (doc.paymentDueAt as Date).getTime() - before
+    assert.equal(doc.status, 'pending_payment')
+    assert.ok(Math.abs(dueIn - config.boosts.paymentHoldHours * HOUR_MS) < 5000)
+    assert.equal((doc.purchase as Record<string, unknown>).amount, BoostService.quote('featured', 7))
+  })
+
+  it('ignores unpaid holds past their due time when checking overlaps', async () => {
+    stubApprovedPost()
+    const exists = mock.method(PostBoost, 'exists', async () => null)
+    mock.method(PostBoost, 'create', async (doc: unknown) => doc)
+
+    await BoostService.purchaseBoost(
+      { postId: POST_ID, type: 'urgent', durationDays: 3, paymentMethod: 'cash' },
+      USER_ID
+    )
+
+    const filter = exists.mock.calls[0].arguments[0] as { $or: Record<string, unknown>[] }
+    assert.deepEqual(filter.$or[0], { status: { $in: ['scheduled', 'active'] } })
+    assert.equal(filter.$or[1].status, 'pending_payment')
+    assert.ok('$not' in (filter.$or[1].paymentDueAt as object))
+  })
+
+  it('refuses a boost that overlaps another of the same type', async () => {
+    stubApprovedPost()
+    mock.method(PostBoost, 'exists', async () => ({ _id: 'other' }))
+
+    await assert.rejects(
+      BoostService.purchaseBoost(
+        { postId: POST_ID, type: 'featured', durationDays: 7, paymentMethod: 'bank_transfer' },
+        USER_ID
+      ),
+      /already has a featured boost/
+    )
+  })
+
+  it('only lets admins grant free boosts', async () => {
+    await assert.rejects(
+      BoostService.purchaseBoost(
+        { postId: POST_ID, type: 'featured', durationDays: 7, paymentMethod: 'admin_grant' },
+        USER_ID
+      ),
+      /Only admins can grant boosts/
+    )
+  })
+})
+
+describe('BoostService.confirmPayment', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('schedules a paid boost that starts later', async () => {
+    const startsAt = new Date(Date.now() + 2 * DAY_MS)
+    const boost = pendingBoost(startsAt, new Date(Date.now() + HOUR_MS))
+    mock.method(PostBoost, 'findById', async () => boost)
+    const exists = mock.method(PostBoost, 'exists', async () => null)
+
+    const confirmed = await BoostService.confirmPayment(
+      String(boost._id),
+      { paymentReference: 'TX-1', amount: 350_000 },
+      USER_ID
+    )
+
+    assert.equal(confirmed.status, 'scheduled')
+    assert.ok(confirmed.purchase.paidAt)
+    assert.equal(confirmed.purchase.paymentReference, 'TX-1')
+    assert.equal(confirmed.startsAt.getTime(), startsAt.getTime())
+    assert.equal(exists.mock.callCount(), 0)
+  })
+
+  it('re-checks the slot when the payment hold has expired', async () => {
+    const boost = pendingBoost(new Date(Date.now() + 2 * DAY_MS), new Date(Date.now() - HOUR_MS))
+    mock.method(PostBoost, 'findById', async () => boost)
+    const exists = mock.method(PostBoost, 'exists', async () => ({ _id: 'other' }))
+
+    await assert.rejects(
+      BoostService.confirmPayment(String(boost._id), {}),
+      /already has a featured boost/
+    )
+    assert.equal(exists.mock.callCount(), 1)
+  })
+
+  it('rejects underpayments and boosts that are not awaiting payment', async () => {
+    const boost = pendingBoost(new Date(Date.now() + DAY_MS), new Date(Date.now() + HOUR_MS))
+    mock.method(PostBoost, 'findById', async () => boost)
+
+    await assert.rejects(
+      BoostService.confirmPayment(String(boost._id), { amount: 1000 }),
+      /less than the boost price/
+    )
+
+    boost.status = 'cancelled'
+    await assert.rejects(
+      BoostService.confirmPayment(String(boost._id), {}),
+      /not awaiting payment/
+    )
+  })
+})
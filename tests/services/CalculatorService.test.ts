@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { CalculatorService } from '@/services/CalculatorService'
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+describe('CalculatorService amortization', () => {
+  it('computes the standard annuity payment', () => {
+    // 100,000 USD, 6% ต่อปี, 30 ปี = 599.55 ต่อเดือน
+    const payment = CalculatorService.monthlyPayment(100_000, 6, 360)
+    assert.equal(Math.round(payment * 100) / 100, 599.55)
+  })
+
+  it('splits the principal evenly at 0% interest', () => {
+    assert.equal(CalculatorService.monthlyPayment(120_000_000, 0, 12), 10_000_000)
+    assert.equal(CalculatorService.monthlyPayment(0, 5, 12), 0)
+  })
+
+  it('builds a schedule that pays the loan off exactly', () => {
+    const schedule = CalculatorService.buildSchedule(100_000, 6, 360, 'USD')
+
+    assert.equal(schedule.length, 360)
+    assert.deepEqual(schedule[0], {
+      month: 1,
+      payment: 599.55,
+      principal: 99.55,
+      interest: 500,
+      balance: 99_900.45
+    })
+    assert.equal(schedule[359].balance, 0)
+    assert.ok(Math.abs(sum(schedule.map((row) => row.principal)) - 100_000) < 1)
+  })
+
+  it('rounds LAK amounts to whole kip', () => {
+    const schedule = CalculatorService.buildSchedule(500_000_000, 12, 24, 'LAK')
+
+    assert.equal(schedule.length, 24)
+    assert.equal(schedule[0].interest, 5_000_000)
+    schedule.forEach((row) => {
+      assert.ok(Number.isInteger(row.payment) && Number.isInteger(row.balance))
+    })
+    assert.equal(schedule[23].balance, 0)
+  })
+
+  it('returns an empty schedule without a loan', () => {
+    assert.deepEqual(CalculatorService.buildSchedule(0, 5, 12, 'LAK'), [])
+  })
+})
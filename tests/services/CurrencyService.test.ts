@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { CurrencyService } from '@/services/CurrencyService'
+
+// อัตราเริ่มต้นจาก config (กีบต่อ 1 หน่วย)
+const THB = CurrencyService.getRate('THB')
+const USD = CurrencyService.getRate('USD')
+
+describe('CurrencyService', () => {
+  it('parses supported currency codes', () => {
+    assert.equal(CurrencyService.parseCurrency(' usd '), 'USD')
+    assert.equal(CurrencyService.parseCurrency('LAK'), 'LAK')
+    assert.equal(CurrencyService.parseCurrency('EUR'), undefined)
+    assert.equal(CurrencyService.parseCurrency(100), undefined)
+  })
+
+  it('converts to the LAK base price', () => {
+    assert.equal(CurrencyService.getRate('LAK'), 1)
+    assert.equal(CurrencyService.toBase(1_500_000), 1_500_000)
+    assert.equal(CurrencyService.toBase(100, 'USD'), Math.round(100 * USD))
+    assert.equal(CurrencyService.toBase(0.5, 'THB'), Math.round(0.5 * THB))
+  })
+
+  it('rounds LAK to whole kip and other currencies to cents', () => {
+    assert.equal(CurrencyService.round(1234.56, 'LAK'), 1235)
+    assert.equal(CurrencyService.round(12.345, 'USD'), 12.35)
+  })
+
+  it('converts between currencies through LAK', () => {
+    assert.equal(CurrencyService.convert(250, 'USD', 'USD'), 250)
+    assert.equal(CurrencyService.convert(100, 'USD', 'LAK'), Math.round(100 * USD))
+    assert.equal(CurrencyService.convert(USD, 'LAK', 'USD'), 1)
+    assert.equal(
+      CurrencyService.convert(1000, 'THB', 'USD'),
+      Math.round(((1000 * THB) / USD) * 100) / 100
+    )
+  })
+
+  it('round-trips a converted price back to the original', () => {
+    const lak = CurrencyService.convert(300, 'USD', 'LAK')
+    assert.equal(CurrencyService.convert(lak, 'LAK', 'USD'), 300)
+  })
+
+  it('returns the rate used for display prices', () => {
+    const converted = CurrencyService.convertPrice(USD * 2, 'LAK', 'USD')
+    assert.deepEqual(converted, { amount: 2, currency: 'USD', rate: 1 / USD })
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import mongoose from 'mongoose'
+import { DuplicateDetectionService } from '@/services/DuplicateDetectionService'
+
+// เมตรต่อ 1 องศาละติจูด (โดยประมาณ)
+const METERS_PER_DEGREE = 111195
+
+const authorId = new mongoose.Types.ObjectId().toString()
+
+const existingPost = {
+  _id: new mongoose.Types.ObjectId(),
+  authorId: new mongoose.Types.ObjectId(authorId),
+  title: 'Villa with garden in Sisattanak',
+  description: 'Three bedroom villa close to the Mekong riverside',
+  price: 2_500_000_000,
+  area: 600,
+  location: { coordinates: { type: 'Point', coordinates: [102.6331, 17.9757] } }
+}
+
+const candidateAt = (metersNorth: number) => ({
+  authorId,
+  title: existingPost.title,
+  description: existingPost.description,
+  price: existingPost.price,
+  area: existingPost.area,
+  coordinates: [102.6331, 17.9757 + metersNorth / METERS_PER_DEGREE] as [number, number]
+})
+
+describe('DuplicateDetectionService.scorePost', () => {
+  it('measures distance in meters for points about 20 m apart', () => {
+    const match = DuplicateDetectionService.scorePost(candidateAt(20), existingPost)
+
+    assert.ok(match.distance !== undefined)
+    assert.ok(match.distance >= 19 && match.distance <= 21, `distance was ${match.distance}`)
+    assert.equal(match.breakdown.location, 1)
+    assert.equal(match.score, 1)
+    assert.equal(match.sameAuthor, true)
+  })
+
+  it('lowers location similarity towards the edge of the radius', () => {
+    const near = DuplicateDetectionService.scorePost(candidateAt(100), existingPost)
+    const far = DuplicateDetectionService.scorePost(candidateAt(1000), existingPost)
+
+    assert.ok(near.breakdown.location > 0 && near.breakdown.location < 1)
+    assert.equal(far.breakdown.location, 0)
+    assert.ok(far.score < near.score)
+  })
+
+  it('scores on the remaining factors when coordinates are missing', () => {
+    const match = DuplicateDetectionService.scorePost(
+      { ...candidateAt(0), coordinates: undefined },
+      existingPost
+    )
+
+    assert.equal(match.distance, undefined)
+    assert.equal(match.breakdown.location, 0)
+    assert.equal(match.score, 1)
+  })
+
+  it('compares title text and price', () => {
+    const match = DuplicateDetectionService.scorePost(
+      { ...candidateAt(20), title: 'Office for rent', price: 1_250_000_000 },
+      { ...existingPost, authorId: new mongoose.Types.ObjectId() }
+    )
+
+    assert.equal(match.breakdown.price, 0.5)
+    assert.ok(match.breakdown.text < 0.5)
+    assert.equal(match.sameAuthor, false)
+  })
+})
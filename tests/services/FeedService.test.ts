@@ -0,0 +1,90 @@
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import mongoose from 'mongoose'
+import { Post } from '@/models/Post'
+import { PostTombstone } from '@/models/PostTombstone'
+import { FeedService } from '@/services/FeedService'
+import { CursorPagination } from '@/utils/cursor'
+
+const SINCE = new Date('2026-01-01T00:00:00.000Z')
+const at = (hours: number) => new Date(SINCE.getTime() + hours * 60 * 60 * 1000)
+const objectId = (suffix: number) => new mongoose.Types.ObjectId(`64b0000000000000000000${suffix}`)
+
+const buildPost = (suffix: number, status: string, updatedAt: Date) => {
+  const post = new Post({
+    _id: objectId(suffix),
+    status,
+    title: `Listing ${suffix}`,
+    price: 100_000,
+    propertyType: 'house',
+    listingType: 'sell',
+    area: 100,
+    slug: `listing-${suffix}`
+  })
+  post.set('updatedAt', updatedAt)
+  post.set('createdAt', SINCE)
+  return post
+}
+
+// find(...).sort(...).limit(...)
+const chain = <T>(items: T[]) => ({ sort: () => ({ limit: async () => items }) })
+
+describe('FeedService.getFeed', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('merges listings, status changes and deletions in update order', async () => {
+    mock.method(Post, 'find', () =>
+      chain([buildPost(20, 'approved', at(1)), buildPost(21, 'sold', at(3))])
+    )
+    mock.method(PostTombstone, 'find', () =>
+      chain([{ postId: objectId(22), slug: 'listing-22', deletedAt: at(2) }])
+    )
+
+    const page = await FeedService.getFeed({ since: SINCE })
+
+    assert.deepEqual(
+      page.entries.map((entry) =>
+        entry.type === 'listing'
+          ? ['listing', entry.listing.id]
+          : ['tombstone', entry.tombstone.id, entry.tombstone.reason]
+      ),
+      [
+        ['listing', String(objectId(20))],
+        ['tombstone', String(objectId(22)), 'deleted'],
+        ['tombstone', String(objectId(21)), 'sold']
+      ]
+    )
+    assert.equal(page.nextCursor, null)
+  })
+
+  it('only includes removed listings and deletions in incremental pulls', async () => {
+    const find = mock.method(Post, 'find', (_filter: unknown) => chain([]))
+    const findTombstones = mock.method(PostTombstone, 'find', () => chain([]))
+
+    await FeedService.getFeed({})
+    assert.equal((find.mock.calls[0].arguments[0] as { status: unknown }).status, 'approved')
+    assert.equal(findTombstones.mock.callCount(), 0)
+
+    await FeedService.getFeed({ since: SINCE })
+    const filter = find.mock.calls[1].arguments[0] as { status: { $in: string[] }; updatedAt: unknown }
+    assert.ok(filter.status.$in.includes('sold'))
+    assert.deepEqual(filter.updatedAt, { $gt: SINCE })
+    assert.equal(findTombstones.mock.callCount(), 1)
+  })
+
+  it('returns a cursor at the last entry when more remain', async () => {
+    mock.method(Post, 'find', () =>
+      chain([buildPost(20, 'approved', at(1)), buildPost(21, 'expired', at(3))])
+    )
+    mock.method(PostTombstone, 'find', () =>
+      chain([{ postId: objectId(22), slug: 'listing-22', deletedAt: at(2) }])
+    )
+
+    const page = await FeedService.getFeed({ since: SINCE, limit: 2 })
+
+    assert.equal(page.entries.length, 2)
+    const cursor = CursorPagination.decode(page.nextCursor as string, 'updatedAt')
+    assert.equal(String(cursor.id), String(objectId(22)))
+    assert.equal((cursor.value as Date).getTime(), at(2).getTime())
+  })
+})
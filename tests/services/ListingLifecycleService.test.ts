@@ -0,0 +1,103 @@
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '@/config'
+import { Post, IPost } from '@/models/Post'
+import { ListingLifecycleService } from '@/services/ListingLifecycleService'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const USER_ID = '64b000000000000000000010'
+const POST_ID = '64b000000000000000000020'
+
+// โพสต์ที่ findById คืนมา (save/populate ถูกแทนที่ จึงไม่ต้องเชื่อมต่อฐานข้อมูล)
+const stubPost = (status: IPost['status'], expiresAt?: Date): IPost => {
+  const post = new Post({ _id: POST_ID, authorId: USER_ID, listingType: 'rent', status, expiresAt, renewCount: 1 })
+  mock.method(post, 'save', async () => post)
+  mock.method(post, 'populate', async () => post)
+  mock.method(Post, 'findById', async () => post)
+  return post
+}
+
+describe('ListingLifecycleService.computeExpiresAt', () => {
+  it('adds the validity period of the listing type', () => {
+    const from = new Date('2026-01-01T00:00:00.000Z')
+
+    assert.equal(
+      ListingLifecycleService.computeExpiresAt('rent', from).getTime(),
+      from.getTime() + config.listing.validityDays.rent * DAY_MS
+    )
+    assert.equal(
+      ListingLifecycleService.computeExpiresAt('sell', from).getTime(),
+      from.getTime() + config.listing.validityDays.sell * DAY_MS
+    )
+  })
+})
+
+describe('ListingLifecycleService.renewPost', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('reopens an expired listing for a full validity period', async () => {
+    const post = stubPost('expired', new Date(Date.now() - DAY_MS))
+    post.expiryWarningSentAt = new Date()
+
+    const before = Date.now()
+    await ListingLifecycleService.renewPost(POST_ID, USER_ID)
+
+    assert.equal(post.status, 'approved')
+    assert.equal(post.renewCount, 2)
+    assert.equal(post.expiryWarningSentAt, undefined)
+    assert.ok((post.expiresAt as Date).getTime() >= before + config.listing.validityDays.rent * DAY_MS)
+  })
+
+  it('renews an approved listing inside the warning window', async () => {
+    const post = stubPost('approved', new Date(Date.now() + DAY_MS))
+
+    await ListingLifecycleService.renewPost(POST_ID, USER_ID)
+    assert.ok(post.renewedAt)
+  })
+
+  it('refuses listings that are not due yet or not renewable', async () => {
+    stubPost('approved', new Date(Date.now() + (config.listing.expiryWarningDays + 10) * DAY_MS))
+    await assert.rejects(ListingLifecycleService.renewPost(POST_ID, USER_ID), /not due for renewal/)
+
+    mock.restoreAll()
+    stubPost('draft')
+    await assert.rejects(ListingLifecycleService.renewPost(POST_ID, USER_ID), /Only approved or expired/)
+  })
+
+  it('refuses users who cannot manage the listing', async () => {
+    stubPost('expired', new Date(Date.now() - DAY_MS))
+    await assert.rejects(
+      ListingLifecycleService.renewPost(POST_ID, '64b000000000000000000099'),
+      /permission to renew/
+    )
+  })
+})
+
+describe('ListingLifecycleService.expireListings', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('expires approved listings past their expiry date', async () => {
+    const expiresAt = new Date(Date.now() - DAY_MS)
+    const find = mock.method(Post, 'find', (_filter: unknown) => ({
+      lean: async () => [{ _id: POST_ID, title: 'House', authorId: USER_ID, expiresAt }]
+    }))
+    const updateMany = mock.method(Post, 'updateMany', async (_filter: unknown, _update: unknown) => ({
+      modifiedCount: 1
+    }))
+
+    assert.equal(await ListingLifecycleService.expireListings(), 1)
+
+    const filter = find.mock.calls[0].arguments[0] as { status: string; expiresAt: { $lte: Date } }
+    assert.equal(filter.status, 'approved')
+    assert.ok(filter.expiresAt.$lte.getTime() <= Date.now())
+    assert.deepEqual(updateMany.mock.calls[0].arguments[1], { $set: { status: 'expired' } })
+  })
+
+  it('does nothing when no listing has expired', async () => {
+    mock.method(Post, 'find', () => ({ lean: async () => [] }))
+    const updateMany = mock.method(Post, 'updateMany', async () => ({ modifiedCount: 0 }))
+
+    assert.equal(await ListingLifecycleService.expireListings(), 0)
+    assert.equal(updateMany.mock.callCount(), 0)
+  })
+})
@@ -0,0 +1,108 @@
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { Post, IPost } from '@/models/Post'
+import { ListingQualityService } from '@/services/ListingQualityService'
+
+const completeHouse = () =>
+  new Post({
+    status: 'approved',
+    title: 'House in Sisattanak',
+    description: 'x'.repeat(600),
+    price: 1_500_000_000,
+    propertyType: 'house',
+    listingType: 'sell',
+    area: 240,
+    houseDetails: { floors: 2, bedrooms: 3, bathrooms: 2, livingRooms: 1, kitchens: 1, parkingSpaces: 2 },
+    location: { coordinates: { type: 'Point', coordinates: [102.61234, 17.95678] } },
+    media: {
+      images: Array.from({ length: 8 }, (_, index) => `https://cdn.example.com/${index}.jpg`),
+      floorPlan: 'https://cdn.example.com/plan.jpg'
+    },
+    legalDocuments: { titleDeed: 'deed.pdf', constructionPermit: 'permit.pdf' }
+  })
+
+const scoreOf = (post: IPost, criterion: string) =>
+  ListingQualityService.evaluate(post).breakdown.find((item) => item.criterion === criterion)?.score
+
+describe('ListingQualityService.evaluate', () => {
+  it('gives a complete house listing full marks and no tips', () => {
+    const quality = ListingQualityService.evaluate(completeHouse())
+
+    assert.equal(quality.score, 100)
+    assert.deepEqual(quality.tips, [])
+    assert.ok(!quality.breakdown.some((item) => item.criterion === 'boundary'))
+  })
+
+  it('suggests what is missing on a bare listing', () => {
+    const quality = ListingQualityService.evaluate(new Post({ propertyType: 'house', listingType: 'sell' }))
+
+    assert.equal(quality.score, 0)
+    assert.deepEqual(
+      quality.tips.map((tip) => tip.criterion),
+      ['media', 'media', 'description', 'details', 'coordinates', 'legalDocuments']
+    )
+    assert.equal(quality.tips[0].message, 'Add 8 more photos (aim for at least 8)')
+    assert.deepEqual(quality.tips.find((tip) => tip.criterion === 'details')?.fields, [
+      'houseDetails.floors',
+      'houseDetails.bedrooms',
+      'houseDetails.bathrooms',
+      'houseDetails.livingRooms',
+      'houseDetails.kitchens',
+      'houseDetails.parkingSpaces'
+    ])
+  })
+
+  it('scores coordinates by precision and ignores pins outside Laos', () => {
+    const post = completeHouse()
+
+    post.set('location.coordinates.coordinates', [102.612, 17.957])
+    assert.equal(scoreOf(post, 'coordinates'), 5)
+
+    post.set('location.coordinates.coordinates', [0, 0])
+    assert.equal(scoreOf(post, 'coordinates'), 0)
+
+    post.set('location.coordinates.coordinates', [2.35, 48.85])
+    assert.equal(scoreOf(post, 'coordinates'), 0)
+  })
+
+  it('gives partial credit for a single legal document', () => {
+    const post = completeHouse()
+    post.set('legalDocuments', { titleDeed: 'deed.pdf' })
+
+    assert.equal(scoreOf(post, 'legalDocuments'), 10)
+    assert.ok(ListingQualityService.evaluate(post).tips.some((tip) => tip.criterion === 'legalDocuments'))
+  })
+
+  it('asks land listings for a boundary', () => {
+    const quality = ListingQualityService.evaluate(new Post({ propertyType: 'land', listingType: 'sell' }))
+
+    assert.deepEqual(quality.breakdown.find((item) => item.criterion === 'boundary'), {
+      criterion: 'boundary',
+      score: 0,
+      maxScore: 10
+    })
+    assert.ok(quality.tips.some((tip) => tip.message === 'Draw the land boundary on the map'))
+  })
+})
+
+describe('ListingQualityService.refresh', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('stores a changed score without touching updatedAt', async () => {
+    const post = completeHouse()
+    const updateOne = mock.method(
+      Post,
+      'updateOne',
+      async (_filter: unknown, _update: unknown, _options: unknown) => ({})
+    )
+
+    await ListingQualityService.refresh(post)
+
+    assert.equal(post.qualityScore, 100)
+    assert.deepEqual(updateOne.mock.calls[0].arguments[1], { $set: { qualityScore: 100 } })
+    assert.deepEqual(updateOne.mock.calls[0].arguments[2], { timestamps: false })
+
+    await ListingQualityService.refresh(post)
+    assert.equal(updateOne.mock.callCount(), 1)
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PostQueryHelper } from '@/services/PostQueryHelper'
+
+describe('PostQueryHelper.buildSortQuery', () => {
+  it('keeps the chosen sort first and breaks ties by quality score', () => {
+    assert.deepEqual(Object.entries(PostQueryHelper.buildSortQuery('price_asc')), [
+      ['basePrice', 1],
+      ['qualityScore', -1]
+    ])
+    assert.deepEqual(Object.entries(PostQueryHelper.buildSortQuery()), [
+      ['createdAt', -1],
+      ['qualityScore', -1]
+    ])
+  })
+
+  it('ranks boosted posts ahead of the default sort', () => {
+    const sort = PostQueryHelper.withBoostRanking(PostQueryHelper.buildSortQuery('newest'), 'feed')
+    assert.deepEqual(Object.keys(sort), ['boostRanks.feed', 'createdAt', 'qualityScore'])
+  })
+})
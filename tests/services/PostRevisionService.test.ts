@@ -0,0 +1,175 @@
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { Post } from '@/models/Post'
+import { PostRevision, IPostRevision, FieldChange, RevisionStatus } from '@/models/PostRevision'
+import { PostRevisionService } from '@/services/PostRevisionService'
+import { PriceHistoryService } from '@/services/PriceHistoryService'
+import { SimilarListingService } from '@/services/SimilarListingService'
+import { ListingQualityService } from '@/services/ListingQualityService'
+import { SeoService } from '@/services/SeoService'
+
+const POST_ID = '64b000000000000000000020'
+const USER_ID = '64b000000000000000000010'
+const ADMIN_ID = '64b000000000000000000001'
+
+const samplePost = () =>
+  new Post({
+    _id: POST_ID,
+    authorId: USER_ID,
+    status: 'approved',
+    title: 'House',
+    price: 100_000,
+    currency: 'USD',
+    area: 200,
+    location: { address: { street: 'Rue 13', district: 'Sisattanak', province: 'Vientiane Capital' } }
+  })
+
+const stubRevision = (status: RevisionStatus, changes: FieldChange[]): IPostRevision => {
+  const revision = new PostRevision({ postId: POST_ID, revisionNumber: 1, editedBy: USER_ID, changes, status })
+  mock.method(revision, 'save', async () => revision)
+  mock.method(PostRevision, 'findById', async () => revision)
+  return revision
+}
+
+// applyChanges: โหลดโพสต์ บันทึกการเปลี่ยนแปลง แล้วอัปเดตข้อมูลที่เกี่ยวข้อง
+const stubApply = () => {
+  const post = samplePost()
+  mock.method(Post, 'findById', async () => post)
+  mock.method(Post, 'updateOne', async () => ({ modifiedCount: 1 }))
+  mock.method(SimilarListingService, 'invalidate', async () => undefined)
+  mock.method(ListingQualityService, 'refresh', async () => post)
+  mock.method(SeoService, 'syncSlug', async () => post)
+  const recordPriceChange = mock.method(PriceHistoryService, 'recordPriceChange', async () => undefined)
+  const findByIdAndUpdate = mock.method(Post, 'findByIdAndUpdate', (_id: unknown, _update: unknown) => ({
+    populate: async () => post
+  }))
+  return { findByIdAndUpdate, recordPriceChange }
+}
+
+describe('PostRevisionService.isSensitiveField', () => {
+  it('flags price, currency, media, legal documents and location paths', () => {
+    assert.equal(PostRevisionService.isSensitiveField('price'), true)
+    assert.equal(PostRevisionService.isSensitiveField('location.address.street'), true)
+    assert.equal(PostRevisionService.isSensitiveField('media.images'), true)
+    assert.equal(PostRevisionService.isSensitiveField('legalDocuments.titleDeed'), true)
+  })
+
+  it('does not match fields that only share a prefix', () => {
+    assert.equal(PostRevisionService.isSensitiveField('title'), false)
+    assert.equal(PostRevisionService.isSensitiveField('pricePerUnit'), false)
+  })
+})
+
+describe('PostRevisionService.diffChanges', () => {
+  it('reports changed dot paths, including omitted nested fields', () => {
+    const changes = PostRevisionService.diffChanges(samplePost(), {
+      title: 'Renovated house',
+      price: '100000',
+      location: { address: { street: 'Rue 23', district: 'Sisattanak' } },
+      pricePerUnit: 1
+    })
+
+    assert.deepEqual(changes, [
+      { field: 'title', oldValue: 'House', newValue: 'Renovated house' },
+      { field: 'location.address.street', oldValue: 'Rue 13', newValue: 'Rue 23' },
+      { field: 'location.address.province', oldValue: 'Vientiane Capital', newValue: undefined },
+      { field: 'location.address.country', oldValue: 'Laos', newValue: undefined }
+    ])
+  })
+
+  it('coerces numeric strings against numeric fields', () => {
+    const changes = PostRevisionService.diffChanges(samplePost(), { price: '90000' })
+    assert.deepEqual(changes, [{ field: 'price', oldValue: 100_000, newValue: 90_000 }])
+  })
+})
+
+describe('PostRevisionService.createPendingRevision', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('supersedes the previous pending revision and links the new one to the post', async () => {
+    const updateMany = mock.method(PostRevision, 'updateMany', async (_filter: unknown, _update: unknown) => ({}))
+    mock.method(PostRevision, 'findOne', () => ({
+      sort: () => ({ lean: async () => ({ revisionNumber: 4 }) })
+    }))
+    const create = mock.method(PostRevision, 'create', async (doc: Record<string, unknown>) => ({
+      ...doc,
+      _id: 'revision-5'
+    }))
+    const updateOne = mock.method(Post, 'updateOne', async (_filter: unknown, _update: unknown) => ({}))
+
+    await PostRevisionService.createPendingRevision(POST_ID, USER_ID, [
+      { field: 'price', oldValue: 100_000, newValue: 90_000 }
+    ])
+
+    assert.deepEqual(updateMany.mock.calls[0].arguments, [
+      { postId: POST_ID, status: 'pending' },
+      { $set: { status: 'superseded' } }
+    ])
+    const doc = create.mock.calls[0].arguments[0] as Record<string, unknown>
+    assert.equal(doc.status, 'pending')
+    assert.equal(doc.revisionNumber, 5)
+    assert.equal(doc.sensitive, true)
+    assert.deepEqual(updateOne.mock.calls[0].arguments[1], { $set: { pendingRevisionId: 'revision-5' } })
+  })
+})
+
+describe('PostRevisionService.approveRevision', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('applies a held price change and records the drop', async () => {
+    const revision = stubRevision('pending', [{ field: 'price', oldValue: 100_000, newValue: 80_000 }])
+    const { findByIdAndUpdate, recordPriceChange } = stubApply()
+
+    const result = await PostRevisionService.approveRevision(String(revision._id), ADMIN_ID, 'ok')
+
+    const update = findByIdAndUpdate.mock.calls[0].arguments[1] as { $set: Record<string, unknown> }
+    assert.equal(update.$set.price, 80_000)
+    assert.equal(update.$set.pricePerUnit, 400)
+    const drop = update.$set.lastPriceDrop as { previousPrice: number; dropAmount: number }
+    assert.equal(drop.previousPrice, 100_000)
+    assert.equal(drop.dropAmount, 20_000)
+    assert.equal(recordPriceChange.mock.callCount(), 1)
+    assert.equal(result.revision.status, 'approved')
+    assert.equal(result.revision.reviewNote, 'ok')
+    assert.equal(result.post.pendingRevisionId, undefined)
+  })
+
+  it('only approves pending revisions', async () => {
+    const revision = stubRevision('applied', [])
+    await assert.rejects(
+      PostRevisionService.approveRevision(String(revision._id), ADMIN_ID),
+      /Only pending revisions can be approved/
+    )
+  })
+})
+
+describe('PostRevisionService.rollbackRevision', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('restores the previous values as a new applied revision', async () => {
+    const original = stubRevision('applied', [{ field: 'title', oldValue: 'House', newValue: 'Villa' }])
+    const { findByIdAndUpdate } = stubApply()
+    mock.method(PostRevision, 'findOne', () => ({
+      sort: () => ({ lean: async () => ({ revisionNumber: 1 }) })
+    }))
+    const create = mock.method(PostRevision, 'create', async (doc: Record<string, unknown>) => doc)
+
+    await PostRevisionService.rollbackRevision(String(original._id), ADMIN_ID)
+
+    const update = findByIdAndUpdate.mock.calls[0].arguments[1] as { $set: Record<string, unknown> }
+    assert.equal(update.$set.title, 'House')
+    const doc = create.mock.calls[0].arguments[0] as Record<string, unknown>
+    assert.equal(doc.status, 'applied')
+    assert.equal(doc.revisionNumber, 2)
+    assert.equal(String(doc.rollbackOf), String(original._id))
+    assert.equal(original.status, 'rolled_back')
+  })
+
+  it('refuses revisions that were never applied', async () => {
+    const revision = stubRevision('pending', [])
+    await assert.rejects(
+      PostRevisionService.rollbackRevision(String(revision._id), ADMIN_ID),
+      /Only applied or approved revisions can be rolled back/
+    )
+  })
+})
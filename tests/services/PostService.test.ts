@@ -0,0 +1,94 @@
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { Post, IPost } from '@/models/Post'
+import { PostRepository } from '@/repositories/PostRepository'
+import { PostService } from '@/services/PostService'
+import { SavedSearchService } from '@/services/SavedSearchService'
+import { SimilarListingService } from '@/services/SimilarListingService'
+
+const POST_ID = '64b000000000000000000020'
+const postService = new PostService()
+
+const completeDraft = () =>
+  new Post({
+    status: 'draft',
+    title: 'House in Sisattanak',
+    description: 'Two storey house',
+    price: 1_500_000_000,
+    propertyType: 'house',
+    listingType: 'sell',
+    area: 240,
+    location: {
+      address: { street: 'Rue 13', district: 'Sisattanak', province: 'Vientiane Capital' },
+      coordinates: { type: 'Point', coordinates: [102.61, 17.95] }
+    },
+    media: { images: ['https://cdn.example.com/1.jpg'] }
+  })
+
+describe('PostService.getDraftMissingFields', () => {
+  it('lists every required field of an empty draft', () => {
+    // listingType มีค่าเริ่มต้นใน schema
+    assert.deepEqual(postService.getDraftMissingFields(new Post({ status: 'draft' })), [
+      'title',
+      'description',
+      'price',
+      'propertyType',
+      'area',
+      'location.address.street',
+      'location.address.district',
+      'location.address.province',
+      'location.coordinates',
+      'media.images'
+    ])
+  })
+
+  it('returns nothing once the draft is complete', () => {
+    assert.deepEqual(postService.getDraftMissingFields(completeDraft()), [])
+  })
+
+  it('accepts a price of zero but not missing images', () => {
+    const draft = completeDraft()
+    draft.price = 0
+    draft.set('media.images', [])
+
+    assert.deepEqual(postService.getDraftMissingFields(draft), ['media.images'])
+  })
+})
+
+describe('PostService.approvePost', () => {
+  afterEach(() => mock.restoreAll())
+
+  const stubRepository = (status: IPost['status']) => {
+    mock.method(PostRepository.prototype, 'findById', async () => ({ status, listingType: 'rent' }))
+    mock.method(SavedSearchService, 'notifyMatchingSearches', async () => 0)
+    mock.method(SimilarListingService, 'invalidate', async () => undefined)
+    return mock.method(PostRepository.prototype, 'update', async (_id: string, data: Partial<IPost>) => data)
+  }
+
+  it('approves pending posts and sets their expiry', async () => {
+    const update = stubRepository('pending')
+
+    await postService.approvePost(POST_ID)
+
+    const data = update.mock.calls[0].arguments[1] as Partial<IPost>
+    assert.equal(data.status, 'approved')
+    assert.ok(data.expiresAt instanceof Date)
+  })
+
+  it('re-approves expired posts', async () => {
+    const update = stubRepository('expired')
+
+    await postService.approvePost(POST_ID)
+    assert.equal(update.mock.callCount(), 1)
+  })
+
+  it('refuses drafts and posts in other states', async () => {
+    for (const status of ['draft', 'approved', 'rejected', 'sold'] as const) {
+      const update = stubRepository(status)
+
+      await assert.rejects(postService.approvePost(POST_ID), /อนุมัติได้เฉพาะโพสต์ที่รอตรวจสอบหรือหมดอายุ/)
+      assert.equal(update.mock.callCount(), 0)
+      mock.restoreAll()
+    }
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PriceHistoryService } from '@/services/PriceHistoryService'
+
+describe('PriceHistoryService.buildPriceDrop', () => {
+  it('records a drop in the same currency', () => {
+    const drop = PriceHistoryService.buildPriceDrop(
+      { price: 200_000, currency: 'USD' },
+      { price: 150_000, currency: 'USD' }
+    )
+
+    assert.ok(drop)
+    assert.equal(drop.previousPrice, 200_000)
+    assert.equal(drop.dropAmount, 50_000)
+    assert.equal(drop.dropPercent, 25)
+  })
+
+  it('ignores price increases', () => {
+    const drop = PriceHistoryService.buildPriceDrop(
+      { price: 150_000, currency: 'USD' },
+      { price: 200_000, currency: 'USD' }
+    )
+    assert.equal(drop, null)
+  })
+
+  it('does not treat a currency change as a drop', () => {
+    const drop = PriceHistoryService.buildPriceDrop(
+      { price: 4_300_000_000, currency: 'LAK' },
+      { price: 200_000, currency: 'USD' }
+    )
+    assert.equal(drop, null)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { SavedSearchService } from '@/services/SavedSearchService'
+
+describe('SavedSearchService.sanitizeFilter', () => {
+  it('keeps only known fields and coerces query-string values', () => {
+    const filter = SavedSearchService.sanitizeFilter({
+      propertyType: ' house ',
+      province: '',
+      minPrice: '1000',
+      maxPrice: 'abc',
+      bedrooms: 3,
+      roadAccess: 'true',
+      urgent: 'false',
+      electricity: 'yes',
+      status: 'rejected',
+      sortBy: 'price_asc',
+      currency: 'usd',
+      areaUnit: 'Rai'
+    })
+
+    assert.deepEqual(filter, {
+      propertyType: 'house',
+      minPrice: 1000,
+      bedrooms: 3,
+      roadAccess: true,
+      urgent: false,
+      currency: 'USD',
+      areaUnit: 'rai'
+    })
+  })
+
+  it('drops unsupported currencies and units and tolerates non-objects', () => {
+    assert.deepEqual(SavedSearchService.sanitizeFilter({ currency: 'EUR', areaUnit: 'acre' }), {})
+    assert.deepEqual(SavedSearchService.sanitizeFilter(null), {})
+    assert.deepEqual(SavedSearchService.sanitizeFilter('house'), {})
+  })
+})
+
+describe('SavedSearchService.buildMatchQuery', () => {
+  it('matches approved posts with the saved filters', () => {
+    const query = SavedSearchService.buildMatchQuery({ propertyType: 'land', roadAccess: true, bedrooms: 2 })
+
+    assert.equal(query.status, 'approved')
+    assert.equal(query.propertyType, 'land')
+    assert.equal(query['landDetails.roadAccess'], true)
+    assert.equal(query['houseDetails.bedrooms'], 2)
+  })
+
+  it('compares prices in the base currency', () => {
+    const query = SavedSearchService.buildMatchQuery({ minPrice: 100_000, maxPrice: 200_000 })
+    assert.deepEqual(query.basePrice, { $gte: 100_000, $lte: 200_000 })
+  })
+
+  it('uses a $geoWithin circle for radius searches', () => {
+    const query = SavedSearchService.buildMatchQuery({ latitude: 17.97, longitude: 102.6, radius: 6378.1 })
+    const [center, radians] = query['location.coordinates'].$geoWithin.$centerSphere
+
+    assert.deepEqual(center, [102.6, 17.97])
+    assert.ok(Math.abs(radians - 0.001) < 1e-9)
+  })
+})
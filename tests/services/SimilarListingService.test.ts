@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '@/config'
+import { SimilarListingService } from '@/services/SimilarListingService'
+
+// 1 องศาละติจูด ≈ 111.195 กิโลเมตร
+const postAt = (kmNorth: number) => ({
+  propertyType: 'house',
+  basePrice: 1_000_000_000,
+  area: 300,
+  houseDetails: { bedrooms: 3 },
+  location: { coordinates: { type: 'Point', coordinates: [102.6331, 17.9757 + kmNorth / 111.195] } }
+})
+
+describe('SimilarListingService.scoreCandidate', () => {
+  it('reports distance in kilometres', () => {
+    const result = SimilarListingService.scoreCandidate(postAt(0), postAt(10))
+
+    assert.ok(result.distanceKm !== undefined)
+    assert.ok(Math.abs(result.distanceKm - 10) < 0.05, `distanceKm was ${result.distanceKm}`)
+    assert.ok(
+      Math.abs((result.breakdown.distance as number) - (1 - 10 / config.similarListings.maxDistanceKm)) < 0.01
+    )
+  })
+
+  it('gives no distance credit beyond the maximum distance', () => {
+    const result = SimilarListingService.scoreCandidate(postAt(0), postAt(config.similarListings.maxDistanceKm + 5))
+    assert.equal(result.breakdown.distance, 0)
+  })
+
+  it('scores identical nearby listings as fully similar', () => {
+    const result = SimilarListingService.scoreCandidate(postAt(0), postAt(0))
+    assert.equal(result.distanceKm, 0)
+    assert.equal(result.score, 1)
+  })
+})
@@ -0,0 +1,86 @@
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { ViewingSlot } from '@/models/ViewingSlot'
+import { ViewingAppointment, IViewingAppointment, ViewingStatus } from '@/models/ViewingAppointment'
+import { ViewingService } from '@/services/ViewingService'
+
+const HOUR_MS = 60 * 60 * 1000
+const SELLER_ID = '64b000000000000000000010'
+const BUYER_ID = '64b000000000000000000011'
+const POST_ID = '64b000000000000000000020'
+const SLOT_ID = '64b000000000000000000030'
+
+// นัดชม (save ถูกแทนที่ จึงไม่ต้องเชื่อมต่อฐานข้อมูล)
+const buildAppointment = (status: ViewingStatus, buyerId = BUYER_ID): IViewingAppointment => {
+  const startsAt = new Date(Date.now() + 24 * HOUR_MS)
+  const appointment = new ViewingAppointment({
+    postId: POST_ID,
+    slotId: SLOT_ID,
+    buyerId,
+    sellerId: SELLER_ID,
+    status,
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + HOUR_MS)
+  })
+  mock.method(appointment, 'save', async () => appointment)
+  return appointment
+}
+
+describe('ViewingService.confirmViewing', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('books the slot atomically and declines competing requests', async () => {
+    const appointment = buildAppointment('requested')
+    const competing = buildAppointment('requested', '64b000000000000000000012')
+    mock.method(ViewingAppointment, 'findById', async () => appointment)
+    const findOneAndUpdate = mock.method(
+      ViewingSlot,
+      'findOneAndUpdate',
+      async (_filter: unknown, _update: unknown) => ({ _id: SLOT_ID, status: 'booked' })
+    )
+    mock.method(ViewingAppointment, 'find', async () => [competing])
+
+    const confirmed = await ViewingService.confirmViewing(String(appointment._id), SELLER_ID)
+
+    const [filter, update] = findOneAndUpdate.mock.calls[0].arguments as [
+      { _id: unknown; status: string; startsAt: { $gt: Date } },
+      unknown
+    ]
+    assert.equal(String(filter._id), SLOT_ID)
+    assert.equal(filter.status, 'open')
+    assert.ok(filter.startsAt.$gt instanceof Date)
+    assert.deepEqual(update, { $set: { status: 'booked' } })
+    assert.equal(confirmed.status, 'confirmed')
+    assert.ok(confirmed.confirmedAt)
+    assert.equal(competing.status, 'declined')
+    assert.equal(competing.declineReason, 'This time slot has been booked')
+  })
+
+  it('leaves the request untouched when the slot was already taken', async () => {
+    const appointment = buildAppointment('requested')
+    mock.method(ViewingAppointment, 'findById', async () => appointment)
+    mock.method(ViewingSlot, 'findOneAndUpdate', async () => null)
+
+    await assert.rejects(
+      ViewingService.confirmViewing(String(appointment._id), SELLER_ID),
+      /Slot is no longer available/
+    )
+    assert.equal(appointment.status, 'requested')
+  })
+
+  it('only lets the seller confirm requested viewings', async () => {
+    const appointment = buildAppointment('requested')
+    mock.method(ViewingAppointment, 'findById', async () => appointment)
+
+    await assert.rejects(
+      ViewingService.confirmViewing(String(appointment._id), BUYER_ID),
+      /permission to respond/
+    )
+
+    appointment.status = 'confirmed'
+    await assert.rejects(
+      ViewingService.confirmViewing(String(appointment._id), SELLER_ID),
+      /Only requested viewings/
+    )
+  })
+})
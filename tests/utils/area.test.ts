@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AreaUtils } from '@/utils/area'
+
+describe('AreaUtils', () => {
+  it('parses unit names and aliases', () => {
+    assert.equal(AreaUtils.parseUnit('sqm'), 'sqm')
+    assert.equal(AreaUtils.parseUnit(' M2 '), 'sqm')
+    assert.equal(AreaUtils.parseUnit('ไร่'), 'rai')
+    assert.equal(AreaUtils.parseUnit('ha'), 'hectare')
+    assert.equal(AreaUtils.parseUnit('acre'), undefined)
+    assert.equal(AreaUtils.parseUnit(5), undefined)
+  })
+
+  it('converts to square meters', () => {
+    assert.equal(AreaUtils.toSquareMeters(250), 250)
+    assert.equal(AreaUtils.toSquareMeters(2, 'rai'), 3200)
+    assert.equal(AreaUtils.toSquareMeters(1.5, 'hectare'), 15000)
+  })
+
+  it('converts from square meters with unit precision', () => {
+    assert.equal(AreaUtils.fromSquareMeters(3200, 'rai'), 2)
+    assert.equal(AreaUtils.fromSquareMeters(1000, 'rai'), 0.625)
+    assert.equal(AreaUtils.fromSquareMeters(1234, 'hectare'), 0.1234)
+    assert.equal(AreaUtils.fromSquareMeters(100 / 3), 33.33)
+  })
+
+  it('round-trips between units', () => {
+    const sqm = AreaUtils.toSquareMeters(3.25, 'rai')
+    assert.equal(AreaUtils.fromSquareMeters(sqm, 'rai'), 3.25)
+  })
+
+  it('computes price per unit', () => {
+    assert.equal(AreaUtils.pricePerUnit(1_000_000, 400), 2500)
+    assert.equal(AreaUtils.pricePerUnit(1_000_000, 400, 'rai'), 4_000_000)
+    assert.equal(AreaUtils.pricePerUnit(1_000_000, 0), undefined)
+    assert.equal(AreaUtils.pricePerUnit(-1, 400), undefined)
+  })
+})
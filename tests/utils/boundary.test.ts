@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { BoundaryUtils } from '@/utils/boundary'
+
+// สี่เหลี่ยมประมาณ 100 x 100 เมตรในเวียงจันทน์
+const LNG = 102.6
+const LAT = 17.96
+const D_LAT = 100 / 111195
+const D_LNG = 100 / (111195 * Math.cos((LAT * Math.PI) / 180))
+
+const square: [number, number][] = [
+  [LNG, LAT],
+  [LNG + D_LNG, LAT],
+  [LNG + D_LNG, LAT + D_LAT],
+  [LNG, LAT + D_LAT],
+  [LNG, LAT]
+]
+
+describe('BoundaryUtils', () => {
+  it('accepts a closed ring inside Laos', () => {
+    assert.equal(BoundaryUtils.getError(square), undefined)
+  })
+
+  it('rejects malformed rings', () => {
+    assert.match(BoundaryUtils.getError(square.slice(0, 3)) as string, /at least 4 coordinate pairs/)
+    assert.match(BoundaryUtils.getError([[LNG, LAT], [LNG, 'x'], [LNG, LAT], [LNG, LAT]]) as string, /coordinate pairs/)
+    assert.match(BoundaryUtils.getError(square.slice(0, 4)) as string, /must be closed/)
+  })
+
+  it('rejects rings outside Laos', () => {
+    const bangkok = square.map(([lng, lat]) => [lng - 2.1, lat - 4.2])
+    assert.match(BoundaryUtils.getError(bangkok) as string, /inside Laos/)
+  })
+
+  it('rejects self-intersecting and collinear rings', () => {
+    const bowTie = [square[0], square[2], square[1], square[3], square[0]]
+    assert.match(BoundaryUtils.getError(bowTie) as string, /intersect itself/)
+
+    const line = [[LNG, LAT], [LNG + D_LNG, LAT], [LNG + 2 * D_LNG, LAT], [LNG, LAT]]
+    assert.match(BoundaryUtils.getError(line) as string, /enclose an area/)
+  })
+
+  it('measures geodesic area and perimeter', () => {
+    const { area, perimeter } = BoundaryUtils.measure(square)
+    assert.ok(Math.abs(area - 10_000) < 100, `area was ${area}`)
+    assert.ok(Math.abs(perimeter - 400) < 2, `perimeter was ${perimeter}`)
+  })
+
+  it('flags declared areas that differ by more than the mismatch ratio', () => {
+    assert.equal(BoundaryUtils.findAreaMismatch(10_000, 8_000), undefined)
+    assert.equal(BoundaryUtils.findAreaMismatch(10_000, undefined), undefined)
+    assert.deepEqual(BoundaryUtils.findAreaMismatch(10_000, 1_600), {
+      declaredArea: 1_600,
+      boundaryArea: 10_000,
+      ratio: 6.25
+    })
+    assert.match(
+      BoundaryUtils.describeAreaMismatch({ declaredArea: 1_600, boundaryArea: 10_000.4, ratio: 6.25 }),
+      /about 10000 sqm but the declared area is 1600 sqm/
+    )
+  })
+
+  it('builds a closed GeoJSON polygon feature', () => {
+    const feature = BoundaryUtils.toFeature({
+      _id: 'post-1',
+      title: 'Land in Xaythany',
+      area: 1_600,
+      location: { boundary: square.slice(0, 4) }
+    })
+
+    assert.ok(feature)
+    assert.equal(feature.geometry.type, 'Polygon')
+    assert.deepEqual(feature.geometry.coordinates, [square])
+    assert.equal(feature.properties.postId, 'post-1')
+    assert.equal(feature.properties.areaMismatch?.declaredArea, 1_600)
+    assert.equal(BoundaryUtils.toFeature({ _id: 'post-2', location: { boundary: square.slice(0, 3) } }), undefined)
+  })
+})
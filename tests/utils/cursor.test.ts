@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import mongoose from 'mongoose'
+import { CursorPagination } from '@/utils/cursor'
+
+describe('CursorPagination', () => {
+  it('clamps the page limit', () => {
+    assert.equal(CursorPagination.normalizeLimit('30'), 30)
+    assert.equal(CursorPagination.normalizeLimit('0'), 20)
+    assert.equal(CursorPagination.normalizeLimit('abc', 10), 10)
+    assert.equal(CursorPagination.normalizeLimit(1000), CursorPagination.MAX_LIMIT)
+  })
+
+  it('round-trips dates and plain values', () => {
+    const id = new mongoose.Types.ObjectId()
+    const createdAt = new Date('2026-03-01T08:30:00.000Z')
+
+    const dateCursor = CursorPagination.decode(CursorPagination.encode('createdAt', createdAt, id), 'createdAt')
+    assert.ok(dateCursor.value instanceof Date)
+    assert.equal(dateCursor.value.getTime(), createdAt.getTime())
+    assert.ok(dateCursor.id.equals(id))
+
+    const priceCursor = CursorPagination.decode(CursorPagination.encode('price', 1500, id), 'price')
+    assert.equal(priceCursor.value, 1500)
+  })
+
+  it('produces url-safe cursors', () => {
+    const cursor = CursorPagination.encode('title', 'ເຮືອນ ?&/+', new mongoose.Types.ObjectId())
+    assert.match(cursor, /^[A-Za-z0-9_-]+$/)
+  })
+
+  it('rejects cursors for another field or tampered input', () => {
+    const cursor = CursorPagination.encode('createdAt', new Date(), new mongoose.Types.ObjectId())
+
+    assert.throws(() => CursorPagination.decode(cursor, 'price'), /Invalid cursor/)
+    assert.throws(() => CursorPagination.decode('not-a-cursor', 'createdAt'), /Invalid cursor/)
+    const badId = Buffer.from(JSON.stringify({ f: 'createdAt', v: 1, id: 'x' })).toString('base64url')
+    assert.throws(() => CursorPagination.decode(badId, 'createdAt'), /Invalid cursor/)
+  })
+
+  it('builds the query after the cursor in the sort direction', () => {
+    const id = new mongoose.Types.ObjectId()
+    const cursor = CursorPagination.encode('price', 100, id)
+
+    assert.deepEqual(CursorPagination.buildQuery('price', 1), {})
+    assert.deepEqual(CursorPagination.buildQuery('price', -1, cursor), {
+      // มากไปน้อย: รายการที่ไม่มีค่าอยู่ท้ายสุด
+      $or: [{ price: { $lt: 100 } }, { price: 100, _id: { $lt: id } }, { price: null }]
+    })
+    assert.deepEqual(CursorPagination.buildQuery('price', 1, cursor), {
+      $or: [{ price: { $gt: 100 } }, { price: 100, _id: { $gt: id } }]
+    })
+    assert.deepEqual(CursorPagination.buildSort('price', 1), { price: 1, _id: 1 })
+  })
+
+  it('keeps missing sort values in the cursor and pages past them', () => {
+    const id = new mongoose.Types.ObjectId()
+    const cursor = CursorPagination.buildPage(
+      [{ _id: id }, { _id: new mongoose.Types.ObjectId() }],
+      1,
+      'basePrice'
+    ).cursor.nextCursor as string
+
+    assert.equal(CursorPagination.decode(cursor, 'basePrice').value, null)
+    // น้อยไปมาก: null มาก่อน ต่อด้วยค่าที่มีทั้งหมด
+    assert.deepEqual(CursorPagination.buildQuery('basePrice', 1, cursor), {
+      $or: [{ basePrice: { $ne: null } }, { basePrice: null, _id: { $gt: id } }]
+    })
+    // มากไปน้อย: null อยู่ท้ายสุด
+    assert.deepEqual(CursorPagination.buildQuery('basePrice', -1, cursor), {
+      $or: [{ basePrice: null, _id: { $lt: id } }]
+    })
+  })
+
+  it('trims the extra item and returns the next cursor', () => {
+    const items = [1, 2, 3].map((price) => ({ _id: new mongoose.Types.ObjectId(), price }))
+
+    const page = CursorPagination.buildPage(items, 2, 'price')
+    assert.equal(page.items.length, 2)
+    assert.equal(page.cursor.hasMore, true)
+    assert.equal(CursorPagination.decode(page.cursor.nextCursor as string, 'price').value, 2)
+
+    const last = CursorPagination.buildPage(items, 3, 'price')
+    assert.equal(last.cursor.hasMore, false)
+    assert.equal(last.cursor.nextCursor, null)
+  })
+})
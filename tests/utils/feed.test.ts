@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { FeedDocument, FeedListing, FeedUtils } from '@/utils/feed'
+
+const listing: FeedListing = {
+  id: '64b000000000000000000020',
+  url: 'https://example.com/posts/house-sisattanak',
+  title: 'House & garden <new>',
+  description: 'Two storey house',
+  price: 1_500_000_000,
+  currency: 'LAK',
+  propertyType: 'house',
+  listingType: 'sell',
+  area: 240,
+  bedrooms: 3,
+  address: { street: 'Rue 13', district: 'Sisattanak', province: 'Vientiane Capital', country: 'Laos' },
+  latitude: 17.95,
+  longitude: 102.61,
+  images: ['https://cdn.example.com/1.jpg'],
+  publishedAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-02T00:00:00.000Z')
+}
+
+const feed: FeedDocument = {
+  title: 'Listings',
+  siteUrl: 'https://example.com',
+  selfUrl: 'https://api.example.com/feeds/listings.xml?since=2026-01-01',
+  nextUrl: 'https://api.example.com/feeds/listings.xml?cursor=abc&limit=2',
+  generatedAt: new Date('2026-01-03T00:00:00.000Z'),
+  entries: [
+    { type: 'listing', listing },
+    {
+      type: 'tombstone',
+      tombstone: {
+        id: '64b000000000000000000021',
+        url: 'https://example.com/posts/64b000000000000000000021',
+        reason: 'sold',
+        removedAt: new Date('2026-01-02T12:00:00.000Z')
+      }
+    }
+  ]
+}
+
+describe('FeedUtils.escapeXml', () => {
+  it('escapes markup and strips control characters XML does not allow', () => {
+    assert.equal(FeedUtils.escapeXml(`a&b<c>"d"'e'\u0001\u000B`), 'a&amp;b&lt;c&gt;&quot;d&quot;&apos;e&apos;')
+    assert.equal(FeedUtils.escapeXml(12.5), '12.5')
+  })
+})
+
+describe('FeedUtils.buildXml', () => {
+  it('writes listings and deleted entries with a next link', () => {
+    const xml = FeedUtils.buildXml(feed)
+
+    assert.ok(xml.includes('next="https://api.example.com/feeds/listings.xml?cursor=abc&amp;limit=2"'))
+    assert.ok(xml.includes('<listing id="64b000000000000000000020" updatedAt="2026-01-02T00:00:00.000Z">'))
+    assert.ok(xml.includes('<title>House &amp; garden &lt;new&gt;</title>'))
+    assert.ok(xml.includes('<price currency="LAK">1500000000</price>'))
+    assert.ok(xml.includes('<location latitude="17.95" longitude="102.61"/>'))
+    assert.ok(!xml.includes('<usableArea'))
+    assert.ok(xml.includes('<deleted id="64b000000000000000000021" reason="sold" removedAt="2026-01-02T12:00:00.000Z"/>'))
+  })
+})
+
+describe('FeedUtils.buildJsonLines', () => {
+  it('writes one typed JSON object per line', () => {
+    const lines = FeedUtils.buildJsonLines(feed).trimEnd().split('\n').map((line) => JSON.parse(line))
+
+    assert.equal(lines.length, 2)
+    assert.equal(lines[0].type, 'listing')
+    assert.equal(lines[0].id, listing.id)
+    assert.deepEqual(lines[1], {
+      type: 'tombstone',
+      id: '64b000000000000000000021',
+      url: 'https://example.com/posts/64b000000000000000000021',
+      reason: 'sold',
+      removedAt: '2026-01-02T12:00:00.000Z'
+    })
+  })
+})
+
+describe('FeedUtils.buildRss', () => {
+  it('marks removed listings with a removed category', () => {
+    const rss = FeedUtils.buildRss(feed)
+
+    assert.ok(rss.includes('<atom:link rel="next"'))
+    assert.ok(rss.includes('<georss:point>17.95 102.61</georss:point>'))
+    assert.ok(rss.includes('<category>removed</category>'))
+    assert.ok(rss.includes('<title>Listing removed (sold)</title>'))
+  })
+})
+
+describe('FeedUtils.buildAtom', () => {
+  it('uses RFC 6721 deleted entries for tombstones', () => {
+    const atom = FeedUtils.buildAtom(feed)
+
+    assert.ok(atom.includes('<id>https://api.example.com/feeds/listings.xml</id>'))
+    assert.ok(atom.includes('<id>https://example.com/posts/house-sisattanak</id>'))
+    assert.ok(
+      atom.includes(
+        '<at:deleted-entry ref="https://example.com/posts/64b000000000000000000021" when="2026-01-02T12:00:00.000Z">'
+      )
+    )
+    assert.ok(atom.includes('<at:comment>sold</at:comment>'))
+  })
+})
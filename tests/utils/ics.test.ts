@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { IcsUtils } from '@/utils/ics'
+
+describe('IcsUtils.formatDate', () => {
+  it('formats dates as UTC basic format without milliseconds', () => {
+    assert.equal(IcsUtils.formatDate(new Date('2026-01-19T07:30:45.123Z')), '20260119T073045Z')
+  })
+})
+
+describe('IcsUtils.escapeText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    assert.equal(IcsUtils.escapeText('a\\b;c,d\r\ne\nf'), 'a\\\\b\\;c\\,d\\ne\\nf')
+  })
+})
+
+describe('IcsUtils.foldLine', () => {
+  it('leaves short lines untouched', () => {
+    assert.equal(IcsUtils.foldLine('SUMMARY:House'), 'SUMMARY:House')
+  })
+
+  it('folds at 75 octets without splitting multi-byte characters', () => {
+    const line = `SUMMARY:${'ບ'.repeat(40)}`
+    const parts = IcsUtils.foldLine(line).split('\r\n')
+
+    assert.ok(parts.length > 1)
+    assert.ok(parts.every((part) => Buffer.byteLength(part, 'utf8') <= 75))
+    assert.ok(parts.slice(1).every((part) => part.startsWith(' ')))
+    assert.equal(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join(''), line)
+  })
+})
+
+describe('IcsUtils.buildCalendar', () => {
+  it('builds a single CRLF-terminated event with optional fields', () => {
+    const ics = IcsUtils.buildCalendar({
+      uid: 'viewing-1@example.com',
+      startsAt: new Date('2026-01-19T07:30:00.000Z'),
+      endsAt: new Date('2026-01-19T08:00:00.000Z'),
+      summary: 'Viewing: House, Sisattanak',
+      location: 'Rue 13',
+      geo: { lat: 17.95, lng: 102.61 }
+    })
+    const lines = ics.split('\r\n')
+
+    assert.ok(ics.endsWith('END:VCALENDAR\r\n'))
+    assert.equal(lines[0], 'BEGIN:VCALENDAR')
+    assert.ok(lines.includes('UID:viewing-1@example.com'))
+    assert.ok(lines.includes('DTSTART:20260119T073000Z'))
+    assert.ok(lines.includes('DTEND:20260119T080000Z'))
+    assert.ok(lines.includes('SUMMARY:Viewing: House\\, Sisattanak'))
+    assert.ok(lines.includes('GEO:17.95;102.61'))
+    assert.ok(!lines.some((line) => line.startsWith('DESCRIPTION:') || line.startsWith('URL:')))
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { SlugUtils } from '@/utils/slug'
+
+describe('SlugUtils', () => {
+  it('lowercases and joins words with dashes', () => {
+    assert.equal(SlugUtils.slugify('  Modern House, Vientiane!  '), 'modern-house-vientiane')
+    assert.equal(SlugUtils.slugify('Land 1,600 sqm -- Xaythany'), 'land-1-600-sqm-xaythany')
+  })
+
+  it('strips Latin accents', () => {
+    assert.equal(SlugUtils.slugify('Café Résidence'), 'cafe-residence')
+  })
+
+  it('keeps Lao and Thai vowels and tone marks', () => {
+    assert.equal(SlugUtils.slugify('ເຮືອນ ຂາຍ ວຽງຈັນ'), 'ເຮືອນ-ຂາຍ-ວຽງຈັນ')
+    assert.equal(SlugUtils.slugify('บ้านเดี่ยว ใกล้ตลาด'), 'บ้านเดี่ยว-ใกล้ตลาด')
+  })
+
+  it('truncates at a word boundary', () => {
+    const slug = SlugUtils.slugify('spacious family villa with large garden near the river', 30)
+    assert.ok(slug.length <= 30)
+    assert.equal(slug, 'spacious-family-villa-with')
+  })
+
+  it('adds and recognises numeric suffixes', () => {
+    assert.equal(SlugUtils.withSuffix('house-vientiane', 1), 'house-vientiane')
+    assert.equal(SlugUtils.withSuffix('house-vientiane', 3), 'house-vientiane-3')
+    assert.equal(SlugUtils.matchesBase('house-vientiane-3', 'house-vientiane'), true)
+    assert.equal(SlugUtils.matchesBase('house-vientiane', 'house-vientiane'), true)
+    assert.equal(SlugUtils.matchesBase('house-vientiane-center', 'house-vientiane'), false)
+    assert.equal(SlugUtils.matchesBase('land-1-2', 'land-1.2'), false)
+  })
+})
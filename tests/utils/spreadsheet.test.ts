@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { deflateRawSync } from 'zlib'
+import { SpreadsheetUtils } from '@/utils/spreadsheet'
+
+// สร้าง ZIP ขนาดเล็ก (deflate, ไม่คำนวณ CRC เพราะ parser ไม่ได้ตรวจ) สำหรับทดสอบ XLSX
+const buildZip = (files: Record<string, string>, declaredSize?: number): Buffer => {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBuffer = Buffer.from(name)
+    const data = deflateRawSync(Buffer.from(content))
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(Buffer.byteLength(content), 22)
+    local.writeUInt16LE(nameBuffer.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(declaredSize ?? Buffer.byteLength(content), 24)
+    central.writeUInt16LE(nameBuffer.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    locals.push(local, nameBuffer, data)
+    centrals.push(central, nameBuffer)
+    offset += local.length + nameBuffer.length + data.length
+  })
+
+  const centralDirectory = Buffer.concat(centrals)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(Object.keys(files).length, 8)
+  eocd.writeUInt16LE(Object.keys(files).length, 10)
+  eocd.writeUInt32LE(centralDirectory.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, centralDirectory, eocd])
+}
+
+describe('SpreadsheetUtils', () => {
+  it('detects the format from the file name or mimetype', () => {
+    assert.equal(SpreadsheetUtils.detectFormat('listings.CSV'), 'csv')
+    assert.equal(SpreadsheetUtils.detectFormat('upload', 'text/csv'), 'csv')
+    assert.equal(SpreadsheetUtils.detectFormat('listings.xlsx'), 'xlsx')
+    assert.equal(SpreadsheetUtils.detectFormat('listings.xls'), undefined)
+  })
+
+  it('parses quoted CSV fields with BOM, CRLF and embedded newlines', () => {
+    const csv = '\uFEFFtitle,price,description\r\n"House, Sikhottabong",1500,"Two ""big"" rooms\nwith garden"\r\nLand,900,\r\n'
+
+    assert.deepEqual(SpreadsheetUtils.parseCsv(Buffer.from(csv)), [
+      ['title', 'price', 'description'],
+      ['House, Sikhottabong', '1500', 'Two "big" rooms\nwith garden'],
+      ['Land', '900', '']
+    ])
+  })
+
+  it('uses semicolons when the header line is semicolon separated', () => {
+    const csv = 'title;price\nCondo;2,5\n'
+    assert.deepEqual(SpreadsheetUtils.parseCsv(Buffer.from(csv)), [
+      ['title', 'price'],
+      ['Condo', '2,5']
+    ])
+  })
+
+  it('splits headers from rows and keeps the file row numbers', () => {
+    const csv = ' title , price\n\nHouse,100\n,\nLand,200\n'
+    const table = SpreadsheetUtils.parse(Buffer.from(csv), 'csv')
+
+    assert.deepEqual(table.headers, ['title', 'price'])
+    assert.deepEqual(table.rows, [['House', '100'], ['Land', '200']])
+    assert.deepEqual(table.rowNumbers, [3, 5])
+  })
+
+  it('round-trips CSV written by toCsv', () => {
+    const rows = [['title', 'price'], ['Villa "A", Dongdok', 2500], ['ເຮືອນ', 10]]
+    const parsed = SpreadsheetUtils.parseCsv(Buffer.from(SpreadsheetUtils.toCsv(rows)))
+    assert.deepEqual(parsed, rows.map((row) => row.map(String)))
+  })
+
+  it('reads the first worksheet of an XLSX file', () => {
+    const xlsx = buildZip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Listings" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>title</t></si><si><t>price</t></si><si><r><t>House &amp; </t></r><r><t>garden</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+        '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="C3"><v>1500</v></c></row>' +
+        '<row r="4"><c r="A4" t="inlineStr"><is><t>ທີ່ດິນ</t></is></c><c r="B4"><f>B3*2</f><v>3000</v></c></row>' +
+        '</sheetData></worksheet>'
+    })
+
+    const table = SpreadsheetUtils.parse(xlsx, 'xlsx')
+    assert.deepEqual(table.headers, ['title', 'price'])
+    assert.deepEqual(table.rows, [['House & garden', '', '1500'], ['ທີ່ດິນ', '3000']])
+    assert.deepEqual(table.rowNumbers, [3, 4])
+  })
+
+  it('rejects files that are not ZIP archives', () => {
+    assert.throws(() => SpreadsheetUtils.parseXlsx(Buffer.from('title,price\n')), /Invalid XLSX file/)
+  })
+
+  it('rejects archives with too many entries', () => {
+    const files: Record<string, string> = {}
+    for (let i = 0; i <= 1000; i++) files[`xl/media/${i}.xml`] = ''
+
+    assert.throws(() => SpreadsheetUtils.parseXlsx(buildZip(files)), /too many entries/)
+  })
+
+  it('rejects entries that declare or inflate past the size limit', () => {
+    const sheet = '<worksheet><sheetData></sheetData></worksheet>'
+    assert.throws(
+      () => SpreadsheetUtils.parseXlsx(buildZip({ 'xl/worksheets/sheet1.xml': sheet }, 60 * 1024 * 1024)),
+      /too large/
+    )
+
+    // ขนาดที่ระบุไว้เล็ก แต่ข้อมูลจริงแตกออกมาเกิน 50 MB
+    const bomb = buildZip({ 'xl/worksheets/sheet1.xml': ' '.repeat(51 * 1024 * 1024) }, 100)
+    assert.throws(() => SpreadsheetUtils.parseXlsx(bomb), /too large/)
+  })
+})